@@ -16,6 +16,7 @@ import HistoryPage from './pages/HistoryPage';
 import VideoPlayerPage from './pages/VideoPlayerPage';
 import ManagementPage from './pages/ManagementPage'; 
 import LiteModePage from './pages/LiteModePage';
+import OfflinePage from './pages/OfflinePage';
 import DataSyncPage from './components/DataSyncPage'; // Import DataSyncPage
 import { useTheme } from './hooks/useTheme';
 import { AiProvider } from './contexts/AiContext';
@@ -23,6 +24,9 @@ import { usePreference } from './contexts/PreferenceContext';
 import HistoryDeletionModal from './components/HistoryDeletionModal';
 import SearchHistoryDeletionModal from './components/SearchHistoryDeletionModal';
 import UpdateAnnouncementModal from './components/UpdateAnnouncementModal';
+import AudioMiniPlayer from './components/AudioMiniPlayer';
+import PlayerHost from './components/PlayerHost';
+import ShortcutHelpModal from './components/ShortcutHelpModal';
 
 const App: React.FC = () => {
   const { theme } = useTheme();
@@ -134,6 +138,8 @@ const App: React.FC = () => {
         <div className="flex">
             {shouldShowSidebar() && <Sidebar isOpen={isSidebarOpen} />}
             <main className={`flex-1 mt-14 ${!isOnline ? 'pt-6' : ''} ${mainContentMargin} ${mainContentPadding} transition-all duration-300 ease-in-out ml-0 overflow-x-hidden animate-fade-in-main`}>
+            {/* Above the routes so playback survives navigation; it positions itself over the watch page's slot */}
+            <PlayerHost />
             <Routes>
                 <Route path="/" element={<HomePage />} />
                 <Route path="/watch/:videoId" element={<VideoPlayerPage />} />
@@ -145,13 +151,16 @@ const App: React.FC = () => {
                 <Route path="/shorts/*" element={<ShortsPage />} />
                 <Route path="/subscriptions" element={<SubscriptionsPage />} />
                 <Route path="/history" element={<HistoryPage />} />
+                <Route path="/offline" element={<OfflinePage />} />
                 <Route path="/management" element={<ManagementPage />} />
                 <Route path="/datasync" element={<DataSyncPage />} /> {/* Route registration */}
                 <Route path="*" element={<HomePage />} />
             </Routes>
             </main>
         </div>
+        <AudioMiniPlayer />
         <BottomNavigation />
+        <ShortcutHelpModal />
         {isHistoryDeletionModalOpen && (
             <HistoryDeletionModal 
             isOpen={isHistoryDeletionModalOpen} 
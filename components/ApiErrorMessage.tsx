@@ -0,0 +1,58 @@
+import React from 'react';
+import { Link } from 'react-router-dom';
+import { isApiError, RateLimitedError, type ApiErrorKind } from '../utils/errors';
+
+interface ApiErrorMessageProps {
+    error: unknown;
+    onRetry?: () => void;
+    // Page on youtube.com for content that only YouTube itself can show (age-restricted)
+    youtubeUrl?: string;
+}
+
+const MESSAGES: Record<ApiErrorKind, { title: string; description: string }> = {
+    notFound: { title: '見つかりませんでした', description: '削除されたか、URLが間違っている可能性があります。' },
+    private: { title: '非公開のコンテンツです', description: '投稿者によって非公開に設定されているため表示できません。' },
+    ageRestricted: { title: '年齢制限のあるコンテンツです', description: 'ログインが必要なため、このアプリでは再生できません。' },
+    rateLimited: { title: 'アクセスが集中しています', description: 'サーバーへのリクエストが制限されています。しばらく待ってから再試行してください。' },
+    upstream: { title: 'サーバーでエラーが発生しました', description: '時間をおいて再試行するか、サーバー設定で別のサーバーを追加してください。' },
+    network: { title: 'ネットワークに接続できません', description: 'インターネット接続を確認してから再試行してください。' },
+    parse: { title: 'データを読み込めませんでした', description: 'サーバーの応答形式が変わった可能性があります。詳細は「設定と管理」のデータ解析の状態で確認できます。' },
+};
+
+// Retrying is pointless for errors that are the same on every server.
+const RETRYABLE: ApiErrorKind[] = ['rateLimited', 'upstream', 'network', 'parse'];
+
+const ApiErrorMessage: React.FC<ApiErrorMessageProps> = ({ error, onRetry, youtubeUrl }) => {
+    const kind = isApiError(error) ? error.kind : null;
+    const { title, description } = kind ? MESSAGES[kind] : { title: '読み込みに失敗しました', description: error instanceof Error ? error.message : String(error) };
+    const canRetry = !!onRetry && (kind === null || RETRYABLE.includes(kind));
+    const waitSec = error instanceof RateLimitedError && error.retryAfterMs ? Math.ceil(error.retryAfterMs / 1000) : null;
+
+    return (
+        <div className="max-w-lg mx-auto my-8 p-6 text-center bg-yt-light dark:bg-yt-dark-gray rounded-xl">
+            <h2 className="text-lg font-bold text-black dark:text-white mb-2">{title}</h2>
+            <p className="text-sm text-yt-light-gray">{description}</p>
+            {waitSec !== null && <p className="text-sm text-yt-light-gray mt-1">約{waitSec}秒後に再試行できます。</p>}
+            {kind && kind !== 'notFound' && kind !== 'private' && isApiError(error) && (
+                <p className="text-xs text-yt-light-gray font-mono mt-2 truncate" title={error.message}>{error.message}</p>
+            )}
+            <div className="flex flex-wrap justify-center gap-2 mt-4">
+                {canRetry && (
+                    <button onClick={onRetry} className="px-4 py-2 text-sm font-semibold bg-yt-blue text-white rounded-full hover:opacity-90 transition-opacity">
+                        再試行
+                    </button>
+                )}
+                {kind === 'ageRestricted' && youtubeUrl && (
+                    <a href={youtubeUrl} target="_blank" rel="noreferrer" className="px-4 py-2 text-sm font-semibold bg-yt-blue text-white rounded-full hover:opacity-90 transition-opacity">
+                        YouTubeで開く
+                    </a>
+                )}
+                <Link to="/" className="px-4 py-2 text-sm font-semibold bg-yt-white dark:bg-yt-light-black rounded-full hover:bg-gray-200 dark:hover:bg-gray-700 transition-colors">
+                    ホームに戻る
+                </Link>
+            </div>
+        </div>
+    );
+};
+
+export default ApiErrorMessage;
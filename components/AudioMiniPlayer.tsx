@@ -0,0 +1,57 @@
+import React from 'react';
+import { Link } from 'react-router-dom';
+import { useAudioPlayer } from '../contexts/AudioPlayerContext';
+import { usePlayerTime } from '../hooks/usePlayerTime';
+import { formatDuration } from '../utils/format';
+import { PlayIcon, PauseIcon, SkipNextIcon, SkipPreviousIcon, RepeatIcon, CloseIcon, HeadphonesIcon } from './icons/Icons';
+
+// Bar for the audio-only mode; rendered outside the routes so it stays while browsing.
+const AudioMiniPlayer: React.FC = () => {
+  const { track, playlistId, controller, isPlaying, isLoading, error, isRepeat, hasNext, hasPrevious, togglePlay, next, previous, toggleRepeat, stop } = useAudioPlayer();
+  const currentTime = usePlayerTime(track ? controller : null);
+  if (!track) return null;
+
+  const duration = controller?.getDuration() || 0;
+  const watchUrl = `/watch/${track.id}?t=${Math.floor(currentTime)}${playlistId ? `&list=${playlistId}` : ''}`;
+
+  const handleSeek = (event: React.MouseEvent<HTMLDivElement>) => {
+    if (!controller || duration <= 0) return;
+    const rect = event.currentTarget.getBoundingClientRect();
+    controller.seek((event.clientX - rect.left) / rect.width * duration);
+  };
+
+  return (
+    <div className="fixed z-50 bottom-12 md:bottom-4 left-0 right-0 md:left-auto md:right-4 md:w-[420px] bg-yt-white dark:bg-yt-light-black md:rounded-xl shadow-2xl border border-yt-spec-light-20 dark:border-yt-spec-20 overflow-hidden">
+      <div className="h-1.5 bg-yt-spec-light-20 dark:bg-yt-spec-20 cursor-pointer" onClick={handleSeek}>
+        <div className="h-full bg-yt-red" style={{ width: `${duration > 0 ? Math.min(currentTime / duration * 100, 100) : 0}%` }} />
+      </div>
+      <div className="flex items-center gap-3 p-2">
+        <Link to={watchUrl} onClick={stop} className="relative w-12 h-12 flex-shrink-0 rounded-md overflow-hidden bg-black" title="動画で見る">
+          <img src={track.thumbnailUrl} alt="" className="w-full h-full object-cover" />
+          <div className="absolute bottom-0.5 right-0.5 bg-black/70 rounded p-0.5">
+            <HeadphonesIcon className="w-3 h-3 fill-current text-white" />
+          </div>
+        </Link>
+        <div className="flex-1 min-w-0">
+          <p className="text-sm font-semibold truncate">{track.title}</p>
+          <p className="text-xs text-yt-light-gray truncate">
+            {error ? <span className="text-red-500">{error}</span> : isLoading ? '読み込み中...' : `${formatDuration(Math.floor(currentTime))} / ${formatDuration(Math.floor(duration))} • ${track.channelName}`}
+          </p>
+        </div>
+        <div className="flex items-center flex-shrink-0">
+          <button onClick={previous} disabled={!hasPrevious && currentTime < 1} className="p-1.5 rounded-full hover:bg-yt-spec-light-10 dark:hover:bg-yt-spec-10 disabled:opacity-30" title="前へ"><SkipPreviousIcon /></button>
+          <button onClick={togglePlay} className="p-1.5 rounded-full hover:bg-yt-spec-light-10 dark:hover:bg-yt-spec-10" title={isPlaying ? '一時停止' : '再生'}>
+            {isPlaying ? <PauseIcon /> : <PlayIcon />}
+          </button>
+          <button onClick={next} disabled={!hasNext} className="p-1.5 rounded-full hover:bg-yt-spec-light-10 dark:hover:bg-yt-spec-10 disabled:opacity-30" title="次へ"><SkipNextIcon /></button>
+          <button onClick={toggleRepeat} className="p-1.5 rounded-full hover:bg-yt-spec-light-10 dark:hover:bg-yt-spec-10" title="リピート">
+            <RepeatIcon className={`w-6 h-6 fill-current ${isRepeat ? 'text-yt-blue' : 'text-black dark:text-white'}`} />
+          </button>
+          <button onClick={stop} className="p-1.5 rounded-full hover:bg-yt-spec-light-10 dark:hover:bg-yt-spec-10" title="閉じる"><CloseIcon /></button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default AudioMiniPlayer;
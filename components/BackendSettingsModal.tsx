@@ -0,0 +1,185 @@
+import React, { useState } from 'react';
+import { createPortal } from 'react-dom';
+import { usePreference } from '../contexts/PreferenceContext';
+import { verifyBackend, type BackendCheck } from '../utils/api';
+import { BACKEND_KIND_LABELS, normalizeBaseUrl, type BackendKind, type BackendProfile } from '../utils/backendProfiles';
+import { DIALECT_LABELS, type BackendDialect } from '../utils/adapters';
+import { CloseIcon, TrashIcon, ChevronLeftIcon, ChevronRightIcon, RepeatIcon, SettingsIcon } from './icons/Icons';
+
+interface BackendSettingsModalProps {
+    isOpen: boolean;
+    onClose: () => void;
+}
+
+const KINDS: BackendKind[] = ['video', 'channelHome', 'auth'];
+const DIALECTS: BackendDialect[] = ['youtubei', 'invidious', 'piped'];
+
+const CheckList: React.FC<{ checks: BackendCheck[] }> = ({ checks }) => (
+    <ul className="mt-2 space-y-1">
+        {checks.map(check => (
+            <li key={check.endpoint} className="flex items-center justify-between gap-2 text-xs">
+                <span className="font-mono truncate text-yt-light-gray" title={check.endpoint}>{check.endpoint}</span>
+                <span className={`flex-shrink-0 ${check.ok ? 'text-green-600 dark:text-green-400' : 'text-red-500'}`}>{check.ok ? 'OK' : check.message}</span>
+            </li>
+        ))}
+    </ul>
+);
+
+const BackendSettingsModal: React.FC<BackendSettingsModalProps> = ({ isOpen, onClose }) => {
+    const { backendProfiles, addBackendProfile, removeBackendProfile, moveBackendProfile, toggleBackendProfile } = usePreference();
+    const [kind, setKind] = useState<BackendKind>('video');
+    const [dialect, setDialect] = useState<BackendDialect>('youtubei');
+    const [url, setUrl] = useState('');
+    const [isVerifying, setIsVerifying] = useState(false);
+    const [addResult, setAddResult] = useState<{ ok: boolean; checks: BackendCheck[] } | null>(null);
+    const [testingId, setTestingId] = useState<string | null>(null);
+    const [testResults, setTestResults] = useState<Record<string, BackendCheck[]>>({});
+
+    if (!isOpen) return null;
+
+    const handleAdd = async (e: React.FormEvent) => {
+        e.preventDefault();
+        const baseUrl = normalizeBaseUrl(url);
+        if (!baseUrl) return;
+        if (backendProfiles.some(p => p.kind === kind && p.baseUrl === baseUrl)) {
+            setAddResult({ ok: false, checks: [{ endpoint: baseUrl, ok: false, message: '登録済みです' }] });
+            return;
+        }
+        setIsVerifying(true);
+        setAddResult(null);
+        try {
+            const result = await verifyBackend(kind, baseUrl, dialect);
+            setAddResult(result);
+            if (result.ok) {
+                addBackendProfile(kind, baseUrl, dialect);
+                setUrl('');
+            }
+        } finally {
+            setIsVerifying(false);
+        }
+    };
+
+    const handleTest = async (profile: BackendProfile) => {
+        setTestingId(profile.id);
+        try {
+            const result = await verifyBackend(profile.kind, profile.baseUrl, profile.dialect);
+            setTestResults(prev => ({ ...prev, [profile.id]: result.checks }));
+        } finally {
+            setTestingId(null);
+        }
+    };
+
+    return createPortal(
+        <div className="fixed inset-0 bg-black/60 backdrop-blur-sm z-[2000] flex items-center justify-center animate-fade-in" onClick={onClose}>
+            <div className="bg-yt-white dark:bg-yt-light-black w-full max-w-lg max-h-[90vh] flex flex-col rounded-xl shadow-2xl overflow-hidden animate-scale-in border border-yt-spec-light-20 dark:border-yt-spec-20" onClick={e => e.stopPropagation()}>
+
+                {/* Header */}
+                <div className="p-4 border-b border-yt-spec-light-20 dark:border-yt-spec-20 flex justify-between items-center bg-yt-light/30 dark:bg-black/20">
+                    <h2 className="text-lg font-bold text-black dark:text-white flex items-center gap-2">
+                        <SettingsIcon /> サーバー設定
+                    </h2>
+                    <button onClick={onClose} className="p-2 rounded-full hover:bg-yt-spec-light-10 dark:hover:bg-yt-spec-20 transition-colors">
+                        <CloseIcon />
+                    </button>
+                </div>
+
+                <div className="p-4 overflow-y-auto custom-scrollbar space-y-6">
+                    <p className="text-sm text-yt-light-gray">追加したサーバーは上から順に、標準のサーバーより優先して使われます。</p>
+
+                    {KINDS.map(k => {
+                        const profiles = backendProfiles.filter(p => p.kind === k);
+                        return (
+                            <section key={k}>
+                                <h3 className="text-sm font-bold text-black dark:text-white mb-2">{BACKEND_KIND_LABELS[k]}</h3>
+                                {profiles.length === 0 ? (
+                                    <p className="text-xs text-yt-light-gray">標準のサーバーを使用中</p>
+                                ) : (
+                                    <div className="space-y-2">
+                                        {profiles.map((profile, index) => (
+                                            <div key={profile.id} className="p-3 bg-yt-light dark:bg-yt-dark-gray rounded-lg">
+                                                <div className="flex items-center gap-2">
+                                                    <input
+                                                        type="checkbox"
+                                                        checked={profile.enabled}
+                                                        onChange={() => toggleBackendProfile(profile.id)}
+                                                        className="accent-yt-blue flex-shrink-0"
+                                                        title="有効/無効"
+                                                    />
+                                                    <span className={`flex-1 text-sm truncate ${profile.enabled ? 'text-black dark:text-white' : 'text-yt-light-gray line-through'}`} title={profile.baseUrl}>
+                                                        {profile.baseUrl.replace(/^https?:\/\//, '')}
+                                                    </span>
+                                                    {profile.kind === 'video' && <span className="text-xs text-yt-light-gray flex-shrink-0">{DIALECT_LABELS[profile.dialect || 'youtubei']}</span>}
+                                                    <button onClick={() => moveBackendProfile(profile.id, -1)} disabled={index === 0} className="p-1 rounded-full hover:bg-black/10 dark:hover:bg-white/10 disabled:opacity-30" title="上へ">
+                                                        <span className="block rotate-90"><ChevronLeftIcon /></span>
+                                                    </button>
+                                                    <button onClick={() => moveBackendProfile(profile.id, 1)} disabled={index === profiles.length - 1} className="p-1 rounded-full hover:bg-black/10 dark:hover:bg-white/10 disabled:opacity-30" title="下へ">
+                                                        <span className="block rotate-90"><ChevronRightIcon /></span>
+                                                    </button>
+                                                    <button onClick={() => handleTest(profile)} disabled={testingId === profile.id} className="p-1 rounded-full hover:bg-black/10 dark:hover:bg-white/10 disabled:opacity-50" title="接続テスト">
+                                                        <RepeatIcon className={`w-4 h-4 fill-current ${testingId === profile.id ? 'animate-spin' : ''}`} />
+                                                    </button>
+                                                    <button onClick={() => removeBackendProfile(profile.id)} className="p-1 rounded-full hover:bg-black/10 dark:hover:bg-white/10 text-red-500" title="削除">
+                                                        <TrashIcon />
+                                                    </button>
+                                                </div>
+                                                {testResults[profile.id] && <CheckList checks={testResults[profile.id]} />}
+                                            </div>
+                                        ))}
+                                    </div>
+                                )}
+                            </section>
+                        );
+                    })}
+
+                    <form onSubmit={handleAdd} className="pt-4 border-t border-yt-spec-light-20 dark:border-yt-spec-20 space-y-3">
+                        <h3 className="text-sm font-bold text-black dark:text-white">サーバーを追加</h3>
+                        <div className="flex gap-2">
+                            <select
+                                value={kind}
+                                onChange={e => { setKind(e.target.value as BackendKind); setAddResult(null); }}
+                                className="px-3 py-2 text-sm bg-yt-light dark:bg-yt-dark-gray rounded-lg border border-transparent focus:border-yt-blue outline-none text-black dark:text-white"
+                            >
+                                {KINDS.map(k => <option key={k} value={k}>{BACKEND_KIND_LABELS[k]}</option>)}
+                            </select>
+                            {kind === 'video' && (
+                                <select
+                                    value={dialect}
+                                    onChange={e => { setDialect(e.target.value as BackendDialect); setAddResult(null); }}
+                                    className="px-3 py-2 text-sm bg-yt-light dark:bg-yt-dark-gray rounded-lg border border-transparent focus:border-yt-blue outline-none text-black dark:text-white"
+                                    title="APIの形式"
+                                >
+                                    {DIALECTS.map(d => <option key={d} value={d}>{DIALECT_LABELS[d]}</option>)}
+                                </select>
+                            )}
+                            <input
+                                type="text"
+                                value={url}
+                                onChange={e => setUrl(e.target.value)}
+                                placeholder="https://example.onrender.com"
+                                className="flex-1 min-w-0 px-3 py-2 text-sm bg-yt-light dark:bg-yt-dark-gray rounded-lg border border-transparent focus:border-yt-blue outline-none text-black dark:text-white"
+                            />
+                        </div>
+                        <button
+                            type="submit"
+                            disabled={isVerifying || !url.trim()}
+                            className="w-full py-2 bg-yt-blue text-white font-bold rounded-full hover:opacity-90 disabled:opacity-50 transition-opacity"
+                        >
+                            {isVerifying ? '確認中...' : '接続を確認して追加'}
+                        </button>
+                        {addResult && (
+                            <div className={`p-3 rounded-lg text-sm ${addResult.ok ? 'bg-green-50 dark:bg-green-900/20' : 'bg-red-50 dark:bg-red-900/20'}`}>
+                                <p className={addResult.ok ? 'text-green-700 dark:text-green-300' : 'text-red-600 dark:text-red-300'}>
+                                    {addResult.ok ? '追加しました' : '必要なAPIに対応していないため追加できません'}
+                                </p>
+                                <CheckList checks={addResult.checks} />
+                            </div>
+                        )}
+                    </form>
+                </div>
+            </div>
+        </div>,
+        document.body
+    );
+};
+
+export default BackendSettingsModal;
@@ -0,0 +1,55 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { getCacheStats, clearCache, type CacheNamespace } from '../utils/cacheStore';
+import { TrashIcon } from './icons/Icons';
+import { formatBytes } from '../utils/format';
+
+const NAMESPACE_LABELS: Record<CacheNamespace, string> = {
+    video: '動画情報',
+    stream: '再生URL',
+    feed: 'ホームフィード',
+    channel: 'チャンネル',
+    config: 'プレイヤー設定',
+};
+
+const CacheUsagePanel: React.FC = () => {
+    const [stats, setStats] = useState<{ namespace: CacheNamespace; count: number; bytes: number }[]>([]);
+
+    const refresh = useCallback(() => {
+        getCacheStats().then(setStats).catch(() => setStats([]));
+    }, []);
+
+    useEffect(() => { refresh(); }, [refresh]);
+
+    const handleClear = async () => {
+        if (!window.confirm('キャッシュを削除しますか？\n(履歴・登録チャンネル・プレイリストは削除されません)')) return;
+        await clearCache();
+        refresh();
+    };
+
+    const totalBytes = stats.reduce((sum, s) => sum + s.bytes, 0);
+
+    return (
+        <div className="space-y-3">
+            <div className="flex items-center justify-between">
+                <p className="text-sm text-yt-light-gray">取得済みの動画情報などを端末に保存し、表示を高速化しています。合計 {formatBytes(totalBytes)}</p>
+                <button
+                    onClick={handleClear}
+                    className="flex items-center gap-2 px-4 py-2 text-sm font-semibold bg-yt-light dark:bg-yt-dark-gray rounded-full hover:bg-gray-200 dark:hover:bg-gray-700 transition-colors flex-shrink-0 ml-4"
+                >
+                    <TrashIcon />
+                    キャッシュを削除
+                </button>
+            </div>
+            <div className="grid grid-cols-2 sm:grid-cols-5 gap-2">
+                {stats.map(s => (
+                    <div key={s.namespace} className="p-3 bg-yt-light dark:bg-yt-dark-gray rounded-lg text-sm">
+                        <p className="font-medium">{NAMESPACE_LABELS[s.namespace]}</p>
+                        <p className="text-xs text-yt-light-gray">{s.count}件 / {formatBytes(s.bytes)}</p>
+                    </div>
+                ))}
+            </div>
+        </div>
+    );
+};
+
+export default CacheUsagePanel;
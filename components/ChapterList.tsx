@@ -0,0 +1,52 @@
+import React, { useEffect, useRef, useState } from 'react';
+import type { Chapter } from '../utils/chapters';
+import { formatDuration } from '../utils/format';
+
+interface ChapterListProps {
+  chapters: Chapter[];
+  currentIndex: number;
+  onSeek: (seconds: number) => void;
+}
+
+const ChapterList: React.FC<ChapterListProps> = ({ chapters, currentIndex, onSeek }) => {
+  const [isOpen, setIsOpen] = useState(true);
+  const listRef = useRef<HTMLDivElement>(null);
+
+  // Keep the current chapter in view as playback moves on, without scrolling the page
+  useEffect(() => {
+    const list = listRef.current;
+    const item = list?.children[currentIndex] as HTMLElement | undefined;
+    if (!list || !item) return;
+    if (item.offsetTop < list.scrollTop || item.offsetTop + item.offsetHeight > list.scrollTop + list.clientHeight) {
+      list.scrollTop = item.offsetTop - list.clientHeight / 2 + item.offsetHeight / 2;
+    }
+  }, [currentIndex, isOpen]);
+
+  return (
+    <div className="bg-yt-spec-light-10 dark:bg-yt-dark-gray rounded-xl overflow-hidden mb-4">
+      <button onClick={() => setIsOpen(open => !open)} className="w-full flex items-center justify-between p-4 text-left">
+        <div className="min-w-0">
+          <h2 className="text-base font-bold">チャプター</h2>
+          {currentIndex >= 0 && <p className="text-sm text-yt-light-gray truncate">{`${currentIndex + 1}/${chapters.length} • ${chapters[currentIndex].title}`}</p>}
+        </div>
+        <span className="text-sm font-semibold text-yt-blue flex-shrink-0 ml-2">{isOpen ? '閉じる' : 'すべて表示'}</span>
+      </button>
+      {isOpen && (
+        <div ref={listRef} className="relative max-h-80 overflow-y-auto border-t border-yt-spec-light-20 dark:border-yt-spec-20">
+          {chapters.map((chapter, index) => (
+            <button
+              key={chapter.start}
+              onClick={() => onSeek(chapter.start)}
+              className={`w-full flex items-center gap-3 px-4 py-2 text-left text-sm ${index === currentIndex ? 'bg-yt-spec-light-20 dark:bg-yt-spec-20' : 'hover:bg-yt-spec-light-20 dark:hover:bg-yt-spec-20'}`}
+            >
+              <span className={`font-mono text-xs flex-shrink-0 px-1.5 py-0.5 rounded ${index === currentIndex ? 'bg-yt-blue text-white' : 'text-yt-blue'}`}>{formatDuration(chapter.start)}</span>
+              <span className={`line-clamp-2 ${index === currentIndex ? 'font-semibold' : ''}`}>{chapter.title}</span>
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ChapterList;
@@ -0,0 +1,50 @@
+import React, { useState } from 'react';
+import type { Chapter } from '../utils/chapters';
+import { formatDuration } from '../utils/format';
+
+interface ChapterSeekBarProps {
+  chapters: Chapter[];
+  currentTime: number;
+  duration: number;
+  onSeek: (seconds: number) => void;
+}
+
+// The native <video> controls can't show chapter boundaries, so this bar runs under
+// the player: one segment per chapter, filled up to the current position.
+const ChapterSeekBar: React.FC<ChapterSeekBarProps> = ({ chapters, currentTime, duration, onSeek }) => {
+  const [hover, setHover] = useState<{ time: number; x: number } | null>(null);
+  if (duration <= 0) return null;
+
+  const timeAt = (event: React.MouseEvent<HTMLDivElement>) => {
+    const rect = event.currentTarget.getBoundingClientRect();
+    const ratio = Math.min(Math.max((event.clientX - rect.left) / rect.width, 0), 1);
+    return { time: ratio * duration, x: ratio * 100 };
+  };
+  const hoveredChapter = hover ? chapters.find(c => hover.time >= c.start && hover.time < Math.min(c.end, duration)) : undefined;
+
+  return (
+    <div
+      className="relative flex gap-0.5 h-3 items-center cursor-pointer mt-2 group"
+      onClick={event => onSeek(timeAt(event).time)}
+      onMouseMove={event => setHover(timeAt(event))}
+      onMouseLeave={() => setHover(null)}
+    >
+      {chapters.map(chapter => {
+        const end = Math.min(chapter.end, duration);
+        const fill = Math.min(Math.max((currentTime - chapter.start) / (end - chapter.start), 0), 1);
+        return (
+          <div key={chapter.start} className="h-1 group-hover:h-1.5 transition-all bg-yt-spec-light-20 dark:bg-yt-spec-20 overflow-hidden" style={{ flexGrow: end - chapter.start, flexBasis: 0 }}>
+            <div className="h-full bg-yt-red" style={{ width: `${fill * 100}%` }} />
+          </div>
+        );
+      })}
+      {hover && (
+        <div className="absolute bottom-4 -translate-x-1/2 px-2 py-1 rounded bg-black/80 text-white text-xs whitespace-nowrap pointer-events-none" style={{ left: `${hover.x}%` }}>
+          {formatDuration(Math.floor(hover.time))}{hoveredChapter && ` • ${hoveredChapter.title}`}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ChapterSeekBar;
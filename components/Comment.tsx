@@ -1,42 +1,146 @@
-
-
-import React from 'react';
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { Link } from 'react-router-dom';
 import type { Comment } from '../types';
+import { getCommentReplies, isAbortError } from '../utils/api';
+import { tokenizeText } from '../utils/richText';
 // FIX: Removed DislikeIcon import as it is not exported from './icons/Icons'.
-import { LikeIcon } from './icons/Icons';
+import { LikeIcon, HeartIcon, PinIcon, ChevronDownIcon } from './icons/Icons';
 
 interface CommentProps {
   comment: Comment;
+  // Needed to load replies and to link timestamps when there is no player to seek
+  videoId?: string;
+  // The uploader's icon, shown on the "hearted" badge
+  creatorAvatarUrl?: string;
+  onSeek?: (seconds: number) => void;
+  isReply?: boolean;
 }
 
-const CommentComponent: React.FC<CommentProps> = ({ comment }) => {
+const linkClasses = 'text-yt-blue hover:underline';
+
+const CommentText: React.FC<{ text: string; videoId?: string; onSeek?: (seconds: number) => void }> = ({ text, videoId, onSeek }) => {
+  const segments = useMemo(() => tokenizeText(text), [text]);
+  return (
+    <p className="text-sm mt-1 whitespace-pre-wrap break-words">
+      {segments.map((segment, index) => {
+        switch (segment.type) {
+          case 'timestamp':
+            if (onSeek) return <button key={index} onClick={() => onSeek(segment.seconds)} className={linkClasses}>{segment.text}</button>;
+            if (videoId) return <Link key={index} to={`/watch/${videoId}?t=${segment.seconds}`} className={linkClasses}>{segment.text}</Link>;
+            return segment.text;
+          case 'url':
+            return <a key={index} href={segment.href} target="_blank" rel="noopener noreferrer" className={`${linkClasses} break-all`}>{segment.text}</a>;
+          case 'hashtag':
+            return <Link key={index} to={`/results?search_query=${encodeURIComponent(segment.text)}`} className={linkClasses}>{segment.text}</Link>;
+          default:
+            return <React.Fragment key={index}>{segment.text}</React.Fragment>;
+        }
+      })}
+    </p>
+  );
+};
+
+const CommentComponent: React.FC<CommentProps> = ({ comment, videoId, creatorAvatarUrl, onSeek, isReply = false }) => {
   const authorThumbnail = comment.author.thumbnails?.[0]?.url || '';
-  
+  const [replies, setReplies] = useState<Comment[]>([]);
+  const [repliesContinuation, setRepliesContinuation] = useState<string | undefined>(comment.reply_continuation);
+  const [showReplies, setShowReplies] = useState(false);
+  const [isLoadingReplies, setIsLoadingReplies] = useState(false);
+  const [repliesError, setRepliesError] = useState(false);
+  const abortRef = useRef<AbortController | null>(null);
+
+  useEffect(() => () => abortRef.current?.abort(), []);
+
   // Clean up like count text (e.g., "711" from "711 likes")
   const likeCount = comment.like_count.split(' ')[0];
+  const replyCount = comment.reply_count.split(' ')[0];
+  const canLoadReplies = !isReply && !!videoId && !!comment.reply_continuation && replyCount !== '0';
+
+  const loadReplies = async () => {
+    if (!videoId || !repliesContinuation || isLoadingReplies) return;
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setIsLoadingReplies(true);
+    setRepliesError(false);
+    try {
+      const res = await getCommentReplies(videoId, repliesContinuation, { signal: controller.signal });
+      setReplies(prev => [...prev, ...res.comments]);
+      setRepliesContinuation(res.continuation);
+    } catch (e) {
+      if (isAbortError(e)) return;
+      console.error("Failed to load replies", e);
+      setRepliesError(true);
+    } finally {
+      if (!controller.signal.aborted) setIsLoadingReplies(false);
+    }
+  };
+
+  // Replies are fetched the first time the thread is opened and kept while it is collapsed
+  const toggleReplies = () => {
+    const willShow = !showReplies;
+    setShowReplies(willShow);
+    if (willShow && replies.length === 0) loadReplies();
+  };
 
   return (
-    <div className="flex items-start space-x-4 my-4">
-      <img src={authorThumbnail} alt={comment.author.name} className="w-10 h-10 rounded-full" />
-      <div className="flex-1">
+    <div className={`flex items-start ${isReply ? 'space-x-3 my-3' : 'space-x-4 my-4'}`}>
+      <img src={authorThumbnail} alt={comment.author.name} className={`${isReply ? 'w-6 h-6' : 'w-10 h-10'} rounded-full flex-shrink-0`} />
+      <div className="flex-1 min-w-0">
+        {comment.is_pinned && (
+          <p className="flex items-center gap-1 text-xs text-yt-light-gray mb-1">
+            <PinIcon className="w-4 h-4 fill-current" />
+            固定されたコメント
+          </p>
+        )}
         <div className="flex items-baseline space-x-2">
-          <p className="font-semibold text-sm">{comment.author.name}</p>
+          {comment.is_creator ? (
+            <p className="font-semibold text-sm px-1.5 rounded-full bg-yt-light-gray/60 text-white">{comment.author.name}</p>
+          ) : (
+            <p className="font-semibold text-sm">{comment.author.name}</p>
+          )}
           <p className="text-xs text-yt-light-gray">{comment.published_time}</p>
         </div>
-        <p className="text-sm mt-1 whitespace-pre-wrap">{comment.text}</p>
+        <CommentText text={comment.text} videoId={videoId} onSeek={onSeek} />
         <div className="flex items-center space-x-1 mt-2">
             <button className="flex items-center p-2 rounded-full hover:bg-yt-spec-light-10 dark:hover:bg-yt-spec-10">
                 <LikeIcon />
                 {likeCount && <span className="ml-2 text-xs text-yt-light-gray">{likeCount}</span>}
             </button>
             {/* FIX: The DislikeIcon component was not exported. The dislike button has been removed. */}
-            <button className="text-xs text-yt-light-gray font-semibold px-3 py-2 rounded-full hover:bg-yt-spec-light-10 dark:hover:bg-yt-spec-10">
-              返信
-            </button>
+            {comment.is_hearted && (
+              <span className="relative flex-shrink-0 mx-2" title="投稿者が高く評価しました">
+                {creatorAvatarUrl
+                  ? <img src={creatorAvatarUrl} alt="" className="w-5 h-5 rounded-full" />
+                  : <span className="block w-5 h-5 rounded-full bg-yt-light-gray/40" />}
+                <HeartIcon className="absolute -bottom-1 -right-1 w-3 h-3 fill-current text-red-600" />
+              </span>
+            )}
         </div>
+        {canLoadReplies && (
+          <button onClick={toggleReplies} className="flex items-center gap-1 mt-1 px-3 py-1.5 -ml-3 text-sm font-semibold text-yt-blue rounded-full hover:bg-yt-blue/10">
+            <ChevronDownIcon className={`w-5 h-5 fill-current transition-transform ${showReplies ? 'rotate-180' : ''}`} />
+            {replyCount}件の返信
+          </button>
+        )}
+        {showReplies && (
+          <div>
+            {replies.map((reply, idx) => (
+              <CommentComponent key={`${reply.comment_id}-${idx}`} comment={reply} videoId={videoId} creatorAvatarUrl={creatorAvatarUrl} onSeek={onSeek} isReply />
+            ))}
+            {isLoadingReplies ? (
+              <div className="flex py-2"><div className="animate-spin rounded-full h-5 w-5 border-t-2 border-b-2 border-yt-blue"></div></div>
+            ) : repliesError ? (
+              <button onClick={loadReplies} className="text-sm text-red-500 py-2">返信を読み込めませんでした。再試行</button>
+            ) : repliesContinuation && replies.length > 0 && (
+              <button onClick={loadReplies} className="px-3 py-1.5 -ml-3 text-sm font-semibold text-yt-blue rounded-full hover:bg-yt-blue/10">
+                他の返信を表示
+              </button>
+            )}
+          </div>
+        )}
       </div>
     </div>
   );
 };
 
-export default CommentComponent;
\ No newline at end of file
+export default CommentComponent;
@@ -0,0 +1,116 @@
+import React, { useMemo, useState } from 'react';
+import type { Comment } from '../types';
+import { analyzeComments, LANGUAGE_LABELS, type SentimentBucket } from '../utils/commentAnalytics';
+import { ChevronDownIcon } from './icons/Icons';
+
+interface CommentAnalyticsPanelProps {
+  comments: Comment[];
+  onSeek: (seconds: number) => void;
+}
+
+const SENTIMENT_STYLES: { bucket: SentimentBucket; label: string; color: string }[] = [
+  { bucket: 'positive', label: 'ポジティブ', color: 'bg-green-500' },
+  { bucket: 'neutral', label: 'ニュートラル', color: 'bg-gray-400' },
+  { bucket: 'negative', label: 'ネガティブ', color: 'bg-red-500' },
+];
+
+const percent = (count: number, total: number) => total > 0 ? Math.round((count / total) * 100) : 0;
+
+const Section: React.FC<{ title: string; children: React.ReactNode }> = ({ title, children }) => (
+  <section>
+    <h3 className="text-xs font-bold text-yt-light-gray mb-2">{title}</h3>
+    {children}
+  </section>
+);
+
+// Statistics over the loaded comments; computed only while the panel is open.
+const CommentAnalyticsPanel: React.FC<CommentAnalyticsPanelProps> = ({ comments, onSeek }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const analytics = useMemo(() => isOpen ? analyzeComments(comments) : null, [isOpen, comments]);
+
+  return (
+    <div className="mb-6 bg-yt-spec-light-10 dark:bg-yt-dark-gray rounded-xl">
+      <button onClick={() => setIsOpen(prev => !prev)} className="w-full flex items-center justify-between px-4 py-3 text-left">
+        <span className="text-sm font-semibold">
+          コメント分析
+          <span className="ml-2 font-normal text-yt-light-gray">読み込み済みの{comments.length}件</span>
+        </span>
+        <ChevronDownIcon className={`w-5 h-5 fill-current transition-transform ${isOpen ? 'rotate-180' : ''}`} />
+      </button>
+      {analytics && (
+        <div className="px-4 pb-4 space-y-4 text-sm">
+          <Section title="感情">
+            <div className="flex h-2 rounded-full overflow-hidden bg-yt-spec-light-20 dark:bg-yt-spec-20">
+              {SENTIMENT_STYLES.map(({ bucket, color }) => (
+                <div key={bucket} className={color} style={{ width: `${percent(analytics.sentiment[bucket], analytics.total)}%` }} />
+              ))}
+            </div>
+            <div className="flex gap-4 mt-1.5 text-xs text-yt-light-gray">
+              {SENTIMENT_STYLES.map(({ bucket, label, color }) => (
+                <span key={bucket} className="flex items-center gap-1">
+                  <span className={`w-2 h-2 rounded-full ${color}`} />
+                  {label} {analytics.sentiment[bucket]}件
+                </span>
+              ))}
+            </div>
+          </Section>
+
+          {analytics.keywords.length > 0 && (
+            <Section title="よく使われる言葉">
+              <div className="flex flex-wrap gap-1.5">
+                {analytics.keywords.map(({ word, count }) => (
+                  <span key={word} className="px-2.5 py-1 rounded-full bg-yt-spec-light-20 dark:bg-yt-spec-20 text-xs">
+                    {word} <span className="text-yt-light-gray">{count}</span>
+                  </span>
+                ))}
+              </div>
+            </Section>
+          )}
+
+          {analytics.timestamps.length > 0 && (
+            <Section title="よく言及される場面">
+              <div className="flex flex-wrap gap-1.5">
+                {analytics.timestamps.map(({ seconds, label, count }) => (
+                  <button key={seconds} onClick={() => onSeek(seconds)} className="px-2.5 py-1 rounded-full bg-yt-spec-light-20 dark:bg-yt-spec-20 hover:bg-yt-blue/20 text-xs">
+                    <span className="font-mono text-yt-blue">{label}</span> <span className="text-yt-light-gray">{count}件</span>
+                  </button>
+                ))}
+              </div>
+            </Section>
+          )}
+
+          <Section title="言語">
+            <div className="space-y-1">
+              {analytics.languages.map(({ language, count }) => (
+                <div key={language} className="flex items-center gap-2 text-xs">
+                  <span className="w-16 flex-shrink-0">{LANGUAGE_LABELS[language]}</span>
+                  <div className="flex-1 h-1.5 rounded-full bg-yt-spec-light-20 dark:bg-yt-spec-20 overflow-hidden">
+                    <div className="h-full bg-yt-blue" style={{ width: `${percent(count, analytics.total)}%` }} />
+                  </div>
+                  <span className="w-10 text-right text-yt-light-gray">{percent(count, analytics.total)}%</span>
+                </div>
+              ))}
+            </div>
+          </Section>
+
+          {analytics.duplicates.length > 0 && (
+            <Section title="重複・スパムの可能性">
+              <ul className="space-y-1.5">
+                {analytics.duplicates.map(group => (
+                  <li key={group.text} className="flex items-start justify-between gap-3 text-xs">
+                    <span className="line-clamp-2 break-words">{group.text}</span>
+                    <span className="flex-shrink-0 text-yt-light-gray">
+                      {group.count}件 / {group.authors}人{group.hasLink && <span className="ml-1 text-red-500">リンクあり</span>}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            </Section>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default CommentAnalyticsPanel;
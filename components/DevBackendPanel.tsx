@@ -0,0 +1,29 @@
+import React from 'react';
+import { DEV_BACKEND_MODE, MOCK_API_BASE, setDevBackendMode, type DevBackendMode } from '../utils/devBackend';
+
+const MODES: { mode: DevBackendMode; label: string; description: string }[] = [
+    { mode: 'off', label: '本番API', description: '通常どおり公開サーバーに接続します。' },
+    { mode: 'replay', label: 'モック', description: 'mock/fixtures の記録済みデータだけで表示します (npm run mock)。' },
+    { mode: 'record', label: '記録', description: 'モックサーバー経由で本番APIに接続し、応答を fixtures に保存します。' },
+];
+
+// Only rendered in dev builds; see utils/devBackend.
+const DevBackendPanel: React.FC = () => (
+    <div className="space-y-3">
+        <p className="text-sm text-yt-light-gray">モックサーバー: <span className="font-mono">{MOCK_API_BASE}</span></p>
+        <div className="grid grid-cols-1 sm:grid-cols-3 gap-2">
+            {MODES.map(({ mode, label, description }) => (
+                <button
+                    key={mode}
+                    onClick={() => mode !== DEV_BACKEND_MODE && setDevBackendMode(mode)}
+                    className={`p-3 rounded-lg text-left text-sm transition-colors ${mode === DEV_BACKEND_MODE ? 'bg-yt-blue text-white' : 'bg-yt-light dark:bg-yt-dark-gray hover:bg-gray-200 dark:hover:bg-gray-700'}`}
+                >
+                    <p className="font-semibold">{label}</p>
+                    <p className={`text-xs ${mode === DEV_BACKEND_MODE ? 'text-white/80' : 'text-yt-light-gray'}`}>{description}</p>
+                </button>
+            ))}
+        </div>
+    </div>
+);
+
+export default DevBackendPanel;
@@ -1,7 +1,12 @@
 
 import React from 'react';
 import { createPortal } from 'react-dom';
+import { Link } from 'react-router-dom';
+import type { StreamFormat } from '../types';
 import { CloseIcon, DownloadIcon } from './icons/Icons';
+import { useDownloads } from '../hooks/useDownloads';
+import { downloadId, startDownload, type DownloadKind, type DownloadVideoInfo } from '../utils/downloads/manager';
+import { formatBytes } from '../utils/format';
 
 interface DownloadModalProps {
     isOpen: boolean;
@@ -9,11 +14,42 @@ interface DownloadModalProps {
     streamData: any;
     isLoading: boolean;
     onRetry: () => void;
+    video?: DownloadVideoInfo;
 }
 
-const DownloadModal: React.FC<DownloadModalProps> = ({ isOpen, onClose, streamData, isLoading, onRetry }) => {
+const rowClasses = "w-full flex items-center justify-between p-3 rounded-lg bg-yt-light dark:bg-yt-dark-gray hover:bg-gray-200 dark:hover:bg-gray-600 transition-colors group text-left";
+const badgeClasses = "text-xs bg-black/10 dark:bg-white/10 px-2 py-1 rounded text-black dark:text-white group-hover:bg-white group-hover:text-black transition-colors flex-shrink-0";
+
+const DownloadModal: React.FC<DownloadModalProps> = ({ isOpen, onClose, streamData, isLoading, onRetry, video }) => {
+    const jobs = useDownloads();
     if (!isOpen) return null;
 
+    // Saves the file to the offline library; without video info the format is only opened
+    const renderSaveButton = (format: StreamFormat, kind: DownloadKind, label: string, badge: string, index: number) => {
+        if (!video) {
+            return (
+                <a key={index} href={format.url} target="_blank" rel="noopener noreferrer" className={rowClasses} onClick={onClose}>
+                    <span className="font-semibold text-black dark:text-white">{label}</span>
+                    <span className={badgeClasses}>{badge}</span>
+                </a>
+            );
+        }
+        const job = jobs.find(j => j.id === downloadId(video.id, kind, format.quality || kind));
+        const percent = job?.totalBytes ? Math.floor(job.receivedBytes / job.totalBytes * 100) : null;
+        const status = !job ? badge
+            : job.status === 'completed' ? '保存済み'
+            : job.status === 'error' ? '再試行'
+            : job.status === 'paused' ? '再開'
+            : job.status === 'queued' ? '待機中'
+            : percent !== null ? `${percent}%` : formatBytes(job.receivedBytes);
+        return (
+            <button key={index} onClick={() => startDownload(video, format, kind)} disabled={job?.status === 'completed'} className={`${rowClasses} disabled:opacity-70 disabled:cursor-default`}>
+                <span className="font-semibold text-black dark:text-white">{label}</span>
+                <span className={badgeClasses}>{status}</span>
+            </button>
+        );
+    };
+
     return createPortal(
         <div className="fixed inset-0 bg-black/60 backdrop-blur-sm z-[1000] flex items-center justify-center animate-fade-in" onClick={onClose}>
             <div className="bg-yt-white dark:bg-yt-light-black w-full max-w-md rounded-xl shadow-2xl overflow-hidden animate-scale-in border border-yt-spec-light-20 dark:border-yt-spec-20" onClick={e => e.stopPropagation()}>
@@ -44,56 +80,37 @@ const DownloadModal: React.FC<DownloadModalProps> = ({ isOpen, onClose, streamDa
                             <div>
                                 <h3 className="text-xs font-bold text-yt-light-gray mb-2 uppercase tracking-wider">動画 (MP4)</h3>
                                 <div className="space-y-2">
-                                    {/* 1080p Separate */}
+                                    {/* Combined Formats (360p, 720p, etc.) are single files and can be saved for offline playback */}
+                                    {streamData.combinedFormats && streamData.combinedFormats.filter((format: StreamFormat) => !format.isVideoOnly).map((format: StreamFormat, index: number) =>
+                                        renderSaveButton(format, 'video', `${format.quality || 'Unknown'} (音声あり)`, 'MP4', index)
+                                    )}
+
+                                    {/* 1080p Separate: video only, so it can only be opened, not played offline */}
                                     {streamData.separate1080p?.video?.url && (
                                         <a 
                                             href={streamData.separate1080p.video.url}
                                             target="_blank"
                                             rel="noopener noreferrer"
-                                            className="flex items-center justify-between p-3 rounded-lg bg-yt-light dark:bg-yt-dark-gray hover:bg-gray-200 dark:hover:bg-gray-600 transition-colors group"
+                                            className={rowClasses}
                                             onClick={onClose}
                                         >
-                                            <span className="font-semibold text-black dark:text-white">1080p (映像のみ)</span>
-                                            <span className="text-xs bg-black/10 dark:bg-white/10 px-2 py-1 rounded text-black dark:text-white group-hover:bg-white group-hover:text-black transition-colors">MP4</span>
+                                            <span className="font-semibold text-black dark:text-white">{streamData.separate1080p.video.quality || '1080p'} (映像のみ)</span>
+                                            <span className={badgeClasses}>MP4</span>
                                         </a>
                                     )}
-
-                                    {/* Combined Formats (360p, 720p, etc.) or Adaptive Video Only */}
-                                    {streamData.combinedFormats && streamData.combinedFormats.map((format: any, index: number) => {
-                                        const quality = format.quality || 'Unknown';
-                                        const isVideoOnly = format.isVideoOnly;
-                                        return (
-                                            <a 
-                                                key={index}
-                                                href={format.url}
-                                                target="_blank"
-                                                rel="noopener noreferrer"
-                                                className="flex items-center justify-between p-3 rounded-lg bg-yt-light dark:bg-yt-dark-gray hover:bg-gray-200 dark:hover:bg-gray-600 transition-colors group"
-                                                onClick={onClose}
-                                            >
-                                                <span className="font-semibold text-black dark:text-white">{quality} {isVideoOnly ? '(映像のみ)' : '(音声あり)'}</span>
-                                                <span className="text-xs bg-black/10 dark:bg-white/10 px-2 py-1 rounded text-black dark:text-white group-hover:bg-white group-hover:text-black transition-colors">MP4</span>
-                                            </a>
-                                        );
-                                    })}
                                 </div>
                             </div>
                             
                             {streamData.audioOnlyFormat?.url && (
                                 <div>
                                     <h3 className="text-xs font-bold text-yt-light-gray mb-2 uppercase tracking-wider mt-4">音声 (M4A)</h3>
-                                    <a 
-                                        href={streamData.audioOnlyFormat.url}
-                                        target="_blank" 
-                                        rel="noopener noreferrer"
-                                        className="flex items-center justify-between p-3 rounded-lg bg-yt-light dark:bg-yt-dark-gray hover:bg-gray-200 dark:hover:bg-gray-600 transition-colors group"
-                                        onClick={onClose}
-                                    >
-                                        <span className="font-semibold text-black dark:text-white">音声のみ ({streamData.audioOnlyFormat.quality || ''})</span>
-                                        <span className="text-xs bg-black/10 dark:bg-white/10 px-2 py-1 rounded text-black dark:text-white group-hover:bg-white group-hover:text-black transition-colors">M4A</span>
-                                    </a>
+                                    {renderSaveButton(streamData.audioOnlyFormat, 'audio', `音声のみ (${streamData.audioOnlyFormat.quality || ''})`, 'M4A', 0)}
                                 </div>
                             )}
+
+                            <Link to="/offline" onClick={onClose} className="block text-center text-sm font-semibold text-yt-blue hover:underline pt-2">
+                                オフラインの動画を見る
+                            </Link>
                         </div>
                     )}
                 </div>
@@ -9,9 +9,11 @@ import { useHistory } from '../contexts/HistoryContext';
 import { useNotification } from '../contexts/NotificationContext';
 import { useAuth } from '../contexts/AuthContext';
 import { useTheme, type Theme } from '../hooks/useTheme';
-import { getSearchSuggestions } from '../utils/api';
+import { useShortcuts } from '../hooks/useShortcuts';
+import { getSearchSuggestions, isAbortError } from '../utils/api';
 import NotificationDropdown from './NotificationDropdown';
 import AccountModal from './AccountModal';
+import BackendSettingsModal from './BackendSettingsModal';
 
 interface HeaderProps {
   toggleSidebar: () => void;
@@ -24,6 +26,7 @@ const Header: React.FC<HeaderProps> = ({ toggleSidebar, openHistoryDeletionModal
   const [isSettingsOpen, setIsSettingsOpen] = useState(false);
   const [isNotificationsOpen, setIsNotificationsOpen] = useState(false);
   const [isAccountModalOpen, setIsAccountModalOpen] = useState(false);
+  const [isBackendModalOpen, setIsBackendModalOpen] = useState(false);
   const [useProxy, setUseProxy] = useState(localStorage.getItem('useChannelHomeProxy') !== 'false');
   
   // Search Autocomplete State
@@ -31,6 +34,7 @@ const Header: React.FC<HeaderProps> = ({ toggleSidebar, openHistoryDeletionModal
   const [showSuggestions, setShowSuggestions] = useState(false);
   const [isInputFocused, setIsInputFocused] = useState(false);
   const searchContainerRef = useRef<HTMLDivElement>(null);
+  const searchInputRef = useRef<HTMLInputElement>(null);
 
   const { theme, setTheme } = useTheme();
   const { searchHistory, addSearchTerm, clearSearchHistory } = useSearchHistory();
@@ -57,6 +61,15 @@ const Header: React.FC<HeaderProps> = ({ toggleSidebar, openHistoryDeletionModal
       setShowSuggestions(false);
   }, [location.pathname, location.search]);
 
+  useShortcuts({
+      focusSearch: () => {
+          const input = searchInputRef.current;
+          if (!input || input.offsetParent === null) return false;
+          input.focus();
+          input.select();
+      },
+  });
+
   const handleSearch = (e: React.FormEvent) => {
     e.preventDefault();
     if (searchQuery.trim()) {
@@ -75,20 +88,29 @@ const Header: React.FC<HeaderProps> = ({ toggleSidebar, openHistoryDeletionModal
       setShowSuggestions(false);
   };
 
-  const fetchSuggestions = useCallback(async (query: string) => {
+  const fetchSuggestions = useCallback(async (query: string, signal: AbortSignal) => {
       if (!query.trim()) {
           setSuggestions([]);
           return;
       }
-      const apiSuggestions = await getSearchSuggestions(query);
-      setSuggestions(apiSuggestions.slice(0, 10));
+      try {
+          const apiSuggestions = await getSearchSuggestions(query, { priority: 'high', signal });
+          setSuggestions(apiSuggestions.slice(0, 10));
+      } catch (e) {
+          if (!isAbortError(e)) setSuggestions([]);
+      }
   }, []);
 
   useEffect(() => {
+      // Suggestions for an older keystroke must not replace newer ones
+      const controller = new AbortController();
       const timer = setTimeout(() => {
-          if (searchQuery) fetchSuggestions(searchQuery);
+          if (searchQuery) fetchSuggestions(searchQuery, controller.signal);
       }, 200); // Debounce
-      return () => clearTimeout(timer);
+      return () => {
+          clearTimeout(timer);
+          controller.abort();
+      };
   }, [searchQuery, fetchSuggestions]);
 
   const handleSettingsClick = () => {
@@ -214,6 +236,7 @@ const Header: React.FC<HeaderProps> = ({ toggleSidebar, openHistoryDeletionModal
                         </div>
                     )}
                     <input
+                        ref={searchInputRef}
                         type="text"
                         value={searchQuery}
                         onChange={(e) => { 
@@ -323,6 +346,7 @@ const Header: React.FC<HeaderProps> = ({ toggleSidebar, openHistoryDeletionModal
             )}
         </button>
         <AccountModal isOpen={isAccountModalOpen} onClose={() => setIsAccountModalOpen(false)} />
+        <BackendSettingsModal isOpen={isBackendModalOpen} onClose={() => setIsBackendModalOpen(false)} />
 
         {/* Settings / Profile */}
         <div className="relative" ref={settingsRef}>
@@ -403,6 +427,13 @@ const Header: React.FC<HeaderProps> = ({ toggleSidebar, openHistoryDeletionModal
                             <TuneIcon />
                             おすすめ設定
                         </Link>
+                        <button
+                            onClick={() => { setIsBackendModalOpen(true); setIsSettingsOpen(false); }}
+                            className="w-full text-left flex items-center px-4 py-2 hover:bg-yt-spec-light-10 dark:hover:bg-yt-spec-10 text-sm text-black dark:text-white gap-2"
+                        >
+                            <SettingsIcon />
+                            サーバー設定
+                        </button>
 
                         <hr className="my-2 border-yt-spec-light-20 dark:border-yt-spec-20" />
 
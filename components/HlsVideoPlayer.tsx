@@ -1,6 +1,9 @@
 
 import React, { useEffect, useRef, useState, forwardRef, useImperativeHandle } from 'react';
 import Hls from 'hls.js';
+import type { PlayerController } from '../utils/player/controller';
+import { useMediaElementController } from '../hooks/useMediaElementController';
+import type { CaptionSource } from '../utils/captions';
 
 interface HlsVideoPlayerProps {
   src: string;
@@ -9,10 +12,12 @@ interface HlsVideoPlayerProps {
   controls?: boolean;
   className?: string;
   playsInline?: boolean;
+  captions?: CaptionSource[];
+  onController?: (controller: PlayerController | null) => void;
 }
 
 const HlsVideoPlayer = forwardRef<HTMLVideoElement, HlsVideoPlayerProps>(
-  ({ src, type, autoPlay = true, controls = true, className, playsInline = true }, ref) => {
+  ({ src, type, autoPlay = true, controls = true, className, playsInline = true, captions, onController }, ref) => {
     const internalVideoRef = useRef<HTMLVideoElement>(null);
     const hlsRef = useRef<Hls | null>(null);
     const [error, setError] = useState<string | null>(null);
@@ -20,6 +25,10 @@ const HlsVideoPlayer = forwardRef<HTMLVideoElement, HlsVideoPlayerProps>(
     // Forward the ref to the parent if provided, otherwise use internal ref
     useImperativeHandle(ref, () => internalVideoRef.current!);
 
+    // 'mp4' sources are plain files; hls.js cannot load them
+    const isProgressive = type === 'mp4';
+    useMediaElementController(internalVideoRef, isProgressive ? 'progressive' : 'hls', onController);
+
     useEffect(() => {
       const video = internalVideoRef.current;
       if (!video) return;
@@ -48,7 +57,12 @@ const HlsVideoPlayer = forwardRef<HTMLVideoElement, HlsVideoPlayerProps>(
           }
       };
 
-      if (Hls.isSupported()) {
+      if (isProgressive) {
+          video.src = src;
+          if (autoPlay) {
+             video.play().catch(() => {});
+          }
+      } else if (Hls.isSupported()) {
         const hls = new Hls({
           xhrSetup: function (xhr, url) {
               // Some proxies might require specific headers
@@ -91,7 +105,7 @@ const HlsVideoPlayer = forwardRef<HTMLVideoElement, HlsVideoPlayerProps>(
              video.play().catch(() => {});
           }
       }
-    }, [src, autoPlay]);
+    }, [src, autoPlay, isProgressive]);
 
     return (
       <div className={`relative w-full h-full bg-black ${className || ''}`}>
@@ -110,7 +124,9 @@ const HlsVideoPlayer = forwardRef<HTMLVideoElement, HlsVideoPlayerProps>(
               className="w-full h-full object-contain"
               playsInline={playsInline}
               data-v-a03ccfac="" 
-          />
+          >
+              {captions?.map(caption => <track key={caption.src} kind="subtitles" src={caption.src} label={caption.label} srcLang={caption.language} />)}
+          </video>
       </div>
     );
   }
@@ -0,0 +1,240 @@
+import React, { useEffect, useLayoutEffect, useMemo, useRef, useState } from 'react';
+import type { LiveChatMessage, LiveChatRun } from '../types';
+import { createLiveChatClient, type LiveChatClient } from '../utils/api';
+import { liveChatText } from '../utils/liveChat';
+import { usePreference } from '../contexts/PreferenceContext';
+import { useVirtualList } from '../hooks/useVirtualList';
+import { CloseIcon } from './icons/Icons';
+
+interface LiveChatPanelProps {
+  videoId: string;
+  // Archived streams show the chat replay, kept in step with the player
+  isReplay: boolean;
+  currentTime: number;
+  onClose: () => void;
+}
+
+// Older messages are dropped so a long stream does not grow the list without bound
+const MAX_MESSAGES = 1500;
+// A jump larger than this is a seek; the replay then restarts from the new position
+const SEEK_THRESHOLD_MS = 5000;
+
+const messageKey = (message: LiveChatMessage) => message.id;
+
+const Runs: React.FC<{ runs: LiveChatRun[] }> = ({ runs }) => (
+  <>
+    {runs.map((run, index) => 'text' in run
+      ? <React.Fragment key={index}>{run.text}</React.Fragment>
+      : run.imageUrl
+        ? <img key={index} src={run.imageUrl} alt={run.emoji} title={run.emoji} className="inline-block w-5 h-5 align-text-bottom mx-0.5" loading="lazy" />
+        : <React.Fragment key={index}>{run.emoji}</React.Fragment>
+    )}
+  </>
+);
+
+const AuthorName: React.FC<{ author: LiveChatMessage['author']; className?: string }> = ({ author, className = '' }) => (
+  <span className={`inline-flex items-center gap-1 font-semibold mr-2 ${className}`}>
+    <span className={author.isOwner ? 'px-1 rounded bg-yellow-400 text-black' : author.isModerator ? 'text-yt-blue' : author.memberBadgeUrl ? 'text-green-600 dark:text-green-400' : 'text-yt-light-gray'}>
+      {author.name}
+    </span>
+    {author.memberBadgeUrl && <img src={author.memberBadgeUrl} alt="メンバー" className="w-4 h-4" loading="lazy" />}
+    {author.isVerified && <span className="text-yt-light-gray" title="確認済み">✓</span>}
+  </span>
+);
+
+const ChatRow: React.FC<{ message: LiveChatMessage }> = ({ message }) => {
+  const avatar = <img src={message.author.thumbnailUrl} alt="" className="w-6 h-6 rounded-full flex-shrink-0" loading="lazy" />;
+
+  if (message.kind === 'superchat' || message.kind === 'supersticker') {
+    return (
+      <div className="mx-3 my-2 rounded-lg overflow-hidden text-sm text-white">
+        <div className="flex items-center gap-2 px-3 py-2" style={{ backgroundColor: message.headerColor }}>
+          {avatar}
+          <div className="min-w-0">
+            <AuthorName author={message.author} className="!text-white/80" />
+            <p className="font-bold">{message.amount}</p>
+          </div>
+        </div>
+        {(message.runs.length > 0 || message.stickerUrl) && (
+          <div className="px-3 py-2 break-words" style={{ backgroundColor: message.bodyColor }}>
+            {message.stickerUrl ? <img src={message.stickerUrl} alt="" className="w-16 h-16" loading="lazy" /> : <Runs runs={message.runs} />}
+          </div>
+        )}
+      </div>
+    );
+  }
+
+  if (message.kind === 'membership') {
+    return (
+      <div className="mx-3 my-2 rounded-lg overflow-hidden text-sm text-white">
+        <div className="flex items-center gap-2 px-3 py-2 bg-green-700">
+          {avatar}
+          <div className="min-w-0">
+            <AuthorName author={message.author} className="!text-white/80" />
+            {message.headerText && <p className="font-bold">{message.headerText}</p>}
+          </div>
+        </div>
+        {message.runs.length > 0 && <div className="px-3 py-2 bg-green-600 break-words"><Runs runs={message.runs} /></div>}
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex items-start gap-3 px-3 py-1 text-sm">
+      {avatar}
+      <p className="min-w-0 break-words pt-0.5">
+        <AuthorName author={message.author} />
+        <Runs runs={message.runs} />
+      </p>
+    </div>
+  );
+};
+
+const LiveChatPanel: React.FC<LiveChatPanelProps> = ({ videoId, isReplay, currentTime, onClose }) => {
+  const { ngKeywords, addNgKeyword } = usePreference();
+  const [messages, setMessages] = useState<LiveChatMessage[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [hasEnded, setHasEnded] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [applyNgKeywords, setApplyNgKeywords] = useState(true);
+  const [newKeyword, setNewKeyword] = useState('');
+  const [isPaused, setIsPaused] = useState(false);
+  const clientRef = useRef<LiveChatClient | null>(null);
+  const positionMsRef = useRef(currentTime * 1000);
+  positionMsRef.current = currentTime * 1000;
+
+  useEffect(() => {
+    setMessages([]);
+    setIsLoading(true);
+    setHasEnded(false);
+    setError(null);
+    const client = createLiveChatClient(videoId, {
+      replay: isReplay,
+      getPositionMs: () => positionMsRef.current,
+      onMessages: (incoming, reset) => {
+        setIsLoading(false);
+        setHasEnded(false);
+        setMessages(prev => {
+          const seen = reset ? new Set<string>() : new Set(prev.map(messageKey));
+          const merged = [...(reset ? [] : prev), ...incoming.filter(m => m.id && !seen.has(m.id))];
+          return merged.length > MAX_MESSAGES ? merged.slice(merged.length - MAX_MESSAGES) : merged;
+        });
+      },
+      onError: e => setError(e ? e.message : null),
+      onEnd: () => {
+        setIsLoading(false);
+        setHasEnded(true);
+      },
+    });
+    clientRef.current = client;
+    return () => {
+      client.stop();
+      clientRef.current = null;
+    };
+  }, [videoId, isReplay]);
+
+  // Replays follow the player: seeks outside the loaded range restart the chat there
+  const lastPositionRef = useRef(currentTime * 1000);
+  useEffect(() => {
+    if (!isReplay) return;
+    const positionMs = currentTime * 1000;
+    if (Math.abs(positionMs - lastPositionRef.current) > SEEK_THRESHOLD_MS) clientRef.current?.seek(positionMs);
+    lastPositionRef.current = positionMs;
+  }, [isReplay, currentTime]);
+
+  const lowerKeywords = useMemo(() => ngKeywords.map(k => k.toLowerCase()), [ngKeywords]);
+  // Replay pages are fetched ahead of the player; messages appear once playback reaches them
+  const playedMessages = useMemo(
+    () => isReplay ? messages.filter(m => m.offsetMs === undefined || m.offsetMs <= currentTime * 1000) : messages,
+    [messages, isReplay, currentTime]
+  );
+  const visibleMessages = useMemo(() => {
+    if (!applyNgKeywords || lowerKeywords.length === 0) return playedMessages;
+    return playedMessages.filter(message => {
+      const text = `${liveChatText(message)} ${message.author.name}`.toLowerCase();
+      return !lowerKeywords.some(keyword => text.includes(keyword));
+    });
+  }, [playedMessages, applyNgKeywords, lowerKeywords]);
+  const hiddenCount = playedMessages.length - visibleMessages.length;
+
+  const { containerRef, onScroll, measureRef, totalHeight, offsetTop, visibleItems } = useVirtualList(visibleMessages, messageKey, { estimateHeight: 32 });
+
+  // Follows the newest message unless the pointer is over the list
+  useLayoutEffect(() => {
+    const container = containerRef.current;
+    if (container && !isPaused) container.scrollTop = container.scrollHeight;
+  }, [visibleMessages, totalHeight, isPaused, containerRef]);
+
+  const handleAddKeyword = (e: React.FormEvent) => {
+    e.preventDefault();
+    const keyword = newKeyword.trim();
+    if (!keyword) return;
+    addNgKeyword(keyword);
+    setNewKeyword('');
+  };
+
+  return (
+    <div className="bg-yt-white dark:bg-yt-black border border-yt-spec-light-20 dark:border-yt-spec-20 rounded-xl overflow-hidden mb-4 flex flex-col h-[60vh] min-h-[360px]">
+      <div className="flex items-center justify-between px-4 py-2 border-b border-yt-spec-light-20 dark:border-yt-spec-20">
+        <h2 className="text-base font-bold">{isReplay ? 'チャットのリプレイ' : 'ライブチャット'}</h2>
+        <button onClick={onClose} className="p-1.5 rounded-full hover:bg-yt-spec-light-10 dark:hover:bg-yt-spec-10" title="閉じる">
+          <CloseIcon />
+        </button>
+      </div>
+      <div className="relative flex-1 min-h-0">
+        <div
+          ref={containerRef}
+          onScroll={onScroll}
+          onMouseEnter={() => setIsPaused(true)}
+          onMouseLeave={() => setIsPaused(false)}
+          className="h-full overflow-y-auto"
+        >
+          {isLoading ? (
+            <div className="flex justify-center py-8"><div className="animate-spin rounded-full h-6 w-6 border-t-2 border-b-2 border-yt-blue"></div></div>
+          ) : visibleMessages.length === 0 ? (
+            <p className="p-4 text-sm text-yt-light-gray">
+              {error || (hasEnded && messages.length === 0 ? 'チャットはありません。' : 'まだメッセージはありません。')}
+            </p>
+          ) : (
+            <div style={{ height: totalHeight, position: 'relative' }}>
+              <div style={{ transform: `translateY(${offsetTop}px)` }}>
+                {visibleItems.map(message => (
+                  <div key={message.id} ref={measureRef} data-virtual-key={message.id}>
+                    <ChatRow message={message} />
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+        </div>
+        {isPaused && visibleMessages.length > 0 && (
+          <span className="absolute bottom-2 left-1/2 -translate-x-1/2 px-3 py-1 rounded-full bg-black/70 text-white text-xs pointer-events-none">
+            スクロールを一時停止中
+          </span>
+        )}
+      </div>
+      <div className="px-3 py-2 border-t border-yt-spec-light-20 dark:border-yt-spec-20 text-xs text-yt-light-gray space-y-2">
+        {error && visibleMessages.length > 0 && <p className="text-red-500">{error}</p>}
+        {hasEnded && !isReplay && messages.length > 0 && <p>ライブ配信は終了しました。</p>}
+        <div className="flex items-center justify-between gap-2">
+          <label className="flex items-center gap-1.5 cursor-pointer">
+            <input type="checkbox" checked={applyNgKeywords} onChange={e => setApplyNgKeywords(e.target.checked)} />
+            NGワードで非表示{hiddenCount > 0 ? ` (${hiddenCount}件)` : ''}
+          </label>
+          <form onSubmit={handleAddKeyword} className="flex items-center gap-1">
+            <input
+              type="text"
+              value={newKeyword}
+              onChange={e => setNewKeyword(e.target.value)}
+              placeholder="NGワードを追加"
+              className="w-28 px-2 py-1 rounded bg-yt-spec-light-10 dark:bg-yt-spec-10 text-black dark:text-white focus:outline-none"
+            />
+            <button type="submit" className="px-2 py-1 rounded-full font-semibold text-yt-blue hover:bg-yt-spec-light-10 dark:hover:bg-yt-spec-10">追加</button>
+          </form>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default LiveChatPanel;
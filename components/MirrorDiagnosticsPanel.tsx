@@ -0,0 +1,87 @@
+import React, { useState, useEffect, useSyncExternalStore } from 'react';
+import { getMirrorHealth, subscribeMirrorHealth, probeAllMirrors, getBestMirror, type MirrorHealth } from '../utils/mirrorPool';
+import { RepeatIcon } from './icons/Icons';
+
+const formatAgo = (timestamp: number | null, now: number) => {
+    if (!timestamp) return '-';
+    const sec = Math.max(0, Math.round((now - timestamp) / 1000));
+    if (sec < 60) return `${sec}秒前`;
+    if (sec < 3600) return `${Math.floor(sec / 60)}分前`;
+    return `${Math.floor(sec / 3600)}時間前`;
+};
+
+const getStatus = (mirror: MirrorHealth, now: number): { label: string; className: string } => {
+    if (mirror.cooldownUntil > now) return { label: '休止中', className: 'bg-red-100 text-red-700 dark:bg-red-900/30 dark:text-red-300' };
+    if (mirror.successCount === 0 && mirror.failureCount === 0) return { label: '未確認', className: 'bg-gray-100 text-gray-600 dark:bg-white/10 dark:text-gray-300' };
+    if (mirror.errorRate > 0.3) return { label: '不安定', className: 'bg-yellow-100 text-yellow-700 dark:bg-yellow-900/30 dark:text-yellow-300' };
+    return { label: '正常', className: 'bg-green-100 text-green-700 dark:bg-green-900/30 dark:text-green-300' };
+};
+
+const MirrorDiagnosticsPanel: React.FC = () => {
+    const mirrors = useSyncExternalStore(subscribeMirrorHealth, getMirrorHealth);
+    const [isProbing, setIsProbing] = useState(false);
+    const [now, setNow] = useState(Date.now());
+
+    // Keep cooldown countdowns and "x秒前" labels fresh
+    useEffect(() => {
+        const timer = setInterval(() => setNow(Date.now()), 1000);
+        return () => clearInterval(timer);
+    }, []);
+
+    const handleProbe = async () => {
+        setIsProbing(true);
+        try {
+            await probeAllMirrors();
+        } finally {
+            setIsProbing(false);
+        }
+    };
+
+    const bestMirror = getBestMirror();
+
+    return (
+        <div className="space-y-3">
+            <div className="flex items-center justify-between">
+                <p className="text-sm text-yt-light-gray">応答速度とエラー率をもとに、最適なAPIサーバーへ自動で振り分けています。</p>
+                <button
+                    onClick={handleProbe}
+                    disabled={isProbing}
+                    className="flex items-center gap-2 px-4 py-2 text-sm font-semibold bg-yt-light dark:bg-yt-dark-gray rounded-full hover:bg-gray-200 dark:hover:bg-gray-700 disabled:opacity-50 transition-colors flex-shrink-0 ml-4"
+                >
+                    <RepeatIcon className={`w-4 h-4 fill-current ${isProbing ? 'animate-spin' : ''}`} />
+                    {isProbing ? '確認中...' : '今すぐ確認'}
+                </button>
+            </div>
+            {mirrors.map(mirror => {
+                const status = getStatus(mirror, now);
+                const cooldownSec = Math.ceil((mirror.cooldownUntil - now) / 1000);
+                return (
+                    <div key={mirror.url} className="p-3 bg-yt-light dark:bg-yt-dark-gray rounded-lg text-sm">
+                        <div className="flex items-center justify-between gap-2 mb-2">
+                            <span className="font-medium truncate" title={mirror.url}>{mirror.url.replace(/^https?:\/\//, '')}</span>
+                            <div className="flex items-center gap-2 flex-shrink-0">
+                                {mirror.tier !== 'primary' && <span className="text-xs text-yt-light-gray">{mirror.tier === 'preferred' ? 'カスタム' : '予備'}</span>}
+                                {mirror.url === bestMirror && <span className="text-xs font-bold text-yt-blue">使用中</span>}
+                                <span className={`text-xs font-semibold px-2 py-0.5 rounded-full ${status.className}`}>{status.label}</span>
+                            </div>
+                        </div>
+                        <div className="grid grid-cols-2 sm:grid-cols-4 gap-2 text-xs text-yt-light-gray">
+                            <span>応答: {mirror.latencyMs !== null ? `${Math.round(mirror.latencyMs)}ms` : '-'}</span>
+                            <span>エラー率: {Math.round(mirror.errorRate * 100)}%</span>
+                            <span>成功/失敗: {mirror.successCount}/{mirror.failureCount}</span>
+                            <span>最終失敗: {formatAgo(mirror.lastFailureAt, now)}</span>
+                        </div>
+                        {cooldownSec > 0 && (
+                            <p className="text-xs text-red-500 mt-1">連続エラーのため {cooldownSec}秒 休止中</p>
+                        )}
+                        {mirror.lastError && (
+                            <p className="text-xs text-yt-light-gray mt-1 truncate" title={mirror.lastError}>最終エラー: {mirror.lastError}</p>
+                        )}
+                    </div>
+                );
+            })}
+        </div>
+    );
+};
+
+export default MirrorDiagnosticsPanel;
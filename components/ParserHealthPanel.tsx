@@ -0,0 +1,64 @@
+import React, { useSyncExternalStore } from 'react';
+import { getParserHealth, subscribeParserHealth, clearParserHealth } from '../utils/schema';
+import { TrashIcon } from './icons/Icons';
+
+const formatTime = (timestamp: number) => new Date(timestamp).toLocaleTimeString('ja-JP', { hour: '2-digit', minute: '2-digit', second: '2-digit' });
+
+const ParserHealthPanel: React.FC = () => {
+    const { endpoints, drift } = useSyncExternalStore(subscribeParserHealth, getParserHealth);
+
+    return (
+        <div className="space-y-3">
+            <div className="flex items-center justify-between">
+                <p className="text-sm text-yt-light-gray">APIの応答に想定したデータが含まれていたかを記録しています。欠けている項目が多い場合、表示が「無題」「不明」になることがあります。</p>
+                <button
+                    onClick={clearParserHealth}
+                    className="flex items-center gap-2 px-4 py-2 text-sm font-semibold bg-yt-light dark:bg-yt-dark-gray rounded-full hover:bg-gray-200 dark:hover:bg-gray-700 transition-colors flex-shrink-0 ml-4"
+                >
+                    <TrashIcon />
+                    リセット
+                </button>
+            </div>
+
+            {endpoints.length === 0 ? (
+                <p className="text-yt-light-gray text-sm">まだ記録がありません。</p>
+            ) : (
+                <div className="grid grid-cols-2 sm:grid-cols-4 gap-2">
+                    {endpoints.map(e => {
+                        const rate = e.checked > 0 ? e.withWarnings / e.checked : 0;
+                        return (
+                            <div key={e.endpoint} className="p-3 bg-yt-light dark:bg-yt-dark-gray rounded-lg text-sm">
+                                <p className="font-medium font-mono truncate">{e.endpoint}</p>
+                                <p className={`text-xs ${rate > 0.2 ? 'text-red-500' : 'text-yt-light-gray'}`}>
+                                    {e.checked}件中 {e.withWarnings}件で欠落
+                                </p>
+                            </div>
+                        );
+                    })}
+                </div>
+            )}
+
+            {drift.length > 0 && (
+                <div className="space-y-2">
+                    <h3 className="text-sm font-bold">最近の構造変化</h3>
+                    {drift.map(d => (
+                        <div key={`${d.endpoint}|${d.shape}|${d.field}|${d.problem}`} className="p-3 bg-yt-light dark:bg-yt-dark-gray rounded-lg text-xs">
+                            <div className="flex items-center justify-between gap-2 mb-1">
+                                <span className="font-mono font-medium truncate">{d.endpoint} / {d.shape}.{d.field}</span>
+                                <span className={`flex-shrink-0 font-semibold px-2 py-0.5 rounded-full ${d.problem === 'missing' ? 'bg-red-100 text-red-700 dark:bg-red-900/30 dark:text-red-300' : 'bg-yellow-100 text-yellow-700 dark:bg-yellow-900/30 dark:text-yellow-300'}`}>
+                                    {d.problem === 'missing' ? '欠落' : `型の違い (${d.actual})`}
+                                </span>
+                            </div>
+                            <p className="text-yt-light-gray font-mono truncate" title={d.paths.join(' | ')}>{d.paths.join(' | ')}</p>
+                            <p className="text-yt-light-gray">
+                                {d.count}回 ・ 最終 {formatTime(d.lastSeenAt)}{d.sampleId ? ` ・ 例: ${d.sampleId}` : ''}
+                            </p>
+                        </div>
+                    ))}
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default ParserHealthPanel;
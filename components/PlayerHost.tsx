@@ -0,0 +1,195 @@
+import React, { useEffect, useLayoutEffect, useRef, useState } from 'react';
+import { createPortal } from 'react-dom';
+import { useNavigate } from 'react-router-dom';
+import { usePlayerHost } from '../contexts/PlayerHostContext';
+import { usePreference } from '../contexts/PreferenceContext';
+import { useAudioPlayer } from '../contexts/AudioPlayerContext';
+import { createIframeController } from '../utils/player/iframe';
+import { togglePlay } from '../utils/player/controller';
+import StreamingPlayer from './StreamingPlayer';
+import { PlayIcon, PauseIcon, CloseIcon } from './icons/Icons';
+
+interface Rect {
+  top: number;
+  left: number;
+  width: number;
+  height: number;
+}
+
+const MINI_MARGIN = 16;
+// Clear of the bottom navigation on mobile, and of the audio-only bar when it is open
+const MINI_BOTTOM_MOBILE = 64;
+const AUDIO_BAR_HEIGHT = 80;
+const DRAG_THRESHOLD = 5;
+
+const ExpandIcon: React.FC = () => (
+  <svg xmlns="http://www.w3.org/2000/svg" height="24" viewBox="0 0 24 24" width="24" focusable="false" className="fill-current text-white">
+    <path d="M19 19H5V5h7V3H5a2 2 0 0 0-2 2v14a2 2 0 0 0 2 2h14c1.1 0 2-.9 2-2v-7h-2v7zM14 3v2h3.59l-9.83 9.83 1.41 1.41L19 6.41V10h2V3h-7z"></path>
+  </svg>
+);
+
+// Document coordinates of the slot, so the docked player scrolls with the page by itself
+const measure = (element: HTMLElement): Rect => {
+  const rect = element.getBoundingClientRect();
+  return { top: rect.top + window.scrollY, left: rect.left + window.scrollX, width: rect.width, height: rect.height };
+};
+
+const PlayerHost: React.FC = () => {
+  const { session, controller, slot, close, setController } = usePlayerHost();
+  const { defaultPlayerMode } = usePreference();
+  const { track: audioTrack } = useAudioPlayer();
+  const navigate = useNavigate();
+  const iframeRef = useRef<HTMLIFrameElement>(null);
+  const [slotRect, setSlotRect] = useState<Rect | null>(null);
+  // Mini-player offset from the bottom-right corner, set by dragging
+  const [offset, setOffset] = useState<{ right: number; bottom: number } | null>(null);
+  const [isDragging, setIsDragging] = useState(false);
+  const [isPaused, setIsPaused] = useState(true);
+  const dragRef = useRef<{ x: number; y: number; right: number; bottom: number; moved: boolean } | null>(null);
+  const wrapperRef = useRef<HTMLDivElement>(null);
+
+  const isDocked = !!slot;
+  const iframeSrc = session?.iframeSrc || '';
+  const isIframeMode = defaultPlayerMode === 'player';
+
+  useLayoutEffect(() => {
+    if (!slot) {
+      setSlotRect(null);
+      return;
+    }
+    const update = () => setSlotRect(measure(slot));
+    update();
+    // The slot resizes with theater mode and the sidebar; content above it can move it
+    const observer = new ResizeObserver(update);
+    observer.observe(slot);
+    observer.observe(document.body);
+    window.addEventListener('resize', update);
+    return () => {
+      observer.disconnect();
+      window.removeEventListener('resize', update);
+    };
+  }, [slot]);
+
+  useEffect(() => {
+    const iframe = iframeRef.current;
+    if (!isIframeMode || !iframe || !iframeSrc) return;
+    const iframeController = createIframeController(iframe);
+    setController(iframeController);
+    return () => {
+      iframeController.destroy();
+      setController(null);
+    };
+  }, [isIframeMode, iframeSrc, setController]);
+
+  useEffect(() => {
+    if (!controller) return;
+    const update = () => setIsPaused(controller.isPaused());
+    update();
+    const unsubscribers = [controller.on('play', update), controller.on('pause', update), controller.on('ended', update)];
+    return () => unsubscribers.forEach(unsubscribe => unsubscribe());
+  }, [controller]);
+
+  // Keep a dragged mini-player on screen when the window shrinks
+  useEffect(() => {
+    if (!offset) return;
+    const clamp = () => {
+      const wrapper = wrapperRef.current;
+      if (!wrapper) return;
+      setOffset(prev => prev && {
+        right: Math.min(Math.max(prev.right, 0), window.innerWidth - wrapper.offsetWidth),
+        bottom: Math.min(Math.max(prev.bottom, 0), window.innerHeight - wrapper.offsetHeight),
+      });
+    };
+    window.addEventListener('resize', clamp);
+    return () => window.removeEventListener('resize', clamp);
+  }, [offset]);
+
+  if (!session) return null;
+  const hasPlayer = isIframeMode ? !!iframeSrc : !!session.streamData;
+  if (!hasPlayer) return null;
+
+  const defaultBottom = (window.innerWidth < 768 ? MINI_BOTTOM_MOBILE : MINI_MARGIN) + (audioTrack ? AUDIO_BAR_HEIGHT : 0);
+  const miniPosition = offset || { right: MINI_MARGIN, bottom: defaultBottom };
+
+  const handlePointerDown = (event: React.PointerEvent<HTMLDivElement>) => {
+    if ((event.target as HTMLElement).closest('button')) return;
+    event.currentTarget.setPointerCapture(event.pointerId);
+    dragRef.current = { x: event.clientX, y: event.clientY, right: miniPosition.right, bottom: miniPosition.bottom, moved: false };
+  };
+
+  const handlePointerMove = (event: React.PointerEvent<HTMLDivElement>) => {
+    const drag = dragRef.current;
+    const wrapper = wrapperRef.current;
+    if (!drag || !wrapper) return;
+    const dx = event.clientX - drag.x;
+    const dy = event.clientY - drag.y;
+    if (!drag.moved && Math.hypot(dx, dy) < DRAG_THRESHOLD) return;
+    drag.moved = true;
+    setIsDragging(true);
+    setOffset({
+      right: Math.min(Math.max(drag.right - dx, 0), window.innerWidth - wrapper.offsetWidth),
+      bottom: Math.min(Math.max(drag.bottom - dy, 0), window.innerHeight - wrapper.offsetHeight),
+    });
+  };
+
+  const handlePointerUp = () => {
+    const drag = dragRef.current;
+    dragRef.current = null;
+    setIsDragging(false);
+    // A tap without movement plays or pauses
+    if (drag && !drag.moved && controller) togglePlay(controller);
+  };
+
+  // Right after the slot appears it is measured before paint; the player stays mounted meanwhile
+  const wrapperStyle: React.CSSProperties = !isDocked
+    ? { position: 'fixed', right: miniPosition.right, bottom: miniPosition.bottom }
+    : slotRect
+      ? { position: 'absolute', top: slotRect.top, left: slotRect.left, width: slotRect.width, height: slotRect.height }
+      : { position: 'absolute', visibility: 'hidden' };
+
+  return createPortal(
+    <div
+      ref={wrapperRef}
+      style={wrapperStyle}
+      className={isDocked
+        ? 'z-10 bg-yt-black rounded-xl overflow-hidden shadow-lg'
+        : 'z-50 w-[60vw] max-w-[400px] md:w-[400px] bg-yt-white dark:bg-yt-light-black rounded-xl overflow-hidden shadow-2xl border border-yt-spec-light-20 dark:border-yt-spec-20'}
+    >
+      <div data-player-root className={`relative bg-black group ${isDocked ? 'w-full h-full' : 'w-full aspect-video'}`}>
+        {isIframeMode ? (
+          <iframe ref={iframeRef} src={iframeSrc} key={iframeSrc} title={session.title} frameBorder="0" allow="accelerometer; autoplay; clipboard-write; encrypted-media; gyroscope; picture-in-picture" allowFullScreen className={`w-full h-full ${isDragging ? 'pointer-events-none' : ''}`}></iframe>
+        ) : (
+          <StreamingPlayer key={session.videoId} streamData={session.streamData!} autoPlay className="w-full h-full" captions={session.captions} onController={setController} />
+        )}
+        {!isDocked && (
+          <div
+            className="absolute inset-0 cursor-move touch-none flex items-center justify-center bg-black/0 hover:bg-black/40 transition-colors"
+            onPointerDown={handlePointerDown}
+            onPointerMove={handlePointerMove}
+            onPointerUp={handlePointerUp}
+            onPointerCancel={handlePointerUp}
+          >
+            <div className="opacity-0 group-hover:opacity-100 transition-opacity pointer-events-none">
+              {isPaused ? <PlayIcon className="w-12 h-12 fill-current text-white" /> : <PauseIcon className="w-12 h-12 fill-current text-white" />}
+            </div>
+            <button onClick={() => navigate(session.watchUrl)} className="absolute top-1 left-1 p-1.5 rounded-full hover:bg-white/20 opacity-0 group-hover:opacity-100 transition-opacity" title="展開">
+              <ExpandIcon />
+            </button>
+            <button onClick={close} className="absolute top-1 right-1 p-1.5 rounded-full hover:bg-white/20 opacity-0 group-hover:opacity-100 transition-opacity" title="閉じる">
+              <CloseIcon className="fill-current text-white" />
+            </button>
+          </div>
+        )}
+      </div>
+      {!isDocked && (
+        <button onClick={() => navigate(session.watchUrl)} className="w-full text-left px-3 py-2 hover:bg-yt-spec-light-10 dark:hover:bg-yt-spec-10">
+          <p className="text-sm font-semibold truncate">{session.title}</p>
+          <p className="text-xs text-yt-light-gray truncate">{session.channelName}</p>
+        </button>
+      )}
+    </div>,
+    document.body
+  );
+};
+
+export default PlayerHost;
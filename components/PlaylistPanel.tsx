@@ -5,21 +5,26 @@ import React, { useRef } from 'react';
 // FIX: Use named imports for react-router-dom components and hooks.
 import { Link, useSearchParams } from 'react-router-dom';
 import type { Playlist, Video } from '../types';
-import { ShuffleIcon, RepeatIcon, DragHandleIcon } from './icons/Icons';
+import { ShuffleIcon, RepeatIcon, DragHandleIcon, CloseIcon } from './icons/Icons';
 
 interface PlaylistPanelProps {
   playlist: Playlist;
   videos: Video[];
   currentVideoId: string;
-  isShuffle: boolean;
-  isLoop: boolean;
-  toggleShuffle: () => void;
-  toggleLoop: () => void;
+  isShuffle?: boolean;
+  isLoop?: boolean;
+  toggleShuffle?: () => void;
+  toggleLoop?: () => void;
   onReorder: (startIndex: number, endIndex: number) => void;
   authorName?: string;
+  // The watch queue reuses the panel with its own links, a remove button and extra header actions
+  getWatchUrl?: (videoId: string) => string;
+  onRemove?: (videoId: string) => void;
+  actions?: React.ReactNode;
+  className?: string;
 }
 
-const PlaylistPanel: React.FC<PlaylistPanelProps> = ({ playlist, videos, currentVideoId, isShuffle, isLoop, toggleShuffle, toggleLoop, onReorder, authorName }) => {
+const PlaylistPanel: React.FC<PlaylistPanelProps> = ({ playlist, videos, currentVideoId, isShuffle, isLoop, toggleShuffle, toggleLoop, onReorder, authorName, getWatchUrl, onRemove, actions, className = 'h-[calc(100vh-8rem)]' }) => {
   const currentIndex = videos.findIndex(v => v.id === currentVideoId);
   const dragItem = useRef<number | null>(null);
   const dragOverItem = useRef<number | null>(null);
@@ -32,33 +37,38 @@ const PlaylistPanel: React.FC<PlaylistPanelProps> = ({ playlist, videos, current
     dragOverItem.current = null;
   };
   
-  const getWatchUrl = (videoId: string) => {
+  const getPlaylistWatchUrl = (videoId: string) => {
     const newParams = new URLSearchParams(searchParams);
     newParams.set('list', playlist.id);
     return `/watch/${videoId}?${newParams.toString()}`;
   }
 
   return (
-    <div className="bg-yt-spec-light-10 dark:bg-yt-dark-gray rounded-xl overflow-hidden flex flex-col h-[calc(100vh-8rem)]">
+    <div className={`bg-yt-spec-light-10 dark:bg-yt-dark-gray rounded-xl overflow-hidden flex flex-col ${className}`}>
       <div className="p-4 border-b border-yt-spec-light-20 dark:border-yt-spec-20">
         <h2 className="text-xl font-bold truncate">{playlist.name}</h2>
         <p className="text-sm text-yt-light-gray">{authorName}</p>
         <p className="text-sm text-yt-light-gray mt-1">{`動画 ${currentIndex >= 0 ? currentIndex + 1 : '-'} / ${videos.length}`}</p>
         <div className="flex items-center gap-2 mt-2">
-            <button
-                onClick={toggleShuffle}
-                className={`p-2 rounded-full hover:bg-yt-spec-light-20 dark:hover:bg-yt-spec-20 ${isShuffle ? 'text-yt-blue' : ''}`}
-                title="シャッフル"
-            >
-                <ShuffleIcon className={`w-6 h-6 ${isShuffle ? 'fill-current text-yt-blue' : 'fill-current text-black dark:text-white'}`} />
-            </button>
-            <button
-                onClick={toggleLoop}
-                className={`p-2 rounded-full hover:bg-yt-spec-light-20 dark:hover:bg-yt-spec-20 ${isLoop ? 'text-yt-blue' : ''}`}
-                title="リピート"
-            >
-                <RepeatIcon className={`w-6 h-6 ${isLoop ? 'fill-current text-yt-blue' : 'fill-current text-black dark:text-white'}`}/>
-            </button>
+            {toggleShuffle && (
+                <button
+                    onClick={toggleShuffle}
+                    className={`p-2 rounded-full hover:bg-yt-spec-light-20 dark:hover:bg-yt-spec-20 ${isShuffle ? 'text-yt-blue' : ''}`}
+                    title="シャッフル"
+                >
+                    <ShuffleIcon className={`w-6 h-6 ${isShuffle ? 'fill-current text-yt-blue' : 'fill-current text-black dark:text-white'}`} />
+                </button>
+            )}
+            {toggleLoop && (
+                <button
+                    onClick={toggleLoop}
+                    className={`p-2 rounded-full hover:bg-yt-spec-light-20 dark:hover:bg-yt-spec-20 ${isLoop ? 'text-yt-blue' : ''}`}
+                    title="リピート"
+                >
+                    <RepeatIcon className={`w-6 h-6 ${isLoop ? 'fill-current text-yt-blue' : 'fill-current text-black dark:text-white'}`}/>
+                </button>
+            )}
+            {actions}
         </div>
       </div>
       <div className="overflow-y-auto">
@@ -79,7 +89,7 @@ const PlaylistPanel: React.FC<PlaylistPanelProps> = ({ playlist, videos, current
                 </div>
             </div>
             <Link
-              to={getWatchUrl(video.id)}
+              to={getWatchUrl ? getWatchUrl(video.id) : getPlaylistWatchUrl(video.id)}
               className="flex-1 flex items-center gap-3 py-1 pr-2"
               draggable={false}
             >
@@ -92,6 +102,15 @@ const PlaylistPanel: React.FC<PlaylistPanelProps> = ({ playlist, videos, current
                   <p className="text-xs text-yt-light-gray truncate">{video.channelName}</p>
                 </div>
             </Link>
+            {onRemove && (
+                <button
+                    onClick={() => onRemove(video.id)}
+                    className="p-1 mr-1 rounded-full hover:bg-yt-spec-light-20 dark:hover:bg-yt-spec-20 opacity-0 group-hover:opacity-100 transition-opacity"
+                    title="削除"
+                >
+                    <CloseIcon className="w-5 h-5 fill-current text-black dark:text-white" />
+                </button>
+            )}
           </div>
         ))}
       </div>
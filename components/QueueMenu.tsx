@@ -0,0 +1,86 @@
+import React, { useState, useRef, useEffect } from 'react';
+import type { Video } from '../types';
+import { useQueue } from '../contexts/QueueContext';
+import { usePlayerHost } from '../contexts/PlayerHostContext';
+import { useAudioPlayer } from '../contexts/AudioPlayerContext';
+import { MoreIconHorizontal, AddToQueueIcon, SkipNextIcon } from './icons/Icons';
+
+const itemClassName = 'flex items-center w-full px-4 py-2 hover:bg-gray-100 dark:hover:bg-white/10 text-sm text-black dark:text-white text-left gap-3';
+
+// "Play next" and "add to queue" entries for a card's menu
+export const QueueMenuItems: React.FC<{ video: Video; onDone: () => void }> = ({ video, onDone }) => {
+  const { addToQueue, playNext, isInQueue } = useQueue();
+  const { session } = usePlayerHost();
+  const { track } = useAudioPlayer();
+  // "Next" is relative to whatever is playing, in the page, the mini-player or audio-only mode
+  const currentVideoId = track?.id || session?.videoId;
+
+  const handle = (action: () => void) => (e: React.MouseEvent) => {
+    e.preventDefault();
+    e.stopPropagation();
+    action();
+    onDone();
+  };
+
+  return (
+    <>
+      <button onClick={handle(() => playNext(video, currentVideoId))} className={itemClassName}>
+        <SkipNextIcon />
+        次に再生
+      </button>
+      <button onClick={handle(() => addToQueue(video))} disabled={isInQueue(video.id)} className={`${itemClassName} disabled:opacity-50`}>
+        <AddToQueueIcon />
+        {isInQueue(video.id) ? 'キューに追加済み' : 'キューに追加'}
+      </button>
+    </>
+  );
+};
+
+// 3-dot button with the queue entries, for cards that have no menu of their own
+const QueueMenu: React.FC<{ video: Video; className?: string }> = ({ video, className = '' }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const menuRef = useRef<HTMLDivElement>(null);
+  const triggerRef = useRef<HTMLButtonElement>(null);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    const handleClickOutside = (event: MouseEvent) => {
+      if (
+        menuRef.current && !menuRef.current.contains(event.target as Node) &&
+        triggerRef.current && !triggerRef.current.contains(event.target as Node)
+      ) {
+        setIsOpen(false);
+      }
+    };
+    document.addEventListener('mousedown', handleClickOutside);
+    return () => document.removeEventListener('mousedown', handleClickOutside);
+  }, [isOpen]);
+
+  const toggle = (e: React.MouseEvent) => {
+    e.preventDefault();
+    e.stopPropagation();
+    setIsOpen(!isOpen);
+  };
+
+  return (
+    <div className={`relative flex-shrink-0 ${className}`}>
+      <button
+        ref={triggerRef}
+        onClick={toggle}
+        className={`p-1 rounded-full hover:bg-black/5 dark:hover:bg-white/10 transition-opacity ${isOpen ? 'opacity-100' : 'opacity-0 group-hover:opacity-100'}`}
+        title="メニュー"
+      >
+        <div className="transform rotate-90">
+          <MoreIconHorizontal />
+        </div>
+      </button>
+      {isOpen && (
+        <div ref={menuRef} className="absolute top-full right-0 mt-1 w-48 bg-white dark:bg-[#282828] rounded-lg shadow-xl border border-transparent dark:border-white/10 z-50 overflow-hidden py-2">
+          <QueueMenuItems video={video} onDone={() => setIsOpen(false)} />
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default QueueMenu;
@@ -3,6 +3,8 @@ import React from 'react';
 // FIX: Use named import for Link from react-router-dom
 import { Link } from 'react-router-dom';
 import type { Video } from '../types';
+import WatchProgressBar from './WatchProgressBar';
+import QueueMenu from './QueueMenu';
 
 interface RelatedVideoCardProps {
   video: Video;
@@ -16,8 +18,9 @@ const RelatedVideoCard: React.FC<RelatedVideoCardProps> = ({ video }) => {
             <span className="absolute bottom-1 right-1 bg-black bg-opacity-80 text-white text-xs px-1.5 py-0.5 rounded-md">
                 {video.duration}
             </span>
+            <WatchProgressBar videoId={video.id} className="rounded-b-lg" />
         </div>
-        <div className="flex-1">
+        <div className="flex-1 min-w-0">
             <h3 className="text-black dark:text-white text-sm font-semibold leading-snug break-words max-h-10 overflow-hidden line-clamp-2 group-hover:text-opacity-80">
                 {video.title}
             </h3>
@@ -28,6 +31,7 @@ const RelatedVideoCard: React.FC<RelatedVideoCardProps> = ({ video }) => {
                 </p>
             </div>
         </div>
+        <QueueMenu video={video} className="-mr-1" />
     </Link>
   );
 };
@@ -4,6 +4,7 @@ import React, { useState, useRef, useEffect } from 'react';
 import { Link } from 'react-router-dom';
 import type { Video } from '../types';
 import { ChevronRightIcon } from './icons/Icons';
+import QueueMenu from './QueueMenu';
 
 interface SearchVideoResultCardProps {
   video: Video;
@@ -47,9 +48,12 @@ const SearchVideoResultCard: React.FC<SearchVideoResultCardProps> = ({ video })
 
       {/* Video Details */}
       <div className="flex-1 py-1 min-w-0">
-        <h3 className="text-black dark:text-white text-lg sm:text-xl font-normal leading-snug break-words line-clamp-2 mb-1">
-          {video.title}
-        </h3>
+        <div className="flex items-start gap-2">
+          <h3 className="flex-1 text-black dark:text-white text-lg sm:text-xl font-normal leading-snug break-words line-clamp-2 mb-1">
+            {video.title}
+          </h3>
+          <QueueMenu video={video} />
+        </div>
         <p className="text-yt-light-gray text-xs sm:text-sm mb-2">
             {[video.views?.includes('不明') ? null : video.views, video.uploadedAt].filter(Boolean).join(' \u2022 ')}
         </p>
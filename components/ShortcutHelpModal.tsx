@@ -0,0 +1,109 @@
+import React, { useState, useEffect } from 'react';
+import { usePreference } from '../contexts/PreferenceContext';
+import { useShortcuts } from '../hooks/useShortcuts';
+import { SHORTCUT_DEFINITIONS, SHORTCUT_GROUP_LABELS, comboFromEvent, formatCombo, getShortcutKeys, findShortcutConflict, type ShortcutAction, type ShortcutGroup } from '../utils/shortcuts';
+import { CloseIcon } from './icons/Icons';
+
+// Cheat-sheet opened with "?" from anywhere; each key can be rebound here.
+const ShortcutHelpModal: React.FC = () => {
+    const { shortcutBindings, setShortcutKeys, resetShortcutBindings } = usePreference();
+    const [isOpen, setIsOpen] = useState(false);
+    const [recording, setRecording] = useState<ShortcutAction | null>(null);
+    const [message, setMessage] = useState<string | null>(null);
+
+    useShortcuts({ showHelp: () => setIsOpen(prev => !prev) });
+
+    const close = () => {
+        setIsOpen(false);
+        setRecording(null);
+        setMessage(null);
+    };
+
+    // While recording, the next key press is captured before the shortcut registry sees it
+    useEffect(() => {
+        if (!isOpen) return;
+        const handleKeyDown = (e: KeyboardEvent) => {
+            if (!recording) {
+                if (e.key === 'Escape') close();
+                return;
+            }
+            e.preventDefault();
+            e.stopPropagation();
+            if (e.key === 'Escape') {
+                setRecording(null);
+                return;
+            }
+            const combo = comboFromEvent(e);
+            if (!combo) return;
+            if (/^[0-9]$/.test(combo)) {
+                setMessage('数字キーは動画内の移動に使われているため割り当てられません。');
+                return;
+            }
+            const conflict = findShortcutConflict(recording, combo, shortcutBindings);
+            if (conflict) {
+                setMessage(`${formatCombo(combo)} は「${conflict.label}」に割り当て済みです。`);
+                return;
+            }
+            setShortcutKeys(recording, [combo]);
+            setRecording(null);
+            setMessage(null);
+        };
+        window.addEventListener('keydown', handleKeyDown, true);
+        return () => window.removeEventListener('keydown', handleKeyDown, true);
+    }, [isOpen, recording, shortcutBindings, setShortcutKeys]);
+
+    if (!isOpen) return null;
+
+    const groups = Object.keys(SHORTCUT_GROUP_LABELS) as ShortcutGroup[];
+
+    return (
+        <div className="fixed inset-0 bg-black bg-opacity-60 flex items-center justify-center z-[70]" onClick={close}>
+            <div className="bg-yt-white/90 dark:bg-yt-light-black/80 backdrop-blur-lg w-full max-w-2xl rounded-xl shadow-2xl flex flex-col max-h-[80vh] border border-yt-spec-light-20 dark:border-yt-spec-20 animate-scale-in mx-4" onClick={e => e.stopPropagation()}>
+                <div className="p-4 border-b border-yt-spec-light-20 dark:border-yt-spec-20 flex justify-between items-center">
+                    <h2 className="text-xl font-bold text-black dark:text-white">キーボード ショートカット</h2>
+                    <button onClick={close} className="p-2 rounded-full hover:bg-yt-spec-light-10 dark:hover:bg-yt-spec-10">
+                        <CloseIcon />
+                    </button>
+                </div>
+                <div className="overflow-y-auto p-4 space-y-6">
+                    {message && <p className="text-sm text-red-500">{message}</p>}
+                    {groups.map(group => (
+                        <section key={group}>
+                            <h3 className="text-sm font-bold text-yt-light-gray mb-2">{SHORTCUT_GROUP_LABELS[group]}</h3>
+                            <div className="divide-y divide-yt-spec-light-20 dark:divide-yt-spec-20">
+                                {SHORTCUT_DEFINITIONS.filter(d => d.group === group).map(definition => (
+                                    <div key={definition.action} className="flex items-center justify-between gap-4 py-2">
+                                        <span className="text-sm text-black dark:text-white">{definition.label}</span>
+                                        <div className="flex items-center gap-2 flex-shrink-0">
+                                            {recording === definition.action ? (
+                                                <span className="text-xs text-yt-blue">キーを押してください（Escでキャンセル）</span>
+                                            ) : getShortcutKeys(definition.action, shortcutBindings).map(combo => (
+                                                <kbd key={combo} className="px-2 py-0.5 text-xs font-mono rounded border border-yt-spec-light-20 dark:border-yt-spec-20 bg-yt-spec-light-10 dark:bg-yt-spec-10">{formatCombo(combo)}</kbd>
+                                            ))}
+                                            {!definition.fixed && (
+                                                <button
+                                                    onClick={() => { setRecording(definition.action); setMessage(null); }}
+                                                    className="px-2 py-1 text-xs font-semibold text-yt-blue rounded-full hover:bg-yt-spec-light-10 dark:hover:bg-yt-spec-10"
+                                                >
+                                                    変更
+                                                </button>
+                                            )}
+                                        </div>
+                                    </div>
+                                ))}
+                            </div>
+                        </section>
+                    ))}
+                </div>
+                <div className="p-4 border-t border-yt-spec-light-20 dark:border-yt-spec-20 flex justify-between items-center">
+                    <p className="text-xs text-yt-light-gray">入力欄にフォーカスがある間はショートカットは無効です。</p>
+                    <button onClick={() => { resetShortcutBindings(); setRecording(null); setMessage(null); }} className="px-4 py-2 text-sm font-semibold rounded-full hover:bg-yt-spec-light-10 dark:hover:bg-yt-spec-10">
+                        既定に戻す
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default ShortcutHelpModal;
@@ -2,7 +2,7 @@
 import React from 'react';
 // FIX: Use named import for NavLink from react-router-dom
 import { NavLink } from 'react-router-dom';
-import { HomeIcon, ShortsIcon, SubscriptionsIcon, HistoryIcon, PlaylistIcon } from './icons/Icons';
+import { HomeIcon, ShortsIcon, SubscriptionsIcon, HistoryIcon, PlaylistIcon, DownloadIcon } from './icons/Icons';
 import { useSubscription } from '../contexts/SubscriptionContext';
 import { useTheme } from '../hooks/useTheme';
 
@@ -74,6 +74,7 @@ const Sidebar: React.FC<SidebarProps> = ({ isOpen }) => {
         </div>
         <SidebarItem to="/history" icon={<HistoryIcon />} label="履歴" />
         <SidebarItem to="/you" icon={<PlaylistIcon />} label="マイページ" />
+        <SidebarItem to="/offline" icon={<DownloadIcon />} label="オフライン" />
       </nav>
       {subscribedChannels.length > 0 && (
           <>
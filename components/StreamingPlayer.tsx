@@ -1,63 +1,107 @@
-import React, { useRef, useEffect } from 'react';
+import React, { useRef, useEffect, useMemo, useState } from 'react';
+import type { StreamData } from '../types';
+import { buildManifest } from '../utils/dash/manifest';
+import { createDashPlayer, type DashPlayer, type DashPlayerState } from '../utils/dash/engine';
+import type { PlayerController } from '../utils/player/controller';
+import { useMediaElementController } from '../hooks/useMediaElementController';
+import type { CaptionSource } from '../utils/captions';
+import HlsVideoPlayer from './HlsVideoPlayer';
+import { CheckIcon } from './icons/Icons';
 
 interface StreamingPlayerProps {
-  videoUrl: string;
-  audioUrl?: string;
+  streamData: StreamData;
+  autoPlay?: boolean;
+  className?: string;
+  captions?: CaptionSource[];
+  onController?: (controller: PlayerController | null) => void;
 }
 
-const StreamingPlayer: React.FC<StreamingPlayerProps> = ({ videoUrl, audioUrl }) => {
+// Plays the separate video/audio formats through the adaptive (MSE) engine and
+// falls back to the HLS or progressive URL when they are missing or fail.
+const StreamingPlayer: React.FC<StreamingPlayerProps> = ({ streamData, autoPlay = true, className, captions, onController }) => {
   const videoRef = useRef<HTMLVideoElement>(null);
-  const audioRef = useRef<HTMLAudioElement>(null);
+  const playerRef = useRef<DashPlayer | null>(null);
+  const manifest = useMemo(() => buildManifest(streamData), [streamData]);
+  const [failed, setFailed] = useState(false);
+  const [playerState, setPlayerState] = useState<DashPlayerState | null>(null);
+  const [isMenuOpen, setIsMenuOpen] = useState(false);
+
+  const isAdaptive = !!manifest && !failed;
+  useMediaElementController(videoRef, isAdaptive ? 'adaptive' : null, onController);
+
+  useEffect(() => {
+    setFailed(false);
+  }, [streamData]);
 
   useEffect(() => {
     const video = videoRef.current;
-    const audio = audioRef.current;
-    if (video && audio) {
-      const syncPlayback = () => {
-        if (audio.paused !== video.paused) {
-          video.paused ? audio.pause() : audio.play();
-        }
-        if (Math.abs(video.currentTime - audio.currentTime) > 0.2) {
-          audio.currentTime = video.currentTime;
-        }
-      };
-      
-      const syncVolume = () => {
-        audio.volume = video.volume;
-        audio.muted = video.muted;
-      };
-
-      video.addEventListener('play', syncPlayback);
-      video.addEventListener('pause', syncPlayback);
-      video.addEventListener('seeking', syncPlayback);
-      video.addEventListener('volumechange', syncVolume);
-      
-      syncVolume();
-
-      return () => {
-        video.removeEventListener('play', syncPlayback);
-        video.removeEventListener('pause', syncPlayback);
-        video.removeEventListener('seeking', syncPlayback);
-        video.removeEventListener('volumechange', syncVolume);
-      };
-    }
-  }, [videoUrl, audioUrl]);
+    if (!video || !manifest || failed) return;
+
+    const player = createDashPlayer(video, manifest, { onError: () => setFailed(true) });
+    playerRef.current = player;
+    setPlayerState(player.getState());
+    const unsubscribe = player.subscribe(() => setPlayerState(player.getState()));
+    if (autoPlay) video.play().catch(e => console.warn("Autoplay prevented:", e));
+
+    return () => {
+      unsubscribe();
+      player.destroy();
+      playerRef.current = null;
+    };
+  }, [manifest, failed, autoPlay]);
+
+  if (!isAdaptive) {
+    return streamData.streamingUrl ? (
+      <HlsVideoPlayer src={streamData.streamingUrl} type={streamData.streamType} autoPlay={autoPlay} className={className} captions={captions} onController={onController} />
+    ) : (
+      <div className={`w-full h-full bg-black flex items-center justify-center text-white text-sm ${className || ''}`}>
+        再生できる形式が見つかりませんでした。
+      </div>
+    );
+  }
+
+  const activeLabel = playerState?.qualities.find(q => q.id === playerState.activeId)?.label;
+  const selectQuality = (id: string) => {
+    playerRef.current?.setQuality(id);
+    setIsMenuOpen(false);
+  };
 
   return (
-    <div className="w-full h-full bg-black flex justify-center items-center">
-      <video
-        ref={videoRef}
-        key={videoUrl}
-        src={videoUrl}
-        controls
-        autoPlay
-        playsInline
-        className="w-full h-full"
-        muted={!!audioUrl}
-      />
-      {audioUrl && <audio ref={audioRef} key={audioUrl} src={audioUrl} />}
+    <div className={`relative w-full h-full bg-black group ${className || ''}`}>
+      <video ref={videoRef} controls playsInline className="w-full h-full object-contain">
+        {captions?.map(caption => <track key={caption.src} kind="subtitles" src={caption.src} label={caption.label} srcLang={caption.language} />)}
+      </video>
+      {playerState && (
+        <div className="absolute top-2 right-2 z-20">
+          <button
+            onClick={() => setIsMenuOpen(open => !open)}
+            className={`px-2 py-1 rounded-md bg-black/60 text-white text-xs transition-opacity ${isMenuOpen ? 'opacity-100' : 'opacity-0 group-hover:opacity-100'}`}
+          >
+            画質: {playerState.selected === 'auto' ? `自動${activeLabel ? ` (${activeLabel})` : ''}` : activeLabel}
+          </button>
+          {isMenuOpen && (
+            <div className="absolute right-0 mt-1 w-40 max-h-64 overflow-y-auto rounded-lg bg-black/90 text-white text-sm py-1 shadow-lg">
+              {[{ id: 'auto', label: '自動' }, ...playerState.qualities].map(quality => (
+                <button
+                  key={quality.id}
+                  onClick={() => selectQuality(quality.id)}
+                  className="w-full flex items-center justify-between px-3 py-1.5 hover:bg-white/10 text-left"
+                >
+                  <span>{quality.label}</span>
+                  {playerState.selected === quality.id && <CheckIcon className="w-4 h-4 fill-current" />}
+                </button>
+              ))}
+              {playerState.bandwidthKbps !== null && (
+                <p className="px-3 pt-1 mt-1 border-t border-white/10 text-[11px] text-white/60">
+                  推定帯域: {(playerState.bandwidthKbps / 1000).toFixed(1)} Mbps
+                </p>
+              )}
+            </div>
+          )}
+        </div>
+      )}
     </div>
   );
 };
 
-export default StreamingPlayer;
\ No newline at end of file
+export default StreamingPlayer;
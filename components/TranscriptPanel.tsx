@@ -0,0 +1,114 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import type { CaptionTrack } from '../types';
+import { activeCueIndex, type CaptionCue } from '../utils/captions';
+import { formatDuration } from '../utils/format';
+import { SearchIcon, CloseIcon } from './icons/Icons';
+
+interface TranscriptPanelProps {
+  tracks: CaptionTrack[];
+  track: CaptionTrack | null;
+  onSelectTrack: (track: CaptionTrack) => void;
+  cues: CaptionCue[];
+  isLoading: boolean;
+  error: string | null;
+  currentTime: number;
+  onSeek: (seconds: number) => void;
+  onClose: () => void;
+}
+
+const trackLabel = (track: CaptionTrack) => track.isAutoGenerated && !/自動|auto/i.test(track.label) ? `${track.label} (自動生成)` : track.label;
+
+const TranscriptPanel: React.FC<TranscriptPanelProps> = ({ tracks, track, onSelectTrack, cues, isLoading, error, currentTime, onSeek, onClose }) => {
+  const [query, setQuery] = useState('');
+  const listRef = useRef<HTMLDivElement>(null);
+  // Auto-scroll pauses while the user scrolls the list themselves
+  const isHoveringRef = useRef(false);
+
+  const activeIndex = activeCueIndex(cues, currentTime);
+  const normalizedQuery = query.trim().toLowerCase();
+  const visible = useMemo(
+    () => cues.map((cue, index) => ({ cue, index })).filter(({ cue }) => !normalizedQuery || cue.text.toLowerCase().includes(normalizedQuery)),
+    [cues, normalizedQuery]
+  );
+
+  useEffect(() => {
+    const list = listRef.current;
+    if (!list || isHoveringRef.current || normalizedQuery) return;
+    const item = list.querySelector<HTMLElement>(`[data-cue-index="${activeIndex}"]`);
+    if (!item) return;
+    if (item.offsetTop < list.scrollTop || item.offsetTop + item.offsetHeight > list.scrollTop + list.clientHeight) {
+      list.scrollTop = item.offsetTop - list.clientHeight / 2 + item.offsetHeight / 2;
+    }
+  }, [activeIndex, normalizedQuery]);
+
+  const highlight = (text: string) => {
+    if (!normalizedQuery) return text;
+    const start = text.toLowerCase().indexOf(normalizedQuery);
+    if (start === -1) return text;
+    const end = start + normalizedQuery.length;
+    return <>{text.slice(0, start)}<mark className="bg-yellow-300 dark:bg-yellow-600 text-inherit rounded-sm">{text.slice(start, end)}</mark>{text.slice(end)}</>;
+  };
+
+  return (
+    <div className="bg-yt-spec-light-10 dark:bg-yt-dark-gray rounded-xl overflow-hidden mb-4 flex flex-col">
+      <div className="flex items-center justify-between p-4 pb-2">
+        <h2 className="text-base font-bold">文字起こし</h2>
+        <button onClick={onClose} className="p-1.5 rounded-full hover:bg-yt-spec-light-20 dark:hover:bg-yt-spec-20" title="閉じる">
+          <CloseIcon />
+        </button>
+      </div>
+      <div className="flex items-center gap-2 px-4 pb-3">
+        <div className="flex-1 flex items-center gap-2 px-3 h-9 rounded-full bg-yt-white dark:bg-yt-black border border-yt-spec-light-20 dark:border-yt-spec-20">
+          <SearchIcon />
+          <input
+            type="text"
+            value={query}
+            onChange={e => setQuery(e.target.value)}
+            placeholder="文字起こしを検索"
+            className="w-full bg-transparent text-sm focus:outline-none"
+          />
+        </div>
+        {tracks.length > 1 && (
+          <select
+            value={track?.url || ''}
+            onChange={e => {
+              const next = tracks.find(t => t.url === e.target.value);
+              if (next) onSelectTrack(next);
+            }}
+            className="h-9 max-w-[40%] px-2 text-sm rounded-lg bg-yt-white dark:bg-yt-black border border-yt-spec-light-20 dark:border-yt-spec-20"
+          >
+            {tracks.map(t => <option key={t.url} value={t.url}>{trackLabel(t)}</option>)}
+          </select>
+        )}
+      </div>
+      <div
+        ref={listRef}
+        onMouseEnter={() => { isHoveringRef.current = true; }}
+        onMouseLeave={() => { isHoveringRef.current = false; }}
+        className="relative max-h-96 overflow-y-auto border-t border-yt-spec-light-20 dark:border-yt-spec-20"
+      >
+        {isLoading ? (
+          <div className="flex justify-center py-6"><div className="animate-spin rounded-full h-6 w-6 border-t-2 border-b-2 border-yt-blue"></div></div>
+        ) : tracks.length === 0 ? (
+          <p className="p-4 text-sm text-yt-light-gray">この動画には字幕がありません。</p>
+        ) : error ? (
+          <p className="p-4 text-sm text-red-500">{error}</p>
+        ) : visible.length === 0 ? (
+          <p className="p-4 text-sm text-yt-light-gray">一致する行はありません。</p>
+        ) : visible.map(({ cue, index }) => (
+          <button
+            key={index}
+            data-cue-index={index}
+            onClick={() => onSeek(cue.start)}
+            className={`w-full flex items-start gap-3 px-4 py-1.5 text-left text-sm ${index === activeIndex ? 'bg-yt-spec-light-20 dark:bg-yt-spec-20' : 'hover:bg-yt-spec-light-20 dark:hover:bg-yt-spec-20'}`}
+          >
+            <span className="font-mono text-xs text-yt-blue flex-shrink-0 pt-0.5">{formatDuration(Math.floor(cue.start))}</span>
+            <span className={`whitespace-pre-line ${index === activeIndex ? 'font-semibold' : ''}`}>{highlight(cue.text)}</span>
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default TranscriptPanel;
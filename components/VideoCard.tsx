@@ -5,6 +5,8 @@ import { Link } from 'react-router-dom';
 import type { Video } from '../types';
 import { ChevronRightIcon, MoreIconHorizontal, BlockIcon, TrashIcon } from './icons/Icons';
 import { usePreference } from '../contexts/PreferenceContext';
+import WatchProgressBar from './WatchProgressBar';
+import { QueueMenuItems } from './QueueMenu';
 
 interface VideoCardProps {
   video: Video;
@@ -105,6 +107,7 @@ const VideoCard: React.FC<VideoCardProps> = memo(({ video, hideChannelInfo = fal
                 {video.duration}
                 </span>
             )}
+            <WatchProgressBar videoId={video.id} />
         </div>
       </Link>
       
@@ -184,6 +187,8 @@ const VideoCard: React.FC<VideoCardProps> = memo(({ video, hideChannelInfo = fal
 
         {isSettingsMenuOpen && (
             <div ref={settingsMenuRef} className="absolute top-6 right-0 w-56 bg-white dark:bg-[#282828] rounded-lg shadow-xl border border-transparent dark:border-white/10 z-50 overflow-hidden py-2">
+                <QueueMenuItems video={video} onDone={() => setIsSettingsMenuOpen(false)} />
+                <div className="my-1 border-t border-gray-100 dark:border-white/10"></div>
                 <button 
                     onClick={handleNotInterested}
                     className="flex items-center w-full px-4 py-2 hover:bg-gray-100 dark:hover:bg-white/10 text-sm text-black dark:text-white text-left gap-3"
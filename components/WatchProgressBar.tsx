@@ -0,0 +1,22 @@
+import React from 'react';
+import { useHistory } from '../contexts/HistoryContext';
+
+interface WatchProgressBarProps {
+  videoId: string;
+  className?: string;
+}
+
+// Red bar along the bottom of a thumbnail showing how much of the video was watched.
+const WatchProgressBar: React.FC<WatchProgressBarProps> = ({ videoId, className = '' }) => {
+  const { watchProgress } = useHistory();
+  const progress = watchProgress[videoId];
+  if (!progress || progress.percent < 1) return null;
+
+  return (
+    <div className={`absolute bottom-0 left-0 right-0 h-1 bg-gray-400/70 overflow-hidden ${className}`}>
+      <div className="h-full bg-red-600" style={{ width: `${Math.min(progress.percent, 100)}%` }} />
+    </div>
+  );
+};
+
+export default WatchProgressBar;
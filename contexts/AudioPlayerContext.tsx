@@ -0,0 +1,333 @@
+import React, { createContext, useState, useEffect, useContext, useRef, useCallback, ReactNode } from 'react';
+import type { Video } from '../types';
+import { usePlaylist } from './PlaylistContext';
+import { useQueue } from './QueueContext';
+import { useHistory } from './HistoryContext';
+import { getRawStreamData, getVideosByIds } from '../utils/api';
+import { getDownloadFile, getDownloads } from '../utils/downloads/manager';
+import { createMediaElementController } from '../utils/player/mediaElement';
+import type { PlayerController } from '../utils/player/controller';
+
+// --- Audio-Only Mode ---
+// Plays a video's audio-only format in an <audio> element owned by this provider,
+// so it keeps playing across route changes and in the background (no video to
+// decode, which also keeps long mixes cheap on battery). With a playlist attached
+// the queue follows the playlist as it is in PlaylistContext, including reorders
+// made while listening; without one it advances through the watch queue. Lock
+// screen and hardware keys go through the Media Session API.
+
+export type AudioTrack = Pick<Video, 'id' | 'title' | 'channelName' | 'thumbnailUrl'>;
+
+interface PlayAudioOptions {
+  playlistId?: string | null;
+  startAt?: number;        // Seconds; defaults to the saved watch position
+}
+
+interface AudioPlayerContextType {
+  track: AudioTrack | null;
+  playlistId: string | null;
+  controller: PlayerController | null;
+  isPlaying: boolean;
+  isLoading: boolean;
+  error: string | null;
+  isRepeat: boolean;
+  hasNext: boolean;
+  hasPrevious: boolean;
+  playAudio: (track: AudioTrack, options?: PlayAudioOptions) => void;
+  togglePlay: () => void;
+  pause: () => void;
+  next: () => void;
+  previous: () => void;
+  toggleRepeat: () => void;
+  stop: () => void;
+}
+
+const AudioPlayerContext = createContext<AudioPlayerContextType | undefined>(undefined);
+
+const SEEK_STEP_SECONDS = 10;
+const PROGRESS_SAVE_INTERVAL_MS = 10 * 1000;
+// "Previous" restarts the track instead once it has played this long
+const RESTART_THRESHOLD_SECONDS = 3;
+
+// A finished audio download plays without the network
+const findOfflineAudio = async (videoId: string): Promise<string | null> => {
+  const job = getDownloads().find(j => j.videoId === videoId && j.kind === 'audio' && j.status === 'completed');
+  if (!job) return null;
+  const file = await getDownloadFile(job.id).catch(() => null);
+  return file ? URL.createObjectURL(file) : null;
+};
+
+export const AudioPlayerProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
+  const { playlists } = usePlaylist();
+  const { getNextInQueue, advanceQueue } = useQueue();
+  const { saveWatchProgress, getResumePosition } = useHistory();
+  const audioRef = useRef<HTMLAudioElement>(null);
+  const [controller, setController] = useState<PlayerController | null>(null);
+  const [track, setTrack] = useState<AudioTrack | null>(null);
+  const [playlistId, setPlaylistId] = useState<string | null>(null);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [isRepeat, setIsRepeat] = useState(false);
+  const loadIdRef = useRef(0);
+  const objectUrlRef = useRef<string | null>(null);
+  const lastSaveRef = useRef(0);
+  // The track whose source is in the element; progress is only ever saved against it
+  const loadedTrackRef = useRef<AudioTrack | null>(null);
+
+  const playlist = playlistId ? playlists.find(p => p.id === playlistId) || null : null;
+  const queueIndex = playlist && track ? playlist.videoIds.indexOf(track.id) : -1;
+  const queueLength = playlist?.videoIds.length ?? 0;
+  const hasNext = playlist
+    ? queueIndex >= 0 && (queueIndex < queueLength - 1 || (isRepeat && queueLength > 1))
+    : !!track && !!getNextInQueue(track.id);
+  const hasPrevious = queueIndex > 0 || (isRepeat && queueLength > 1);
+
+  useEffect(() => {
+    const audio = audioRef.current;
+    if (!audio) return;
+    const audioController = createMediaElementController(audio, 'audio');
+    setController(audioController);
+    return () => {
+      audioController.destroy();
+      setController(null);
+    };
+  }, []);
+
+  const saveProgress = useCallback((final: boolean) => {
+    const audio = audioRef.current;
+    const loaded = loadedTrackRef.current;
+    if (!audio || !loaded || !isFinite(audio.duration)) return;
+    saveWatchProgress(loaded.id, audio.currentTime, audio.duration, final);
+  }, [saveWatchProgress]);
+
+  const releaseObjectUrl = () => {
+    if (objectUrlRef.current) URL.revokeObjectURL(objectUrlRef.current);
+    objectUrlRef.current = null;
+  };
+
+  const playAudio = useCallback((nextTrack: AudioTrack, options: PlayAudioOptions = {}) => {
+    const audio = audioRef.current;
+    if (!audio) return;
+    const loadId = ++loadIdRef.current;
+    saveProgress(true);
+    loadedTrackRef.current = null;
+    setTrack(nextTrack);
+    if (options.playlistId !== undefined) setPlaylistId(options.playlistId);
+    setError(null);
+    setIsLoading(true);
+    audio.pause();
+
+    (async () => {
+      try {
+        let src = await findOfflineAudio(nextTrack.id);
+        const isOffline = !!src;
+        if (!src) {
+          const streamData = await getRawStreamData(nextTrack.id, { priority: 'high' });
+          src = streamData.audioOnlyFormat?.url || null;
+        }
+        if (loadId !== loadIdRef.current) {
+          if (isOffline && src) URL.revokeObjectURL(src);
+          return;
+        }
+        if (!src) throw new Error('音声のみの形式が見つかりませんでした。');
+        releaseObjectUrl();
+        if (isOffline) objectUrlRef.current = src;
+        audio.src = src;
+        loadedTrackRef.current = nextTrack;
+        const startAt = options.startAt ?? getResumePosition(nextTrack.id);
+        if (startAt) audio.currentTime = startAt;
+        await audio.play();
+      } catch (e: any) {
+        if (loadId !== loadIdRef.current) return;
+        // Autoplay without a gesture (e.g. advancing in a background tab on some browsers) is not an error
+        if (e?.name === 'NotAllowedError') return;
+        console.error("Failed to start audio playback", e);
+        setError(e?.message || '再生できませんでした。');
+      } finally {
+        if (loadId === loadIdRef.current) setIsLoading(false);
+      }
+    })();
+  }, [getResumePosition, saveProgress]);
+
+  const playVideoId = useCallback(async (videoId: string) => {
+    const [video] = await getVideosByIds([videoId]).catch(() => []);
+    playAudio(video || { id: videoId, title: videoId, channelName: '', thumbnailUrl: `https://i.ytimg.com/vi/${videoId}/hqdefault.jpg` }, { startAt: 0 });
+  }, [playAudio]);
+
+  const next = useCallback(() => {
+    if (!playlist) {
+      const queued = track ? advanceQueue(track.id) : null;
+      if (queued) playAudio(queued, { startAt: 0 });
+      return;
+    }
+    if (queueIndex < 0) return;
+    const nextIndex = queueIndex + 1 < queueLength ? queueIndex + 1 : isRepeat ? 0 : -1;
+    if (nextIndex < 0) return;
+    playVideoId(playlist.videoIds[nextIndex]);
+  }, [playlist, track, advanceQueue, playAudio, queueIndex, queueLength, isRepeat, playVideoId]);
+
+  const previous = useCallback(() => {
+    const audio = audioRef.current;
+    if (!audio) return;
+    if (audio.currentTime > RESTART_THRESHOLD_SECONDS || !playlist || queueIndex < 0) {
+      audio.currentTime = 0;
+      return;
+    }
+    const previousIndex = queueIndex > 0 ? queueIndex - 1 : isRepeat ? queueLength - 1 : -1;
+    if (previousIndex < 0) {
+      audio.currentTime = 0;
+      return;
+    }
+    playVideoId(playlist.videoIds[previousIndex]);
+  }, [playlist, queueIndex, queueLength, isRepeat, playVideoId]);
+
+  const togglePlay = useCallback(() => {
+    const audio = audioRef.current;
+    if (!audio || !track) return;
+    if (audio.paused) audio.play().catch(e => console.warn("Playback prevented:", e));
+    else audio.pause();
+  }, [track]);
+
+  const pause = useCallback(() => audioRef.current?.pause(), []);
+
+  const stop = useCallback(() => {
+    const audio = audioRef.current;
+    saveProgress(true);
+    loadedTrackRef.current = null;
+    loadIdRef.current++;
+    if (audio) {
+      audio.pause();
+      audio.removeAttribute('src');
+      audio.load();
+    }
+    releaseObjectUrl();
+    setTrack(null);
+    setPlaylistId(null);
+    setError(null);
+    setIsLoading(false);
+  }, [saveProgress]);
+
+  const toggleRepeat = useCallback(() => setIsRepeat(prev => !prev), []);
+
+  // Without a playlist, repeat loops the track itself
+  useEffect(() => {
+    if (audioRef.current) audioRef.current.loop = isRepeat && !playlist;
+  }, [isRepeat, playlist]);
+
+  // Playback state, periodic progress saves and queue advance
+  useEffect(() => {
+    const audio = audioRef.current;
+    if (!audio) return;
+    const handlePlay = () => setIsPlaying(true);
+    const handlePause = () => {
+      setIsPlaying(false);
+      saveProgress(true);
+    };
+    const handleTimeUpdate = () => {
+      if (Date.now() - lastSaveRef.current < PROGRESS_SAVE_INTERVAL_MS) return;
+      lastSaveRef.current = Date.now();
+      saveProgress(false);
+    };
+    const handleEnded = () => {
+      setIsPlaying(false);
+      saveProgress(true);
+      next();
+    };
+    const handleError = () => {
+      if (!audio.getAttribute('src')) return;
+      setIsPlaying(false);
+      setError('音声の読み込みに失敗しました。');
+    };
+    audio.addEventListener('play', handlePlay);
+    audio.addEventListener('pause', handlePause);
+    audio.addEventListener('timeupdate', handleTimeUpdate);
+    audio.addEventListener('ended', handleEnded);
+    audio.addEventListener('error', handleError);
+    return () => {
+      audio.removeEventListener('play', handlePlay);
+      audio.removeEventListener('pause', handlePause);
+      audio.removeEventListener('timeupdate', handleTimeUpdate);
+      audio.removeEventListener('ended', handleEnded);
+      audio.removeEventListener('error', handleError);
+    };
+  }, [saveProgress, next]);
+
+  // --- Media Session ---
+  useEffect(() => {
+    if (!('mediaSession' in navigator)) return;
+    navigator.mediaSession.metadata = track ? new MediaMetadata({
+      title: track.title,
+      artist: track.channelName,
+      album: playlist?.name || '',
+      artwork: [
+        { src: track.thumbnailUrl, sizes: '480x360', type: 'image/jpeg' },
+        { src: `https://i.ytimg.com/vi/${track.id}/maxresdefault.jpg`, sizes: '1280x720', type: 'image/jpeg' },
+      ],
+    }) : null;
+  }, [track, playlist?.name]);
+
+  useEffect(() => {
+    if (!('mediaSession' in navigator) || !track) return;
+    navigator.mediaSession.playbackState = isPlaying ? 'playing' : 'paused';
+  }, [isPlaying, track]);
+
+  useEffect(() => {
+    const audio = audioRef.current;
+    if (!('mediaSession' in navigator) || !audio || !track) return;
+    const session = navigator.mediaSession;
+    const updatePosition = () => {
+      if (!isFinite(audio.duration) || audio.duration <= 0) return;
+      try {
+        session.setPositionState({ duration: audio.duration, playbackRate: audio.playbackRate, position: Math.min(audio.currentTime, audio.duration) });
+      } catch (e) { /* Position is briefly invalid while a new source loads */ }
+    };
+    const seekBy = (offset: number) => {
+      audio.currentTime = Math.min(Math.max(audio.currentTime + offset, 0), isFinite(audio.duration) ? audio.duration : Infinity);
+    };
+    const handlers: [MediaSessionAction, MediaSessionActionHandler | null][] = [
+      ['play', () => { audio.play().catch(() => {}); }],
+      ['pause', () => audio.pause()],
+      ['stop', () => stop()],
+      ['seekbackward', details => seekBy(-(details.seekOffset || SEEK_STEP_SECONDS))],
+      ['seekforward', details => seekBy(details.seekOffset || SEEK_STEP_SECONDS)],
+      ['seekto', details => { if (details.seekTime !== undefined) audio.currentTime = details.seekTime; }],
+      ['previoustrack', playlist ? () => previous() : null],
+      ['nexttrack', hasNext ? () => next() : null],
+    ];
+    handlers.forEach(([action, handler]) => {
+      try {
+        session.setActionHandler(action, handler);
+      } catch (e) { /* Action not supported by this browser */ }
+    });
+    const positionEvents = ['loadedmetadata', 'play', 'pause', 'seeked', 'ratechange'];
+    positionEvents.forEach(type => audio.addEventListener(type, updatePosition));
+    updatePosition();
+    return () => {
+      positionEvents.forEach(type => audio.removeEventListener(type, updatePosition));
+      handlers.forEach(([action]) => {
+        try {
+          session.setActionHandler(action, null);
+        } catch (e) { /* ignore */ }
+      });
+    };
+  }, [track, playlist, hasNext, next, previous, stop]);
+
+  return (
+    <AudioPlayerContext.Provider value={{
+      track, playlistId, controller, isPlaying, isLoading, error, isRepeat, hasNext, hasPrevious,
+      playAudio, togglePlay, pause, next, previous, toggleRepeat, stop,
+    }}>
+      <audio ref={audioRef} preload="auto" hidden />
+      {children}
+    </AudioPlayerContext.Provider>
+  );
+};
+
+export const useAudioPlayer = (): AudioPlayerContextType => {
+  const context = useContext(AudioPlayerContext);
+  if (context === undefined) {
+    throw new Error('useAudioPlayer must be used within an AudioPlayerProvider');
+  }
+  return context;
+};
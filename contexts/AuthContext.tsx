@@ -1,5 +1,6 @@
 
 import React, { createContext, useContext, useState, useEffect, ReactNode, useRef, useCallback } from 'react';
+import { getBackendBases } from '../utils/backendProfiles';
 
 // API Base URL (Render)
 const API_BASE_URL = "https://xerox-login-api.onrender.com";
@@ -11,10 +12,17 @@ interface User {
 
 // Data payload type for single action sync
 export interface SyncPayload {
-    category: 'search' | 'history' | 'shorts' | 'subscription';
-    item: any; // string for search, Video/Channel object for others
+    category: 'search' | 'history' | 'shorts' | 'subscription' | 'progress';
+    item: any; // string for search, Video/Channel object for others, { id, title, ...WatchProgress } for progress
 }
 
+// The sync API has no field for watch progress, so it rides on the history entry:
+// "タイトル &位置/長さ/更新時刻" (seconds, seconds, ms), the same way subscriptions send "名前 &アイコンリンク"
+const PROGRESS_SUFFIX = / &(\d+)\/(\d+)\/(\d+)$/;
+
+const withProgress = (title: string, progress?: { position: number; duration: number; updatedAt: number }) =>
+    progress ? `${title} &${progress.position}/${progress.duration}/${progress.updatedAt}` : title;
+
 interface AuthContextType {
     user: User | null;
     isLoggedIn: boolean;
@@ -73,7 +81,9 @@ export const AuthProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
     }, []);
 
     const buildUrl = (action: string, params: Record<string, string>) => {
-        const baseUrl = API_BASE_URL.endsWith('/') ? API_BASE_URL.slice(0, -1) : API_BASE_URL;
+        // A user-configured auth backend takes precedence over the default server
+        const configured = getBackendBases('auth')[0] || API_BASE_URL;
+        const baseUrl = configured.endsWith('/') ? configured.slice(0, -1) : configured;
         const searchParams = new URLSearchParams(params);
         return `${baseUrl}/${action}?${searchParams.toString()}`;
     };
@@ -150,6 +160,7 @@ export const AuthProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
         const newVideoHistory: any[] = [];
         const newShortsHistory: any[] = [];
         const newSubscriptions: any[] = [];
+        const newWatchProgress: Record<string, any> = {};
 
         // Collect icons from 'channel' category (from icondata param)
         const channelIcons: string[] = items
@@ -209,11 +220,18 @@ export const AuthProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
                         newSearchHistory.push(item.word);
                     }
                 } else if (item.category === 'histry') {
+                    const text = String(item.text || '');
+                    const progressMatch = text.match(PROGRESS_SUFFIX);
+                    if (item.id && progressMatch && !newWatchProgress[item.id]) {
+                        // Items are read newest first, so the first position seen for a video wins
+                        const [position, duration, updatedAt] = progressMatch.slice(1).map(Number);
+                        if (duration > 0) newWatchProgress[item.id] = { position, duration, percent: Math.round((position / duration) * 1000) / 10, updatedAt };
+                    }
                     if (item.id && !seenIds.video.has(item.id)) {
                         seenIds.video.add(item.id);
                         newVideoHistory.push({
                             id: item.id,
-                            title: item.text || 'No Title',
+                            title: (progressMatch ? text.slice(0, progressMatch.index) : text) || 'No Title',
                             thumbnailUrl: `https://i.ytimg.com/vi/${item.id}/mqdefault.jpg`,
                             channelName: '履歴',
                             channelId: '',
@@ -246,6 +264,14 @@ export const AuthProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
         if(newVideoHistory.length > 0) localStorage.setItem('videoHistory', JSON.stringify(newVideoHistory));
         if(newShortsHistory.length > 0) localStorage.setItem('shortsHistory', JSON.stringify(newShortsHistory));
         if(newSubscriptions.length > 0) localStorage.setItem('subscribedChannels', JSON.stringify(newSubscriptions.reverse()));
+        if(Object.keys(newWatchProgress).length > 0) {
+            // Keep whichever side saved a video more recently
+            const local = JSON.parse(localStorage.getItem('watchProgress') || '{}');
+            for (const [id, progress] of Object.entries(newWatchProgress)) {
+                if (!local[id] || local[id].updatedAt < progress.updatedAt) local[id] = progress;
+            }
+            localStorage.setItem('watchProgress', JSON.stringify(local));
+        }
     };
 
     const fetchUserData = async () => {
@@ -287,6 +313,9 @@ export const AuthProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
                 // "名前 &アイコンリンク" の形式で送信
                 params.subscriptionname = `${safeStr(payload.item.name)} &${payload.item.avatarUrl || ''}`;
                 if (payload.item.avatarUrl) params.icondata = payload.item.avatarUrl;
+            } else if (payload.category === 'progress') {
+                params.histryid = payload.item.id;
+                params.test = withProgress(safeStr(payload.item.title), payload.item);
             }
             const url = buildUrl('writealldeta', params);
             await smartFetch(url);
@@ -303,13 +332,14 @@ export const AuthProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
             const history = JSON.parse(localStorage.getItem('videoHistory') || '[]');
             const shorts = JSON.parse(localStorage.getItem('shortsHistory') || '[]');
             const subs = JSON.parse(localStorage.getItem('subscribedChannels') || '[]');
+            const progress = JSON.parse(localStorage.getItem('watchProgress') || '{}');
             const limit = 30; 
 
             if (search.length > 0) {
                 await smartFetch(buildUrl('writealldeta', { userid: user.id, pw: user.password, searchID: search.slice(0, 10).map(safeStr).join(',') }));
             }
             if (history.length > 0) {
-                await smartFetch(buildUrl('writealldeta', { userid: user.id, pw: user.password, histryid: history.slice(0, limit).map((v: any) => v.id).join(','), test: history.slice(0, limit).map((v: any) => safeStr(v.title)).join(',') }));
+                await smartFetch(buildUrl('writealldeta', { userid: user.id, pw: user.password, histryid: history.slice(0, limit).map((v: any) => v.id).join(','), test: history.slice(0, limit).map((v: any) => withProgress(safeStr(v.title), progress[v.id])).join(',') }));
             }
             if (shorts.length > 0) {
                 await smartFetch(buildUrl('writealldeta', { userid: user.id, pw: user.password, shorthistryID: shorts.slice(0, limit).map((v: any) => v.id).join(','), shorthistrytext: shorts.slice(0, limit).map((v: any) => safeStr(v.title)).join(',') }));
@@ -1,6 +1,6 @@
 
-import React, { createContext, useState, useEffect, useContext, ReactNode, useCallback, useRef } from 'react';
-import type { Video } from '../types';
+import React, { createContext, useState, useEffect, useContext, ReactNode, useCallback, useRef, useMemo } from 'react';
+import type { Video, WatchProgress } from '../types';
 import { usePreference } from './PreferenceContext';
 import { useAuth } from './AuthContext';
 
@@ -11,6 +11,11 @@ interface HistoryContextType {
   addShortToHistory: (video: Video) => void;
   clearHistory: () => void;
   removeVideosFromHistory: (videoIds: string[]) => void;
+  watchProgress: Record<string, WatchProgress>;
+  continueWatching: Video[];
+  // `final` marks the last save for a viewing (pause, end, leaving the page); only those are synced
+  saveWatchProgress: (videoId: string, position: number, duration: number, final?: boolean) => void;
+  getResumePosition: (videoId: string) => number | null;
 }
 
 const HistoryContext = createContext<HistoryContextType | undefined>(undefined);
@@ -18,6 +23,15 @@ const HistoryContext = createContext<HistoryContextType | undefined>(undefined);
 const HISTORY_KEY = 'videoHistory';
 const SHORTS_HISTORY_KEY = 'shortsHistory';
 const MAX_HISTORY_LENGTH = 200;
+const WATCH_PROGRESS_KEY = 'watchProgress';
+const MAX_PROGRESS_ENTRIES = 500;
+const MAX_CONTINUE_WATCHING = 20;
+// Shorter than this counts as not started and past COMPLETED_PERCENT as watched; neither is resumed
+const MIN_RESUME_SECONDS = 10;
+const COMPLETED_PERCENT = 95;
+
+const isResumable = (progress: WatchProgress | undefined): progress is WatchProgress =>
+  !!progress && progress.position >= MIN_RESUME_SECONDS && progress.percent < COMPLETED_PERCENT;
 
 export const HistoryProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
   const { notifyAction, isGuestMode } = usePreference();
@@ -25,7 +39,12 @@ export const HistoryProvider: React.FC<{ children: ReactNode }> = ({ children })
   const isInitialized = useRef(false);
 
   const [history, setHistory] = useState<Video[]>([]);
+  const historyRef = useRef(history);
+  historyRef.current = history;
   const [shortsHistory, setShortsHistory] = useState<Video[]>([]);
+  const [watchProgress, setWatchProgress] = useState<Record<string, WatchProgress>>({});
+  const watchProgressRef = useRef(watchProgress);
+  watchProgressRef.current = watchProgress;
 
   // Initial Read
   useEffect(() => {
@@ -35,6 +54,9 @@ export const HistoryProvider: React.FC<{ children: ReactNode }> = ({ children })
           
           const shortsItem = window.localStorage.getItem(SHORTS_HISTORY_KEY);
           if (shortsItem) setShortsHistory(JSON.parse(shortsItem));
+
+          const progressItem = window.localStorage.getItem(WATCH_PROGRESS_KEY);
+          if (progressItem) setWatchProgress(JSON.parse(progressItem));
       } catch (error) {
           console.error("Failed to parse history from localStorage", error);
       } finally {
@@ -61,6 +83,15 @@ export const HistoryProvider: React.FC<{ children: ReactNode }> = ({ children })
     }
   }, [shortsHistory]);
 
+  useEffect(() => {
+    if (!isInitialized.current) return;
+    try {
+      window.localStorage.setItem(WATCH_PROGRESS_KEY, JSON.stringify(watchProgress));
+    } catch (error) {
+      console.error("Failed to save watch progress to localStorage", error);
+    }
+  }, [watchProgress]);
+
   const addVideoToHistory = useCallback((video: Video) => {
     if (isGuestMode) return; 
 
@@ -90,9 +121,45 @@ export const HistoryProvider: React.FC<{ children: ReactNode }> = ({ children })
     syncAction({ category: 'shorts', item: video });
   }, [notifyAction, isGuestMode, syncAction]);
 
+  const saveWatchProgress = useCallback((videoId: string, position: number, duration: number, final = false) => {
+    if (isGuestMode || !videoId || !(duration > 0) || !isFinite(position)) return;
+
+    const clamped = Math.min(Math.max(position, 0), duration);
+    const progress: WatchProgress = {
+      position: Math.floor(clamped),
+      duration: Math.floor(duration),
+      percent: Math.round((clamped / duration) * 1000) / 10,
+      updatedAt: Date.now(),
+    };
+    setWatchProgress(prev => {
+      const next = { ...prev, [videoId]: progress };
+      const ids = Object.keys(next);
+      if (ids.length <= MAX_PROGRESS_ENTRIES) return next;
+      // Drop the entries that were updated longest ago
+      ids.sort((a, b) => next[b].updatedAt - next[a].updatedAt).slice(MAX_PROGRESS_ENTRIES).forEach(id => delete next[id]);
+      return next;
+    });
+
+    // Progress is synced as a history entry, so only videos in the history (which have a title) are sent
+    const video = final ? historyRef.current.find(v => v.id === videoId) : undefined;
+    if (video) syncAction({ category: 'progress', item: { id: videoId, title: video.title, ...progress } });
+  }, [isGuestMode, syncAction]);
+
+  // Reads through a ref so callers can use it in effects without re-running them on every save
+  const getResumePosition = useCallback((videoId: string) => {
+    const progress = watchProgressRef.current[videoId];
+    return isResumable(progress) ? progress.position : null;
+  }, []);
+
+  const continueWatching = useMemo(
+    () => history.filter(video => isResumable(watchProgress[video.id])).slice(0, MAX_CONTINUE_WATCHING),
+    [history, watchProgress]
+  );
+
   const clearHistory = useCallback(() => {
     setHistory([]);
     setShortsHistory([]);
+    setWatchProgress({});
     notifyAction();
     // Clearing history on cloud isn't supported by 'writealldeta' easily without a reset flag, 
     // so we just clear locally. The user can use "Reset Data" in settings if needed.
@@ -101,11 +168,16 @@ export const HistoryProvider: React.FC<{ children: ReactNode }> = ({ children })
   const removeVideosFromHistory = useCallback((videoIds: string[]) => {
     setHistory(prev => prev.filter(video => !videoIds.includes(video.id)));
     setShortsHistory(prev => prev.filter(video => !videoIds.includes(video.id)));
+    setWatchProgress(prev => {
+      const next = { ...prev };
+      videoIds.forEach(id => delete next[id]);
+      return next;
+    });
     notifyAction();
   }, [notifyAction]);
 
   return (
-    <HistoryContext.Provider value={{ history, shortsHistory, addVideoToHistory, addShortToHistory, clearHistory, removeVideosFromHistory }}>
+    <HistoryContext.Provider value={{ history, shortsHistory, addVideoToHistory, addShortToHistory, clearHistory, removeVideosFromHistory, watchProgress, continueWatching, saveWatchProgress, getResumePosition }}>
       {children}
     </HistoryContext.Provider>
   );
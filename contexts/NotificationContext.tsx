@@ -42,7 +42,7 @@ export const NotificationProvider: React.FC<{ children: ReactNode }> = ({ childr
         const channelMap = new Map(subscribedChannels.map(c => [c.id, c]));
         
         const requests = subscribedChannels.map(channel => 
-            getChannelVideos(channel.id).then(res => res.videos.length > 0 ? res.videos[0] : null)
+            getChannelVideos(channel.id, '1', 'latest', { priority: 'low' }).then(res => res.videos.length > 0 ? res.videos[0] : null)
         );
 
         try {
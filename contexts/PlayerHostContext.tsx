@@ -0,0 +1,114 @@
+import React, { createContext, useState, useEffect, useContext, useRef, useCallback, ReactNode } from 'react';
+import type { StreamData } from '../types';
+import { useHistory } from './HistoryContext';
+import type { PlayerController } from '../utils/player/controller';
+import type { CaptionSource } from '../utils/captions';
+
+// --- Player Host ---
+// The video player lives above the routes instead of inside VideoPlayerPage, so
+// leaving the watch page doesn't unmount it. The page registers a slot element
+// and the host lays the player over it; without a slot (any other page) the same
+// element moves to a corner as a mini-player. Only the host's CSS changes between
+// the two, so an <iframe> or MSE <video> keeps playing without a reload.
+// Watch progress is saved here rather than in the page, since playback outlives it.
+
+export interface PlayerSession {
+  videoId: string;
+  title: string;
+  channelName: string;
+  thumbnailUrl: string;
+  isLive: boolean;
+  watchUrl: string;              // Path and query to go back to the watch page
+  iframeSrc: string;
+  streamData: StreamData | null;
+  captions: CaptionSource[];     // <video> modes only; the embed shows its own
+}
+
+interface PlayerHostContextType {
+  session: PlayerSession | null;
+  controller: PlayerController | null;
+  slot: HTMLElement | null;
+  // Called by the watch page whenever what it would play changes
+  load: (session: PlayerSession) => void;
+  close: () => void;
+  registerSlot: (element: HTMLElement | null) => void;
+  setController: (controller: PlayerController | null) => void;
+}
+
+const PlayerHostContext = createContext<PlayerHostContextType | undefined>(undefined);
+
+const PROGRESS_SAVE_INTERVAL_MS = 10 * 1000;
+
+export const PlayerHostProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
+  const { saveWatchProgress } = useHistory();
+  const [session, setSession] = useState<PlayerSession | null>(null);
+  const [controller, setController] = useState<PlayerController | null>(null);
+  const [slot, setSlot] = useState<HTMLElement | null>(null);
+
+  const load = useCallback((next: PlayerSession) => {
+    setSession(prev => {
+      if (!prev || prev.videoId !== next.videoId) return next;
+      // The page refetches (and rebuilds) these when it mounts again; swapping them
+      // in would restart the player, so the first usable ones are kept for the video
+      const merged = {
+        ...next,
+        iframeSrc: prev.iframeSrc || next.iframeSrc,
+        streamData: prev.streamData || next.streamData,
+      };
+      const changed = (Object.keys(merged) as (keyof PlayerSession)[]).some(key => merged[key] !== prev[key]);
+      return changed ? merged : prev;
+    });
+  }, []);
+
+  const close = useCallback(() => setSession(null), []);
+
+  // Watch progress while playing and once more when playback stops or the video changes.
+  // Position is tracked in refs because the controller may already be torn down on cleanup.
+  const videoId = session?.videoId;
+  const isLive = !!session?.isLive;
+  const positionRef = useRef(0);
+  const durationRef = useRef(0);
+  useEffect(() => {
+    positionRef.current = 0;
+    durationRef.current = 0;
+  }, [videoId]);
+
+  useEffect(() => {
+    if (!controller || !videoId || isLive) return;
+    const trackPosition = () => {
+      positionRef.current = controller.getCurrentTime();
+      durationRef.current = controller.getDuration();
+    };
+    const save = (final: boolean) => {
+      if (positionRef.current > 0) saveWatchProgress(videoId, positionRef.current, durationRef.current, final);
+    };
+    const saveFinal = () => save(true);
+    const timer = setInterval(() => { if (!controller.isPaused()) save(false); }, PROGRESS_SAVE_INTERVAL_MS);
+    const unsubscribers = [
+      controller.on('timeupdate', trackPosition),
+      controller.on('pause', saveFinal),
+      controller.on('ended', saveFinal),
+    ];
+    window.addEventListener('pagehide', saveFinal);
+    return () => {
+      clearInterval(timer);
+      unsubscribers.forEach(unsubscribe => unsubscribe());
+      window.removeEventListener('pagehide', saveFinal);
+      saveFinal();
+    };
+  }, [controller, videoId, isLive, saveWatchProgress]);
+
+  return (
+    <PlayerHostContext.Provider value={{ session, controller, slot, load, close, registerSlot: setSlot, setController }}>
+      {children}
+    </PlayerHostContext.Provider>
+  );
+};
+
+export const usePlayerHost = (): PlayerHostContextType => {
+  const context = useContext(PlayerHostContext);
+  if (context === undefined) {
+    throw new Error('usePlayerHost must be used within a PlayerHostProvider');
+  }
+  return context;
+};
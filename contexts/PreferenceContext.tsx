@@ -1,6 +1,10 @@
 
 import React, { createContext, useState, useEffect, useContext, ReactNode, useCallback, useRef } from 'react';
+import { v4 as uuidv4 } from 'uuid';
 import { extractKeywords } from '../utils/xrai';
+import { getBackendProfiles, setBackendProfiles, BACKEND_PROFILES_KEY, type BackendProfile, type BackendKind } from '../utils/backendProfiles';
+import type { BackendDialect } from '../utils/adapters';
+import { getShortcutBindings, setShortcutBindings, SHORTCUT_BINDINGS_KEY, type ShortcutAction, type ShortcutBindings } from '../utils/shortcuts';
 import type { Video } from '../types';
 
 export interface BlockedChannel {
@@ -34,6 +38,18 @@ interface PreferenceContextType {
   defaultPlayerMode: 'player' | 'stream';
   setDefaultPlayerMode: (mode: 'player' | 'stream') => void;
 
+  // Custom backend servers (tried before the built-in ones)
+  backendProfiles: BackendProfile[];
+  addBackendProfile: (kind: BackendKind, baseUrl: string, dialect?: BackendDialect) => void;
+  removeBackendProfile: (id: string) => void;
+  moveBackendProfile: (id: string, direction: -1 | 1) => void;
+  toggleBackendProfile: (id: string) => void;
+
+  // Keyboard shortcut overrides (actions not listed use their default keys)
+  shortcutBindings: ShortcutBindings;
+  setShortcutKeys: (action: ShortcutAction, keys: string[]) => void;
+  resetShortcutBindings: () => void;
+
   // Versioning for Update Notification
   checkAppVersion: () => boolean; 
   
@@ -73,6 +89,9 @@ export const PreferenceProvider: React.FC<{ children: ReactNode }> = ({ children
   const [isLiteMode, setIsLiteMode] = useState<boolean>(false);
   const [isGuestMode, setIsGuestMode] = useState<boolean>(false);
   const [defaultPlayerMode, _setDefaultPlayerMode] = useState<'player' | 'stream'>('player');
+  // Seeded synchronously so API calls made before the first effect already see custom backends
+  const [backendProfiles, setBackendProfilesState] = useState<BackendProfile[]>(getBackendProfiles);
+  const [shortcutBindings, setShortcutBindingsState] = useState<ShortcutBindings>(getShortcutBindings);
 
   // Initial Read
   useEffect(() => {
@@ -112,6 +131,16 @@ export const PreferenceProvider: React.FC<{ children: ReactNode }> = ({ children
   useEffect(() => { if (isInitialized.current) localStorage.setItem('negativeKeywords', JSON.stringify(Array.from(negativeKeywords.entries()))); }, [negativeKeywords]);
   useEffect(() => { if (isInitialized.current) localStorage.setItem('isShortsAutoplayEnabled', String(isShortsAutoplayEnabled)); }, [isShortsAutoplayEnabled]);
   useEffect(() => { if (isInitialized.current) localStorage.setItem('isLiteMode', String(isLiteMode)); }, [isLiteMode]);
+  useEffect(() => {
+      if (!isInitialized.current) return;
+      localStorage.setItem(BACKEND_PROFILES_KEY, JSON.stringify(backendProfiles));
+      setBackendProfiles(backendProfiles);
+  }, [backendProfiles]);
+  useEffect(() => {
+      if (!isInitialized.current) return;
+      localStorage.setItem(SHORTCUT_BINDINGS_KEY, JSON.stringify(shortcutBindings));
+      setShortcutBindings(shortcutBindings);
+  }, [shortcutBindings]);
 
   const addNgKeyword = (k: string) => !ngKeywords.includes(k) && setNgKeywords(p => [...p, k]);
   const removeNgKeyword = (k: string) => setNgKeywords(p => p.filter(x => x !== k));
@@ -169,6 +198,37 @@ export const PreferenceProvider: React.FC<{ children: ReactNode }> = ({ children
       localStorage.setItem('defaultPlayerMode', mode);
   };
 
+  const addBackendProfile = (kind: BackendKind, baseUrl: string, dialect?: BackendDialect) => {
+      if (backendProfiles.some(p => p.kind === kind && p.baseUrl === baseUrl)) return;
+      setBackendProfilesState(prev => [...prev, { id: uuidv4(), kind, baseUrl, enabled: true, verifiedAt: new Date().toISOString(), ...(kind === 'video' ? { dialect } : {}) }]);
+  };
+
+  const removeBackendProfile = (id: string) => setBackendProfilesState(prev => prev.filter(p => p.id !== id));
+
+  // Moves a profile past its neighbour of the same kind; order decides which backend is tried first.
+  const moveBackendProfile = (id: string, direction: -1 | 1) => {
+      setBackendProfilesState(prev => {
+          const index = prev.findIndex(p => p.id === id);
+          if (index === -1) return prev;
+          let target = index + direction;
+          while (target >= 0 && target < prev.length && prev[target].kind !== prev[index].kind) target += direction;
+          if (target < 0 || target >= prev.length) return prev;
+          const next = [...prev];
+          [next[index], next[target]] = [next[target], next[index]];
+          return next;
+      });
+  };
+
+  const toggleBackendProfile = (id: string) => {
+      setBackendProfilesState(prev => prev.map(p => p.id === id ? { ...p, enabled: !p.enabled } : p));
+  };
+
+  const setShortcutKeys = (action: ShortcutAction, keys: string[]) => {
+      setShortcutBindingsState(prev => ({ ...prev, [action]: keys }));
+  };
+
+  const resetShortcutBindings = () => setShortcutBindingsState({});
+
   const checkAppVersion = () => {
       const lastSeen = localStorage.getItem('lastSeenAppVersion');
       if (lastSeen !== CURRENT_APP_VERSION) {
@@ -181,6 +241,7 @@ export const PreferenceProvider: React.FC<{ children: ReactNode }> = ({ children
   const restoreData = (json: any) => {
       if (json.subscriptions) localStorage.setItem('subscribedChannels', JSON.stringify(json.subscriptions));
       if (json.history) localStorage.setItem('videoHistory', JSON.stringify(json.history));
+      if (json.watchProgress) localStorage.setItem('watchProgress', JSON.stringify(json.watchProgress));
       if (json.playlists) localStorage.setItem('playlists', JSON.stringify(json.playlists || []));
       
       if (json.preferences) {
@@ -192,6 +253,8 @@ export const PreferenceProvider: React.FC<{ children: ReactNode }> = ({ children
         localStorage.setItem('isShortsAutoplayEnabled', String(p.isShortsAutoplayEnabled ?? true));
         if(p.isLiteMode !== undefined) localStorage.setItem('isLiteMode', String(p.isLiteMode));
         if(p.defaultPlayerMode) localStorage.setItem('defaultPlayerMode', p.defaultPlayerMode);
+        if(Array.isArray(p.backendProfiles)) localStorage.setItem(BACKEND_PROFILES_KEY, JSON.stringify(p.backendProfiles));
+        if(p.shortcutBindings) localStorage.setItem(SHORTCUT_BINDINGS_KEY, JSON.stringify(p.shortcutBindings));
       }
   };
 
@@ -201,10 +264,11 @@ export const PreferenceProvider: React.FC<{ children: ReactNode }> = ({ children
       version: '4.0',
       subscriptions: JSON.parse(localStorage.getItem('subscribedChannels') || '[]'),
       history: JSON.parse(localStorage.getItem('videoHistory') || '[]'),
+      watchProgress: JSON.parse(localStorage.getItem('watchProgress') || '{}'),
       playlists: JSON.parse(localStorage.getItem('playlists') || '[]'),
       preferences: { 
           ngKeywords, ngChannels, hiddenVideos, isShortsAutoplayEnabled, 
-          isLiteMode, defaultPlayerMode 
+          isLiteMode, defaultPlayerMode, backendProfiles, shortcutBindings
       }
     };
     const blob = new Blob([JSON.stringify(data, null, 2)], { type: 'application/json' });
@@ -271,6 +335,8 @@ export const PreferenceProvider: React.FC<{ children: ReactNode }> = ({ children
       isLiteMode, toggleLiteMode,
       isGuestMode, toggleGuestMode,
       defaultPlayerMode, setDefaultPlayerMode,
+      backendProfiles, addBackendProfile, removeBackendProfile, moveBackendProfile, toggleBackendProfile,
+      shortcutBindings, setShortcutKeys, resetShortcutBindings,
       checkAppVersion,
       addNgKeyword, removeNgKeyword, addNgChannel, removeNgChannel, isNgChannel,
       addHiddenVideo, unhideVideo, isvideoHidden, removeNegativeProfileForVideos,
@@ -0,0 +1,114 @@
+import React, { createContext, useState, useEffect, useContext, useCallback, ReactNode } from 'react';
+import type { Video } from '../types';
+import { usePlaylist } from './PlaylistContext';
+
+// --- Watch Queue ---
+// An ephemeral "up next" list that isn't a saved playlist. It holds whole Video
+// objects so the panel renders without refetching. The video that is playing stays
+// at the front while it plays and is dropped once playback moves past it, so the
+// queue is always "now playing (if queued) + what comes after".
+
+interface QueueContextType {
+  queue: Video[];
+  addToQueue: (video: Video) => void;
+  // Inserts right after the current video, or at the front when it isn't queued
+  playNext: (video: Video, currentVideoId?: string) => void;
+  removeFromQueue: (videoId: string) => void;
+  reorderQueue: (startIndex: number, endIndex: number) => void;
+  clearQueue: () => void;
+  isInQueue: (videoId: string) => boolean;
+  // The video that follows the current one, without changing the queue
+  getNextInQueue: (currentVideoId?: string) => Video | null;
+  // Drops the current video and everything before it, returning the new front
+  advanceQueue: (currentVideoId?: string) => Video | null;
+  saveQueueAsPlaylist: (name: string) => void;
+}
+
+const QueueContext = createContext<QueueContextType | undefined>(undefined);
+
+const STORAGE_KEY = 'watchQueue';
+
+const nextIndexAfter = (queue: Video[], currentVideoId?: string) => {
+  const currentIndex = currentVideoId ? queue.findIndex(v => v.id === currentVideoId) : -1;
+  return currentIndex + 1;
+};
+
+export const QueueProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
+  const { createPlaylist } = usePlaylist();
+  const [queue, setQueue] = useState<Video[]>(() => {
+    try {
+      const item = window.localStorage.getItem(STORAGE_KEY);
+      return item ? JSON.parse(item) : [];
+    } catch (error) {
+      console.error("Failed to parse watch queue from localStorage", error);
+      return [];
+    }
+  });
+
+  useEffect(() => {
+    try {
+      window.localStorage.setItem(STORAGE_KEY, JSON.stringify(queue));
+    } catch (error) {
+      console.error("Failed to save watch queue to localStorage", error);
+    }
+  }, [queue]);
+
+  const addToQueue = useCallback((video: Video) => {
+    setQueue(prev => prev.some(v => v.id === video.id) ? prev : [...prev, video]);
+  }, []);
+
+  const playNext = useCallback((video: Video, currentVideoId?: string) => {
+    setQueue(prev => {
+      if (video.id === currentVideoId) return prev;
+      const rest = prev.filter(v => v.id !== video.id);
+      const insertAt = nextIndexAfter(rest, currentVideoId);
+      return [...rest.slice(0, insertAt), video, ...rest.slice(insertAt)];
+    });
+  }, []);
+
+  const removeFromQueue = useCallback((videoId: string) => {
+    setQueue(prev => prev.filter(v => v.id !== videoId));
+  }, []);
+
+  const reorderQueue = useCallback((startIndex: number, endIndex: number) => {
+    setQueue(prev => {
+      const next = Array.from(prev);
+      const [removed] = next.splice(startIndex, 1);
+      next.splice(endIndex, 0, removed);
+      return next;
+    });
+  }, []);
+
+  const clearQueue = useCallback(() => setQueue([]), []);
+
+  const isInQueue = useCallback((videoId: string) => queue.some(v => v.id === videoId), [queue]);
+
+  const getNextInQueue = useCallback((currentVideoId?: string) => {
+    return queue[nextIndexAfter(queue, currentVideoId)] || null;
+  }, [queue]);
+
+  const advanceQueue = useCallback((currentVideoId?: string) => {
+    const nextIndex = nextIndexAfter(queue, currentVideoId);
+    setQueue(prev => prev.slice(nextIndexAfter(prev, currentVideoId)));
+    return queue[nextIndex] || null;
+  }, [queue]);
+
+  const saveQueueAsPlaylist = useCallback((name: string) => {
+    if (queue.length === 0) return;
+    createPlaylist(name, queue.map(v => v.id));
+  }, [queue, createPlaylist]);
+
+  return (
+    <QueueContext.Provider value={{ queue, addToQueue, playNext, removeFromQueue, reorderQueue, clearQueue, isInQueue, getNextInQueue, advanceQueue, saveQueueAsPlaylist }}>
+      {children}
+    </QueueContext.Provider>
+  );
+};
+
+export const useQueue = (): QueueContextType => {
+  const context = useContext(QueueContext);
+  if (context === undefined) {
+    throw new Error('useQueue must be used within a QueueProvider');
+  }
+  return context;
+};
@@ -0,0 +1,37 @@
+import { useEffect, useState } from 'react';
+import type { CaptionTrack } from '../types';
+import { getCaptionText, isAbortError } from '../utils/api';
+import { parseCaptions, type CaptionCue } from '../utils/captions';
+
+// Fetches and parses one caption track; pass null to load nothing.
+export const useCaptionCues = (track: CaptionTrack | null) => {
+    const [cues, setCues] = useState<CaptionCue[]>([]);
+    const [isLoading, setIsLoading] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    useEffect(() => {
+        setCues([]);
+        setError(null);
+        if (!track) {
+            setIsLoading(false);
+            return;
+        }
+        const controller = new AbortController();
+        setIsLoading(true);
+        getCaptionText(track, { signal: controller.signal })
+            .then(text => {
+                const parsed = parseCaptions(text, track.format);
+                setCues(parsed);
+                if (parsed.length === 0) setError('字幕を読み込めませんでした。');
+            })
+            .catch(e => {
+                if (isAbortError(e)) return;
+                console.error("Failed to load captions", e);
+                setError('字幕を読み込めませんでした。');
+            })
+            .finally(() => { if (!controller.signal.aborted) setIsLoading(false); });
+        return () => controller.abort();
+    }, [track]);
+
+    return { cues, isLoading, error };
+};
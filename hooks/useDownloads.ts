@@ -0,0 +1,9 @@
+import { useEffect, useState } from 'react';
+import { getDownloads, subscribeDownloads, type DownloadJob } from '../utils/downloads/manager';
+
+// Live list of download jobs, newest first.
+export const useDownloads = (): DownloadJob[] => {
+    const [jobs, setJobs] = useState(getDownloads);
+    useEffect(() => subscribeDownloads(setJobs), []);
+    return jobs;
+};
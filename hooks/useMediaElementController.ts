@@ -0,0 +1,25 @@
+import { useEffect, useRef, type RefObject } from 'react';
+import type { PlayerController, PlayerKind } from '../utils/player/controller';
+import { createMediaElementController } from '../utils/player/mediaElement';
+
+// Hands a controller for the <video> element to the parent while it is mounted; a null kind withdraws it.
+export const useMediaElementController = (
+    videoRef: RefObject<HTMLVideoElement | null>,
+    kind: Exclude<PlayerKind, 'iframe'> | null,
+    onController?: (controller: PlayerController | null) => void
+) => {
+    // Parents usually pass an inline callback; the latest one is used without recreating the controller
+    const callbackRef = useRef(onController);
+    callbackRef.current = onController;
+
+    useEffect(() => {
+        const video = videoRef.current;
+        if (!video || !kind || !callbackRef.current) return;
+        const controller = createMediaElementController(video, kind);
+        callbackRef.current(controller);
+        return () => {
+            controller.destroy();
+            callbackRef.current?.(null);
+        };
+    }, [videoRef, kind]);
+};
@@ -0,0 +1,55 @@
+import { togglePlay, toggleFullscreen, type PlayerController } from '../utils/player/controller';
+import { useShortcuts } from './useShortcuts';
+
+const SPEED_STEP = 0.25;
+const MIN_SPEED = 0.25;
+const MAX_SPEED = 4;
+const VOLUME_STEP = 0.05;
+
+interface PlayerShortcutOptions {
+    onToggleTheater?: () => void;
+    // Returns false when there is nothing to go to
+    onNextVideo?: () => void | boolean;
+}
+
+// YouTube-style keys for the watch page. They go through the PlayerController, so
+// they work the same in every player mode (while the embed has focus it keeps its own keys).
+// Keys come from the shortcut registry and can be rebound by the user.
+export const usePlayerShortcuts = (controller: PlayerController | null, speed: number, onSpeedChange: (speed: number) => void, options: PlayerShortcutOptions = {}) => {
+    const seekBy = (seconds: number) => {
+        if (!controller) return false;
+        const duration = controller.getDuration();
+        const target = controller.getCurrentTime() + seconds;
+        controller.seek(duration > 0 ? Math.min(target, duration) : target);
+    };
+    const changeVolume = (delta: number) => {
+        if (!controller) return false;
+        controller.setVolume(Math.min(Math.max(controller.getVolume() + delta, 0), 1));
+        if (controller.isMuted() && delta > 0) controller.setMuted(false);
+    };
+    const changeSpeed = (delta: number) => {
+        if (!controller) return false;
+        onSpeedChange(Math.min(Math.max(Math.round((speed + delta) * 100) / 100, MIN_SPEED), MAX_SPEED));
+    };
+
+    useShortcuts({
+        togglePlay: () => controller ? togglePlay(controller) : false,
+        seekBack: () => seekBy(-10),
+        seekForward: () => seekBy(10),
+        seekBackShort: () => seekBy(-5),
+        seekForwardShort: () => seekBy(5),
+        volumeUp: () => changeVolume(VOLUME_STEP),
+        volumeDown: () => changeVolume(-VOLUME_STEP),
+        toggleMute: () => controller ? controller.setMuted(!controller.isMuted()) : false,
+        speedUp: () => changeSpeed(SPEED_STEP),
+        speedDown: () => changeSpeed(-SPEED_STEP),
+        seekPercent: event => {
+            if (!controller || controller.getDuration() <= 0) return false;
+            controller.seek(controller.getDuration() * parseInt(event.key) / 10);
+        },
+        toggleFullscreen: () => controller ? toggleFullscreen(controller) : false,
+        toggleCaptions: () => controller ? controller.toggleCaptions() : false,
+        toggleTheater: () => options.onToggleTheater ? options.onToggleTheater() : false,
+        nextVideo: () => options.onNextVideo ? options.onNextVideo() : false,
+    });
+};
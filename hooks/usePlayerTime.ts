@@ -0,0 +1,20 @@
+import { useEffect, useState } from 'react';
+import type { PlayerController } from '../utils/player/controller';
+
+// Current playback position of the controller, updated on every timeupdate.
+export const usePlayerTime = (controller: PlayerController | null) => {
+    const [time, setTime] = useState(0);
+
+    useEffect(() => {
+        if (!controller) {
+            setTime(0);
+            return;
+        }
+        const update = () => setTime(controller.getCurrentTime());
+        update();
+        const unsubscribers = [controller.on('timeupdate', update), controller.on('ready', update)];
+        return () => unsubscribers.forEach(unsubscribe => unsubscribe());
+    }, [controller]);
+
+    return time;
+};
@@ -0,0 +1,22 @@
+import { useEffect, useRef } from 'react';
+import { registerShortcut, type ShortcutAction, type ShortcutHandler } from '../utils/shortcuts';
+
+// Registers handlers with the app-wide shortcut registry for as long as the
+// component is mounted. Handlers may change every render; only the set of
+// actions decides when they are re-registered.
+export const useShortcuts = (shortcutHandlers: Partial<Record<ShortcutAction, ShortcutHandler>>, enabled = true) => {
+    const handlersRef = useRef(shortcutHandlers);
+    handlersRef.current = shortcutHandlers;
+    const actionsKey = Object.keys(shortcutHandlers).sort().join(',');
+
+    useEffect(() => {
+        if (!enabled || !actionsKey) return;
+        const unregisters = (actionsKey.split(',') as ShortcutAction[]).map(action =>
+            registerShortcut(action, event => {
+                const handler = handlersRef.current[action];
+                return handler ? handler(event) : false;
+            })
+        );
+        return () => unregisters.forEach(unregister => unregister());
+    }, [actionsKey, enabled]);
+};
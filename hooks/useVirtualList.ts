@@ -0,0 +1,76 @@
+import { useCallback, useLayoutEffect, useMemo, useRef, useState, type UIEvent } from 'react';
+
+// Renders only the rows around the viewport of a scrolling list whose rows differ
+// in height. Unmeasured rows count as `estimateHeight` until they are rendered once.
+export const useVirtualList = <T,>(items: T[], getKey: (item: T) => string, { estimateHeight = 40, overscan = 10 } = {}) => {
+    const containerRef = useRef<HTMLDivElement>(null);
+    const [scrollTop, setScrollTop] = useState(0);
+    const [viewportHeight, setViewportHeight] = useState(0);
+    // Replaced (not mutated) whenever a row's measured height changes
+    const [heights, setHeights] = useState(() => new Map<string, number>());
+    const rowObserverRef = useRef<ResizeObserver | null>(null);
+
+    useLayoutEffect(() => {
+        const container = containerRef.current;
+        if (!container) return;
+        const observer = new ResizeObserver(() => setViewportHeight(container.clientHeight));
+        observer.observe(container);
+        setViewportHeight(container.clientHeight);
+        return () => observer.disconnect();
+    }, []);
+
+    // Rows carry their key in data-virtual-key so one observer can measure all of them
+    const measureRef = useCallback((element: HTMLElement | null) => {
+        if (!element) return;
+        if (!rowObserverRef.current) {
+            rowObserverRef.current = new ResizeObserver(entries => {
+                const measured: [string, number][] = [];
+                for (const entry of entries) {
+                    const key = (entry.target as HTMLElement).dataset.virtualKey;
+                    const height = (entry.target as HTMLElement).offsetHeight;
+                    if (key && height > 0) measured.push([key, height]);
+                }
+                setHeights(prev => {
+                    const changed = measured.filter(([key, height]) => prev.get(key) !== height);
+                    return changed.length > 0 ? new Map([...prev, ...changed]) : prev;
+                });
+            });
+        }
+        const observer = rowObserverRef.current;
+        observer.observe(element);
+        return () => observer.unobserve(element);
+    }, []);
+
+    const offsets = useMemo(() => {
+        const result = new Array<number>(items.length + 1);
+        result[0] = 0;
+        items.forEach((item, index) => { result[index + 1] = result[index] + (heights.get(getKey(item)) ?? estimateHeight); });
+        return result;
+    }, [items, getKey, estimateHeight, heights]);
+
+    // First row whose bottom edge is below `position`
+    const rowAt = (position: number) => {
+        let low = 0;
+        let high = items.length - 1;
+        while (low < high) {
+            const mid = (low + high) >> 1;
+            if (offsets[mid + 1] <= position) low = mid + 1;
+            else high = mid;
+        }
+        return low;
+    };
+
+    const start = Math.max(0, rowAt(scrollTop) - overscan);
+    const end = Math.min(items.length, rowAt(scrollTop + viewportHeight) + 1 + overscan);
+
+    const onScroll = useCallback((event: UIEvent<HTMLElement>) => setScrollTop(event.currentTarget.scrollTop), []);
+
+    return {
+        containerRef,
+        onScroll,
+        measureRef,
+        totalHeight: offsets[items.length],
+        offsetTop: offsets[start],
+        visibleItems: items.slice(start, end),
+    };
+};
@@ -11,6 +11,9 @@ import { HistoryProvider } from './contexts/HistoryContext';
 import { PreferenceProvider } from './contexts/PreferenceContext';
 import { NotificationProvider } from './contexts/NotificationContext';
 import { AuthProvider } from './contexts/AuthContext';
+import { QueueProvider } from './contexts/QueueContext';
+import { AudioPlayerProvider } from './contexts/AudioPlayerContext';
+import { PlayerHostProvider } from './contexts/PlayerHostContext';
 import { ThemeProvider } from './hooks/useTheme';
 import './styles.css'; // Import styles for bundling
 
@@ -31,7 +34,13 @@ root.render(
                 <SearchHistoryProvider>
                   <HistoryProvider>
                     <NotificationProvider>
-                      <App />
+                      <QueueProvider>
+                        <AudioPlayerProvider>
+                          <PlayerHostProvider>
+                            <App />
+                          </PlayerHostProvider>
+                        </AudioPlayerProvider>
+                      </QueueProvider>
                     </NotificationProvider>
                   </HistoryProvider>
                 </SearchHistoryProvider>
@@ -0,0 +1,117 @@
+// Local mock backend for UI development without network access.
+//
+//   npm run mock            serve fixtures from mock/fixtures
+//   npm run mock:record     forward every request to the live API and save the responses
+//
+// The client sends `X-Mock-Record: 1` when it runs in record mode (utils/devBackend.ts),
+// so recording can also be switched per browser tab without restarting the server.
+// Fixtures live at mock/fixtures/<endpoint>/<query>.json. When a request has no exact
+// fixture, <endpoint>/_default.json is served instead, so any video or channel id
+// renders with the recorded sample data. Chat replays (live-chat with replay=1) fall
+// back to live-chat/_replay.json instead, since their messages carry video offsets.
+
+import http from 'http';
+import fs from 'fs';
+import path from 'path';
+import crypto from 'crypto';
+import { fileURLToPath } from 'url';
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+const FIXTURES_DIR = path.join(__dirname, 'fixtures');
+
+const args = process.argv.slice(2);
+const PORT = Number(process.env.MOCK_PORT || 8787);
+const RECORD_ALL = args.includes('--record');
+const UPSTREAM = process.env.MOCK_UPSTREAM || 'https://xeroxyt-nt-apiv1.onrender.com';
+const CHANNEL_HOME_UPSTREAM = 'https://siawaseok-inv.sytes.net';
+const PLAYER_CONFIG_URL = 'https://raw.githubusercontent.com/siawaseok3/wakame/master/video_config.json';
+
+const ENDPOINTS = ['search', 'video', 'comments', 'comment-replies', 'live-chat', 'channel', 'channel-shorts', 'channel-live', 'channel-community', 'channel-playlists', 'playlist', 'suggest'];
+
+// Maps a request to its fixture location and the live URL it is recorded from.
+const resolveRoute = (url) => {
+    const { pathname, searchParams } = new URL(url, 'http://localhost');
+    searchParams.sort();
+    const query = searchParams.toString();
+
+    const channelHome = pathname.match(/^\/api\/channel\/([^/]+)$/);
+    if (channelHome) {
+        return { dir: 'channel-home', name: channelHome[1], upstream: `${CHANNEL_HOME_UPSTREAM}${pathname}` };
+    }
+    if (pathname === '/player-config') {
+        return { dir: 'player-config', name: 'index', upstream: PLAYER_CONFIG_URL };
+    }
+    const api = pathname.match(/^\/api\/([a-z-]+)$/);
+    if (api && ENDPOINTS.includes(api[1])) {
+        const fallback = api[1] === 'live-chat' && searchParams.get('replay') === '1' ? '_replay' : '_default';
+        return { dir: api[1], name: query || 'index', fallback, upstream: `${UPSTREAM}${pathname}?${query}` };
+    }
+    if (pathname === '/stream') {
+        return { dir: 'stream', name: query || 'index', upstream: `${UPSTREAM}${pathname}?${query}` };
+    }
+    return null;
+};
+
+// Query strings make readable file names until they get long (e.g. continuation tokens).
+const fixtureFile = (dir, name) => {
+    const safe = encodeURIComponent(name);
+    const file = safe.length > 120 ? crypto.createHash('sha1').update(name).digest('hex') : safe;
+    return path.join(FIXTURES_DIR, dir, `${file}.json`);
+};
+
+const readFixture = (route) => {
+    for (const file of [fixtureFile(route.dir, route.name), path.join(FIXTURES_DIR, route.dir, `${route.fallback || '_default'}.json`)]) {
+        if (fs.existsSync(file)) return { file, body: fs.readFileSync(file, 'utf8') };
+    }
+    return null;
+};
+
+const record = async (route) => {
+    const response = await fetch(route.upstream);
+    const body = await response.text();
+    // Only successful JSON responses become fixtures; errors are passed through untouched.
+    if (response.ok) {
+        try {
+            const formatted = JSON.stringify(JSON.parse(body), null, 2);
+            const file = fixtureFile(route.dir, route.name);
+            fs.mkdirSync(path.dirname(file), { recursive: true });
+            fs.writeFileSync(file, formatted + '\n');
+            console.log(`[record] ${route.upstream} -> ${path.relative(__dirname, file)}`);
+        } catch (e) {
+            console.warn(`[record] ${route.upstream} returned non-JSON, not saved`);
+        }
+    }
+    return { status: response.status, body };
+};
+
+const send = (res, status, body) => {
+    res.writeHead(status, {
+        'Content-Type': 'application/json; charset=utf-8',
+        'Access-Control-Allow-Origin': '*',
+        'Access-Control-Allow-Headers': 'X-Mock-Record',
+    });
+    res.end(body);
+};
+
+const server = http.createServer(async (req, res) => {
+    if (req.method === 'OPTIONS') return send(res, 204, '');
+    const route = resolveRoute(req.url || '/');
+    if (!route) return send(res, 404, JSON.stringify({ error: `Unknown endpoint: ${req.url}` }));
+
+    if (RECORD_ALL || req.headers['x-mock-record'] === '1') {
+        try {
+            const { status, body } = await record(route);
+            return send(res, status, body);
+        } catch (e) {
+            return send(res, 502, JSON.stringify({ error: `Upstream failed: ${e.message}` }));
+        }
+    }
+
+    const fixture = readFixture(route);
+    if (!fixture) return send(res, 404, JSON.stringify({ error: `No fixture for ${route.dir}/${route.name}` }));
+    send(res, 200, fixture.body);
+});
+
+server.listen(PORT, () => {
+    console.log(`Mock API listening on http://localhost:${PORT} (${RECORD_ALL ? 'recording from ' + UPSTREAM : 'replaying fixtures'})`);
+});
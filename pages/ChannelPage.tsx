@@ -1,19 +1,22 @@
 
-import React, { useState, useEffect, useCallback } from 'react';
+import React, { useState, useEffect, useCallback, useRef } from 'react';
 // FIX: Use named imports for react-router-dom components and hooks.
 import { useParams, Link } from 'react-router-dom';
-import { getChannelDetails, getChannelVideos, getChannelHome, mapHomeVideoToVideo, getPlayerConfig, getCachedData, getChannelLive, getChannelCommunity, getChannelShorts } from '../utils/api';
-import type { ChannelDetails, Video, Channel, ChannelHomeData, CommunityPost } from '../types';
+import { getChannelDetails, getChannelVideos, getChannelHome, mapHomeVideoToVideo, getPlayerConfig, getCachedData, getChannelLive, getChannelCommunity, getChannelShorts, getChannelPlaylists, isAbortError } from '../utils/api';
+import { FIRST_PAGE, isFirstPage, appendUnique } from '../utils/paging';
+import type { ChannelDetails, Video, Channel, ChannelHomeData, CommunityPost, ApiPlaylist } from '../types';
 import VideoGrid from '../components/VideoGrid';
 import VideoCard from '../components/VideoCard';
 import ShortsCard from '../components/ShortsCard';
 import { useSubscription } from '../contexts/SubscriptionContext';
 import { usePreference } from '../contexts/PreferenceContext';
 import HorizontalScrollContainer from '../components/HorizontalScrollContainer';
+import SearchPlaylistResultCard from '../components/SearchPlaylistResultCard';
+import ApiErrorMessage from '../components/ApiErrorMessage';
 import { useInfiniteScroll } from '../hooks/useInfiniteScroll';
 import { BlockIcon, LikeIcon, CommentIcon } from '../components/icons/Icons';
 
-type Tab = 'home' | 'videos' | 'shorts' | 'live' | 'community';
+type Tab = 'home' | 'videos' | 'shorts' | 'playlists' | 'live' | 'community';
 type SortOrder = 'latest' | 'popular' | 'oldest';
 type ShortsSortOrder = 'latest' | 'popular';
 
@@ -21,7 +24,8 @@ const ChannelPage: React.FC = () => {
     const { channelId } = useParams<{ channelId: string }>();
     const [channelDetails, setChannelDetails] = useState<ChannelDetails | null>(null);
     const [isLoading, setIsLoading] = useState(true);
-    const [error, setError] = useState<string | null>(null);
+    const [error, setError] = useState<unknown>(null);
+    const [retryKey, setRetryKey] = useState(0);
     const [activeTab, setActiveTab] = useState<Tab>('home');
 
     const [homeData, setHomeData] = useState<ChannelHomeData | null>(null);
@@ -29,10 +33,13 @@ const ChannelPage: React.FC = () => {
     const [shorts, setShorts] = useState<Video[]>([]);
     const [liveVideos, setLiveVideos] = useState<Video[]>([]);
     const [communityPosts, setCommunityPosts] = useState<CommunityPost[]>([]);
+    const [playlists, setPlaylists] = useState<ApiPlaylist[]>([]);
     const [playerParams, setPlayerParams] = useState<string | null>(null);
     
-    const [videosPageToken, setVideosPageToken] = useState<string | undefined>('1');
-    const [shortsPageToken, setShortsPageToken] = useState<string | undefined>('1');
+    // undefined once the backend signals the end of the list
+    const [videosPageToken, setVideosPageToken] = useState<string | undefined>(FIRST_PAGE);
+    const [shortsPageToken, setShortsPageToken] = useState<string | undefined>(FIRST_PAGE);
+    const [playlistsPageToken, setPlaylistsPageToken] = useState<string | undefined>(FIRST_PAGE);
     const [isFetchingMore, setIsFetchingMore] = useState(false);
     const [isTabLoading, setIsTabLoading] = useState(false);
     
@@ -42,8 +49,12 @@ const ChannelPage: React.FC = () => {
     
     const { isSubscribed, subscribe, unsubscribe } = useSubscription();
     const { addNgChannel, removeNgChannel, isNgChannel } = usePreference();
+    // Cancelled when the tab, sort order or channel changes so a slow response can't fill the wrong list
+    const tabAbortRef = useRef<AbortController | null>(null);
 
     useEffect(() => {
+        const controller = new AbortController();
+        const { signal } = controller;
         const loadInitialDetails = async () => {
             if (!channelId) return;
             setIsLoading(true);
@@ -52,28 +63,32 @@ const ChannelPage: React.FC = () => {
             setShorts([]);
             setLiveVideos([]);
             setCommunityPosts([]);
+            setPlaylists([]);
             setHomeData(null);
-            setVideosPageToken('1');
-            setShortsPageToken('1');
+            setVideosPageToken(FIRST_PAGE);
+            setShortsPageToken(FIRST_PAGE);
+            setPlaylistsPageToken(FIRST_PAGE);
             setActiveTab('home');
             setVideoSort('latest');
             setShortsSort('latest');
             
             try {
                 // Fetch channel details (which includes meta info)
-                const details = await getChannelDetails(channelId);
+                const details = await getChannelDetails(channelId, { priority: 'high', signal });
                 setChannelDetails(details);
-                const params = await getPlayerConfig();
+                const params = await getPlayerConfig({ signal });
                 setPlayerParams(params);
             } catch (err: any) {
-                setError(err.message || 'チャンネルデータの読み込みに失敗しました。');
+                if (isAbortError(err)) return;
+                setError(err);
                 console.error(err);
             } finally {
-                setIsLoading(false);
+                if (!signal.aborted) setIsLoading(false);
             }
         };
         loadInitialDetails();
-    }, [channelId]);
+        return () => controller.abort();
+    }, [channelId, retryKey]);
     
     // Helper to add channel details to video objects
     const enrichVideoData = (videoList: Video[], details: ChannelDetails | null) => {
@@ -87,9 +102,12 @@ const ChannelPage: React.FC = () => {
     };
 
     const fetchTabData = useCallback(async (tab: Tab, pageToken?: string) => {
-        if (!channelId || (isFetchingMore && (tab === 'videos' || tab === 'shorts'))) return;
+        const isPaged = tab === 'videos' || tab === 'shorts' || tab === 'playlists';
+        if (!channelId || (isFetchingMore && isPaged)) return;
+        const signal = tabAbortRef.current?.signal;
+        const isNextPage = !isFirstPage(pageToken);
         
-        if (pageToken && pageToken !== '1') {
+        if (isNextPage) {
             setIsFetchingMore(true);
         } else {
             setIsTabLoading(true);
@@ -101,59 +119,71 @@ const ChannelPage: React.FC = () => {
                     if (!homeData) {
                          // Home uses proxy or custom logic if provided, but default to videos if failed
                          try {
-                             const hData = await getChannelHome(channelId);
+                             const hData = await getChannelHome(channelId, { signal });
                              setHomeData(hData);
                          } catch (e) {
+                             if (isAbortError(e)) throw e;
                              console.warn("Home data fetch failed, might want to fallback or show empty");
                          }
                     }
                     break;
                 case 'videos':
-                    if (pageToken === '1' && videoSort === 'latest') {
-                        const cached = getCachedData(`channel-videos-${channelId}-1-latest`);
-                        if (cached && cached.videos && videos.length === 0) {
+                    if (!isNextPage && videoSort === 'latest') {
+                        const cached = await getCachedData(`channel-videos-${channelId}-1-latest`);
+                        if (cached && cached.videos && videos.length === 0 && !signal?.aborted) {
                             setVideos(enrichVideoData(cached.videos, channelDetails));
                             setIsTabLoading(false); 
                         }
                     }
 
-                    const vData = await getChannelVideos(channelId, pageToken, videoSort);
+                    const vData = await getChannelVideos(channelId, pageToken, videoSort, { signal });
                     const enrichedVideos = enrichVideoData(vData.videos, channelDetails);
-                    
-                    setVideos(prev => {
-                        if (pageToken && pageToken !== '1') {
-                            return [...prev, ...enrichedVideos];
-                        } else {
-                            // If sorting changed or initial load, replace
-                            return enrichedVideos;
-                        }
-                    });
-                    setVideosPageToken(vData.nextPageToken);
+                    // A page that only repeats videos already shown means the backend has nothing new
+                    if (isNextPage) {
+                        const merged = appendUnique(videos, enrichedVideos);
+                        setVideos(merged.items);
+                        setVideosPageToken(merged.added > 0 ? vData.nextPageToken : undefined);
+                    } else {
+                        // If sorting changed or initial load, replace
+                        setVideos(appendUnique([], enrichedVideos).items);
+                        setVideosPageToken(vData.nextPageToken);
+                    }
                     break;
                 case 'shorts':
-                    const sData = await getChannelShorts(channelId, shortsSort, pageToken);
+                    const sData = await getChannelShorts(channelId, shortsSort, pageToken, { signal });
                     const enrichedShorts = enrichVideoData(sData.videos, channelDetails);
-                    
-                    setShorts(prev => {
-                         if (pageToken && pageToken !== '1') {
-                            return [...prev, ...enrichedShorts];
-                        } else {
-                            return enrichedShorts;
-                        }
-                    });
-                    setShortsPageToken(sData.nextPageToken);
+                    if (isNextPage) {
+                        const merged = appendUnique(shorts, enrichedShorts);
+                        setShorts(merged.items);
+                        setShortsPageToken(merged.added > 0 ? sData.nextPageToken : undefined);
+                    } else {
+                        setShorts(appendUnique([], enrichedShorts).items);
+                        setShortsPageToken(sData.nextPageToken);
+                    }
+                    break;
+                case 'playlists':
+                    const pData = await getChannelPlaylists(channelId, pageToken, { signal });
+                    if (isNextPage) {
+                        const merged = appendUnique(playlists, pData.playlists);
+                        setPlaylists(merged.items);
+                        setPlaylistsPageToken(merged.added > 0 ? pData.nextPageToken : undefined);
+                    } else {
+                        setPlaylists(appendUnique([], pData.playlists).items);
+                        setPlaylistsPageToken(pData.nextPageToken);
+                    }
                     break;
                 case 'live':
-                    const lData = await getChannelLive(channelId);
+                    const lData = await getChannelLive(channelId, { signal });
                     const enrichedLive = enrichVideoData(lData.videos, channelDetails);
                     setLiveVideos(enrichedLive);
                     break;
                 case 'community':
-                    const cData = await getChannelCommunity(channelId);
+                    const cData = await getChannelCommunity(channelId, { signal });
                     setCommunityPosts(cData.posts);
                     break;
             }
         } catch (err: any) {
+            if (isAbortError(err)) return;
             console.error(`Failed to load ${tab}`, err);
             if (tab === 'videos' && videos.length > 0) {
                  console.warn("Background update failed, showing cached data.");
@@ -161,20 +191,28 @@ const ChannelPage: React.FC = () => {
                  // Don't set global error for tab switch failures, just show empty state or local error
             }
         } finally {
-            setIsTabLoading(false);
-            setIsFetchingMore(false);
+            if (!signal?.aborted) {
+                setIsTabLoading(false);
+                setIsFetchingMore(false);
+            }
         }
-    }, [channelId, isFetchingMore, homeData, channelDetails, videos.length, shorts.length, videoSort, shortsSort]);
+    }, [channelId, isFetchingMore, homeData, channelDetails, videos, shorts, playlists, videoSort, shortsSort]);
     
     // Trigger fetch on tab or sort change
     useEffect(() => {
+        const controller = new AbortController();
+        tabAbortRef.current = controller;
+        setIsTabLoading(false);
+        setIsFetchingMore(false);
         if (channelId && !isLoading) {
             if (activeTab === 'home' && !homeData) fetchTabData('home');
-            else if (activeTab === 'videos') fetchTabData('videos', '1');
-            else if (activeTab === 'shorts') fetchTabData('shorts', '1');
+            else if (activeTab === 'videos') fetchTabData('videos', FIRST_PAGE);
+            else if (activeTab === 'shorts') fetchTabData('shorts', FIRST_PAGE);
+            else if (activeTab === 'playlists' && playlists.length === 0) fetchTabData('playlists', FIRST_PAGE);
             else if (activeTab === 'live' && liveVideos.length === 0) fetchTabData('live');
             else if (activeTab === 'community' && communityPosts.length === 0) fetchTabData('community');
         }
+        return () => controller.abort();
     }, [activeTab, channelId, isLoading, videoSort, shortsSort]); 
 
     const handleLoadMore = useCallback(() => {
@@ -183,14 +221,16 @@ const ChannelPage: React.FC = () => {
             fetchTabData('videos', videosPageToken);
         } else if (activeTab === 'shorts' && shortsPageToken) {
             fetchTabData('shorts', shortsPageToken);
+        } else if (activeTab === 'playlists' && playlistsPageToken) {
+            fetchTabData('playlists', playlistsPageToken);
         }
-    }, [activeTab, videosPageToken, shortsPageToken, isFetchingMore, fetchTabData]);
+    }, [activeTab, videosPageToken, shortsPageToken, playlistsPageToken, isFetchingMore, fetchTabData]);
 
-    const hasMoreContent = (activeTab === 'videos' && !!videosPageToken) || (activeTab === 'shorts' && !!shortsPageToken);
+    const hasMoreContent = (activeTab === 'videos' && !!videosPageToken) || (activeTab === 'shorts' && !!shortsPageToken) || (activeTab === 'playlists' && !!playlistsPageToken);
     const lastElementRef = useInfiniteScroll(handleLoadMore, hasMoreContent, isFetchingMore || isLoading);
 
     if (isLoading) return <div className="text-center p-8">チャンネル情報を読み込み中...</div>;
-    if (error && !channelDetails) return <div className="text-center text-red-500 bg-red-100 dark:bg-red-900/50 p-4 rounded-lg">{error}</div>;
+    if (error && !channelDetails) return <ApiErrorMessage error={error} onRetry={() => setRetryKey(k => k + 1)} youtubeUrl={`https://www.youtube.com/channel/${channelId}`} />;
     if (!channelDetails) return null;
 
     const subscribed = isSubscribed(channelDetails.id);
@@ -361,6 +401,7 @@ const ChannelPage: React.FC = () => {
                 <TabButton tab="home" label="ホーム" />
                 <TabButton tab="videos" label="動画" />
                 <TabButton tab="shorts" label="ショート" />
+                <TabButton tab="playlists" label="再生リスト" />
                 <TabButton tab="live" label="ライブ" />
                 <TabButton tab="community" label="コミュニティ" />
             </div>
@@ -411,6 +452,22 @@ const ChannelPage: React.FC = () => {
                 </div>
             )}
 
+            {activeTab === 'playlists' && (
+                <div>
+                    {isTabLoading && playlists.length === 0 ? (
+                        <div className="text-center p-8">読み込み中...</div>
+                    ) : playlists.length > 0 ? (
+                        <div className="max-w-4xl">
+                            {playlists.map(playlist => <SearchPlaylistResultCard key={playlist.id} playlist={playlist} />)}
+                        </div>
+                    ) : (
+                        <div className="text-center p-8 text-yt-light-gray">再生リストはありません。</div>
+                    )}
+                    {isFetchingMore && <div className="text-center py-4"><div className="animate-spin rounded-full h-8 w-8 border-t-2 border-b-2 border-yt-blue mx-auto"></div></div>}
+                    <div ref={lastElementRef} className="h-10" />
+                </div>
+            )}
+
             {activeTab === 'live' && (
                 <div>
                     {isTabLoading && liveVideos.length === 0 ? (
@@ -2,6 +2,8 @@
 import React, { useState, useEffect, useCallback, useMemo, useRef } from 'react';
 import VideoGrid from '../components/VideoGrid';
 import ShortsShelf from '../components/ShortsShelf';
+import VideoCard from '../components/VideoCard';
+import HorizontalScrollContainer from '../components/HorizontalScrollContainer';
 import { useSubscription } from '../contexts/SubscriptionContext';
 import { useSearchHistory } from '../contexts/SearchHistoryContext';
 import { useHistory } from '../contexts/HistoryContext';
@@ -30,7 +32,7 @@ const HomePage: React.FC = () => {
 
     const { subscribedChannels } = useSubscription();
     const { searchHistory } = useSearchHistory();
-    const { history: watchHistory, shortsHistory } = useHistory();
+    const { history: watchHistory, shortsHistory, continueWatching } = useHistory();
     const { ngKeywords, ngChannels, hiddenVideos, negativeKeywords, exportUserData, importUserData } = usePreference();
     const fileInputRef = useRef<HTMLInputElement>(null);
 
@@ -231,6 +233,20 @@ const HomePage: React.FC = () => {
             </div>
 
             {error && <div className="text-red-500 text-center mb-4">{error}</div>}
+
+            {continueWatching.length > 0 && (
+                <div className="mb-8">
+                    <h3 className="text-lg font-bold mb-3 px-2">続きから視聴</h3>
+                    <HorizontalScrollContainer>
+                        {continueWatching.map(video => (
+                            <div key={video.id} className="w-56 md:w-64 flex-shrink-0">
+                                <VideoCard video={video} />
+                            </div>
+                        ))}
+                    </HorizontalScrollContainer>
+                    <hr className="border-yt-spec-light-20 dark:border-yt-spec-20 mt-6" />
+                </div>
+            )}
             
             {(shortsFeed.length > 0) && (
                 <div className="mb-8">
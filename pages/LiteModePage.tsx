@@ -1,7 +1,11 @@
 
 import React, { useState, useRef, useEffect } from 'react';
 import { usePreference } from '../contexts/PreferenceContext';
-import { getRawStreamData, getPlayerConfig, API_BASE_URL } from '../utils/api';
+import { getRawStreamData, getPlayerConfig, getVideoDetails, API_BASE_URL } from '../utils/api';
+import { useDownloads } from '../hooks/useDownloads';
+import { downloadId, startDownload, type DownloadKind, type DownloadVideoInfo } from '../utils/downloads/manager';
+import { formatBytes } from '../utils/format';
+import type { StreamFormat } from '../types';
 
 const LiteModePage: React.FC = () => {
     const { toggleLiteMode } = usePreference();
@@ -9,7 +13,6 @@ const LiteModePage: React.FC = () => {
     const [videoId, setVideoId] = useState<string | null>(null);
     const [isLoading, setIsLoading] = useState(false);
     const [loadingAction, setLoadingAction] = useState<'embed' | 'stream' | 'download' | null>(null);
-    const [progress, setProgress] = useState(0);
     const [error, setError] = useState<string | null>(null);
     const [streamData, setStreamData] = useState<any | null>(null);
     const [isOnline, setIsOnline] = useState(navigator.onLine);
@@ -17,7 +20,7 @@ const LiteModePage: React.FC = () => {
     const [activeView, setActiveView] = useState<'none' | 'player' | 'download'>('none');
     
     const playerContainerRef = useRef<HTMLDivElement>(null);
-    const progressInterval = useRef<any>(null);
+    const jobs = useDownloads();
 
     useEffect(() => {
         const handleOnline = () => setIsOnline(true);
@@ -35,23 +38,38 @@ const LiteModePage: React.FC = () => {
         return match ? match[1] : null;
     };
 
-    const startFakeProgress = () => {
-        setProgress(0);
-        if (progressInterval.current) clearInterval(progressInterval.current);
-        progressInterval.current = setInterval(() => {
-            setProgress(prev => {
-                if (prev < 95) {
-                    const next = prev + Math.floor(Math.random() * 5) + 1;
-                    return next > 95 ? 95 : next;
-                }
-                return prev;
-            });
-        }, 200);
+    const handleDownload = async (format: StreamFormat, kind: DownloadKind) => {
+        if (!videoId) return;
+        let video: DownloadVideoInfo = { id: videoId, title: videoId, channelName: '', thumbnailUrl: `https://i.ytimg.com/vi/${videoId}/hqdefault.jpg` };
+        try {
+            const details = await getVideoDetails(videoId);
+            video = { id: videoId, title: details.title, channelName: details.channel.name, thumbnailUrl: details.thumbnailUrl };
+        } catch (e) { /* The title is only for the offline library; the ID will do */ }
+        startDownload(video, format, kind);
     };
 
-    const stopFakeProgress = () => {
-        if (progressInterval.current) clearInterval(progressInterval.current);
-        setProgress(100);
+    const renderDownloadButton = (format: StreamFormat, kind: DownloadKind, label: string, key: number) => {
+        const job = videoId ? jobs.find(j => j.id === downloadId(videoId, kind, format.quality || kind)) : undefined;
+        const percent = job?.totalBytes ? Math.floor(job.receivedBytes / job.totalBytes * 100) : 0;
+        return (
+            <button key={key} onClick={() => handleDownload(format, kind)} disabled={job?.status === 'completed'} className="block w-full text-left bg-[#f7f8fa] border-[1.5px] border-[#e0e3eb] rounded-[8px] p-3 text-[#333] font-medium hover:bg-[#e9ecf0] transition-colors break-all">
+                {label}
+                {job && (
+                    <>
+                        <div className="h-1.5 mt-2 rounded-full bg-[#e0e3eb] overflow-hidden">
+                            <div className={`h-full ${job.status === 'error' ? 'bg-[#d32f2f]' : 'bg-[#10b981]'}`} style={{ width: `${job.status === 'completed' ? 100 : percent}%` }} />
+                        </div>
+                        <div className="text-xs text-[#667085] mt-1">
+                            {job.status === 'completed' ? '保存済み (オフラインで再生できます)'
+                                : job.status === 'error' ? `失敗しました: ${job.error || ''} (クリックで再試行)`
+                                : job.status === 'paused' ? `一時停止中 ${formatBytes(job.receivedBytes)} (クリックで再開)`
+                                : job.status === 'queued' ? '待機中'
+                                : `${formatBytes(job.receivedBytes)}${job.totalBytes ? ` / ${formatBytes(job.totalBytes)} (${percent}%)` : ''}`}
+                        </div>
+                    </>
+                )}
+            </button>
+        );
     };
 
     const handleAction = async (actionType: 'embed' | 'stream' | 'download') => {
@@ -70,7 +88,6 @@ const LiteModePage: React.FC = () => {
         setError(null);
         setIsLoading(true);
         setLoadingAction(actionType);
-        startFakeProgress();
 
         try {
             if (actionType === 'embed') {
@@ -86,7 +103,7 @@ const LiteModePage: React.FC = () => {
                 
                 if (!data || vId !== videoId) {
                     try {
-                        data = await getRawStreamData(vId);
+                        data = await getRawStreamData(vId, { priority: 'high' });
                         setStreamData(data);
                     } catch (fetchErr) {
                         throw new Error('オフラインです。キャッシュされたデータが見つかりませんでした。');
@@ -105,11 +122,8 @@ const LiteModePage: React.FC = () => {
             setError(err.message || 'エラーが発生しました');
             setActiveView('none');
         } finally {
-            stopFakeProgress();
-            setTimeout(() => {
-                setIsLoading(false);
-                setLoadingAction(null);
-            }, 500);
+            setIsLoading(false);
+            setLoadingAction(null);
         }
     };
 
@@ -184,50 +198,42 @@ const LiteModePage: React.FC = () => {
                         onClick={() => handleAction('embed')} 
                         className="bg-[#7c3aed] text-white border-none rounded-[8px] px-6 py-3 text-[1.1rem] font-semibold cursor-pointer shadow-[0_2px_8px_rgba(124,58,237,0.06)] hover:bg-[#5e3fd7] disabled:opacity-50"
                     >
-                        {isLoading && loadingAction === 'embed' ? `処理中... ${progress}%` : 'youtube player'}
+                        {isLoading && loadingAction === 'embed' ? '処理中...' : 'youtube player'}
                     </button>
                     <button 
                         onClick={() => handleAction('stream')} 
                         disabled={isLoading}
                         className="bg-[#7c3aed] text-white border-none rounded-[8px] px-6 py-3 text-[1.1rem] font-semibold cursor-pointer shadow-[0_2px_8px_rgba(124,58,237,0.06)] hover:bg-[#5e3fd7] disabled:opacity-50"
                     >
-                        {isLoading && loadingAction === 'stream' ? `処理中... ${progress}%` : 'ストリーミング'}
+                        {isLoading && loadingAction === 'stream' ? '処理中...' : 'ストリーミング'}
                     </button>
                     <button 
                         onClick={() => handleAction('download')} 
                         disabled={isLoading}
                         className="bg-[#10b981] text-white border-none rounded-[8px] px-6 py-3 text-[1.1rem] font-semibold cursor-pointer shadow-[0_2px_8px_rgba(16,185,129,0.06)] hover:bg-[#059669] disabled:opacity-50"
                     >
-                        {isLoading && loadingAction === 'download' ? `処理中... ${progress}%` : 'ダウンロード'}
+                        {isLoading && loadingAction === 'download' ? '処理中...' : 'ダウンロード'}
                     </button>
                 </div>
                 {error && <div className="text-[#d32f2f] mt-4 text-[0.97em] bg-red-50 p-2 rounded">{error}</div>}
                 <div ref={playerContainerRef} className={`mt-6 w-full ${activeView === 'player' ? 'block' : 'hidden'}`}></div>
                 {activeView === 'download' && streamData && (
                     <div className="mt-8 text-left">
-                        <h3 className="text-center text-[#3c3e4e] text-xl font-bold mb-4">Download Links</h3>
+                        <h3 className="text-center text-[#3c3e4e] text-xl font-bold mb-4">Download</h3>
                         <div className="flex flex-col gap-2 max-h-[300px] overflow-y-auto">
+                            {streamData.combinedFormats && streamData.combinedFormats.map((format: StreamFormat, index: number) => {
+                                if (!format.url || format.isVideoOnly) return null;
+                                return renderDownloadButton(format, 'video', `Download Video ${format.quality || 'Unknown'} (音声あり) (MP4)`, index);
+                            })}
                             {streamData.separate1080p?.video?.url && (
                                 <a href={streamData.separate1080p.video.url} target="_blank" rel="noreferrer" className="block bg-[#f7f8fa] border-[1.5px] border-[#e0e3eb] rounded-[8px] p-3 text-[#333] font-medium hover:bg-[#e9ecf0] transition-colors break-all">
-                                    Download Video 1080p (映像のみ) (MP4)
+                                    Download Video {streamData.separate1080p.video.quality || '1080p'} (映像のみ) (MP4)
                                 </a>
                             )}
-                            {streamData.combinedFormats && streamData.combinedFormats.map((format: any, index: number) => {
-                                const quality = format.quality || 'Unknown';
-                                const url = format.url;
-                                if (!url) return null;
-                                return (
-                                    <a key={index} href={url} target="_blank" rel="noreferrer" className="block bg-[#f7f8fa] border-[1.5px] border-[#e0e3eb] rounded-[8px] p-3 text-[#333] font-medium hover:bg-[#e9ecf0] transition-colors break-all">
-                                        Download Video {quality} (音声あり) (MP4)
-                                    </a>
-                                );
-                            })}
                             {streamData.audioOnlyFormat?.url && (
                                 <>
                                     <h4 className="mt-4 font-bold text-[#333]">オーディオ (音声のみ)</h4>
-                                    <a href={streamData.audioOnlyFormat.url} target="_blank" rel="noreferrer" className="block bg-[#f7f8fa] border-[1.5px] border-[#e0e3eb] rounded-[8px] p-3 text-[#333] font-medium hover:bg-[#e9ecf0] transition-colors break-all">
-                                        Download Audio {streamData.audioOnlyFormat.quality || ''} (M4A)
-                                    </a>
+                                    {renderDownloadButton(streamData.audioOnlyFormat, 'audio', `Download Audio ${streamData.audioOnlyFormat.quality || ''} (M4A)`, -1)}
                                 </>
                             )}
                         </div>
@@ -2,7 +2,12 @@
 import React, { useRef, useState, useEffect } from 'react';
 import { usePreference } from '../contexts/PreferenceContext';
 import { Link } from 'react-router-dom';
-import { TrashIcon, DownloadIcon, SaveIcon, BlockIcon, CheckIcon } from '../components/icons/Icons';
+import { TrashIcon, DownloadIcon, SaveIcon, BlockIcon, CheckIcon, SettingsIcon } from '../components/icons/Icons';
+import MirrorDiagnosticsPanel from '../components/MirrorDiagnosticsPanel';
+import CacheUsagePanel from '../components/CacheUsagePanel';
+import ParserHealthPanel from '../components/ParserHealthPanel';
+import DevBackendPanel from '../components/DevBackendPanel';
+import { isDevBackendAvailable } from '../utils/devBackend';
 
 const ManagementPage: React.FC = () => {
     const { ngChannels, removeNgChannel, hiddenVideos, unhideVideo, exportUserData, importUserData } = usePreference();
@@ -183,6 +188,40 @@ const ManagementPage: React.FC = () => {
                 </div>
             </div>
 
+            {/* API Mirror Diagnostics Section */}
+            <div className="mb-12">
+                <h2 className="text-xl font-bold border-b border-yt-spec-light-20 dark:border-yt-spec-20 pb-3 mb-4 flex items-center gap-2">
+                    <SettingsIcon /> APIサーバーの状態
+                </h2>
+                <MirrorDiagnosticsPanel />
+            </div>
+
+            {/* Cache Section */}
+            <div className="mb-12">
+                <h2 className="text-xl font-bold border-b border-yt-spec-light-20 dark:border-yt-spec-20 pb-3 mb-4 flex items-center gap-2">
+                    <SaveIcon /> キャッシュ
+                </h2>
+                <CacheUsagePanel />
+            </div>
+
+            {/* Parser Health Section */}
+            <div className="mb-12">
+                <h2 className="text-xl font-bold border-b border-yt-spec-light-20 dark:border-yt-spec-20 pb-3 mb-4 flex items-center gap-2">
+                    <SettingsIcon /> データ解析の状態
+                </h2>
+                <ParserHealthPanel />
+            </div>
+
+            {/* Dev Backend Section */}
+            {isDevBackendAvailable() && (
+                <div className="mb-12">
+                    <h2 className="text-xl font-bold border-b border-yt-spec-light-20 dark:border-yt-spec-20 pb-3 mb-4 flex items-center gap-2">
+                        <SettingsIcon /> 開発用バックエンド
+                    </h2>
+                    <DevBackendPanel />
+                </div>
+            )}
+
             {/* Blocked Channels Section */}
             <div className="mb-12">
                 <h2 className="text-xl font-bold border-b border-yt-spec-light-20 dark:border-yt-spec-20 pb-3 mb-4 flex items-center gap-2">
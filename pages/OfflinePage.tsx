@@ -0,0 +1,141 @@
+import React, { useEffect, useState } from 'react';
+import { useDownloads } from '../hooks/useDownloads';
+import { getDownloadFile, pauseDownload, resumeDownload, removeDownload, type DownloadJob } from '../utils/downloads/manager';
+import { formatBytes } from '../utils/format';
+import HlsVideoPlayer from '../components/HlsVideoPlayer';
+import { PlayIcon, PauseIcon, TrashIcon, CloseIcon } from '../components/icons/Icons';
+
+const STATUS_LABELS: Record<DownloadJob['status'], string> = {
+    queued: '待機中',
+    downloading: 'ダウンロード中',
+    paused: '一時停止中',
+    completed: '完了',
+    error: 'エラー',
+};
+
+const OfflinePage: React.FC = () => {
+    const jobs = useDownloads();
+    const [playing, setPlaying] = useState<{ job: DownloadJob; url: string } | null>(null);
+    const [usage, setUsage] = useState<{ usage: number; quota: number } | null>(null);
+
+    const completed = jobs.filter(job => job.status === 'completed');
+    const active = jobs.filter(job => job.status !== 'completed');
+
+    useEffect(() => {
+        navigator.storage?.estimate?.().then(estimate => setUsage({ usage: estimate.usage || 0, quota: estimate.quota || 0 })).catch(() => {});
+    }, [completed.length]);
+
+    // The object URL keeps the file referenced; release it when playback moves on
+    useEffect(() => () => { if (playing) URL.revokeObjectURL(playing.url); }, [playing]);
+
+    const handlePlay = async (job: DownloadJob) => {
+        const file = await getDownloadFile(job.id);
+        if (!file) {
+            alert('ファイルが見つかりませんでした。もう一度ダウンロードしてください。');
+            return;
+        }
+        setPlaying({ job, url: URL.createObjectURL(file) });
+        window.scrollTo({ top: 0, behavior: 'smooth' });
+    };
+
+    const handleRemove = (job: DownloadJob) => {
+        if (!window.confirm(`「${job.title}」を削除しますか？`)) return;
+        if (playing?.job.id === job.id) setPlaying(null);
+        removeDownload(job.id);
+    };
+
+    const renderProgress = (job: DownloadJob) => {
+        const percent = job.totalBytes ? Math.min(job.receivedBytes / job.totalBytes * 100, 100) : 0;
+        return (
+            <>
+                <div className="h-1 mt-2 rounded-full bg-yt-spec-light-20 dark:bg-yt-spec-20 overflow-hidden">
+                    <div className={`h-full ${job.status === 'error' ? 'bg-red-500' : 'bg-yt-blue'} transition-all`} style={{ width: `${percent}%` }} />
+                </div>
+                <p className="text-xs text-yt-light-gray mt-1">
+                    {STATUS_LABELS[job.status]} • {formatBytes(job.receivedBytes)}{job.totalBytes ? ` / ${formatBytes(job.totalBytes)} (${Math.floor(percent)}%)` : ''}
+                    {job.error && <span className="text-red-500"> • {job.error}</span>}
+                </p>
+            </>
+        );
+    };
+
+    return (
+        <div className="max-w-4xl mx-auto px-4 py-4">
+            <h1 className="text-2xl font-bold mb-2">オフライン</h1>
+            <p className="text-sm text-yt-light-gray mb-6">
+                ダウンロードした動画は端末に保存され、ネットワークなしで再生できます。
+                {usage && usage.quota > 0 && ` 使用量 ${formatBytes(usage.usage)} / ${formatBytes(usage.quota)}`}
+            </p>
+
+            {playing && (
+                <div className="mb-8">
+                    <div className="w-full aspect-video bg-black rounded-xl overflow-hidden">
+                        <HlsVideoPlayer key={playing.url} src={playing.url} type="mp4" autoPlay className="w-full h-full" />
+                    </div>
+                    <div className="flex items-start justify-between gap-4 mt-3">
+                        <div className="min-w-0">
+                            <h2 className="text-lg font-bold line-clamp-2">{playing.job.title}</h2>
+                            <p className="text-sm text-yt-light-gray">{playing.job.channelName}</p>
+                        </div>
+                        <button onClick={() => setPlaying(null)} className="p-2 rounded-full hover:bg-yt-spec-light-10 dark:hover:bg-yt-spec-10 flex-shrink-0" title="閉じる">
+                            <CloseIcon />
+                        </button>
+                    </div>
+                </div>
+            )}
+
+            {active.length > 0 && (
+                <section className="mb-8">
+                    <h2 className="text-lg font-bold mb-3">ダウンロード中</h2>
+                    <div className="flex flex-col space-y-3">
+                        {active.map(job => (
+                            <div key={job.id} className="flex gap-3 items-center">
+                                <img src={job.thumbnailUrl} alt="" className="w-32 aspect-video object-cover rounded-lg flex-shrink-0 bg-yt-spec-light-10 dark:bg-yt-dark-gray" />
+                                <div className="flex-1 min-w-0">
+                                    <p className="font-semibold text-sm line-clamp-1">{job.title}</p>
+                                    <p className="text-xs text-yt-light-gray">{job.kind === 'audio' ? '音声のみ' : job.quality}</p>
+                                    {renderProgress(job)}
+                                </div>
+                                {job.status === 'downloading' || job.status === 'queued' ? (
+                                    <button onClick={() => pauseDownload(job.id)} className="p-2 rounded-full hover:bg-yt-spec-light-10 dark:hover:bg-yt-spec-10" title="一時停止"><PauseIcon /></button>
+                                ) : (
+                                    <button onClick={() => resumeDownload(job.id)} className="p-2 rounded-full hover:bg-yt-spec-light-10 dark:hover:bg-yt-spec-10" title="再開"><PlayIcon /></button>
+                                )}
+                                <button onClick={() => handleRemove(job)} className="p-2 rounded-full hover:bg-yt-spec-light-10 dark:hover:bg-yt-spec-10" title="削除"><TrashIcon /></button>
+                            </div>
+                        ))}
+                    </div>
+                </section>
+            )}
+
+            <section>
+                <h2 className="text-lg font-bold mb-3">保存済み</h2>
+                {completed.length === 0 ? (
+                    <p className="text-center text-yt-light-gray py-10">保存済みの動画はありません。動画ページのダウンロードから保存できます。</p>
+                ) : (
+                    <div className="flex flex-col space-y-3">
+                        {completed.map(job => (
+                            <div key={job.id} className={`flex gap-3 items-center p-2 rounded-xl ${playing?.job.id === job.id ? 'bg-yt-spec-light-10 dark:bg-yt-dark-gray' : ''}`}>
+                                <button onClick={() => handlePlay(job)} className="relative w-40 aspect-video flex-shrink-0 rounded-lg overflow-hidden bg-yt-spec-light-10 dark:bg-yt-dark-gray group">
+                                    <img src={job.thumbnailUrl} alt="" className="w-full h-full object-cover" />
+                                    <div className="absolute inset-0 flex items-center justify-center bg-black/30 opacity-0 group-hover:opacity-100 transition-opacity">
+                                        <PlayIcon className="w-10 h-10 fill-current text-white" />
+                                    </div>
+                                </button>
+                                <div className="flex-1 min-w-0">
+                                    <button onClick={() => handlePlay(job)} className="font-semibold text-sm line-clamp-2 text-left">{job.title}</button>
+                                    <p className="text-xs text-yt-light-gray mt-1">
+                                        {`${job.channelName} • ${job.kind === 'audio' ? '音声のみ' : job.quality} • ${formatBytes(job.receivedBytes)}`}
+                                    </p>
+                                </div>
+                                <button onClick={() => handleRemove(job)} className="p-2 rounded-full hover:bg-yt-spec-light-10 dark:hover:bg-yt-spec-10" title="削除"><TrashIcon /></button>
+                            </div>
+                        ))}
+                    </div>
+                )}
+            </section>
+        </div>
+    );
+};
+
+export default OfflinePage;
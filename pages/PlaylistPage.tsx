@@ -3,7 +3,7 @@ import React, { useState, useEffect, useMemo, useRef } from 'react';
 // FIX: Use named imports for react-router-dom components and hooks.
 import { useParams, useNavigate, Link } from 'react-router-dom';
 import { usePlaylist } from '../contexts/PlaylistContext';
-import { getVideosByIds } from '../utils/api';
+import { getVideosByIds, isAbortError } from '../utils/api';
 import type { Video } from '../types';
 import { EditIcon, TrashIcon, PlayIcon, ShuffleIcon, RepeatIcon, DragHandleIcon, MoreIconHorizontal, CheckIcon } from '../components/icons/Icons';
 import { useTheme } from '../hooks/useTheme';
@@ -29,20 +29,26 @@ const PlaylistPage: React.FC = () => {
             return;
         }
         setPlaylistName(playlist.name);
+        const controller = new AbortController();
         
         const fetchVideos = async () => {
             setIsLoading(true);
             if (playlist.videoIds.length > 0) {
-                const fetchedVideos = await getVideosByIds(playlist.videoIds);
-                const videoMap = new Map(fetchedVideos.map(v => [v.id, v]));
-                // Preserve order of IDs
-                setVideos(playlist.videoIds.map(id => videoMap.get(id)).filter((v): v is Video => !!v));
+                try {
+                    const fetchedVideos = await getVideosByIds(playlist.videoIds, { signal: controller.signal });
+                    const videoMap = new Map(fetchedVideos.map(v => [v.id, v]));
+                    // Preserve order of IDs
+                    setVideos(playlist.videoIds.map(id => videoMap.get(id)).filter((v): v is Video => !!v));
+                } catch (e) {
+                    if (isAbortError(e)) return;
+                }
             } else {
                 setVideos([]);
             }
             setIsLoading(false);
         };
         fetchVideos();
+        return () => controller.abort();
     }, [playlist]);
 
     if (!playlist) {
@@ -1,8 +1,8 @@
 
-import React, { useState, useEffect, useCallback } from 'react';
+import React, { useState, useEffect, useCallback, useRef } from 'react';
 // FIX: Use named import for useSearchParams from react-router-dom
 import { useSearchParams } from 'react-router-dom';
-import { searchVideos, parseDuration } from '../utils/api';
+import { searchVideos, parseDuration, isAbortError } from '../utils/api';
 import type { Video, Channel, ApiPlaylist } from '../types';
 import SearchVideoResultCard from '../components/SearchVideoResultCard';
 import SearchChannelResultCard from '../components/SearchChannelResultCard';
@@ -10,6 +10,7 @@ import SearchPlaylistResultCard from '../components/SearchPlaylistResultCard';
 import ShortsShelf from '../components/ShortsShelf';
 import { useInfiniteScroll } from '../hooks/useInfiniteScroll';
 import { usePreference } from '../contexts/PreferenceContext';
+import ApiErrorMessage from '../components/ApiErrorMessage';
 
 const SORT_OPTIONS = [
     { label: '関連度順', value: 'relevance' },
@@ -29,12 +30,14 @@ const SearchResultsPage: React.FC = () => {
     const [playlists, setPlaylists] = useState<ApiPlaylist[]>([]);
     
     const [isLoading, setIsLoading] = useState<boolean>(true);
-    const [error, setError] = useState<string | null>(null);
+    const [error, setError] = useState<unknown>(null);
     
     const [nextPageToken, setNextPageToken] = useState<string | undefined>(undefined);
     const [isFetchingMore, setIsFetchingMore] = useState(false);
     
     const [sortBy, setSortBy] = useState<string>('relevance');
+    // Aborted whenever the query or sort changes, so results for an old query never land
+    const searchAbortRef = useRef<AbortController | null>(null);
 
     const isContentAllowed = useCallback((item: Video | Channel | ApiPlaylist) => {
         const lowerQuery = (text: string) => text.toLowerCase();
@@ -61,7 +64,7 @@ const SearchResultsPage: React.FC = () => {
         return true;
     }, [ngChannels, ngKeywords]);
 
-    const performSearch = useCallback(async (searchQuery: string, pageToken: string = '1', sort: string = 'relevance') => {
+    const performSearch = useCallback(async (searchQuery: string, pageToken: string = '1', sort: string = 'relevance', signal?: AbortSignal) => {
         if (!searchQuery) return;
         
         if (pageToken === '1') {
@@ -72,7 +75,7 @@ const SearchResultsPage: React.FC = () => {
         }
         
         try {
-            const results = await searchVideos(searchQuery, pageToken, undefined, sort === 'relevance' ? undefined : sort);
+            const results = await searchVideos(searchQuery, pageToken, undefined, sort === 'relevance' ? undefined : sort, { priority: 'high', signal });
             
             const separatedShorts: Video[] = [];
             const separatedVideos: Video[] = [];
@@ -101,10 +104,13 @@ const SearchResultsPage: React.FC = () => {
             }
             setNextPageToken(results.nextPageToken);
         } catch (err: any) {
-            setError(err.message);
+            if (isAbortError(err)) return;
+            setError(err);
         } finally {
-            setIsLoading(false);
-            setIsFetchingMore(false);
+            if (!signal?.aborted) {
+                setIsLoading(false);
+                setIsFetchingMore(false);
+            }
         }
     }, [isContentAllowed]);
 
@@ -119,13 +125,24 @@ const SearchResultsPage: React.FC = () => {
         setChannels([]);
         setPlaylists([]);
         setNextPageToken(undefined);
-        if (query) performSearch(query, '1', sortBy);
+        setIsFetchingMore(false);
+        const controller = new AbortController();
+        searchAbortRef.current = controller;
+        if (query) performSearch(query, '1', sortBy, controller.signal);
         else setIsLoading(false);
+        return () => controller.abort();
     }, [query, sortBy, performSearch]);
 
+    const handleRetry = () => {
+        searchAbortRef.current?.abort();
+        const controller = new AbortController();
+        searchAbortRef.current = controller;
+        performSearch(query, '1', sortBy, controller.signal);
+    };
+
     const handleLoadMore = () => {
         if (query && nextPageToken && !isFetchingMore) {
-            performSearch(query, nextPageToken, sortBy);
+            performSearch(query, nextPageToken, sortBy, searchAbortRef.current?.signal);
         }
     };
 
@@ -149,7 +166,7 @@ const SearchResultsPage: React.FC = () => {
     }
     
     if (error && videos.length === 0) {
-        return <div className="text-center text-red-500 bg-red-100 dark:bg-red-900/50 p-4 rounded-lg">{error}</div>;
+        return <ApiErrorMessage error={error} onRetry={handleRetry} />;
     }
 
     if (videos.length === 0 && channels.length === 0 && playlists.length === 0 && shorts.length === 0 && query) {
@@ -12,6 +12,7 @@ import { usePreference } from '../contexts/PreferenceContext';
 import { LikeIcon, CommentIcon, CloseIcon, BlockIcon, TrashIcon } from '../components/icons/Icons';
 import CommentComponent from '../components/Comment';
 import { useTheme } from '../hooks/useTheme';
+import { useShortcuts } from '../hooks/useShortcuts';
 
 // Re-created Chevron Icons - Increased size (approx 1.7x) and bolder design
 const ChevronUpIcon = () => (
@@ -164,7 +165,7 @@ const ShortsPage: React.FC = () => {
                     const existingIdx = initialList.findIndex(v => v.id === videoId);
                     if (existingIdx === -1) {
                         try {
-                            const detail = await getVideoDetails(videoId);
+                            const detail = await getVideoDetails(videoId, { priority: 'high' });
                             initialList = [detail, ...initialList];
                         } catch (e) {
                             console.warn("Could not fetch detail for requested video", e);
@@ -289,6 +290,11 @@ const ShortsPage: React.FC = () => {
         handleNext();
     };
 
+    useShortcuts({
+        shortsPrevious: handlePrev,
+        shortsNext: handleNext,
+    });
+
     useEffect(() => {
         const handleWheel = (e: WheelEvent) => {
             e.preventDefault();
@@ -379,7 +385,7 @@ const ShortsPage: React.FC = () => {
                              {areCommentsLoading ? <div className="flex justify-center py-8"><div className="animate-spin rounded-full h-8 w-8 border-t-2 border-b-2 border-yt-blue"></div></div>
                              : comments.length > 0 ? (
                                  <div className="space-y-2">
-                                     {comments.map((comment, idx) => ( <div key={idx} className="bg-black/5 dark:bg-white/5 rounded-lg p-2 backdrop-blur-sm"><CommentComponent comment={comment} /></div> ))}
+                                     {comments.map((comment, idx) => ( <div key={idx} className="bg-black/5 dark:bg-white/5 rounded-lg p-2 backdrop-blur-sm"><CommentComponent comment={comment} videoId={videos[currentIndex]?.id} creatorAvatarUrl={videos[currentIndex]?.channelAvatarUrl} /></div> ))}
                                  </div>
                              ) : <div className="text-center text-yt-light-gray py-10">コメントはありません</div> }
                          </div>
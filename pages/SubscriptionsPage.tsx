@@ -2,7 +2,7 @@ import React, { useState, useEffect, useCallback } from 'react';
 // FIX: Use named import for Link from react-router-dom
 import { Link } from 'react-router-dom';
 import { useSubscription } from '../contexts/SubscriptionContext';
-import { getChannelVideos } from '../utils/api';
+import { getChannelVideos, isAbortError } from '../utils/api';
 import type { Video } from '../types';
 import VideoGrid from '../components/VideoGrid';
 import VideoCardSkeleton from '../components/icons/VideoCardSkeleton';
@@ -46,7 +46,7 @@ const SubscriptionsPage: React.FC = () => {
     const [error, setError] = useState<string | null>(null);
     const [selectedChannelId, setSelectedChannelId] = useState<string>('all');
 
-    const fetchSubscriptionFeed = useCallback(async () => {
+    const fetchSubscriptionFeed = useCallback(async (signal: AbortSignal) => {
         if (subscribedChannels.length === 0) {
             setIsLoading(false);
             setVideos([]);
@@ -61,7 +61,7 @@ const SubscriptionsPage: React.FC = () => {
             let fetchedVideos: Video[] = [];
             if (selectedChannelId === 'all') {
                 const channelPromises = subscribedChannels.slice(0, 15).map(channel => 
-                    getChannelVideos(channel.id).then(res => 
+                    getChannelVideos(channel.id, '1', 'latest', { signal }).then(res => 
                         res.videos.slice(0, 5).map(video => ({
                             ...video,
                             channelName: channel.name,
@@ -73,7 +73,7 @@ const SubscriptionsPage: React.FC = () => {
                 const results = await Promise.all(channelPromises);
                 fetchedVideos = results.flat();
             } else {
-                const result = await getChannelVideos(selectedChannelId);
+                const result = await getChannelVideos(selectedChannelId, '1', 'latest', { signal });
                 const channel = subscribedChannels.find(c => c.id === selectedChannelId);
                 if (channel) {
                      fetchedVideos = result.videos.map(video => ({
@@ -95,15 +95,18 @@ const SubscriptionsPage: React.FC = () => {
             setVideos(uniqueVideos);
 
         } catch (err: any) {
+            if (isAbortError(err)) return;
             setError(err.message || '登録チャンネルの動画の読み込みに失敗しました。');
             console.error(err);
         } finally {
-            setIsLoading(false);
+            if (!signal.aborted) setIsLoading(false);
         }
     }, [subscribedChannels, selectedChannelId]);
 
     useEffect(() => {
-        fetchSubscriptionFeed();
+        const controller = new AbortController();
+        fetchSubscriptionFeed(controller.signal);
+        return () => controller.abort();
     }, [fetchSubscriptionFeed]);
 
     if (error) {
@@ -1,21 +1,39 @@
 
 import React, { useState, useEffect, useMemo, useRef, useCallback } from 'react';
 import { useParams, Link, useSearchParams, useNavigate, useLocation } from 'react-router-dom';
-import { getVideoDetails, getPlayerConfig, getComments, getVideosByIds, getRawStreamData } from '../utils/api';
-import type { VideoDetails, Video, Comment, Channel, CommentResponse } from '../types';
+import { getVideoDetails, getPlayerConfig, getComments, getVideosByIds, getRawStreamData, isAbortError } from '../utils/api';
+import type { VideoDetails, Video, Comment, Channel, CommentResponse, StreamData, Playlist, CaptionTrack } from '../types';
 import { useSubscription } from '../contexts/SubscriptionContext';
 import { useHistory } from '../contexts/HistoryContext';
 import { usePlaylist } from '../contexts/PlaylistContext';
 import { usePreference } from '../contexts/PreferenceContext';
+import { useAudioPlayer } from '../contexts/AudioPlayerContext';
+import { usePlayerHost } from '../contexts/PlayerHostContext';
+import { useQueue } from '../contexts/QueueContext';
 import VideoPlayerPageSkeleton from '../components/skeletons/VideoPlayerPageSkeleton';
 import PlaylistModal from '../components/PlaylistModal';
 import DownloadModal from '../components/DownloadModal';
 import CommentComponent from '../components/Comment';
 import PlaylistPanel from '../components/PlaylistPanel';
 import RelatedVideoCard from '../components/RelatedVideoCard';
-import { LikeIcon, SaveIcon, DownloadIcon, DislikeIcon, ChevronRightIcon, TuneIcon, SpeedIcon, ChatIcon, ShareIcon } from '../components/icons/Icons';
+import ChapterList from '../components/ChapterList';
+import ChapterSeekBar from '../components/ChapterSeekBar';
+import TranscriptPanel from '../components/TranscriptPanel';
+import LiveChatPanel from '../components/LiveChatPanel';
+import CommentAnalyticsPanel from '../components/CommentAnalyticsPanel';
+import { LikeIcon, SaveIcon, DownloadIcon, DislikeIcon, ChevronRightIcon, TuneIcon, SpeedIcon, ChatIcon, ShareIcon, RepeatIcon, HeadphonesIcon, SubtitlesIcon } from '../components/icons/Icons';
 import { useInfiniteScroll } from '../hooks/useInfiniteScroll';
-import HlsVideoPlayer from '../components/HlsVideoPlayer';
+import { usePlayerShortcuts } from '../hooks/usePlayerShortcuts';
+import { usePlayerTime } from '../hooks/usePlayerTime';
+import { useCaptionCues } from '../hooks/useCaptionCues';
+import { parseStartTime } from '../utils/player/controller';
+import { isEmbedOrigin } from '../utils/player/iframe';
+import { loadVideoSettings, saveVideoSettings, isValidLoop, DEFAULT_PLAYBACK_SETTINGS, type LoopRange } from '../utils/playbackSettings';
+import { extractTimestamps, sectionRange, parseChapters, chapterIndexAt, linkifyTimestamps, plainTextToHtml, SEEK_ATTRIBUTE } from '../utils/chapters';
+import { MIN_TRANSPOSE, MAX_TRANSPOSE } from '../utils/audio/pitchShifter';
+import { formatDuration, parseDuration } from '../utils/format';
+import { cuesToWebVtt, pickDefaultCaptionTrack, type CaptionSource } from '../utils/captions';
+import ApiErrorMessage from '../components/ApiErrorMessage';
 
 const TheaterIcon: React.FC = () => (
     <svg xmlns="http://www.w3.org/2000/svg" height="24" viewBox="0 0 24 24" width="24" focusable="false" className="fill-current text-black dark:text-white">
@@ -23,6 +41,16 @@ const TheaterIcon: React.FC = () => (
     </svg>
 );
 
+// Query for the next video in a queue: position and loop parameters belong to the current one
+const paramsForNextVideo = (searchParams: URLSearchParams) => {
+    const params = new URLSearchParams(searchParams);
+    ['t', 'a', 'b'].forEach(key => params.delete(key));
+    return params;
+};
+
+// Remembered across videos: the same language with the same origin (hand-made or auto-generated)
+const captionKey = (track: CaptionTrack) => `${track.languageCode}${track.isAutoGenerated ? ':auto' : ''}`;
+
 const VideoPlayerPage: React.FC = () => {
     const { videoId } = useParams<{ videoId: string }>();
     const navigate = useNavigate();
@@ -39,13 +67,16 @@ const VideoPlayerPage: React.FC = () => {
     const [isLoading, setIsLoading] = useState(true);
     
     const [isCommentsLoading, setIsCommentsLoading] = useState(false);
-    const [error, setError] = useState<string | null>(null);
+    const [error, setError] = useState<unknown>(null);
+    const [retryKey, setRetryKey] = useState(0);
     const [isDescriptionExpanded, setIsDescriptionExpanded] = useState(false);
     const [isPlaylistModalOpen, setIsPlaylistModalOpen] = useState(false);
     const [playlistVideos, setPlaylistVideos] = useState<Video[]>([]);
     const [isCollaboratorMenuOpen, setIsCollaboratorMenuOpen] = useState(false);
     const collaboratorMenuRef = useRef<HTMLDivElement>(null);
-    const iframeRef = useRef<HTMLIFrameElement>(null);
+    // Position to seek to once the next player is ready (?t= or the position before a player mode switch)
+    const resumeAtRef = useRef<number | null>(null);
+    const positionRef = useRef(0);
     
     const [commentsContinuation, setCommentsContinuation] = useState<string | undefined>(undefined);
     const [isFetchingMoreComments, setIsFetchingMoreComments] = useState(false);
@@ -54,8 +85,12 @@ const VideoPlayerPage: React.FC = () => {
     const controlsRef = useRef<HTMLDivElement>(null);
     const [playbackSpeed, setPlaybackSpeed] = useState(1.0);
     const [transposeLevel, setTransposeLevel] = useState(0); 
+    const [loopRange, setLoopRange] = useState<LoopRange | null>(null);
+    const settingsVideoIdRef = useRef<string | undefined>(undefined);
     
     const [showLiveChat, setShowLiveChat] = useState(false);
+    const [isTranscriptOpen, setIsTranscriptOpen] = useState(false);
+    const [captionChoice, setCaptionChoice] = useState<string | null>(null);
     const [isTheaterMode, setIsTheaterMode] = useState(false);
     const [commentSort, setCommentSort] = useState<'top' | 'newest'>('top');
     const [playerParams, setPlayerParams] = useState<string>('');
@@ -65,21 +100,36 @@ const VideoPlayerPage: React.FC = () => {
 
     const [shuffledVideos, setShuffledVideos] = useState<Video[]>([]);
     const shuffleSeedRef = useRef<string | null>(null);
+    // Requests for the current video are cancelled when the video changes or the page unmounts
+    const videoAbortRef = useRef<AbortController | null>(null);
+    const commentsAbortRef = useRef<AbortController | null>(null);
 
     const { defaultPlayerMode, setDefaultPlayerMode } = usePreference();
-    const [streamData, setStreamData] = useState<any>(null);
+    const [streamData, setStreamData] = useState<StreamData | null>(null);
     const [isDownloadModalOpen, setIsDownloadModalOpen] = useState(false);
     const [isStreamDataLoading, setIsStreamDataLoading] = useState(false);
     
     const { isSubscribed, subscribe, unsubscribe } = useSubscription();
-    const { addVideoToHistory } = useHistory();
+    const { addVideoToHistory, getResumePosition } = useHistory();
     const { playlists, reorderVideosInPlaylist } = usePlaylist();
+    const { queue, reorderQueue, removeFromQueue, clearQueue, getNextInQueue, advanceQueue, saveQueueAsPlaylist } = useQueue();
+    const { track: audioTrack, controller: audioController, playAudio, pause: pauseAudio, stop: stopAudio } = useAudioPlayer();
+    // The player itself lives in the host so it can keep playing as a mini-player after leaving
+    const { session, controller: playerController, load: loadPlayer, close: closePlayer, registerSlot } = usePlayerHost();
+    const sessionVideoIdRef = useRef(session?.videoId);
+    sessionVideoIdRef.current = session?.videoId;
+    const isAudioOnly = !!videoId && audioTrack?.id === videoId;
 
     const currentPlaylist = useMemo(() => {
         if (!playlistId) return null;
         return playlists.find(p => p.id === playlistId) || null;
     }, [playlistId, playlists]);
 
+    const queuePlaylist = useMemo<Playlist>(
+        () => ({ id: 'queue', name: '再生キュー', videoIds: queue.map(v => v.id), createdAt: '' }),
+        [queue]
+    );
+
     useEffect(() => {
         setIsShuffle(searchParams.get('shuffle') === '1');
         setIsLoop(searchParams.get('loop') === '1');
@@ -117,14 +167,14 @@ const VideoPlayerPage: React.FC = () => {
 
     useEffect(() => {
         const handleMessage = (event: MessageEvent) => {
-            if (event.origin !== "https://www.youtube.com" && event.origin !== "https://www.youtubeeducation.com") return;
+            if (!isEmbedOrigin(event.origin)) return;
 
             try {
                 const data = JSON.parse(event.data);
                 if (data.event === 'infoDelivery' && data.info?.videoData?.videoId) {
                     const newId = data.info.videoData.videoId;
                     if (newId && newId !== videoId) {
-                        const newParams = new URLSearchParams(searchParams);
+                        const newParams = paramsForNextVideo(searchParams);
                         navigate(`/watch/${newId}?${newParams.toString()}`, { replace: true });
                     }
                 }
@@ -136,13 +186,18 @@ const VideoPlayerPage: React.FC = () => {
     }, [videoId, searchParams, navigate]);
 
     useEffect(() => {
+        const controller = new AbortController();
         const fetchPlaylistVideos = async () => {
             if (currentPlaylist) {
                 if (currentPlaylist.videoIds.length > 0) {
-                    const fetchedVideos = await getVideosByIds(currentPlaylist.videoIds);
-                    const videoMap = new Map(fetchedVideos.map(v => [v.id, v]));
-                    const orderedVideos = currentPlaylist.videoIds.map(id => videoMap.get(id)).filter((v): v is Video => !!v);
-                    setPlaylistVideos(orderedVideos);
+                    try {
+                        const fetchedVideos = await getVideosByIds(currentPlaylist.videoIds, { signal: controller.signal });
+                        const videoMap = new Map(fetchedVideos.map(v => [v.id, v]));
+                        const orderedVideos = currentPlaylist.videoIds.map(id => videoMap.get(id)).filter((v): v is Video => !!v);
+                        setPlaylistVideos(orderedVideos);
+                    } catch (e) {
+                        if (!isAbortError(e)) console.error("Failed to fetch playlist videos", e);
+                    }
                 } else {
                     setPlaylistVideos([]);
                 }
@@ -151,6 +206,7 @@ const VideoPlayerPage: React.FC = () => {
             }
         };
         fetchPlaylistVideos();
+        return () => controller.abort();
     }, [currentPlaylist]);
 
     useEffect(() => {
@@ -180,25 +236,52 @@ const VideoPlayerPage: React.FC = () => {
 
     const fetchStreamDataIfNeeded = useCallback(async () => {
         if (streamData || !videoId || isStreamDataLoading) return;
+        const signal = videoAbortRef.current?.signal;
         setIsStreamDataLoading(true);
         try {
-            const data = await getRawStreamData(videoId);
+            const data = await getRawStreamData(videoId, { priority: 'high', signal });
             setStreamData(data);
         } catch (e) {
-            console.error("Failed to fetch stream data", e);
+            if (!isAbortError(e)) console.error("Failed to fetch stream data", e);
         } finally {
-            setIsStreamDataLoading(false);
+            if (!signal?.aborted) setIsStreamDataLoading(false);
         }
     }, [videoId, streamData, isStreamDataLoading]);
 
+    // The transcript needs the caption list, which comes with the stream data
     useEffect(() => {
-        if (defaultPlayerMode === 'stream' && videoId) {
+        if ((defaultPlayerMode === 'stream' || isTranscriptOpen) && videoId) {
             fetchStreamDataIfNeeded();
         }
-    }, [defaultPlayerMode, videoId, fetchStreamDataIfNeeded]);
+    }, [defaultPlayerMode, isTranscriptOpen, videoId, fetchStreamDataIfNeeded]);
+
+    const captionTracks = streamData?.captions;
+    const captionTrack = useMemo(() => {
+        const tracks = captionTracks || [];
+        return tracks.find(t => captionKey(t) === captionChoice) || pickDefaultCaptionTrack(tracks);
+    }, [captionTracks, captionChoice]);
+    // The embed shows its own captions, so cues are only needed for <video> modes and the transcript
+    const { cues: captionCues, isLoading: isCaptionLoading, error: captionError } = useCaptionCues(
+        defaultPlayerMode !== 'player' || isTranscriptOpen ? captionTrack : null
+    );
+    const [captionSources, setCaptionSources] = useState<CaptionSource[]>([]);
+    useEffect(() => {
+        if (!captionTrack || captionCues.length === 0) {
+            setCaptionSources([]);
+            return;
+        }
+        const src = URL.createObjectURL(new Blob([cuesToWebVtt(captionCues)], { type: 'text/vtt' }));
+        setCaptionSources([{ src, label: captionTrack.label, language: captionTrack.languageCode }]);
+        // Revoked late so the <track> using it has been replaced by then
+        return () => { setTimeout(() => URL.revokeObjectURL(src), 1000); };
+    }, [captionTrack, captionCues]);
 
     useEffect(() => {
-        let isMounted = true;
+        const controller = new AbortController();
+        const commentsController = new AbortController();
+        videoAbortRef.current = controller;
+        commentsAbortRef.current = commentsController;
+        const { signal } = controller;
         
         if (initialVideo && initialVideo.id === videoId) {
              setVideoDetails({
@@ -226,20 +309,29 @@ const VideoPlayerPage: React.FC = () => {
         setCommentsContinuation(undefined);
         setRelatedVideos([]);
         setStreamData(null);
+        setIsStreamDataLoading(false);
         setIsDownloadModalOpen(false);
         setIsCommentsLoading(true);
         setShowLiveChat(false); 
-        setPlaybackSpeed(1.0);
-        setTransposeLevel(0);
+        const savedSettings = videoId ? loadVideoSettings(videoId) : DEFAULT_PLAYBACK_SETTINGS;
+        setPlaybackSpeed(savedSettings.speed);
+        setTransposeLevel(savedSettings.transpose);
+        // A loop shared by URL (?a=&b=) takes precedence over the remembered one
+        const sharedLoop = { a: parseStartTime(searchParams.get('a')) ?? NaN, b: parseStartTime(searchParams.get('b')) ?? NaN };
+        setLoopRange(isValidLoop(sharedLoop) ? sharedLoop : savedSettings.loop);
         setCommentSort('top'); 
+        // Coming back to the video that is still playing in the mini-player: it just carries on
+        const isPlayingInHost = !!videoId && sessionVideoIdRef.current === videoId;
+        resumeAtRef.current = isPlayingInHost ? null : parseStartTime(searchParams.get('t')) ?? (videoId ? getResumePosition(videoId) : null);
+        positionRef.current = 0;
         window.scrollTo(0, 0);
 
         const fetchVideoData = async () => {
             if (!videoId) return;
 
-            getVideoDetails(videoId)
+            getVideoDetails(videoId, { priority: 'high', signal })
                 .then(details => {
-                    if (isMounted) {
+                    if (!signal.aborted) {
                         if (initialVideo && initialVideo.id === videoId && initialVideo.views && (details.views === '0回視聴' || details.views === '視聴回数不明' || details.views === '0回' || details.views.startsWith('0'))) {
                              details.views = initialVideo.views;
                         }
@@ -255,10 +347,10 @@ const VideoPlayerPage: React.FC = () => {
                     }
                 })
                 .catch(err => {
-                    if (isMounted) {
+                    if (!signal.aborted) {
                         setVideoDetails(prev => {
                             if (!prev) {
-                                setError(err.message || '動画の読み込みに失敗しました。');
+                                setError(err);
                             }
                             return prev;
                         });
@@ -271,43 +363,45 @@ const VideoPlayerPage: React.FC = () => {
                     let accComments: Comment[] = [];
                     let token: string | undefined = undefined;
                     
-                    const res1 = await getComments(videoId, 'top');
+                    const res1 = await getComments(videoId, 'top', undefined, { signal: commentsController.signal });
                     accComments = res1.comments;
                     token = res1.continuation;
 
-                    while (accComments.length < 50 && token && isMounted) {
-                        const resNext: CommentResponse = await getComments(videoId, 'top', token);
+                    while (accComments.length < 50 && token) {
+                        const resNext: CommentResponse = await getComments(videoId, 'top', token, { signal: commentsController.signal });
                         if (!resNext.comments || resNext.comments.length === 0) break;
                         accComments = [...accComments, ...resNext.comments];
                         token = resNext.continuation;
                     }
 
-                    if (isMounted) {
-                        setComments(accComments);
-                        setCommentsContinuation(token);
-                    }
+                    setComments(accComments);
+                    setCommentsContinuation(token);
                 } catch (err) {
-                    console.warn("Failed to fetch comments", err);
+                    if (!isAbortError(err)) console.warn("Failed to fetch comments", err);
                 } finally {
-                    if (isMounted) setIsCommentsLoading(false);
+                    if (!commentsController.signal.aborted) setIsCommentsLoading(false);
                 }
             };
             
             loadComments();
         };
         fetchVideoData();
-        return () => { isMounted = false; };
-    }, [videoId, addVideoToHistory]); 
+        return () => {
+            controller.abort();
+            commentsAbortRef.current?.abort();
+        };
+    }, [videoId, addVideoToHistory, getResumePosition, retryKey]); 
     
     const fetchMoreComments = useCallback(async () => {
         if (!videoId || !commentsContinuation || isFetchingMoreComments) return;
+        const signal = commentsAbortRef.current?.signal;
         setIsFetchingMoreComments(true);
         try {
-            const res = await getComments(videoId, commentSort, commentsContinuation);
+            const res = await getComments(videoId, commentSort, commentsContinuation, { signal });
             setComments(prev => [...prev, ...res.comments]);
             setCommentsContinuation(res.continuation);
         } catch (e) {
-            console.error("Failed to load more comments", e);
+            if (!isAbortError(e)) console.error("Failed to load more comments", e);
         } finally {
             setIsFetchingMoreComments(false);
         }
@@ -317,17 +411,22 @@ const VideoPlayerPage: React.FC = () => {
 
     const handleCommentSortChange = (newSort: 'top' | 'newest') => {
         if (newSort === commentSort || !videoId) return;
+        // Drop whatever is still loading for the previous sort order
+        commentsAbortRef.current?.abort();
+        const controller = new AbortController();
+        commentsAbortRef.current = controller;
         setCommentSort(newSort);
         setIsCommentsLoading(true);
+        setIsFetchingMoreComments(false);
         setComments([]);
         setCommentsContinuation(undefined);
-        getComments(videoId, newSort)
+        getComments(videoId, newSort, undefined, { signal: controller.signal })
             .then(res => {
                 setComments(res.comments);
                 setCommentsContinuation(res.continuation);
             })
-            .catch(e => console.error(e))
-            .finally(() => setIsCommentsLoading(false));
+            .catch(e => { if (!isAbortError(e)) console.error(e); })
+            .finally(() => { if (!controller.signal.aborted) setIsCommentsLoading(false); });
     };
 
     const navigateToNextVideo = useCallback(() => {
@@ -341,13 +440,19 @@ const VideoPlayerPage: React.FC = () => {
         }
         const nextVideo = currentList[nextIndex];
         if (nextVideo) {
-             const newParams = new URLSearchParams(searchParams);
+             const newParams = paramsForNextVideo(searchParams);
              if (isShuffle) newParams.set('shuffle', '1');
              if (isLoop) newParams.set('loop', '1');
              navigate(`/watch/${nextVideo.id}?${newParams.toString()}`);
         }
     }, [currentPlaylist, playlistVideos, isShuffle, shuffledVideos, videoId, isLoop, navigate, searchParams]);
 
+    // The watch queue takes over when no saved playlist is playing
+    const navigateToQueuedVideo = useCallback(() => {
+        const nextVideo = advanceQueue(videoId);
+        if (nextVideo) navigate(`/watch/${nextVideo.id}`, { state: { video: nextVideo } });
+    }, [advanceQueue, videoId, navigate]);
+
     const iframeSrc = useMemo(() => {
         if (!videoDetails?.id || !playerParams) return '';
         
@@ -357,37 +462,148 @@ const VideoPlayerPage: React.FC = () => {
         if (!params.includes('origin')) params += `&origin=${encodeURIComponent(window.location.origin)}`;
         if (!params.includes('autoplay')) params += '&autoplay=1';
 
-        const activeList = isShuffle ? shuffledVideos : playlistVideos;
-        
-        if (activeList.length > 0) {
-            const currentIndex = activeList.findIndex(v => v.id === videoId);
-            if (currentIndex !== -1) {
-                const nextVideos = activeList.slice(currentIndex + 1);
-                let playlistIds: string[] = [];
-                
-                if (isLoop) {
-                    const prevVideos = activeList.slice(0, currentIndex);
-                    playlistIds = [...nextVideos, ...prevVideos, activeList[currentIndex]].map(v => v.id).slice(0, 100);
-                } else {
-                    playlistIds = nextVideos.map(v => v.id).slice(0, 100);
-                }
+        return `${src}?${params}`;
+    }, [videoDetails?.id, playerParams]);
 
-                if (playlistIds.length > 0) {
-                    params += `&playlist=${playlistIds.join(',')}`;
-                }
-            }
-        } else {
-            if (isLoop) {
-                params += `&playlist=${videoDetails.id}`;
-            }
+    useEffect(() => {
+        if (!videoDetails || videoDetails.id !== videoId) return;
+        if (isAudioOnly) {
+            closePlayer();
+            return;
         }
-        
-        if (isLoop) {
-             if (!params.includes('loop=1')) params += '&loop=1';
+        loadPlayer({
+            videoId,
+            title: videoDetails.title,
+            channelName: videoDetails.channel.name,
+            thumbnailUrl: videoDetails.thumbnailUrl,
+            isLive: !!videoDetails.isLive,
+            watchUrl: `${location.pathname}${location.search}`,
+            iframeSrc,
+            streamData,
+            captions: captionSources,
+        });
+    }, [videoId, videoDetails, iframeSrc, streamData, captionSources, isAudioOnly, location.pathname, location.search, loadPlayer, closePlayer]);
+
+    // Carry the position over when the player mode changes mid-video
+    const playerModeRef = useRef(defaultPlayerMode);
+    useEffect(() => {
+        if (playerModeRef.current === defaultPlayerMode) return;
+        playerModeRef.current = defaultPlayerMode;
+        if (positionRef.current > 0) resumeAtRef.current = positionRef.current;
+    }, [defaultPlayerMode]);
+
+    useEffect(() => {
+        if (!playerController) return;
+        const trackPosition = () => { positionRef.current = playerController.getCurrentTime(); };
+        const resume = () => {
+            if (resumeAtRef.current === null) return;
+            playerController.seek(resumeAtRef.current);
+            resumeAtRef.current = null;
+        };
+        const syncSpeed = () => setPlaybackSpeed(playerController.getPlaybackRate());
+        // The player may have become ready before this subscription
+        if (playerController.getDuration() > 0) resume();
+        const unsubscribers = [
+            playerController.on('ready', resume),
+            playerController.on('timeupdate', trackPosition),
+            playerController.on('ratechange', syncSpeed),
+        ];
+        return () => unsubscribers.forEach(unsubscribe => unsubscribe());
+    }, [playerController]);
+
+    useEffect(() => {
+        if (!playerController) return;
+        const applySpeed = () => {
+            if (playerController.getPlaybackRate() !== playbackSpeed) playerController.setPlaybackRate(playbackSpeed);
+        };
+        applySpeed();
+        return playerController.on('ready', applySpeed);
+    }, [playerController, playbackSpeed]);
+
+    // Re-applied on 'ready': whether the pitch shifter can hear the element depends on the source it loaded
+    useEffect(() => {
+        if (!playerController) return;
+        const applyTranspose = () => playerController.setTranspose(transposeLevel);
+        applyTranspose();
+        return playerController.on('ready', applyTranspose);
+    }, [playerController, transposeLevel]);
+
+    // The first run after a video change still sees the previous video's settings and is skipped
+    useEffect(() => {
+        if (settingsVideoIdRef.current !== videoId) {
+            settingsVideoIdRef.current = videoId;
+            return;
         }
+        if (videoId) saveVideoSettings(videoId, { speed: playbackSpeed, transpose: transposeLevel, loop: loopRange });
+    }, [videoId, playbackSpeed, transposeLevel, loopRange]);
 
-        return `${src}?${params}`;
-    }, [videoDetails, playerParams, isLoop, isShuffle, playlistVideos, shuffledVideos, videoId]);
+    // Keep the loop in the URL so the page address can be shared as is
+    useEffect(() => {
+        setSearchParams(prev => {
+            const a = loopRange ? String(loopRange.a) : null;
+            const b = loopRange ? String(loopRange.b) : null;
+            if (prev.get('a') === a && prev.get('b') === b) return prev;
+            const next = new URLSearchParams(prev);
+            if (a !== null && b !== null) {
+                next.set('a', a);
+                next.set('b', b);
+            } else {
+                next.delete('a');
+                next.delete('b');
+            }
+            return next;
+        }, { replace: true });
+    }, [loopRange, setSearchParams]);
+
+    useEffect(() => {
+        if (!playerController || !loopRange) return;
+        const checkLoop = () => {
+            if (playerController.getCurrentTime() >= loopRange.b) playerController.seek(loopRange.a);
+        };
+        return playerController.on('timeupdate', checkLoop);
+    }, [playerController, loopRange]);
+
+    const handleEnded = useCallback(() => {
+        if (loopRange && playerController) {
+            // B was at (or past) the end of the video
+            playerController.seek(loopRange.a);
+            playerController.play();
+        } else if (currentPlaylist && playlistVideos.length > 0) {
+            navigateToNextVideo();
+        } else if (isLoop && playerController) {
+            playerController.seek(0);
+            playerController.play();
+        } else if (!currentPlaylist && getNextInQueue(videoId)) {
+            navigateToQueuedVideo();
+        }
+    }, [loopRange, currentPlaylist, playlistVideos.length, navigateToNextVideo, isLoop, playerController, getNextInQueue, videoId, navigateToQueuedVideo]);
+
+    useEffect(() => playerController?.on('ended', handleEnded), [playerController, handleEnded]);
+
+    // Only one thing plays at a time: starting the video pauses the audio-only mode
+    useEffect(() => playerController?.on('play', pauseAudio), [playerController, pauseAudio]);
+
+    const isLive = !!videoDetails?.isLive;
+    const descriptionTimestamps = useMemo(() => extractTimestamps(videoDetails?.description || ''), [videoDetails?.description]);
+    const chapters = useMemo(
+        () => videoDetails ? parseChapters(videoDetails.description, parseDuration(videoDetails.isoDuration, videoDetails.duration)) : [],
+        [videoDetails]
+    );
+    const descriptionHtml = useMemo(() => {
+        const description = videoDetails?.description || '';
+        return linkifyTimestamps(videoDetails?.descriptionFormat === 'text' ? plainTextToHtml(description) : description);
+    }, [videoDetails?.description, videoDetails?.descriptionFormat]);
+    // Chat replay is kept in step with the player, live chat is not
+    const currentTime = usePlayerTime(chapters.length > 0 || isTranscriptOpen || (showLiveChat && !isLive) ? playerController : null);
+    const currentChapterIndex = chapterIndexAt(chapters, currentTime);
+    usePlayerShortcuts(playerController, playbackSpeed, setPlaybackSpeed, {
+        onToggleTheater: () => setIsTheaterMode(prev => !prev),
+        onNextVideo: () => {
+            if (currentPlaylist && playlistVideos.length > 0) navigateToNextVideo();
+            else if (getNextInQueue(videoId)) navigateToQueuedVideo();
+            else return false;
+        },
+    });
 
     const updateUrlParams = (key: string, value: string | null) => {
         const newSearchParams = new URLSearchParams(searchParams);
@@ -414,6 +630,31 @@ const VideoPlayerPage: React.FC = () => {
         reorderVideosInPlaylist(playlistId, startIndex, endIndex);
     };
 
+    const handleSaveQueue = () => {
+        const name = window.prompt('プレイリスト名', '再生キュー');
+        if (!name?.trim()) return;
+        saveQueueAsPlaylist(name.trim());
+        alert(`「${name.trim()}」として保存しました`);
+    };
+
+    const handleClearQueue = () => {
+        if (window.confirm('再生キューをクリアしますか？')) clearQueue();
+    };
+
+    // Hands the video over to the audio-only mode, which keeps playing across pages
+    const handleAudioOnlyClick = () => {
+        if (!videoDetails) return;
+        playAudio(
+            { id: videoDetails.id, title: videoDetails.title, channelName: videoDetails.channel.name, thumbnailUrl: videoDetails.thumbnailUrl },
+            { playlistId: currentPlaylist?.id ?? null, startAt: playerController ? playerController.getCurrentTime() : undefined }
+        );
+    };
+
+    const handleVideoModeClick = () => {
+        if (audioController) resumeAtRef.current = audioController.getCurrentTime();
+        stopAudio();
+    };
+
     const handleDownloadClick = () => {
         setIsDownloadModalOpen(true);
         if (!streamData && !isStreamDataLoading) {
@@ -429,19 +670,52 @@ const VideoPlayerPage: React.FC = () => {
     const applyPlaybackSettings = (speed: number, transpose: number) => {
         setPlaybackSpeed(speed);
         setTransposeLevel(transpose);
-
-        if (defaultPlayerMode === 'player' && iframeRef.current && iframeRef.current.contentWindow) {
-            const targetSpeed = Math.min(Math.max(speed, 0.25), 2.0); 
-            iframeRef.current.contentWindow.postMessage(
-                JSON.stringify({ event: 'command', func: 'setPlaybackRate', args: [targetSpeed] }), '*'
-            );
-        }
     };
 
     const handleSpeedChange = (val: number) => applyPlaybackSettings(val, transposeLevel);
+    const handleTransposeChange = (val: number) => applyPlaybackSettings(playbackSpeed, val);
+
+    const loopSection = (index: number) => {
+        const range = sectionRange(descriptionTimestamps, index, playerController?.getDuration() || 0);
+        if (!range) return;
+        setLoopRange(range);
+        playerController?.seek(range.a);
+    };
+
+    const handleCopyLoopLink = () => {
+        navigator.clipboard.writeText(window.location.href);
+        alert('ループ区間のリンクをコピーしました');
+    };
+
+    const seekTo = (seconds: number) => {
+        if (!playerController) return;
+        playerController.seek(seconds);
+        playerController.play();
+    };
+
+    const handleDescriptionClick = (event: React.MouseEvent<HTMLDivElement>) => {
+        const link = (event.target as HTMLElement).closest(`[${SEEK_ATTRIBUTE}]`);
+        if (!link) return;
+        // A timestamp seeks instead of toggling the description
+        event.preventDefault();
+        event.stopPropagation();
+        seekTo(Number(link.getAttribute(SEEK_ATTRIBUTE)));
+        window.scrollTo({ top: 0, behavior: 'smooth' });
+    };
+
+    const setLoopPoint = (point: 'a' | 'b') => {
+        if (!playerController) return;
+        const time = Math.floor(playerController.getCurrentTime());
+        const duration = playerController.getDuration();
+        setLoopRange(prev => {
+            const a = point === 'a' ? time : prev?.a ?? 0;
+            const b = point === 'b' ? time : prev?.b ?? (duration > 0 ? Math.floor(duration) : time + 10);
+            return b > a ? { a, b } : { a, b: a + 1 };
+        });
+    };
 
     if (isLoading) return <VideoPlayerPageSkeleton />;
-    if (error && !videoDetails) return <div className="p-4 text-center text-red-500">{error}</div>;
+    if (error && !videoDetails) return <ApiErrorMessage error={error} onRetry={() => setRetryKey(k => k + 1)} youtubeUrl={`https://www.youtube.com/watch?v=${videoId}`} />;
     if (!videoDetails) return null;
     
     const mainChannel = videoDetails.collaborators && videoDetails.collaborators.length > 0 ? videoDetails.collaborators[0] : videoDetails.channel;
@@ -456,40 +730,60 @@ const VideoPlayerPage: React.FC = () => {
 
     const hasCollaborators = videoDetails.collaborators && videoDetails.collaborators.length > 1;
     const collaboratorsList = videoDetails.collaborators || [];
+    const sidePanels = (
+        <>
+            {showLiveChat && videoId && (
+                <LiveChatPanel videoId={videoId} isReplay={!isLive} currentTime={currentTime} onClose={() => setShowLiveChat(false)} />
+            )}
+            {isTranscriptOpen && (
+                <TranscriptPanel
+                    tracks={captionTracks || []}
+                    track={captionTrack}
+                    onSelectTrack={track => setCaptionChoice(captionKey(track))}
+                    cues={captionCues}
+                    isLoading={isCaptionLoading || (isStreamDataLoading && !streamData)}
+                    error={captionError}
+                    currentTime={currentTime}
+                    onSeek={seekTo}
+                    onClose={() => setIsTranscriptOpen(false)}
+                />
+            )}
+            {chapters.length > 0 && <ChapterList chapters={chapters} currentIndex={currentChapterIndex} onSeek={seekTo} />}
+        </>
+    );
     const commentCountDisplay = videoDetails.commentCount ? videoDetails.commentCount + '件のコメント' : (comments.length > 0 ? `${comments.length.toLocaleString()}件以上のコメント` : 'コメント');
 
     return (
         <div className={`flex flex-col gap-6 mx-auto pt-2 md:pt-6 px-4 md:px-6 justify-center ${isTheaterMode ? 'w-full max-w-full' : 'max-w-[1750px] lg:flex-row'}`}>
             <div className={`flex-1 min-w-0 ${isTheaterMode ? 'max-w-full' : 'max-w-full'}`}>
-                <div className={`w-full bg-yt-black rounded-xl overflow-hidden shadow-lg relative z-10 ${isTheaterMode ? 'h-[75vh]' : 'aspect-video'}`}>
-                    {defaultPlayerMode === 'player' ? (
-                        playerParams && videoId && (
-                            <iframe ref={iframeRef} src={iframeSrc} key={iframeSrc} title={videoDetails.title} frameBorder="0" allow="accelerometer; autoplay; clipboard-write; encrypted-media; gyroscope; picture-in-picture" allowFullScreen className="w-full h-full"></iframe>
-                        )
-                    ) : (
-                        streamData?.streamingUrl ? (
-                            <HlsVideoPlayer 
-                                src={streamData.streamingUrl} 
-                                autoPlay 
-                                className="w-full h-full"
-                            />
-                        ) : (
-                            <div className="w-full h-full flex flex-col items-center justify-center text-white gap-4 bg-black">
-                                {isStreamDataLoading ? (
-                                    <>
-                                        <div className="animate-spin rounded-full h-10 w-10 border-t-2 border-b-2 border-white"></div>
-                                        <p>ストリームを準備中...</p>
-                                    </>
-                                ) : (
-                                    <>
-                                        <p>ストリームの読み込みに失敗しました。</p>
-                                        <button onClick={fetchStreamDataIfNeeded} className="px-4 py-2 bg-yt-blue rounded-full">再試行</button>
-                                    </>
-                                )}
-                            </div>
-                        )
+                {/* Slot for the player host, which lays the player over it; shown as is while there is nothing to play */}
+                <div ref={registerSlot} className={`w-full bg-yt-black rounded-xl overflow-hidden shadow-lg relative z-10 ${isTheaterMode ? 'h-[75vh]' : 'aspect-video'}`}>
+                    {isAudioOnly ? (
+                        <div className="relative w-full h-full flex flex-col items-center justify-center text-white gap-4">
+                            <img src={videoDetails.thumbnailUrl} alt="" className="absolute inset-0 w-full h-full object-cover opacity-30" />
+                            <HeadphonesIcon className="relative w-12 h-12 fill-current text-white" />
+                            <p className="relative">音声のみで再生中</p>
+                            <button onClick={handleVideoModeClick} className="relative px-4 py-2 bg-yt-blue rounded-full">動画で再生</button>
+                        </div>
+                    ) : defaultPlayerMode !== 'player' && !streamData && (
+                        <div className="w-full h-full flex flex-col items-center justify-center text-white gap-4 bg-black">
+                            {isStreamDataLoading ? (
+                                <>
+                                    <div className="animate-spin rounded-full h-10 w-10 border-t-2 border-b-2 border-white"></div>
+                                    <p>ストリームを準備中...</p>
+                                </>
+                            ) : (
+                                <>
+                                    <p>ストリームの読み込みに失敗しました。</p>
+                                    <button onClick={fetchStreamDataIfNeeded} className="px-4 py-2 bg-yt-blue rounded-full">再試行</button>
+                                </>
+                            )}
+                        </div>
                     )}
                 </div>
+                {defaultPlayerMode !== 'player' && chapters.length > 0 && playerController && (
+                    <ChapterSeekBar chapters={chapters} currentTime={currentTime} duration={playerController.getDuration()} onSeek={seconds => playerController.seek(seconds)} />
+                )}
 
                 <div className="">
                     <div className="flex flex-col sm:flex-row sm:items-start justify-between gap-4 mt-3 mb-2">
@@ -557,8 +851,10 @@ const VideoPlayerPage: React.FC = () => {
                             </div>
                             <button onClick={() => setShowLiveChat(prev => !prev)} className={`flex items-center justify-center rounded-full w-9 h-9 transition-colors flex-shrink-0 ${showLiveChat ? 'bg-yt-light dark:bg-[#272727] text-yt-blue' : 'bg-yt-light dark:bg-[#272727] text-black dark:text-white hover:bg-[#e5e5e5] dark:hover:bg-[#3f3f3f]'}`} title="ライブチャット表示"><ChatIcon /></button>
                             
+                            <button onClick={() => setIsTranscriptOpen(prev => !prev)} className={`flex items-center justify-center rounded-full w-9 h-9 transition-colors flex-shrink-0 bg-yt-light dark:bg-[#272727] hover:bg-[#e5e5e5] dark:hover:bg-[#3f3f3f] ${isTranscriptOpen ? 'text-yt-blue' : ''}`} title="文字起こし"><SubtitlesIcon className={`fill-current ${isTranscriptOpen ? 'text-yt-blue' : 'text-black dark:text-white'}`} /></button>
                             <button onClick={handleShareClick} className="flex items-center justify-center bg-yt-light dark:bg-[#272727] rounded-full w-9 h-9 hover:bg-[#e5e5e5] dark:hover:bg-[#3f3f3f] transition-colors flex-shrink-0" title="共有"><ShareIcon /></button>
                             <button onClick={handleDownloadClick} className="flex items-center justify-center bg-yt-light dark:bg-[#272727] rounded-full w-9 h-9 hover:bg-[#e5e5e5] dark:hover:bg-[#3f3f3f] transition-colors flex-shrink-0" title="ダウンロード"><DownloadIcon /></button>
+                            {!isLive && <button onClick={handleAudioOnlyClick} className="flex items-center justify-center bg-yt-light dark:bg-[#272727] rounded-full w-9 h-9 hover:bg-[#e5e5e5] dark:hover:bg-[#3f3f3f] transition-colors flex-shrink-0" title="音声のみで再生"><HeadphonesIcon /></button>}
                             <button onClick={() => setIsPlaylistModalOpen(true)} className="flex items-center justify-center bg-yt-light dark:bg-[#272727] rounded-full w-9 h-9 hover:bg-[#e5e5e5] dark:hover:bg-[#3f3f3f] transition-colors flex-shrink-0" title="保存"><SaveIcon /></button>
                             
                             <button 
@@ -572,7 +868,7 @@ const VideoPlayerPage: React.FC = () => {
                             <div className="relative" ref={controlsRef}>
                                 <button onClick={() => setIsControlsOpen(!isControlsOpen)} className={`flex items-center justify-center rounded-full w-9 h-9 transition-colors flex-shrink-0 ${isControlsOpen ? 'bg-black text-white dark:bg-white dark:text-black' : 'bg-yt-light dark:bg-[#272727] text-black dark:text-white hover:bg-[#e5e5e5] dark:hover:bg-[#3f3f3f]'}`} title="再生コントロール"><TuneIcon /></button>
                                 {isControlsOpen && (
-                                    <div className="absolute bottom-full right-0 mb-2 w-72 bg-yt-white dark:bg-yt-light-black rounded-xl shadow-xl border border-yt-spec-light-20 dark:border-yt-spec-20 p-4 z-50 animate-scale-in">
+                                    <div className="absolute top-full right-0 mt-2 w-72 bg-yt-white dark:bg-yt-light-black rounded-xl shadow-xl border border-yt-spec-light-20 dark:border-yt-spec-20 p-4 z-50 animate-scale-in">
                                         <div className="flex items-center justify-between mb-4 pb-2 border-b border-yt-spec-light-20 dark:border-yt-spec-20">
                                             <h3 className="font-bold text-sm">再生コントロール</h3>
                                         </div>
@@ -583,6 +879,39 @@ const VideoPlayerPage: React.FC = () => {
                                             </div>
                                             <input type="range" min="0.25" max="4.0" step="0.05" value={playbackSpeed} onChange={(e) => handleSpeedChange(parseFloat(e.target.value))} className="w-full accent-yt-blue h-1 bg-yt-light-gray rounded-lg appearance-none cursor-pointer" />
                                         </div>
+                                        <div className="mb-6">
+                                            <div className="flex items-center justify-between mb-2">
+                                                <div className="flex items-center gap-2 text-sm text-yt-light-gray"><TuneIcon /> キー</div>
+                                                <span className="font-bold text-sm">{transposeLevel > 0 ? `+${transposeLevel}` : transposeLevel}</span>
+                                            </div>
+                                            <input type="range" min={MIN_TRANSPOSE} max={MAX_TRANSPOSE} step="1" value={transposeLevel} disabled={!playerController?.supportsTranspose} onChange={(e) => handleTransposeChange(parseInt(e.target.value))} className="w-full accent-yt-blue h-1 bg-yt-light-gray rounded-lg appearance-none cursor-pointer disabled:opacity-40 disabled:cursor-not-allowed" />
+                                            {!playerController?.supportsTranspose && <p className="text-xs text-yt-light-gray mt-2">キー変更はストリーム再生モードでのみ利用できます。</p>}
+                                        </div>
+                                        <div>
+                                            <div className="flex items-center gap-2 text-sm text-yt-light-gray mb-2"><RepeatIcon className="w-5 h-5 fill-current" /> A-Bリピート</div>
+                                            <div className="flex items-center gap-2">
+                                                <button onClick={() => setLoopPoint('a')} disabled={!playerController} className="flex-1 px-2 py-1.5 text-xs font-semibold rounded-full bg-yt-light dark:bg-[#272727] hover:bg-[#e5e5e5] dark:hover:bg-[#3f3f3f] disabled:opacity-40">A {loopRange ? formatDuration(loopRange.a) : ''}</button>
+                                                <button onClick={() => setLoopPoint('b')} disabled={!playerController} className="flex-1 px-2 py-1.5 text-xs font-semibold rounded-full bg-yt-light dark:bg-[#272727] hover:bg-[#e5e5e5] dark:hover:bg-[#3f3f3f] disabled:opacity-40">B {loopRange ? formatDuration(loopRange.b) : ''}</button>
+                                                {loopRange && <button onClick={() => setLoopRange(null)} className="px-3 py-1.5 text-xs font-semibold rounded-full text-yt-blue hover:bg-yt-spec-light-10 dark:hover:bg-yt-spec-10">解除</button>}
+                                            </div>
+                                            {loopRange && <button onClick={handleCopyLoopLink} className="mt-2 text-xs font-semibold text-yt-blue hover:underline">ループ区間のリンクをコピー</button>}
+                                            {descriptionTimestamps.length > 0 && (
+                                                <div className="mt-4">
+                                                    <p className="text-xs text-yt-light-gray mb-1">区間をループ (説明欄のタイムスタンプ)</p>
+                                                    <div className="max-h-40 overflow-y-auto space-y-0.5">
+                                                        {descriptionTimestamps.map((timestamp, index) => {
+                                                            const isActive = loopRange?.a === timestamp.seconds && (descriptionTimestamps[index + 1] === undefined || loopRange?.b === descriptionTimestamps[index + 1].seconds);
+                                                            return (
+                                                                <button key={timestamp.seconds} onClick={() => loopSection(index)} className={`w-full flex items-center gap-2 px-2 py-1 rounded text-left text-xs ${isActive ? 'bg-yt-blue text-white' : 'hover:bg-yt-spec-light-10 dark:hover:bg-yt-spec-10'}`}>
+                                                                    <span className="font-mono flex-shrink-0">{formatDuration(timestamp.seconds)}</span>
+                                                                    <span className="truncate">{timestamp.label}</span>
+                                                                </button>
+                                                            );
+                                                        })}
+                                                    </div>
+                                                </div>
+                                            )}
+                                        </div>
                                     </div>
                                 )}
                             </div>
@@ -592,7 +921,7 @@ const VideoPlayerPage: React.FC = () => {
                     <div className={`mt-4 bg-yt-spec-light-10 dark:bg-yt-dark-gray p-3 rounded-xl text-sm cursor-pointer hover:bg-yt-spec-light-20 dark:hover:bg-yt-gray transition-colors ${isDescriptionExpanded ? '' : 'h-24 overflow-hidden relative'}`} onClick={() => setIsDescriptionExpanded(prev => !prev)}>
                         <div className="font-bold mb-2 text-black dark:text-white">{videoDetails.views}  •  {videoDetails.uploadedAt}</div>
                         <div className="whitespace-pre-wrap break-words text-black dark:text-white overflow-hidden">
-                            <div dangerouslySetInnerHTML={{ __html: videoDetails.description }} />
+                            <div onClick={handleDescriptionClick} dangerouslySetInnerHTML={{ __html: descriptionHtml }} />
                         </div>
                         {!isDescriptionExpanded && <div className="absolute bottom-0 left-0 right-0 h-12 bg-gradient-to-t from-yt-spec-light-10 dark:from-yt-dark-gray to-transparent flex items-end p-3 font-semibold">もっと見る</div>}
                         {isDescriptionExpanded && <div className="font-semibold mt-2">一部を表示</div>}
@@ -610,9 +939,10 @@ const VideoPlayerPage: React.FC = () => {
                                         </div>
                                     </div>
                                 </div>
+                                {!isCommentsLoading && comments.length > 0 && <CommentAnalyticsPanel comments={comments} onSeek={seekTo} />}
                                 {isCommentsLoading ? <div className="flex justify-center items-center py-8"><div className="animate-spin rounded-full h-8 w-8 border-t-2 border-b-2 border-yt-blue"></div></div> : comments.length > 0 ? (
                                     <div className="space-y-4">
-                                        {comments.map((comment, idx) => <CommentComponent key={`${comment.comment_id}-${idx}`} comment={comment} />)}
+                                        {comments.map((comment, idx) => <CommentComponent key={`${comment.comment_id}-${idx}`} comment={comment} videoId={videoId} creatorAvatarUrl={videoDetails.channel.avatarUrl} onSeek={seekTo} />)}
                                         {commentsContinuation && (
                                             <div ref={commentsLoaderRef} className="h-10 flex justify-center items-center">
                                                 {isFetchingMoreComments && <div className="animate-spin rounded-full h-6 w-6 border-t-2 border-b-2 border-yt-blue"></div>}
@@ -627,10 +957,11 @@ const VideoPlayerPage: React.FC = () => {
             </div>
             
             {isPlaylistModalOpen && <PlaylistModal isOpen={isPlaylistModalOpen} onClose={() => setIsPlaylistModalOpen(false)} video={videoForPlaylistModal} />}
-            <DownloadModal isOpen={isDownloadModalOpen} onClose={() => setIsDownloadModalOpen(false)} streamData={streamData} isLoading={isStreamDataLoading} onRetry={fetchStreamDataIfNeeded}/>
+            <DownloadModal isOpen={isDownloadModalOpen} onClose={() => setIsDownloadModalOpen(false)} streamData={streamData} isLoading={isStreamDataLoading} onRetry={fetchStreamDataIfNeeded} video={videoForPlaylistModal}/>
             
             {currentPlaylist && playlistVideos.length > 0 && (
                 <div className="w-full lg:w-[400px] xl:w-[450px] flex-shrink-0 mt-6 lg:mt-0">
+                    {sidePanels}
                     <PlaylistPanel
                         playlist={currentPlaylist}
                         videos={playlistVideos}
@@ -647,6 +978,24 @@ const VideoPlayerPage: React.FC = () => {
 
             {!currentPlaylist && (
                 <div className="w-full lg:w-[350px] xl:w-[400px] flex-shrink-0 mt-6 lg:mt-0">
+                    {sidePanels}
+                    {queue.length > 0 && (
+                        <PlaylistPanel
+                            playlist={queuePlaylist}
+                            videos={queue}
+                            currentVideoId={videoId || ''}
+                            onReorder={reorderQueue}
+                            onRemove={removeFromQueue}
+                            getWatchUrl={id => `/watch/${id}`}
+                            className="max-h-[60vh] mb-4"
+                            actions={
+                                <>
+                                    <button onClick={handleSaveQueue} className="px-3 py-1.5 text-sm font-semibold rounded-full hover:bg-yt-spec-light-20 dark:hover:bg-yt-spec-20">プレイリストとして保存</button>
+                                    <button onClick={handleClearQueue} className="px-3 py-1.5 text-sm font-semibold rounded-full hover:bg-yt-spec-light-20 dark:hover:bg-yt-spec-20">クリア</button>
+                                </>
+                            }
+                        />
+                    )}
                     <div className="flex flex-col space-y-3">
                         {relatedVideos.map((video, index) => (
                             <RelatedVideoCard key={`${video.id}-${index}`} video={video} />
@@ -16,6 +16,13 @@ export interface Video {
   isLive?: boolean;
 }
 
+export interface WatchProgress {
+  position: number;   // Seconds
+  duration: number;   // Seconds
+  percent: number;    // 0..100
+  updatedAt: number;
+}
+
 export interface ChannelBadge {
     type: string;
     tooltip: string;
@@ -31,6 +38,8 @@ export interface Channel {
 
 export interface VideoDetails extends Video {
   description: string;
+  // 'text' descriptions are plain text and must be escaped before they are rendered as HTML
+  descriptionFormat?: 'html' | 'text';
   likes: string;
   dislikes: string;
   commentCount?: string; // コメント総数を追加
@@ -105,6 +114,9 @@ export interface Comment {
   like_count: string;
   reply_count: string;
   is_pinned: boolean;
+  is_hearted?: boolean;         // Liked by the uploader
+  is_creator?: boolean;         // Written by the uploader
+  reply_continuation?: string;  // Token for the first page of replies
 }
 
 export interface CommentResponse {
@@ -112,6 +124,37 @@ export interface CommentResponse {
     continuation?: string;
 }
 
+// A piece of a chat message: plain text, or an emoji (custom emoji only have an image)
+export type LiveChatRun = { text: string } | { emoji: string; imageUrl?: string };
+
+export interface LiveChatMessage {
+    id: string;
+    kind: 'text' | 'superchat' | 'supersticker' | 'membership';
+    author: {
+        id: string;
+        name: string;
+        thumbnailUrl: string;
+        isOwner?: boolean;
+        isModerator?: boolean;
+        isVerified?: boolean;
+        memberBadgeUrl?: string;
+    };
+    runs: LiveChatRun[];
+    timestampMs: number;
+    offsetMs?: number;          // Replay only: position in the video
+    amount?: string;            // Super Chat / Super Sticker, e.g. "¥500"
+    headerColor?: string;       // CSS colors of the Super Chat tier
+    bodyColor?: string;
+    headerText?: string;        // Membership milestone or gift text
+    stickerUrl?: string;
+}
+
+export interface LiveChatResponse {
+    messages: LiveChatMessage[];
+    continuation?: string;
+    pollIntervalMs?: number;    // Live only: how long the server asks to wait before the next poll
+}
+
 export interface CommunityPostAttachment {
     type: 'BackstageImage' | 'PostMultiImage' | 'Video' | 'Poll' | 'SharedPost';
     images?: string[]; // For BackstageImage and PostMultiImage
@@ -171,11 +214,35 @@ export interface ChannelHomeData {
     playlists: HomePlaylist[];
 }
 
+export interface ByteRange {
+    start: number;
+    end: number;
+}
+
 export interface StreamFormat {
     quality: string;
     container: string;
     url: string;
     isVideoOnly?: boolean;
+    isAudioOnly?: boolean;
+    // Adaptive (DASH) formats only: what the MSE player needs to fetch and append segments
+    mimeType?: string;       // Including codecs, e.g. 'video/mp4; codecs="avc1.640028"'
+    bitrate?: number;
+    width?: number;
+    height?: number;
+    fps?: number;
+    initRange?: ByteRange;
+    indexRange?: ByteRange;
+    contentLength?: number;
+}
+
+export interface CaptionTrack {
+    languageCode: string;
+    label: string;
+    url: string;
+    // What the URL returns; YouTube's own timedtext comes as SRV3, Piped may send TTML
+    format: 'vtt' | 'srv3' | 'ttml';
+    isAutoGenerated?: boolean;
 }
 
 export interface StreamData {
@@ -187,4 +254,7 @@ export interface StreamData {
         video: StreamFormat;
         audio: StreamFormat | null;
     } | null;
+    adaptiveFormats?: StreamFormat[];   // Video-only and audio-only formats for the adaptive player
+    durationSeconds?: number;
+    captions?: CaptionTrack[];
 }
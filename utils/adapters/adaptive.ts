@@ -0,0 +1,58 @@
+import type { ByteRange, StreamFormat } from '../../types';
+
+// Helpers shared by the adapters for video-only / audio-only (DASH) formats.
+
+const toNumber = (value: any): number | undefined => {
+    const n = typeof value === 'string' ? parseInt(value, 10) : value;
+    return typeof n === 'number' && isFinite(n) ? n : undefined;
+};
+
+export const toRange = (start: any, end: any): ByteRange | undefined => {
+    const s = toNumber(start);
+    const e = toNumber(end);
+    return s !== undefined && e !== undefined && e >= s ? { start: s, end: e } : undefined;
+};
+
+// '0-740' -> { start: 0, end: 740 }
+export const parseRange = (text: any): ByteRange | undefined => {
+    if (typeof text !== 'string') return undefined;
+    const [start, end] = text.split('-');
+    return toRange(start, end);
+};
+
+export const adaptiveFormat = (fields: {
+    url: string; mimeType: string; bitrate?: any; width?: any; height?: any; fps?: any;
+    quality?: string; initRange?: ByteRange; indexRange?: ByteRange; contentLength?: any;
+}): StreamFormat => {
+    const isAudioOnly = fields.mimeType.startsWith('audio/');
+    const height = toNumber(fields.height);
+    const bitrate = toNumber(fields.bitrate);
+    return {
+        quality: fields.quality || (isAudioOnly ? (bitrate ? `${Math.round(bitrate / 1000)}kbps` : 'audio') : height ? `${height}p` : ''),
+        container: fields.mimeType.split(';')[0].split('/')[1] || '',
+        url: fields.url,
+        isVideoOnly: !isAudioOnly,
+        isAudioOnly,
+        mimeType: fields.mimeType,
+        bitrate,
+        width: toNumber(fields.width),
+        height,
+        fps: toNumber(fields.fps),
+        initRange: fields.initRange,
+        indexRange: fields.indexRange,
+        contentLength: toNumber(fields.contentLength),
+    };
+};
+
+const isMp4 = (f: StreamFormat) => (f.mimeType || '').includes('/mp4');
+
+export const bestAudioFormat = (formats: StreamFormat[]): StreamFormat | null =>
+    formats.filter(f => f.isAudioOnly && isMp4(f)).sort((a, b) => (b.bitrate || 0) - (a.bitrate || 0))[0] || null;
+
+// The highest mp4 video up to 1080p plus the best mp4 audio, for the download links.
+export const pickSeparate1080p = (formats: StreamFormat[]): { video: StreamFormat; audio: StreamFormat | null } | null => {
+    const video = formats
+        .filter(f => f.isVideoOnly && isMp4(f) && (f.height || 0) <= 1080)
+        .sort((a, b) => (b.height || 0) - (a.height || 0) || (b.bitrate || 0) - (a.bitrate || 0))[0];
+    return video ? { video, audio: bestAudioFormat(formats) } : null;
+};
@@ -0,0 +1,37 @@
+import type { BackendAdapter, BackendDialect } from './types';
+import { youtubeiAdapter } from './youtubei';
+import { invidiousAdapter } from './invidious';
+import { pipedAdapter } from './piped';
+
+export type { BackendAdapter, BackendDialect, JsonFetcher, SearchParams, CommentParams, ReplyParams } from './types';
+export { mapLockupViewToVideo, mapYoutubeiVideoToVideo, mapVideoDetails, CHANNEL_RESPONSE_SHAPE } from './youtubei';
+
+export const ADAPTERS: Record<BackendDialect, BackendAdapter> = {
+    youtubei: youtubeiAdapter,
+    invidious: invidiousAdapter,
+    piped: pipedAdapter,
+};
+
+export const DIALECT_LABELS: Record<BackendDialect, string> = {
+    youtubei: 'XeroxYT API',
+    invidious: 'Invidious',
+    piped: 'Piped',
+};
+
+// --- Page tokens ---
+// Search pages and comment continuations only make sense to the backend family
+// that issued them, so tokens handed to the UI carry their dialect and the next
+// request is pinned to mirrors of that dialect.
+
+const TOKEN_PATTERN = /^(youtubei|invidious|piped):([\s\S]*)$/;
+
+export const encodeToken = (dialect: BackendDialect, token: string | undefined): string | undefined =>
+    token ? `${dialect}:${token}` : undefined;
+
+// Unprefixed tokens are either the first page ('1') or come from before adapters existed (youtubei).
+export const decodeToken = (raw: string | undefined): { dialect: BackendDialect | null; token: string | null } => {
+    if (!raw || raw === '1') return { dialect: null, token: null };
+    const match = raw.match(TOKEN_PATTERN);
+    if (match) return { dialect: match[1] as BackendDialect, token: match[2] };
+    return { dialect: 'youtubei', token: raw };
+};
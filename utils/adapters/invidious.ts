@@ -0,0 +1,192 @@
+import type { Video, VideoDetails, Channel, ApiPlaylist, Comment, StreamData, StreamFormat, CaptionTrack } from '../../types';
+import { formatJapaneseNumber, formatDuration } from '../format';
+import { defineShape, field, optionalField, validateShape, recordValidation, unwrap, mapList, type Mapped } from '../schema';
+import type { BackendAdapter } from './types';
+import { adaptiveFormat, parseRange, bestAudioFormat, pickSeparate1080p } from './adaptive';
+
+// --- Invidious dialect ---
+// Invidious instances expose a flat JSON API under /api/v1. Search is paged by
+// page number, and one /videos/:id call returns details, formats and related
+// videos together.
+
+const INVIDIOUS_VIDEO_SHAPE = defineShape('InvidiousVideo', {
+    id: field('string', 'videoId'),
+    title: field('string', 'title'),
+    channelName: field('string', 'author'),
+    channelId: field('string', 'authorId'),
+    lengthSeconds: field('number', 'lengthSeconds'),
+    viewCount: optionalField('number', 'viewCount'),
+    published: optionalField('string', 'publishedText'),
+});
+
+const INVIDIOUS_DETAILS_SHAPE = defineShape('InvidiousVideoDetails', {
+    title: field('string', 'title'),
+    channelName: field('string', 'author'),
+    channelId: field('string', 'authorId'),
+    viewCount: field('number', 'viewCount'),
+    description: optionalField('string', 'description'),
+    likes: optionalField('number', 'likeCount'),
+    related: field('array', 'recommendedVideos'),
+});
+
+const INVIDIOUS_STREAM_SHAPE = defineShape('InvidiousStreams', {
+    formatStreams: field('array', 'formatStreams'),
+    adaptiveFormats: field('array', 'adaptiveFormats'),
+    hlsUrl: optionalField('string', 'hlsUrl'),
+});
+
+const INVIDIOUS_COMMENTS_SHAPE = defineShape('InvidiousComments', {
+    comments: field('array', 'comments'),
+    continuation: optionalField('string', 'continuation'),
+});
+
+// Invidious returns protocol-relative and instance-relative image URLs.
+const absoluteUrl = (url: string | undefined) => (url?.startsWith('//') ? `https:${url}` : url || '');
+
+const pickThumbnail = (thumbnails: any) =>
+    Array.isArray(thumbnails) && thumbnails.length > 0 ? absoluteUrl(thumbnails[thumbnails.length - 1].url) : '';
+
+const mapInvidiousVideo = (item: any): Mapped<Video | null> => {
+    if (!item || (item.type && item.type !== 'video' && item.type !== 'shortVideo')) return { value: null, warnings: [] };
+    const warnings = validateShape(INVIDIOUS_VIDEO_SHAPE, item);
+    if (!item.videoId) return { value: null, warnings };
+    const seconds = item.lengthSeconds ?? 0;
+    return {
+        value: {
+            id: item.videoId, thumbnailUrl: `https://i.ytimg.com/vi/${item.videoId}/hqdefault.jpg`,
+            duration: seconds > 0 ? formatDuration(seconds) : '', isoDuration: `PT${seconds}S`,
+            title: item.title || '無題', channelName: item.author || '不明', channelId: item.authorId || '',
+            channelAvatarUrl: pickThumbnail(item.authorThumbnails),
+            views: formatJapaneseNumber(item.viewCount ?? item.viewCountText ?? '') + '回視聴',
+            uploadedAt: item.publishedText || '', descriptionSnippet: item.description, isLive: !!item.liveNow
+        },
+        warnings
+    };
+};
+
+const mapInvidiousChannel = (item: any): Channel => ({
+    id: item.authorId, name: item.author, avatarUrl: pickThumbnail(item.authorThumbnails),
+    subscriberCount: formatJapaneseNumber(item.subCount ?? '')
+});
+
+const mapInvidiousPlaylist = (item: any): ApiPlaylist => ({
+    id: item.playlistId, title: item.title, thumbnailUrl: absoluteUrl(item.playlistThumbnail),
+    videoCount: item.videoCount ?? 0, author: item.author, authorId: item.authorId
+});
+
+const mapInvidiousComment = (item: any): Comment => ({
+    comment_id: item.commentId, text: item.content || '', published_time: item.publishedText || '',
+    author: { id: item.authorId || '', name: item.author || '', thumbnails: (item.authorThumbnails || []).map((t: any) => ({ url: absoluteUrl(t.url) })) },
+    like_count: formatJapaneseNumber(item.likeCount ?? 0), reply_count: String(item.replies?.replyCount ?? 0), is_pinned: !!item.isPinned,
+    is_hearted: !!item.creatorHeart, is_creator: !!item.authorIsChannelOwner, reply_continuation: item.replies?.continuation || undefined
+});
+
+const mapInvidiousDetails = (videoId: string, data: any): Mapped<VideoDetails> => {
+    const channel: Channel = {
+        id: data.authorId || '', name: data.author || '', avatarUrl: pickThumbnail(data.authorThumbnails),
+        subscriberCount: formatJapaneseNumber(data.subCountText || '')
+    };
+    const value: VideoDetails = {
+        id: videoId, title: data.title || 'No Title', thumbnailUrl: `https://i.ytimg.com/vi/${videoId}/hqdefault.jpg`,
+        duration: data.lengthSeconds ? formatDuration(data.lengthSeconds) : '', isoDuration: `PT${data.lengthSeconds ?? 0}S`,
+        channelName: channel.name || 'Unknown', channelId: channel.id, channelAvatarUrl: channel.avatarUrl,
+        views: formatJapaneseNumber(data.viewCount ?? ''), uploadedAt: data.publishedText || '', description: data.description || '', descriptionFormat: 'text',
+        likes: formatJapaneseNumber(data.likeCount ?? ''), dislikes: String(data.dislikeCount ?? 0),
+        channel, relatedVideos: mapList('invidious.video.related', data.recommendedVideos, mapInvidiousVideo), isLive: !!data.liveNow
+    };
+    return { value, warnings: validateShape(INVIDIOUS_DETAILS_SHAPE, data) };
+};
+
+const toFormat = (f: any, isVideoOnly = false): StreamFormat => ({
+    quality: f.qualityLabel || f.quality || (f.bitrate ? `${Math.round(Number(f.bitrate) / 1000)}kbps` : ''),
+    container: f.container || (f.type || '').split(';')[0].split('/')[1] || '',
+    url: f.url, isVideoOnly
+});
+
+const toAdaptiveFormat = (f: any): StreamFormat => {
+    const [width, height] = typeof f.size === 'string' ? f.size.split('x') : [];
+    return adaptiveFormat({
+        url: f.url, mimeType: f.type, bitrate: f.bitrate, width, height: height ?? parseInt(f.resolution || '', 10), fps: f.fps,
+        quality: f.qualityLabel, initRange: parseRange(f.init), indexRange: parseRange(f.index), contentLength: f.clen
+    });
+};
+
+// Caption URLs are relative to the instance and return WebVTT
+const mapInvidiousCaptions = (data: any, baseUrl = ''): CaptionTrack[] => (Array.isArray(data.captions) ? data.captions : [])
+    .filter((c: any) => typeof c.url === 'string' && c.languageCode)
+    .map((c: any) => ({
+        languageCode: c.languageCode,
+        label: c.label || c.languageCode,
+        url: c.url.startsWith('/') ? `${baseUrl}${c.url}` : c.url,
+        format: 'vtt',
+        isAutoGenerated: /auto-generated|自動生成/i.test(c.label || '')
+    }));
+
+const mapInvidiousStreams = (data: any, baseUrl?: string): StreamData => {
+    const combined = (Array.isArray(data.formatStreams) ? data.formatStreams : []).filter((f: any) => f.url);
+    const adaptiveFormats: StreamFormat[] = (Array.isArray(data.adaptiveFormats) ? data.adaptiveFormats : [])
+        .filter((f: any) => f.url && typeof f.type === 'string')
+        .map(toAdaptiveFormat);
+    const combinedFormats: StreamFormat[] = combined.map((f: any) => toFormat(f));
+    return {
+        streamingUrl: data.hlsUrl || combinedFormats[combinedFormats.length - 1]?.url || null,
+        streamType: data.hlsUrl ? 'hls' : 'mp4',
+        combinedFormats,
+        audioOnlyFormat: bestAudioFormat(adaptiveFormats),
+        separate1080p: pickSeparate1080p(adaptiveFormats),
+        adaptiveFormats,
+        durationSeconds: typeof data.lengthSeconds === 'number' ? data.lengthSeconds : undefined,
+        captions: mapInvidiousCaptions(data, baseUrl)
+    };
+};
+
+export const invidiousAdapter: BackendAdapter = {
+    dialect: 'invidious',
+    probePath: 'api/v1/stats',
+
+    async getVideoDetails(fetchJson, videoId) {
+        const data = await fetchJson(`api/v1/videos/${videoId}`);
+        return unwrap('invidious.video', mapInvidiousDetails(videoId, data), videoId);
+    },
+
+    async search(fetchJson, { query, page, sortBy }) {
+        const pageNumber = parseInt(page || '1') || 1;
+        const params = new URLSearchParams({ q: query, page: String(pageNumber), type: 'all' });
+        if (sortBy) params.set('sort', sortBy);
+        const data = await fetchJson(`api/v1/search?${params.toString()}`);
+        const items = Array.isArray(data) ? data : [];
+        return {
+            videos: mapList('invidious.search', items.filter((i: any) => i.type === 'video'), mapInvidiousVideo),
+            shorts: [],
+            channels: items.filter((i: any) => i.type === 'channel' && i.authorId).map(mapInvidiousChannel),
+            playlists: items.filter((i: any) => i.type === 'playlist' && i.playlistId).map(mapInvidiousPlaylist),
+            nextPageToken: items.length > 0 ? String(pageNumber + 1) : undefined
+        };
+    },
+
+    async getComments(fetchJson, { videoId, sortBy, continuation }) {
+        const params = new URLSearchParams({ sort_by: sortBy === 'newest' ? 'new' : 'top' });
+        if (continuation) params.set('continuation', continuation);
+        const data = await fetchJson(`api/v1/comments/${videoId}?${params.toString()}`);
+        recordValidation('invidious.comments', validateShape(INVIDIOUS_COMMENTS_SHAPE, data), videoId);
+        return { comments: (Array.isArray(data.comments) ? data.comments : []).map(mapInvidiousComment), continuation: data.continuation };
+    },
+
+    // Reply pages come from the same endpoint, keyed only by the continuation.
+    async getCommentReplies(fetchJson, { videoId, continuation }) {
+        const data = await fetchJson(`api/v1/comments/${videoId}?${new URLSearchParams({ continuation }).toString()}`);
+        recordValidation('invidious.replies', validateShape(INVIDIOUS_COMMENTS_SHAPE, data), videoId);
+        return { comments: (Array.isArray(data.comments) ? data.comments : []).map(mapInvidiousComment), continuation: data.continuation };
+    },
+
+    async getStreamData(fetchJson, videoId) {
+        const data = await fetchJson(`api/v1/videos/${videoId}`);
+        recordValidation('invidious.stream', validateShape(INVIDIOUS_STREAM_SHAPE, data), videoId);
+        return mapInvidiousStreams(data, fetchJson.baseUrl);
+    },
+
+    async getSuggestions(fetchJson, query) {
+        const data = await fetchJson(`api/v1/search/suggestions?q=${encodeURIComponent(query)}`);
+        return Array.isArray(data.suggestions) ? data.suggestions : [];
+    },
+};
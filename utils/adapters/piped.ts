@@ -0,0 +1,189 @@
+import type { Video, VideoDetails, Channel, ApiPlaylist, Comment, StreamData, StreamFormat, CaptionTrack } from '../../types';
+import { formatJapaneseNumber, formatDuration } from '../format';
+import { defineShape, field, optionalField, validateShape, recordValidation, unwrap, mapList, type Mapped } from '../schema';
+import type { BackendAdapter } from './types';
+import { adaptiveFormat, toRange, bestAudioFormat, pickSeparate1080p } from './adaptive';
+
+// --- Piped dialect ---
+// Piped API servers page with opaque `nextpage` tokens that are sent to a
+// separate /nextpage/* route, and identify items by their watch/channel URL
+// instead of an id field. /streams/:id returns details and formats together.
+
+const PIPED_ITEM_SHAPE = defineShape('PipedStreamItem', {
+    url: field('string', 'url'),
+    title: field('string', 'title'),
+    channelName: field('string', 'uploaderName'),
+    channelUrl: field('string', 'uploaderUrl'),
+    duration: field('number', 'duration'),
+    views: optionalField('number', 'views'),
+    uploaded: optionalField('string', 'uploadedDate'),
+});
+
+const PIPED_STREAMS_SHAPE = defineShape('PipedStreams', {
+    title: field('string', 'title'),
+    channelName: field('string', 'uploader'),
+    channelUrl: field('string', 'uploaderUrl'),
+    views: field('number', 'views'),
+    videoStreams: field('array', 'videoStreams'),
+    audioStreams: field('array', 'audioStreams'),
+    hls: optionalField('string', 'hls'),
+    related: field('array', 'relatedStreams'),
+});
+
+const PIPED_COMMENTS_SHAPE = defineShape('PipedComments', {
+    comments: field('array', 'comments'),
+    nextpage: optionalField('string', 'nextpage'),
+});
+
+// '/watch?v=ID', '/channel/ID', '/playlist?list=ID' -> 'ID'
+const idFromUrl = (url: string | undefined): string => {
+    if (!url) return '';
+    const query = url.split('?')[1];
+    if (query) return new URLSearchParams(query).get('v') || new URLSearchParams(query).get('list') || '';
+    return url.split('/').pop() || '';
+};
+
+// Descriptions and comments come as HTML.
+const htmlToText = (html: string | undefined) =>
+    (html || '').replace(/<br\s*\/?>/gi, '\n').replace(/<[^>]+>/g, '')
+        .replace(/&amp;/g, '&').replace(/&lt;/g, '<').replace(/&gt;/g, '>').replace(/&quot;/g, '"').replace(/&#39;/g, "'");
+
+const mapPipedItem = (item: any): Mapped<Video | null> => {
+    if (!item || (item.type && item.type !== 'stream')) return { value: null, warnings: [] };
+    const warnings = validateShape(PIPED_ITEM_SHAPE, item);
+    const videoId = idFromUrl(item.url);
+    if (!videoId) return { value: null, warnings };
+    const seconds = item.duration > 0 ? item.duration : 0;
+    return {
+        value: {
+            id: videoId, thumbnailUrl: `https://i.ytimg.com/vi/${videoId}/hqdefault.jpg`,
+            duration: seconds > 0 ? formatDuration(seconds) : '', isoDuration: `PT${seconds}S`,
+            title: item.title || '無題', channelName: item.uploaderName || '不明', channelId: idFromUrl(item.uploaderUrl),
+            channelAvatarUrl: item.uploaderAvatar || '',
+            views: formatJapaneseNumber(item.views ?? '') + '回視聴',
+            uploadedAt: item.uploadedDate || '', descriptionSnippet: item.shortDescription, isLive: item.duration === -1
+        },
+        warnings
+    };
+};
+
+const mapPipedChannel = (item: any): Channel => ({
+    id: idFromUrl(item.url), name: item.name, avatarUrl: item.thumbnail || '',
+    subscriberCount: item.subscribers > 0 ? formatJapaneseNumber(item.subscribers) : ''
+});
+
+const mapPipedPlaylist = (item: any): ApiPlaylist => ({
+    id: idFromUrl(item.url), title: item.name, thumbnailUrl: item.thumbnail,
+    videoCount: item.videos > 0 ? item.videos : 0, author: item.uploaderName, authorId: idFromUrl(item.uploaderUrl)
+});
+
+const mapPipedComment = (item: any): Comment => ({
+    comment_id: item.commentId, text: htmlToText(item.commentText), published_time: item.commentedTime || '',
+    author: { id: idFromUrl(item.commentorUrl), name: item.author || '', thumbnails: item.thumbnail ? [{ url: item.thumbnail }] : [] },
+    like_count: formatJapaneseNumber(item.likeCount > 0 ? item.likeCount : 0), reply_count: String(item.replyCount > 0 ? item.replyCount : 0), is_pinned: !!item.pinned,
+    is_hearted: !!item.hearted, is_creator: !!item.channelOwner, reply_continuation: item.repliesPage || undefined
+});
+
+const mapPipedDetails = (videoId: string, data: any): Mapped<VideoDetails> => {
+    const channel: Channel = {
+        id: idFromUrl(data.uploaderUrl), name: data.uploader || '', avatarUrl: data.uploaderAvatar || '',
+        subscriberCount: data.uploaderSubscriberCount > 0 ? formatJapaneseNumber(data.uploaderSubscriberCount) : ''
+    };
+    const value: VideoDetails = {
+        id: videoId, title: data.title || 'No Title', thumbnailUrl: `https://i.ytimg.com/vi/${videoId}/hqdefault.jpg`,
+        duration: data.duration > 0 ? formatDuration(data.duration) : '', isoDuration: `PT${data.duration > 0 ? data.duration : 0}S`,
+        channelName: channel.name || 'Unknown', channelId: channel.id, channelAvatarUrl: channel.avatarUrl,
+        views: formatJapaneseNumber(data.views ?? ''), uploadedAt: data.uploadDate || '', description: htmlToText(data.description), descriptionFormat: 'text',
+        likes: formatJapaneseNumber(data.likes > 0 ? data.likes : ''), dislikes: String(data.dislikes > 0 ? data.dislikes : 0),
+        channel, relatedVideos: mapList('piped.video.related', data.relatedStreams, mapPipedItem), isLive: !!data.livestream
+    };
+    return { value, warnings: validateShape(PIPED_STREAMS_SHAPE, data) };
+};
+
+const toFormat = (f: any, isVideoOnly = false): StreamFormat => ({
+    quality: f.quality || '', container: (f.mimeType || '').split('/')[1] || (f.format || '').toLowerCase(), url: f.url, isVideoOnly
+});
+
+// Piped sends the codec separately from a bare mimeType.
+const toAdaptiveFormat = (f: any): StreamFormat => adaptiveFormat({
+    url: f.url, mimeType: f.codec ? `${f.mimeType}; codecs="${f.codec}"` : f.mimeType, bitrate: f.bitrate, width: f.width, height: f.height,
+    fps: f.fps, quality: f.quality, initRange: toRange(f.initStart, f.initEnd), indexRange: toRange(f.indexStart, f.indexEnd), contentLength: f.contentLength
+});
+
+const toCaptionFormat = (mimeType: any): CaptionTrack['format'] | null =>
+    mimeType === 'text/vtt' ? 'vtt' : typeof mimeType === 'string' && mimeType.includes('ttml') ? 'ttml' : null;
+
+const mapPipedCaptions = (data: any): CaptionTrack[] => (Array.isArray(data.subtitles) ? data.subtitles : [])
+    .filter((c: any) => typeof c.url === 'string' && c.code && toCaptionFormat(c.mimeType))
+    .map((c: any) => ({ languageCode: c.code, label: c.name || c.code, url: c.url, format: toCaptionFormat(c.mimeType)!, isAutoGenerated: !!c.autoGenerated }));
+
+const mapPipedStreams = (data: any): StreamData => {
+    const videoStreams = (Array.isArray(data.videoStreams) ? data.videoStreams : []).filter((f: any) => f.url);
+    const audioStreams = (Array.isArray(data.audioStreams) ? data.audioStreams : []).filter((f: any) => f.url);
+    const adaptiveFormats: StreamFormat[] = [...videoStreams.filter((f: any) => f.videoOnly), ...audioStreams]
+        .filter((f: any) => typeof f.mimeType === 'string')
+        .map(toAdaptiveFormat);
+    const combinedFormats: StreamFormat[] = videoStreams.filter((f: any) => !f.videoOnly).map((f: any) => toFormat(f));
+    return {
+        streamingUrl: data.hls || combinedFormats[0]?.url || null,
+        streamType: data.hls ? 'hls' : 'mp4',
+        combinedFormats,
+        audioOnlyFormat: bestAudioFormat(adaptiveFormats),
+        separate1080p: pickSeparate1080p(adaptiveFormats),
+        adaptiveFormats,
+        durationSeconds: typeof data.duration === 'number' ? data.duration : undefined,
+        captions: mapPipedCaptions(data)
+    };
+};
+
+export const pipedAdapter: BackendAdapter = {
+    dialect: 'piped',
+    probePath: 'healthcheck',
+
+    async getVideoDetails(fetchJson, videoId) {
+        const data = await fetchJson(`streams/${videoId}`);
+        return unwrap('piped.video', mapPipedDetails(videoId, data), videoId);
+    },
+
+    // Piped has no sort options; results always come in relevance order.
+    async search(fetchJson, { query, page }) {
+        const params = new URLSearchParams({ q: query, filter: 'all' });
+        if (page) params.set('nextpage', page);
+        const data = await fetchJson(`${page ? 'nextpage/search' : 'search'}?${params.toString()}`);
+        const items = Array.isArray(data.items) ? data.items : [];
+        return {
+            videos: mapList('piped.search', items.filter((i: any) => i.type === 'stream' && !i.isShort), mapPipedItem),
+            shorts: mapList('piped.search', items.filter((i: any) => i.type === 'stream' && i.isShort), mapPipedItem),
+            channels: items.filter((i: any) => i.type === 'channel').map(mapPipedChannel).filter((c: Channel) => !!c.id),
+            playlists: items.filter((i: any) => i.type === 'playlist').map(mapPipedPlaylist).filter((p: ApiPlaylist) => !!p.id),
+            nextPageToken: data.nextpage || undefined
+        };
+    },
+
+    // Comment order is fixed by the server, so sortBy is not forwarded.
+    async getComments(fetchJson, { videoId, continuation }) {
+        const data = await fetchJson(continuation
+            ? `nextpage/comments/${videoId}?nextpage=${encodeURIComponent(continuation)}`
+            : `comments/${videoId}`);
+        recordValidation('piped.comments', validateShape(PIPED_COMMENTS_SHAPE, data), videoId);
+        return { comments: (Array.isArray(data.comments) ? data.comments : []).map(mapPipedComment), continuation: data.nextpage || undefined };
+    },
+
+    // A comment's repliesPage is just another nextpage token for the comments endpoint.
+    async getCommentReplies(fetchJson, { videoId, continuation }) {
+        const data = await fetchJson(`nextpage/comments/${videoId}?nextpage=${encodeURIComponent(continuation)}`);
+        recordValidation('piped.replies', validateShape(PIPED_COMMENTS_SHAPE, data), videoId);
+        return { comments: (Array.isArray(data.comments) ? data.comments : []).map(mapPipedComment), continuation: data.nextpage || undefined };
+    },
+
+    async getStreamData(fetchJson, videoId) {
+        const data = await fetchJson(`streams/${videoId}`);
+        recordValidation('piped.stream', validateShape(PIPED_STREAMS_SHAPE, data), videoId);
+        return mapPipedStreams(data);
+    },
+
+    async getSuggestions(fetchJson, query) {
+        const data = await fetchJson(`suggestions?query=${encodeURIComponent(query)}`);
+        return Array.isArray(data) ? data : [];
+    },
+};
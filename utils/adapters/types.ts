@@ -0,0 +1,41 @@
+import type { VideoDetails, SearchResults, CommentResponse, StreamData } from '../../types';
+
+// --- Backend Adapters ---
+// Each backend family ("dialect") speaks its own JSON format. An adapter knows
+// the paths of one dialect and maps its responses to the app's own types, so
+// utils/api.ts can fall back from one family to another transparently.
+
+export type BackendDialect = 'youtubei' | 'invidious' | 'piped';
+
+// Fetches `${baseUrl}/${path}` and returns the parsed JSON; bound to one mirror by utils/api.ts.
+// `baseUrl` lets adapters turn the mirror's relative links (Invidious captions) into absolute ones.
+export type JsonFetcher = ((path: string) => Promise<any>) & { baseUrl?: string };
+
+export interface SearchParams {
+    query: string;
+    page: string | null;      // Dialect-specific page token, null for the first page
+    sortBy?: string;          // 'upload_date' | 'view_count' | 'rating'
+}
+
+export interface CommentParams {
+    videoId: string;
+    sortBy: 'top' | 'newest';
+    continuation: string | null;
+}
+
+export interface ReplyParams {
+    videoId: string;
+    continuation: string;     // A comment's reply_continuation, or the previous reply page's token
+}
+
+export interface BackendAdapter {
+    dialect: BackendDialect;
+    // Cheap endpoint used by the mirror health probes
+    probePath: string;
+    getVideoDetails(fetchJson: JsonFetcher, videoId: string): Promise<VideoDetails>;
+    search(fetchJson: JsonFetcher, params: SearchParams): Promise<SearchResults>;
+    getComments(fetchJson: JsonFetcher, params: CommentParams): Promise<CommentResponse>;
+    getCommentReplies(fetchJson: JsonFetcher, params: ReplyParams): Promise<CommentResponse>;
+    getStreamData(fetchJson: JsonFetcher, videoId: string): Promise<StreamData>;
+    getSuggestions(fetchJson: JsonFetcher, query: string): Promise<string[]>;
+}
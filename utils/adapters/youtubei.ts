@@ -0,0 +1,274 @@
+import type { Video, VideoDetails, Channel, Comment, StreamData, StreamFormat, CaptionTrack } from '../../types';
+import { formatJapaneseNumber, formatJapaneseDate } from '../format';
+import { defineShape, field, optionalField, validateShape, recordValidation, unwrap, mapList, type Mapped } from '../schema';
+import { ParseError, classifyPlayability } from '../errors';
+import type { BackendAdapter } from './types';
+import { adaptiveFormat, toRange, bestAudioFormat, pickSeparate1080p } from './adaptive';
+
+// --- youtubei dialect ---
+// The xeroxyt-nt-apiv1 servers return youtubei.js objects under /api/* plus a
+// pre-resolved /stream endpoint. This is the primary backend family; channel,
+// playlist and community endpoints exist only here.
+
+// The parts of each youtubei.js payload the mappers depend on (see utils/schema).
+const LOCKUP_VIEW_SHAPE = defineShape('LockupView', {
+    id: field('string', 'content_id'),
+    title: field('string', 'metadata.title.text'),
+    metadataRows: field('array', 'metadata.metadata.metadata_rows'),
+    channelName: field('string', 'metadata.metadata.metadata_rows[0].metadata_parts[0].text.text'),
+    channelId: field('string', 'metadata.image.renderer_context.command_context.on_tap.payload.browseId'),
+    thumbnail: optionalField('array', 'content_image.image'),
+});
+
+const YOUTUBEI_VIDEO_SHAPE = defineShape('Video', {
+    id: field('string', 'id', 'videoId', 'video_id'),
+    title: field('string', 'title.text', 'title.simpleText'),
+    thumbnails: field('array', 'thumbnails', 'thumbnail'),
+    channelName: field('string', 'author.name', 'channel.name'),
+    channelId: field('string', 'author.id', 'channel.id'),
+    views: field('string', 'view_count.text', 'short_view_count.text', 'views.text'),
+    duration: optionalField('string', 'duration.text', 'length.simpleText'),
+    published: optionalField('string', 'published.text'),
+});
+
+const VIDEO_DETAILS_SHAPE = defineShape('VideoInfo', {
+    title: field('string', 'primary_info.title.text'),
+    views: field('string', 'primary_info.view_count.view_count.text'),
+    uploadedAt: field('string', 'primary_info.relative_date.text'),
+    owner: field('object', 'secondary_info.owner.author'),
+    channelName: field('string', 'secondary_info.owner.author.name'),
+    channelId: field('string', 'secondary_info.owner.author.id'),
+    channelAvatar: field('array', 'secondary_info.owner.author.thumbnails'),
+    subscriberCount: optionalField('string', 'secondary_info.owner.subscriber_count.text'),
+    description: optionalField('string', 'secondary_info.description.text'),
+    likes: optionalField('number', 'basic_info.like_count'),
+    relatedFeed: field('array', 'watch_next_feed'),
+});
+
+const SEARCH_RESPONSE_SHAPE = defineShape('SearchResponse', {
+    videos: field('array', 'videos'),
+    shorts: optionalField('array', 'shorts'),
+    channels: optionalField('array', 'channels'),
+    playlists: optionalField('array', 'playlists'),
+});
+
+const COMMENTS_RESPONSE_SHAPE = defineShape('CommentsResponse', {
+    comments: field('array', 'comments'),
+    continuation: optionalField('string', 'continuation'),
+});
+
+// Comments already arrive in the app's shape; only the badge and thread fields
+// vary between server versions, so they are read from the names seen so far.
+const mapYoutubeiComment = (item: any): Comment => ({
+    ...item,
+    is_hearted: !!(item.is_hearted ?? item.creator_heart ?? item.action_engagement_panel?.creator_heart?.is_hearted),
+    is_creator: !!(item.is_creator ?? item.author_is_channel_owner ?? item.author?.is_channel_owner),
+    reply_continuation: item.reply_continuation || item.replies_continuation || undefined,
+});
+
+export const CHANNEL_RESPONSE_SHAPE = defineShape('ChannelResponse', {
+    channel: field('object', 'channel'),
+    name: field('string', 'channel.name'),
+    avatar: field('present', 'channel.avatar'),
+    subscriberCount: field('present', 'channel.subscriberCount'),
+    videos: optionalField('array', 'videos'),
+});
+
+const STREAM_RESPONSE_SHAPE = defineShape('StreamResponse', {
+    source: field('present', 'streamingUrl', 'formats'),
+    formats: optionalField('array', 'formats'),
+    audioUrl: optionalField('string', 'audioUrl'),
+});
+
+export const mapLockupViewToVideo = (item: any): Mapped<Video | null> => {
+    // Other watch-next items (shelves, ads) are not videos and not drift either
+    if (!item || item.type !== 'LockupView') return { value: null, warnings: [] };
+    const warnings = validateShape(LOCKUP_VIEW_SHAPE, item);
+    const videoId = item.content_id;
+    if (!videoId) return { value: null, warnings };
+
+    const metadata = item.metadata;
+    const title = metadata?.title?.text || '無題';
+    const images = item.content_image?.image;
+    let thumbnailUrl = `https://i.ytimg.com/vi/${videoId}/hqdefault.jpg`;
+    if (Array.isArray(images) && images.length > 0) thumbnailUrl = images[0].url;
+
+    const overlays = item.content_image?.overlays || [];
+    const timeBadge = overlays.find((o: any) => o.type === 'ThumbnailOverlayBadgeView')?.badges?.[0];
+    const duration = timeBadge?.text || '';
+
+    const metaRows = metadata?.metadata?.metadata_rows || [];
+    const authorPart = metaRows[0]?.metadata_parts?.[0]?.text;
+    const channelName = authorPart?.text || '不明';
+    
+    const statsPart = metaRows[1]?.metadata_parts || [];
+    const viewsRaw = statsPart[0]?.text?.text || '';
+    const uploadedAt = statsPart[statsPart.length - 1]?.text?.text || '';
+
+    return {
+        value: {
+            id: videoId, thumbnailUrl, duration, isoDuration: '', title, channelName,
+            channelId: metadata?.image?.renderer_context?.command_context?.on_tap?.payload?.browseId || '',
+            channelAvatarUrl: metadata?.image?.avatar?.image?.[0]?.url || '',
+            views: formatJapaneseNumber(viewsRaw), uploadedAt, isLive: false
+        },
+        warnings
+    };
+};
+
+export const mapYoutubeiVideoToVideo = (item: any): Mapped<Video | null> => {
+    if (!item) return { value: null, warnings: [] };
+    const warnings = validateShape(YOUTUBEI_VIDEO_SHAPE, item);
+    const videoId = item.id || item.videoId || item.video_id;
+    if (!videoId) return { value: null, warnings };
+    const title = item.title?.text ?? item.title?.simpleText ?? '無題';
+    const thumbs = item.thumbnails || item.thumbnail;
+    let thumbnailUrl = `https://i.ytimg.com/vi/${videoId}/hqdefault.jpg`; 
+    if (Array.isArray(thumbs) && thumbs.length > 0) thumbnailUrl = thumbs[0].url.split('?')[0];
+    const duration = item.duration?.text ?? item.length?.simpleText ?? '';
+    let views = formatJapaneseNumber(item.view_count?.text ?? item.short_view_count?.text ?? item.views?.text ?? '');
+    if (views && !views.includes('視聴')) views += '回視聴';
+    const author = item.author || item.channel;
+    return {
+        value: { id: videoId, thumbnailUrl, duration, isoDuration: `PT${item.duration?.seconds ?? 0}S`, title, channelName: author?.name ?? '不明', channelId: author?.id ?? '', channelAvatarUrl: author?.thumbnails?.[0]?.url ?? '', views, uploadedAt: formatJapaneseDate(item.published?.text ?? ''), isLive: !!item.badges?.some((b:any) => b.metadataBadgeRenderer?.style === 'BADGE_STYLE_TYPE_LIVE_NOW') },
+        warnings
+    };
+};
+
+export const mapVideoDetails = (videoId: string, data: any): Mapped<VideoDetails> => {
+    const owner = data.secondary_info?.owner;
+    const collaborators: Channel[] = [];
+    
+    const collabDialog = data.secondary_info?.owner?.author?.endpoint?.payload?.panelLoadingStrategy?.inlineContent?.dialogViewModel;
+    const collabItems = collabDialog?.customContent?.listViewModel?.listItems;
+    
+    if (Array.isArray(collabItems)) {
+        collabItems.forEach((item: any) => {
+            const vm = item.listItemViewModel;
+            if (!vm) return;
+            const cId = vm.title?.commandRuns?.[0]?.onTap?.innertubeCommand?.browseEndpoint?.browseId || 
+                        vm.title?.endpoint?.payload?.browseId;
+            if (cId) {
+                collaborators.push({
+                    id: cId, name: vm.title.content || vm.title.text || 'Unknown',
+                    avatarUrl: '', subscriberCount: formatJapaneseNumber(vm.subtitle?.content || vm.subtitle?.text || '')
+                });
+            }
+        });
+    }
+
+    const relatedVideos = mapList('video.related', data.watch_next_feed, mapLockupViewToVideo);
+
+    const value: VideoDetails = {
+        id: videoId, title: data.primary_info?.title?.text || 'No Title', thumbnailUrl: `https://i.ytimg.com/vi/${videoId}/hqdefault.jpg`,
+        duration: '', isoDuration: '', channelName: collaborators.length > 0 ? collaborators[0].name : (owner?.author?.name || 'Unknown'), 
+        channelId: collaborators.length > 0 ? collaborators[0].id : (owner?.author?.id || ''),
+        channelAvatarUrl: owner?.author?.thumbnails?.[0]?.url || '', 
+        views: formatJapaneseNumber(data.primary_info?.view_count?.view_count?.text || ''),
+        uploadedAt: data.primary_info?.relative_date?.text || '', description: data.secondary_info?.description?.text || '',
+        likes: formatJapaneseNumber(data.basic_info?.like_count || ''), dislikes: '0', 
+        channel: { 
+            id: collaborators.length > 0 ? collaborators[0].id : (owner?.author?.id || ''), 
+            name: collaborators.length > 0 ? collaborators[0].name : (owner?.author?.name || ''), 
+            avatarUrl: owner?.author?.thumbnails?.[0]?.url || '', 
+            subscriberCount: formatJapaneseNumber(owner?.subscriber_count?.text || collaborators[0]?.subscriberCount || '') 
+        },
+        collaborators: collaborators.length > 0 ? collaborators : undefined,
+        relatedVideos, isLive: false
+    };
+    return { value, warnings: validateShape(VIDEO_DETAILS_SHAPE, data) };
+};
+
+const toYoutubeiRange = (range: any) => range ? toRange(range.start, range.end) : undefined;
+
+const toAdaptiveFormat = (f: any): StreamFormat => adaptiveFormat({
+    url: f.url, mimeType: f.mimeType ?? f.mime_type, bitrate: f.bitrate, width: f.width, height: f.height, fps: f.fps,
+    quality: f.qualityLabel ?? f.quality_label, initRange: toYoutubeiRange(f.initRange ?? f.init_range),
+    indexRange: toYoutubeiRange(f.indexRange ?? f.index_range), contentLength: f.contentLength ?? f.content_length
+});
+
+// youtubei.js caption tracks (snake_case, or camelCased by some servers). YouTube's
+// timedtext URL is asked for SRV3, which keeps the auto-generated word timing intact.
+const toCaptionTrack = (t: any): CaptionTrack | null => {
+    const baseUrl = t.base_url ?? t.baseUrl;
+    const languageCode = t.language_code ?? t.languageCode;
+    if (typeof baseUrl !== 'string' || !languageCode) return null;
+    const url = new URL(baseUrl, 'https://www.youtube.com');
+    url.searchParams.set('fmt', 'srv3');
+    const label = t.name?.text ?? t.name?.simpleText ?? t.name?.runs?.[0]?.text ?? (typeof t.name === 'string' ? t.name : languageCode);
+    return { languageCode, label, url: url.toString(), format: 'srv3', isAutoGenerated: t.kind === 'asr' };
+};
+
+export const youtubeiAdapter: BackendAdapter = {
+    dialect: 'youtubei',
+    probePath: 'api/suggest?q=a',
+
+    async getVideoDetails(fetchJson, videoId) {
+        const data = await fetchJson(`api/video?id=${videoId}`);
+        if (!data) throw new ParseError('動画の読み込みに失敗しました。');
+        const unplayable = classifyPlayability(data.playability_status?.status, data.playability_status?.reason);
+        if (unplayable) throw unplayable;
+        return unwrap('video', mapVideoDetails(videoId, data), videoId);
+    },
+
+    async search(fetchJson, { query, page, sortBy }) {
+        const params = new URLSearchParams();
+        params.set('q', query);
+        params.set('page', page || '1');
+        if (sortBy) params.set('sort_by', sortBy);
+        const data = await fetchJson(`api/search?${params.toString()}`);
+        recordValidation('search', validateShape(SEARCH_RESPONSE_SHAPE, data));
+        return {
+            videos: mapList('search', data.videos, mapYoutubeiVideoToVideo),
+            shorts: mapList('search', data.shorts, mapYoutubeiVideoToVideo),
+            channels: Array.isArray(data.channels) ? data.channels.map((c: any) => ({ id: c.id, name: c.name, avatarUrl: c.thumbnails?.[0]?.url || '', subscriberCount: formatJapaneseNumber(c.subscriber_count?.text || '') })).filter((c: Channel) => !!c.id) : [],
+            playlists: Array.isArray(data.playlists) ? data.playlists.map((p: any) => ({ id: p.id, title: p.title, thumbnailUrl: p.thumbnails?.[0]?.url, videoCount: parseInt(p.video_count?.text?.replace(/[^0-9]/g, '') || '0'), author: p.author?.name, authorId: p.author?.id })).filter((p: any) => !!p.id) : [],
+            nextPageToken: data.nextPageToken
+        };
+    },
+
+    async getComments(fetchJson, { videoId, sortBy, continuation }) {
+        const params = new URLSearchParams({ id: videoId });
+        if (sortBy === 'newest') params.set('sort_by', 'newest');
+        if (continuation) params.set('continuation', continuation);
+        const data = await fetchJson(`api/comments?${params.toString()}`);
+        recordValidation('comments', validateShape(COMMENTS_RESPONSE_SHAPE, data), videoId);
+        return { comments: (Array.isArray(data.comments) ? data.comments : []).map(mapYoutubeiComment), continuation: data.continuation };
+    },
+
+    async getCommentReplies(fetchJson, { videoId, continuation }) {
+        const data = await fetchJson(`api/comment-replies?${new URLSearchParams({ id: videoId, continuation }).toString()}`);
+        recordValidation('replies', validateShape(COMMENTS_RESPONSE_SHAPE, data), videoId);
+        return { comments: (Array.isArray(data.comments) ? data.comments : []).map(mapYoutubeiComment), continuation: data.continuation };
+    },
+
+    async getStreamData(fetchJson, videoId) {
+        const data = await fetchJson(`stream?id=${videoId}`);
+        recordValidation('stream', validateShape(STREAM_RESPONSE_SHAPE, data), videoId);
+
+        const result: StreamData = { streamingUrl: data.streamingUrl || null, streamType: 'mp4', combinedFormats: [], audioOnlyFormat: null, separate1080p: null };
+        const formats = Array.isArray(data.formats) ? data.formats : [];
+        result.combinedFormats = formats.map((f: any) => ({ quality: f.quality, container: f.container, url: f.url, isVideoOnly: false }));
+        if (data.audioUrl) result.audioOnlyFormat = { quality: 'best', container: 'm4a', url: data.audioUrl };
+
+        // Servers that pass youtubei.js adaptive formats through (snake_case) or already camelCased
+        const adaptive = data.adaptiveFormats ?? data.adaptive_formats ?? data.streaming_data?.adaptive_formats;
+        if (Array.isArray(adaptive)) {
+            result.adaptiveFormats = adaptive
+                .filter((f: any) => f.url && typeof (f.mimeType ?? f.mime_type) === 'string')
+                .map(toAdaptiveFormat);
+            result.separate1080p = pickSeparate1080p(result.adaptiveFormats);
+            if (!result.audioOnlyFormat) result.audioOnlyFormat = bestAudioFormat(result.adaptiveFormats);
+        }
+        const duration = Number(data.lengthSeconds ?? data.duration);
+        if (duration > 0) result.durationSeconds = duration;
+        const captions = data.captions?.caption_tracks ?? data.captions?.captionTracks ?? data.captionTracks ?? (Array.isArray(data.captions) ? data.captions : null);
+        if (Array.isArray(captions)) result.captions = captions.map(toCaptionTrack).filter((t: CaptionTrack | null): t is CaptionTrack => !!t);
+        return result;
+    },
+
+    async getSuggestions(fetchJson, query) {
+        const data = await fetchJson(`api/suggest?q=${encodeURIComponent(query)}`);
+        return Array.isArray(data) ? data : [];
+    },
+};
@@ -1,10 +1,15 @@
-import type { Video, VideoDetails, Channel, ChannelDetails, ApiPlaylist, Comment, PlaylistDetails, SearchResults, HomeVideo, HomePlaylist, ChannelHomeData, CommunityPost, CommentResponse, StreamData } from '../types';
-import dayjs from 'dayjs';
-import 'dayjs/locale/ja';
-import relativeTime from 'dayjs/plugin/relativeTime';
-
-dayjs.extend(relativeTime);
-dayjs.locale('ja');
+import type { Video, VideoDetails, ChannelDetails, ApiPlaylist, PlaylistDetails, SearchResults, HomeVideo, HomePlaylist, ChannelHomeData, CommunityPost, CommentResponse, StreamData, CaptionTrack, LiveChatMessage, LiveChatResponse } from '../types';
+import { registerMirrors, rankMirrors, getBestMirror, reportMirrorSuccess, reportMirrorFailure, startHealthProbes } from './mirrorPool';
+import { getBackendBases, getVideoBackends, subscribeBackendProfiles, type BackendKind } from './backendProfiles';
+import { scheduleRequest, createAbortError, isAbortError, type RequestPriority } from './requestQueue';
+import { validateShape, recordValidation, mapList } from './schema';
+import { ADAPTERS, CHANNEL_RESPONSE_SHAPE, mapYoutubeiVideoToVideo, encodeToken, decodeToken, type BackendAdapter, type BackendDialect, type JsonFetcher } from './adapters';
+import { formatJapaneseNumber, formatJapaneseDate, formatDuration, parseDuration } from './format';
+import { ApiError, NetworkError, NotFoundError, ParseError, classifyResponse, toApiError, backoffDelay } from './errors';
+import { FIRST_PAGE, isFirstPage, pageQuery, resolveNextPageToken } from './paging';
+import { DEV_BACKEND_MODE, MOCK_API_BASE } from './devBackend';
+import { parseLiveChat, LIVE_CHAT_RESPONSE_SHAPE } from './liveChat';
+import { cacheGet, cacheSet, isEntryFresh, isEntryUsable, migrateLegacyCache, CACHE_NAMESPACES, type CacheNamespace } from './cacheStore';
 
 // --- CONSTANTS ---
 const API_MIRRORS = [
@@ -14,149 +19,118 @@ const API_MIRRORS = [
     'https://xeroxyt-nt-apiv1-m28t.onrender.com'
 ];
 
-let currentApiBase = API_MIRRORS[Math.floor(Math.random() * API_MIRRORS.length)];
+// Servers of other backend families, only used once every youtubei mirror has failed.
+const FALLBACK_BACKENDS: { baseUrl: string; dialect: BackendDialect }[] = [
+    { baseUrl: 'https://invidious.nerdvpn.de', dialect: 'invidious' },
+    { baseUrl: 'https://pipedapi.kavin.rocks', dialect: 'piped' },
+];
+
+// Shuffled so that fresh sessions spread across mirrors until real latencies are known.
+const shuffledMirrors = [...API_MIRRORS].sort(() => Math.random() - 0.5);
+const mirrorDialects = new Map<string, BackendDialect>();
+const dialectOf = (base: string): BackendDialect => mirrorDialects.get(base) || 'youtubei';
+
+// Dev builds can replace every backend with the local mock server (see utils/devBackend).
+const USE_MOCK_BACKEND = DEV_BACKEND_MODE !== 'off';
 
-const switchApiMirror = () => {
-    const currentIndex = API_MIRRORS.indexOf(currentApiBase);
-    const nextIndex = (currentIndex + 1) % API_MIRRORS.length;
-    currentApiBase = API_MIRRORS[nextIndex];
+// User-configured video backends are tried first, then the built-in mirrors, then the other backend families.
+const syncMirrors = () => {
+    if (USE_MOCK_BACKEND) {
+        registerMirrors([MOCK_API_BASE]);
+        return;
+    }
+    const custom = getVideoBackends();
+    mirrorDialects.clear();
+    [...FALLBACK_BACKENDS, ...custom].forEach(b => mirrorDialects.set(b.baseUrl, b.dialect));
+    registerMirrors(shuffledMirrors, custom.map(b => b.baseUrl), FALLBACK_BACKENDS.map(b => b.baseUrl));
 };
+syncMirrors();
+subscribeBackendProfiles(syncMirrors);
 
-export const getApiBaseUrl = () => currentApiBase;
-export const API_BASE_URL = currentApiBase; 
+export const getApiBaseUrl = () => getBestMirror();
+export const API_BASE_URL = getBestMirror(); 
 
-const SIAWASE_API_BASE = "https://siawaseok-inv.sytes.net/api";
+const SIAWASE_API_BASE = "https://siawaseok-inv.sytes.net";
 
-// --- CACHING LOGIC ---
-const CACHE_TTL = 365 * 24 * 60 * 60 * 1000; 
+export { isAbortError };
+export { ApiError, isApiError, type ApiErrorKind } from './errors';
 
-interface CacheItem {
-    data: any;
-    expiry: number;
-}
+// --- CACHING LOGIC ---
+// Responses are cached in IndexedDB (utils/cacheStore); localStorage is reserved for user data.
+migrateLegacyCache();
 
-const cache = {
-    get: (key: string): any | null => {
-        try {
-            const itemStr = localStorage.getItem(key);
-            if (!itemStr) return null;
-            const item: CacheItem = JSON.parse(itemStr);
-            return item;
-        } catch (error) {
-            return null;
-        }
-    },
-    set: (key: string, value: any, ttl: number = CACHE_TTL): void => {
-        try {
-            if (value === undefined) return;
-            const item: CacheItem = { data: value, expiry: new Date().getTime() + ttl };
-            localStorage.setItem(key, JSON.stringify(item));
-        } catch (error) {
-            if (error instanceof DOMException && error.name === 'QuotaExceededError') {
-                localStorage.clear();
-            }
-        }
-    },
-};
+const revalidating = new Set<string>();
 
-export const getCachedData = (key: string): any | null => {
-    return cache.get(key)?.data || null;
+export const getCachedData = async (key: string): Promise<any | null> => {
+    const entry = await cacheGet(key);
+    return entry && isEntryUsable(entry) ? entry.data : null;
 };
 
+// Stale-while-revalidate: fresh entries are returned as-is, stale ones are returned
+// immediately while a background refresh updates the cache for next time.
+// A ttl of 0 always fetches and only uses the cache as an offline/error fallback.
+// Namespaces with hardExpiry never fall back to an entry past its maxStale.
+// Background revalidation is not tied to the caller's signal, so leaving a page doesn't discard a refresh that is almost done.
 async function fetchWithCache<T>(
-    key: string, 
-    fetcher: () => Promise<T>, 
-    ttl: number = CACHE_TTL
+    namespace: CacheNamespace,
+    key: string,
+    fetcher: (signal?: AbortSignal) => Promise<T>,
+    { ttl = CACHE_NAMESPACES[namespace].ttl, signal }: { ttl?: number; signal?: AbortSignal } = {}
 ): Promise<T> {
-    const cachedItem = cache.get(key);
-    const now = new Date().getTime();
-    if (cachedItem && ttl > 0 && now < cachedItem.expiry) return cachedItem.data as T;
-    if (!navigator.onLine && cachedItem) return cachedItem.data as T;
+    // Fixtures must be served as-is, not shadowed by responses cached from the live API
+    if (USE_MOCK_BACKEND) return fetcher(signal);
+    const cachedItem = await cacheGet<T>(key);
+    if (signal?.aborted) throw createAbortError();
+    const usable = cachedItem && isEntryUsable(cachedItem) ? cachedItem : null;
+    // What may stand in for a response that cannot be fetched
+    const fallback = CACHE_NAMESPACES[namespace].hardExpiry ? usable : cachedItem;
+    if (usable && ttl > 0 && isEntryFresh(usable, ttl)) return usable.data;
+    if (!navigator.onLine && fallback) return fallback.data;
+    if (usable && ttl > 0) {
+        if (!revalidating.has(key)) {
+            revalidating.add(key);
+            fetcher()
+                .then(data => cacheSet(namespace, key, data))
+                .catch(() => { /* Keep serving the stale copy */ })
+                .finally(() => revalidating.delete(key));
+        }
+        return usable.data;
+    }
     try {
-        const data = await fetcher();
-        cache.set(key, data, ttl === 0 ? CACHE_TTL : ttl); 
+        const data = await fetcher(signal);
+        cacheSet(namespace, key, data);
         return data;
     } catch (error) {
-        if (cachedItem) return cachedItem.data as T;
+        if (isAbortError(error)) throw error;
+        if (fallback) return fallback.data;
         throw error;
     }
 }
 
 // --- HELPER FUNCTIONS ---
-export const formatJapaneseNumber = (raw: number | string): string => {
-  if (!raw && raw !== 0) return '0';
-  const str = String(raw).trim();
-  
-  if (str.match(/[万億]/)) return str.replace(/[^0-9.万億]/g, '').replace(/\.0$/, '');
-  
-  const cleanStr = str.replace(/[^0-9.]/g, '');
-  if (!cleanStr) return str;
-  const num = parseFloat(cleanStr);
-  if (isNaN(num)) return str;
-
-  if (num >= 100000000) {
-    return `${(num / 100000000).toFixed(1).replace(/\.0$/, '')}億`;
-  }
-  if (num >= 10000) {
-    return `${(num / 10000).toFixed(1).replace(/\.0$/, '')}万`;
-  }
-  return num.toLocaleString();
-};
-
-export const formatJapaneseDate = (dateText: string): string => {
-  if (!dateText || !dateText.includes('ago')) return dateText;
-  const match = dateText.match(/(\d+)\s+(year|month|week|day|hour|minute|second)s?/);
-  if (match) {
-    const num = parseInt(match[1], 10);
-    const unit = match[2] as 'year'|'month'|'day'|'hour'|'minute'|'second';
-    return dayjs().subtract(num, unit).fromNow();
-  }
-  return dateText;
-};
-
-export const formatDuration = (totalSeconds: number): string => {
-  if (isNaN(totalSeconds) || totalSeconds < 0) return "0:00";
-  const hours = Math.floor(totalSeconds / 3600);
-  const minutes = Math.floor((totalSeconds % 3600) / 60);
-  const seconds = totalSeconds % 60;
-  if (hours > 0) return `${hours}:${String(minutes).padStart(2, '0')}:${String(seconds).padStart(2, '0')}`;
-  return `${minutes}:${String(seconds).padStart(2, '0')}`;
-};
-
-export const parseDuration = (iso: string, text: string): number => {
-    if (iso) {
-        const matches = iso.match(/PT(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?/);
-        if (matches) {
-            const h = parseInt(matches[1] || '0', 10);
-            const m = parseInt(matches[2] || '0', 10);
-            const s = parseInt(matches[3] || '0', 10);
-            return h * 3600 + m * 60 + s;
-        }
-    }
-    if (text) {
-         const parts = text.split(':').map(p => parseInt(p, 10));
-         if (parts.length === 3) return parts[0] * 3600 + parts[1] * 60 + parts[2];
-         if (parts.length === 2) return parts[0] * 60 + parts[1];
-         if (parts.length === 1) return parts[0];
-    }
-    return 0;
-}
+export { formatJapaneseNumber, formatJapaneseDate, formatDuration, parseDuration };
+export { mapLockupViewToVideo, mapYoutubeiVideoToVideo, mapVideoDetails } from './adapters';
 
 const smartFetch = async (url: string, options: RequestInit = {}): Promise<any> => {
+    if (options.signal?.aborted) throw createAbortError();
+    // Asks the mock server to fetch from the live API and save the response as a fixture
+    if (DEV_BACKEND_MODE === 'record' && url.startsWith(MOCK_API_BASE)) options = { ...options, headers: { ...options.headers, 'X-Mock-Record': '1' } };
     // @ts-ignore
     if (typeof google !== 'undefined' && google.script && google.script.run) {
         return new Promise((resolve, reject) => {
+            // google.script.run calls can't be cancelled; on abort we stop waiting and drop the late result
+            options.signal?.addEventListener('abort', () => reject(createAbortError()), { once: true });
             // @ts-ignore
             google.script.run
                 .withSuccessHandler((res: any) => {
-                    if (res.status >= 200 && res.status < 300) {
-                        try {
-                            const data = JSON.parse(res.body);
-                            resolve({ ok: true, json: async () => data, text: async () => res.body });
-                        } catch (e) {
-                             resolve({ ok: true, json: async () => ({}), text: async () => res.body });
-                        }
-                    } else reject(new Error(`GAS Fetch Failed: ${res.status}`));
+                    // Non-2xx responses resolve too, so callers can classify them by status and body
+                    const ok = res.status >= 200 && res.status < 300;
+                    try {
+                        const data = JSON.parse(res.body);
+                        resolve({ ok, status: res.status, json: async () => data, text: async () => res.body });
+                    } catch (e) {
+                         resolve({ ok, status: res.status, json: async () => ({}), text: async () => res.body });
+                    }
                 })
                 .withFailureHandler((err: any) => reject(err))
                 .proxyApi(url);
@@ -164,199 +138,387 @@ const smartFetch = async (url: string, options: RequestInit = {}): Promise<any>
     } else return fetch(url, options);
 };
 
-const apiFetch = async (endpoint: string, options: RequestInit = {}, retries = API_MIRRORS.length): Promise<any> => {
-    const url = `${currentApiBase}/api/${endpoint}`;
+export interface ApiRequestOptions {
+    priority?: RequestPriority;
+    signal?: AbortSignal;
+}
+
+// Binds a fetcher to one mirror. Failures are thrown as typed errors (utils/errors); whether
+// one counts against the mirror's health is part of its retry policy.
+const createJsonFetcher = (base: string, signal?: AbortSignal): JsonFetcher => Object.assign(async (path: string) => {
+    const started = performance.now();
     try {
-        const response = await smartFetch(url, options);
+        let response;
+        try {
+            response = await smartFetch(`${base}/${path}`, { signal });
+        } catch (e: any) {
+            if (isAbortError(e)) throw e;
+            throw new NetworkError(e?.message);
+        }
         const text = await response.text();
         let data;
-        try { data = text ? JSON.parse(text) : {}; } catch (e) { throw new Error('Non-JSON response'); }
-        if (!response.ok) throw new Error(data.error || `Status ${response.status}`);
+        try { data = text ? JSON.parse(text) : {}; } catch (e) { throw new ParseError('Non-JSON response'); }
+        // Piped puts the exception name in `error` and the readable text in `message`
+        if (!response.ok) throw classifyResponse(response.status, [data.error, data.message].filter(Boolean).join(': ') || undefined, response.headers?.get?.('Retry-After'));
+        reportMirrorSuccess(base, performance.now() - started);
         return data;
     } catch (err: any) {
-        if (retries > 0) {
-            switchApiMirror();
-            return apiFetch(endpoint, options, retries - 1);
-        }
+        // A cancelled request says nothing about the mirror
+        if (signal?.aborted) throw createAbortError();
+        if (toApiError(err).policy.countsAgainstMirror) reportMirrorFailure(base, err);
+        else reportMirrorSuccess(base, performance.now() - started);
         throw err;
     }
+}, { baseUrl: base });
+
+const delay = (ms: number, signal: AbortSignal) => new Promise<void>((resolve, reject) => {
+    const timer = setTimeout(resolve, ms);
+    signal.addEventListener('abort', () => { clearTimeout(timer); reject(createAbortError()); }, { once: true });
+});
+
+// Tries mirrors in health order, driving each one through the adapter for its dialect.
+// `dialects` restricts the run to backend families that support the operation.
+// The error's retry policy decides whether the next mirror is tried and whether the
+// whole list is retried after a backoff.
+const runOnMirrors = async <T>(signal: AbortSignal, run: (adapter: BackendAdapter, fetchJson: JsonFetcher) => Promise<T>, dialects?: BackendDialect[]): Promise<T> => {
+    for (let round = 0; ; round++) {
+        let lastError: ApiError = new NetworkError('No API mirror available');
+        for (const base of rankMirrors()) {
+            const dialect = dialectOf(base);
+            if (dialects && !dialects.includes(dialect)) continue;
+            try {
+                return await run(ADAPTERS[dialect], createJsonFetcher(base, signal));
+            } catch (err: any) {
+                if (signal.aborted) throw createAbortError();
+                lastError = toApiError(err);
+                if (!lastError.policy.tryOtherMirrors) throw lastError;
+            }
+        }
+        if (round + 1 >= lastError.policy.maxRounds) throw lastError;
+        await delay(backoffDelay(lastError, round), signal);
+    }
 };
 
-export async function getPlayerConfig(): Promise<string> {
-    return fetchWithCache('player-config', async () => {
-        const response = await fetch('https://raw.githubusercontent.com/siawaseok3/wakame/master/video_config.json');
-        const config = await response.json();
-        return (config.params || '').replace(/&amp;/g, '&');
-    }, 24 * 60 * 60 * 1000); 
+// Identical requests share one in-flight run, and every run waits for a slot in the priority queue.
+const scheduleOnMirrors = <T>(
+    key: string,
+    run: (adapter: BackendAdapter, fetchJson: JsonFetcher) => Promise<T>,
+    { priority, signal, dialects }: ApiRequestOptions & { dialects?: BackendDialect[] } = {}
+): Promise<T> => scheduleRequest(key, requestSignal => runOnMirrors(requestSignal, run, dialects), { priority, signal });
+
+// Channel, playlist and community endpoints only exist on youtubei backends.
+const apiFetch = (endpoint: string, options: ApiRequestOptions = {}): Promise<any> =>
+    scheduleOnMirrors(`api/${endpoint}`, (_, fetchJson) => fetchJson(`api/${endpoint}`), { ...options, dialects: ['youtubei'] });
+
+startHealthProbes(async (base, signal) => {
+    const response = await smartFetch(`${base}/${ADAPTERS[dialectOf(base)].probePath}`, { signal });
+    if (!response.ok) throw new Error(`Status ${response.status}`);
+});
+
+// --- BACKEND VERIFICATION ---
+export interface BackendCheck {
+    endpoint: string;
+    ok: boolean;
+    message: string;
 }
 
-export const mapLockupViewToVideo = (item: any): Video | null => {
-    if (!item || item.type !== 'LockupView') return null;
-    const videoId = item.content_id;
-    if (!videoId) return null;
-
-    const metadata = item.metadata;
-    const title = metadata?.title?.text || '無題';
-    const images = item.content_image?.image;
-    let thumbnailUrl = `https://i.ytimg.com/vi/${videoId}/hqdefault.jpg`;
-    if (Array.isArray(images) && images.length > 0) thumbnailUrl = images[0].url;
-
-    const overlays = item.content_image?.overlays || [];
-    const timeBadge = overlays.find((o: any) => o.type === 'ThumbnailOverlayBadgeView')?.badges?.[0];
-    const duration = timeBadge?.text || '';
-
-    const metaRows = metadata?.metadata?.metadata_rows || [];
-    const authorPart = metaRows[0]?.metadata_parts?.[0]?.text;
-    const channelName = authorPart?.text || '不明';
-    
-    const statsPart = metaRows[1]?.metadata_parts || [];
-    const viewsRaw = statsPart[0]?.text?.text || '';
-    const uploadedAt = statsPart[statsPart.length - 1]?.text?.text || '';
+const VERIFY_VIDEO_ID = 'dQw4w9WgXcQ';
+const VERIFY_CHANNEL_ID = 'UCuAXFkgsw1L7xaCfnd5JJOw';
+// A 24/7 stream, so there is always a live chat to fetch
+const VERIFY_LIVE_VIDEO_ID = 'jfKfPfyJRdk';
 
-    return {
-        id: videoId, thumbnailUrl, duration, isoDuration: '', title, channelName,
-        channelId: metadata?.image?.renderer_context?.command_context?.on_tap?.payload?.browseId || '',
-        channelAvatarUrl: metadata?.image?.avatar?.image?.[0]?.url || '',
-        views: formatJapaneseNumber(viewsRaw), uploadedAt, isLive: false
-    };
+const checkEndpoint = async (base: string, endpoint: string, validate: (data: any) => boolean): Promise<BackendCheck> => {
+    try {
+        const response = await smartFetch(`${base}/${endpoint}`);
+        if (!response.ok) return { endpoint, ok: false, message: `Status ${response.status}` };
+        const text = await response.text();
+        let data;
+        try { data = JSON.parse(text); } catch (e) { return { endpoint, ok: false, message: 'JSONではない応答' }; }
+        if (data?.error) return { endpoint, ok: false, message: String(data.error) };
+        return validate(data) ? { endpoint, ok: true, message: 'OK' } : { endpoint, ok: false, message: '応答の形式が異なります' };
+    } catch (err: any) {
+        return { endpoint, ok: false, message: err?.message || '接続できません' };
+    }
 };
 
-export const mapYoutubeiVideoToVideo = (item: any): Video | null => {
-    if (!item) return null;
-    const videoId = item.id || item.videoId || item.video_id;
-    if (!videoId) return null;
-    const title = item.title?.text ?? item.title?.simpleText ?? '無題';
-    const thumbs = item.thumbnails || item.thumbnail;
-    let thumbnailUrl = `https://i.ytimg.com/vi/${videoId}/hqdefault.jpg`; 
-    if (Array.isArray(thumbs) && thumbs.length > 0) thumbnailUrl = thumbs[0].url.split('?')[0];
-    const duration = item.duration?.text ?? item.length?.simpleText ?? '';
-    let views = formatJapaneseNumber(item.view_count?.text ?? item.short_view_count?.text ?? item.views?.text ?? '');
-    if (views && !views.includes('視聴')) views += '回視聴';
-    const author = item.author || item.channel;
-    return { id: videoId, thumbnailUrl, duration, isoDuration: `PT${item.duration?.seconds ?? 0}S`, title, channelName: author?.name ?? '不明', channelId: author?.id ?? '', channelAvatarUrl: author?.thumbnails?.[0]?.url ?? '', views, uploadedAt: formatJapaneseDate(item.published?.text ?? ''), isLive: !!item.badges?.some((b:any) => b.metadataBadgeRenderer?.style === 'BADGE_STYLE_TYPE_LIVE_NOW') };
+// Runs one adapter operation against an unregistered base URL.
+const checkOperation = async (endpoint: string, operation: () => Promise<boolean>): Promise<BackendCheck> => {
+    try {
+        return (await operation()) ? { endpoint, ok: true, message: 'OK' } : { endpoint, ok: false, message: '応答の形式が異なります' };
+    } catch (err: any) {
+        return { endpoint, ok: false, message: err?.message || '接続できません' };
+    }
 };
 
-export async function getRawStreamData(videoId: string): Promise<StreamData> {
-    return fetchWithCache(`stream-data-v5-${videoId}`, async () => {
-        const url = `${currentApiBase}/stream?id=${videoId}`;
-        const response = await smartFetch(url);
-        const data = await response.json();
-        if (!response.ok) throw new Error(data.error || 'Stream failed');
-        
-        const result: StreamData = { streamingUrl: data.streamingUrl || null, streamType: 'mp4', combinedFormats: [], audioOnlyFormat: null, separate1080p: null };
-        const formats = Array.isArray(data.formats) ? data.formats : [];
-        result.combinedFormats = formats.map((f: any) => ({ quality: f.quality, container: f.container, url: f.url, isVideoOnly: false }));
-        if (data.audioUrl) result.audioOnlyFormat = { quality: 'best', container: 'm4a', url: data.audioUrl };
-        return result;
-    }, 60 * 60 * 1000); 
+const fetchJsonFrom = (base: string): JsonFetcher => async path => {
+    const response = await smartFetch(`${base}/${path}`);
+    if (!response.ok) throw new Error(`Status ${response.status}`);
+    const text = await response.text();
+    try { return JSON.parse(text); } catch (e) { throw new Error('JSONではない応答'); }
+};
+
+// Checks that a backend speaks the contract this client expects before it is accepted.
+export async function verifyBackend(kind: BackendKind, baseUrl: string, dialect: BackendDialect = 'youtubei'): Promise<{ ok: boolean; checks: BackendCheck[] }> {
+    let checks: BackendCheck[];
+    if (kind === 'video') {
+        const adapter = ADAPTERS[dialect];
+        const fetchJson = fetchJsonFrom(baseUrl);
+        checks = await Promise.all([
+            checkOperation('search', async () => (await adapter.search(fetchJson, { query: 'test', page: null })).videos.length > 0),
+            checkOperation('video', async () => !!(await adapter.getVideoDetails(fetchJson, VERIFY_VIDEO_ID)).channelId),
+            checkOperation('comments', async () => Array.isArray((await adapter.getComments(fetchJson, { videoId: VERIFY_VIDEO_ID, sortBy: 'top', continuation: null })).comments)),
+            // Replies are keyed by a token from the comment list; a video without threads has nothing to check
+            checkOperation('comment-replies', async () => {
+                const thread = (await adapter.getComments(fetchJson, { videoId: VERIFY_VIDEO_ID, sortBy: 'top', continuation: null })).comments.find(c => c.reply_continuation);
+                if (!thread?.reply_continuation) return true;
+                return Array.isArray((await adapter.getCommentReplies(fetchJson, { videoId: VERIFY_VIDEO_ID, continuation: thread.reply_continuation })).comments);
+            }),
+            checkOperation('stream', async () => { const data = await adapter.getStreamData(fetchJson, VERIFY_VIDEO_ID); return !!data.streamingUrl || data.combinedFormats.length > 0; }),
+            // Channel pages and live chat are only served by youtubei backends
+            ...(dialect === 'youtubei' ? [
+                checkEndpoint(baseUrl, `api/channel?id=${VERIFY_CHANNEL_ID}`, d => !!d.channel),
+                checkEndpoint(baseUrl, `api/live-chat?id=${VERIFY_LIVE_VIDEO_ID}`, d => validateShape(LIVE_CHAT_RESPONSE_SHAPE, d).length === 0),
+            ] : []),
+        ]);
+    } else if (kind === 'channelHome') {
+        checks = [await checkEndpoint(baseUrl, `api/channel/${VERIFY_CHANNEL_ID}`, d => typeof d === 'object' && d !== null)];
+    } else {
+        // A login with empty credentials must be rejected with a JSON status, which proves the API is there.
+        checks = [await checkEndpoint(baseUrl, 'login?userid=&pw=', d => typeof d.status === 'string')];
+    }
+    return { ok: checks.every(c => c.ok), checks };
 }
 
-export async function getVideoDetails(videoId: string): Promise<VideoDetails> {
-    return fetchWithCache(`video-details-v8-${videoId}`, async () => {
-        const data = await apiFetch(`video?id=${videoId}`);
-        if (!data) throw new Error('動画の読み込みに失敗しました。');
-        
-        const owner = data.secondary_info?.owner;
-        const collaborators: Channel[] = [];
-        
-        const collabDialog = data.secondary_info?.owner?.author?.endpoint?.payload?.panelLoadingStrategy?.inlineContent?.dialogViewModel;
-        const collabItems = collabDialog?.customContent?.listViewModel?.listItems;
-        
-        if (Array.isArray(collabItems)) {
-            collabItems.forEach((item: any) => {
-                const vm = item.listItemViewModel;
-                if (!vm) return;
-                const cId = vm.title?.commandRuns?.[0]?.onTap?.innertubeCommand?.browseEndpoint?.browseId || 
-                            vm.title?.endpoint?.payload?.browseId;
-                if (cId) {
-                    collaborators.push({
-                        id: cId, name: vm.title.content || vm.title.text || 'Unknown',
-                        avatarUrl: '', subscriberCount: formatJapaneseNumber(vm.subtitle?.content || vm.subtitle?.text || '')
-                    });
-                }
-            });
-        }
+export async function getPlayerConfig(options: ApiRequestOptions = {}): Promise<string> {
+    return fetchWithCache('config', 'player-config', async signal => {
+        const response = USE_MOCK_BACKEND
+            ? await smartFetch(`${MOCK_API_BASE}/player-config`, { signal })
+            : await fetch('https://raw.githubusercontent.com/siawaseok3/wakame/master/video_config.json', { signal });
+        const config = await response.json();
+        return (config.params || '').replace(/&amp;/g, '&');
+    }, { signal: options.signal });
+}
+
+export async function getRawStreamData(videoId: string, options: ApiRequestOptions = {}): Promise<StreamData> {
+    return fetchWithCache('stream', `stream-data-v7-${videoId}`, signal =>
+        scheduleOnMirrors(`stream:${videoId}`, (adapter, fetchJson) => adapter.getStreamData(fetchJson, videoId), { ...options, signal }),
+        { signal: options.signal });
+}
 
-        const relatedVideos: Video[] = [];
-        const feed = data.watch_next_feed || [];
-        if (Array.isArray(feed)) {
-            feed.forEach((item: any) => {
-                const v = mapLockupViewToVideo(item);
-                if (v) relatedVideos.push(v);
-            });
+// Raw caption file (WebVTT, SRV3 or TTML per track.format). The URL points at the
+// mirror or YouTube directly, so it goes through smartFetch instead of the mirror pool.
+export async function getCaptionText(track: CaptionTrack, options: ApiRequestOptions = {}): Promise<string> {
+    return fetchWithCache('video', `captions-v1-${track.url}`, async signal => {
+        let response;
+        try {
+            response = await smartFetch(track.url, { signal });
+        } catch (e: any) {
+            if (isAbortError(e)) throw e;
+            throw new NetworkError(e?.message);
         }
+        if (!response.ok) throw classifyResponse(response.status, undefined);
+        return response.text();
+    }, { signal: options.signal });
+}
 
-        return {
-            id: videoId, title: data.primary_info?.title?.text || 'No Title', thumbnailUrl: `https://i.ytimg.com/vi/${videoId}/hqdefault.jpg`,
-            duration: '', isoDuration: '', channelName: collaborators.length > 0 ? collaborators[0].name : (owner?.author?.name || 'Unknown'), 
-            channelId: collaborators.length > 0 ? collaborators[0].id : (owner?.author?.id || ''),
-            channelAvatarUrl: owner?.author?.thumbnails?.[0]?.url || '', 
-            views: formatJapaneseNumber(data.primary_info?.view_count?.view_count?.text || ''),
-            uploadedAt: data.primary_info?.relative_date?.text || '', description: data.secondary_info?.description?.text || '',
-            likes: formatJapaneseNumber(data.basic_info?.like_count || ''), dislikes: '0', 
-            channel: { 
-                id: collaborators.length > 0 ? collaborators[0].id : (owner?.author?.id || ''), 
-                name: collaborators.length > 0 ? collaborators[0].name : (owner?.author?.name || ''), 
-                avatarUrl: owner?.author?.thumbnails?.[0]?.url || '', 
-                subscriberCount: formatJapaneseNumber(owner?.subscriber_count?.text || collaborators[0]?.subscriberCount || '') 
-            },
-            collaborators: collaborators.length > 0 ? collaborators : undefined,
-            relatedVideos, isLive: false
-        };
-    });
+export async function getVideoDetails(videoId: string, options: ApiRequestOptions = {}): Promise<VideoDetails> {
+    return fetchWithCache('video', `video-details-v9-${videoId}`, signal =>
+        scheduleOnMirrors(`video:${videoId}`, (adapter, fetchJson) => adapter.getVideoDetails(fetchJson, videoId), { ...options, signal }),
+        { signal: options.signal });
 }
 
-export async function getSearchSuggestions(query: string): Promise<string[]> {
+export async function getSearchSuggestions(query: string, options: ApiRequestOptions = {}): Promise<string[]> {
     if (!query.trim()) return [];
     try {
-        const data = await apiFetch(`suggest?q=${encodeURIComponent(query)}`);
-        return Array.isArray(data) ? data : [];
-    } catch (e) { return []; }
+        return await scheduleOnMirrors(`suggest:${query}`, (adapter, fetchJson) => adapter.getSuggestions(fetchJson, query), options);
+    } catch (e) {
+        if (isAbortError(e)) throw e;
+        return [];
+    }
 }
 
-export async function getRecommendedVideos(): Promise<{ videos: Video[] }> {
-    return fetchWithCache('home-feed-videos', async () => {
+export async function getRecommendedVideos(options: ApiRequestOptions = {}): Promise<{ videos: Video[] }> {
+    return fetchWithCache('feed', 'home-feed-videos', async signal => {
         try {
-            const data = await apiFetch(`search?q=おすすめ&page=1&sort_by=rating`);
-            const videos = Array.isArray(data.videos) ? data.videos.map(mapYoutubeiVideoToVideo).filter((v): v is Video => v !== null) : [];
+            const { videos } = await searchVideos('おすすめ', '1', undefined, 'rating', { ...options, signal });
             return { videos };
-        } catch (e) { return { videos: [] }; }
-    }, 0); 
+        } catch (e) {
+            if (isAbortError(e)) throw e;
+            return { videos: [] };
+        }
+    }, { ttl: 0, signal: options.signal });
 }
 
-export async function searchVideos(query: string, pageToken = '1', channelId?: string, sortBy?: string): Promise<SearchResults> {
-    const params = new URLSearchParams();
-    params.set('q', query);
-    params.set('page', pageToken);
-    if (sortBy) params.set('sort_by', sortBy);
-    const data = await apiFetch(`search?${params.toString()}`);
-    return {
-        videos: Array.isArray(data.videos) ? data.videos.map(mapYoutubeiVideoToVideo).filter((v): v is Video => v !== null) : [],
-        shorts: Array.isArray(data.shorts) ? data.shorts.map(mapYoutubeiVideoToVideo).filter((v): v is Video => v !== null) : [],
-        channels: Array.isArray(data.channels) ? data.channels.map(c => ({ id: c.id, name: c.name, avatarUrl: c.thumbnails?.[0]?.url || '', subscriberCount: formatJapaneseNumber(c.subscriber_count?.text || '') })).filter(c => !!c.id) : [],
-        playlists: Array.isArray(data.playlists) ? data.playlists.map(p => ({ id: p.id, title: p.title, thumbnailUrl: p.thumbnails?.[0]?.url, videoCount: parseInt(p.video_count?.text?.replace(/[^0-9]/g, '') || '0'), author: p.author?.name, authorId: p.author?.id })).filter(p => !!p.id) : [],
-        nextPageToken: data.nextPageToken
-    };
+const withEncodedTokens = (dialect: BackendDialect, response: CommentResponse): CommentResponse => ({
+    comments: response.comments.map(comment => ({ ...comment, reply_continuation: encodeToken(dialect, comment.reply_continuation) })),
+    continuation: encodeToken(dialect, response.continuation),
+});
+
+// Page tokens carry the dialect that issued them, so follow-up pages stay on the same backend family.
+export async function searchVideos(query: string, pageToken = '1', channelId?: string, sortBy?: string, options: ApiRequestOptions = {}): Promise<SearchResults> {
+    const { dialect, token } = decodeToken(pageToken);
+    return scheduleOnMirrors(`search:${dialect ?? ''}:${query}|${token ?? ''}|${sortBy ?? ''}`, async (adapter, fetchJson) => {
+        const results = await adapter.search(fetchJson, { query, page: token, sortBy });
+        return { ...results, nextPageToken: encodeToken(adapter.dialect, results.nextPageToken) };
+    }, { ...options, dialects: dialect ? [dialect] : undefined });
+}
+
+export async function getComments(videoId: string, sortBy: 'top' | 'newest' = 'top', continuation?: string, options: ApiRequestOptions = {}): Promise<CommentResponse> {
+    const { dialect, token } = decodeToken(continuation);
+    return scheduleOnMirrors(`comments:${dialect ?? ''}:${videoId}|${sortBy}|${token ?? ''}`, async (adapter, fetchJson) => {
+        const response = await adapter.getComments(fetchJson, { videoId, sortBy, continuation: token });
+        return withEncodedTokens(adapter.dialect, response);
+    }, { ...options, dialects: dialect ? [dialect] : undefined });
+}
+
+// Reply tokens are dialect-prefixed like page tokens, so a thread is always expanded on the backend family that listed it.
+export async function getCommentReplies(videoId: string, continuation: string, options: ApiRequestOptions = {}): Promise<CommentResponse> {
+    const { dialect, token } = decodeToken(continuation);
+    if (!token) return { comments: [] };
+    return scheduleOnMirrors(`replies:${dialect ?? ''}:${videoId}|${token}`, async (adapter, fetchJson) => {
+        const response = await adapter.getCommentReplies(fetchJson, { videoId, continuation: token });
+        return withEncodedTokens(adapter.dialect, response);
+    }, { ...options, dialects: dialect ? [dialect] : undefined });
+}
+
+// --- LIVE CHAT ---
+// Chat only exists on youtubei backends. Live chat is polled at the interval the
+// server asks for; a replay is fetched page by page, just far enough ahead of the
+// player, and restarts from a new offset when the viewer seeks outside what is loaded.
+
+export interface LiveChatRequest {
+    continuation?: string;
+    replay?: boolean;
+    offsetMs?: number;        // Replay only: start from this position instead of a continuation
 }
 
-export async function getComments(videoId: string, sortBy: 'top' | 'newest' = 'top', continuation?: string): Promise<CommentResponse> {
+export async function getLiveChat(videoId: string, { continuation, replay, offsetMs }: LiveChatRequest = {}, options: ApiRequestOptions = {}): Promise<LiveChatResponse> {
     const params = new URLSearchParams({ id: videoId });
-    if (sortBy === 'newest') params.set('sort_by', 'newest');
     if (continuation) params.set('continuation', continuation);
-    const data = await apiFetch(`comments?${params.toString()}`);
-    return { comments: (data.comments as Comment[]) ?? [], continuation: data.continuation };
+    if (replay) params.set('replay', '1');
+    if (offsetMs !== undefined) params.set('offset', String(Math.max(0, Math.floor(offsetMs))));
+    const data = await apiFetch(`live-chat?${params.toString()}`, options);
+    recordValidation('live-chat', validateShape(LIVE_CHAT_RESPONSE_SHAPE, data), videoId);
+    return parseLiveChat(data);
 }
 
-export async function getVideosByIds(videoIds: string[]): Promise<Video[]> {
+export interface LiveChatClientOptions {
+    replay?: boolean;
+    // Replay only: the player position, so pages are fetched just ahead of playback
+    getPositionMs?: () => number;
+    // `reset` means the messages replace everything received so far (a replay seek)
+    onMessages: (messages: LiveChatMessage[], reset: boolean) => void;
+    // Called with null once a request succeeds again
+    onError?: (error: ApiError | null) => void;
+    // The live stream ended or chat is unavailable; a replay can still be restarted by seeking
+    onEnd?: () => void;
+}
+
+export interface LiveChatClient {
+    seek(positionMs: number): void;
+    stop(): void;
+}
+
+const LIVE_CHAT_MIN_INTERVAL_MS = 1000;
+const LIVE_CHAT_MAX_INTERVAL_MS = 10 * 1000;
+const LIVE_CHAT_DEFAULT_INTERVAL_MS = 5000;
+const REPLAY_LOOKAHEAD_MS = 30 * 1000;
+const REPLAY_CHECK_INTERVAL_MS = 1000;
+
+export function createLiveChatClient(videoId: string, { replay = false, getPositionMs = () => 0, onMessages, onError, onEnd }: LiveChatClientOptions): LiveChatClient {
+    const controller = new AbortController();
+    const { signal } = controller;
+    let continuation: string | undefined;
+    let pendingSeekMs: number | null = replay ? getPositionMs() : null;
+    // Replay offsets covered by the messages fetched since the last seek
+    let bufferedFromMs = Infinity;
+    let bufferedUntilMs = -Infinity;
+    let failures = 0;
+    let wake: (() => void) | null = null;
+
+    const sleep = (ms: number) => new Promise<void>(resolve => {
+        const done = () => { clearTimeout(timer); wake = null; resolve(); };
+        const timer = setTimeout(done, ms);
+        wake = done;
+    });
+
+    const run = async () => {
+        while (!signal.aborted) {
+            if (replay && pendingSeekMs === null && (!continuation || bufferedUntilMs > getPositionMs() + REPLAY_LOOKAHEAD_MS)) {
+                await sleep(REPLAY_CHECK_INTERVAL_MS);
+                continue;
+            }
+            const seekMs = pendingSeekMs;
+            pendingSeekMs = null;
+            try {
+                const response = await getLiveChat(videoId, seekMs !== null ? { replay, offsetMs: seekMs } : { continuation, replay }, { signal });
+                if (signal.aborted) return;
+                if (failures > 0) onError?.(null);
+                failures = 0;
+                continuation = response.continuation;
+                const previousUntilMs = bufferedUntilMs;
+                if (seekMs !== null) {
+                    bufferedFromMs = seekMs;
+                    bufferedUntilMs = seekMs;
+                }
+                for (const message of response.messages) {
+                    if (message.offsetMs !== undefined) bufferedUntilMs = Math.max(bufferedUntilMs, message.offsetMs);
+                }
+                // A replay page that reaches no further than the last one is the end; some
+                // backends answer the final continuation with the same page again
+                if (replay && seekMs === null && bufferedUntilMs <= previousUntilMs) continuation = undefined;
+                onMessages(response.messages, seekMs !== null);
+                if (!continuation) {
+                    onEnd?.();
+                    if (!replay) return;
+                    continue;
+                }
+                if (!replay) {
+                    const interval = response.pollIntervalMs ?? LIVE_CHAT_DEFAULT_INTERVAL_MS;
+                    await sleep(Math.min(Math.max(interval, LIVE_CHAT_MIN_INTERVAL_MS), LIVE_CHAT_MAX_INTERVAL_MS));
+                }
+            } catch (err) {
+                if (isAbortError(err) || signal.aborted) return;
+                const error = toApiError(err);
+                onError?.(error);
+                // Chat turned off or a private stream: polling again will not help
+                if (!error.policy.tryOtherMirrors) {
+                    onEnd?.();
+                    return;
+                }
+                if (pendingSeekMs === null) pendingSeekMs = seekMs;
+                await sleep(backoffDelay(error, failures++));
+            }
+        }
+    };
+    run();
+
+    return {
+        seek(positionMs: number) {
+            if (!replay || (positionMs >= bufferedFromMs && positionMs <= bufferedUntilMs + REPLAY_LOOKAHEAD_MS)) return;
+            pendingSeekMs = positionMs;
+            wake?.();
+        },
+        stop() {
+            controller.abort();
+            wake?.();
+        },
+    };
+}
+
+export async function getVideosByIds(videoIds: string[], options: ApiRequestOptions = {}): Promise<Video[]> {
     if (videoIds.length === 0) return [];
-    const results = await Promise.all(videoIds.map(id => getVideoDetails(id).catch(() => null)));
+    // The request queue throttles this fan-out, so long playlists don't flood the mirrors
+    const results = await Promise.all(videoIds.map(id => getVideoDetails(id, options).catch(() => null)));
+    if (options.signal?.aborted) throw createAbortError();
     return results.filter((v): v is Video => v !== null);
 }
 
-export async function getChannelDetails(channelId: string): Promise<ChannelDetails> {
-    const data = await apiFetch(`channel?id=${channelId}`);
+export async function getChannelDetails(channelId: string, options: ApiRequestOptions = {}): Promise<ChannelDetails> {
+    const data = await apiFetch(`channel?id=${channelId}`, options);
+    recordValidation('channel', validateShape(CHANNEL_RESPONSE_SHAPE, data), channelId);
     const channelMeta = data.channel;
-    if (!channelMeta) throw new Error(`Channel not found.`);
+    if (!channelMeta) throw new NotFoundError('チャンネルが見つかりませんでした。');
     return { 
         id: channelId, name: channelMeta.name ?? 'No Name', 
         avatarUrl: typeof channelMeta.avatar === 'string' ? channelMeta.avatar : channelMeta.avatar?.[0]?.url || channelMeta.avatar?.url, 
@@ -366,44 +528,67 @@ export async function getChannelDetails(channelId: string): Promise<ChannelDetai
     };
 }
 
-export async function getChannelVideos(channelId: string, pageToken = '1', sort: 'latest' | 'popular' | 'oldest' = 'latest'): Promise<{ videos: Video[], nextPageToken?: string }> {
-    let url = `channel?id=${channelId}&page=${pageToken}`;
-    if (sort !== 'latest') url += `&sort=${sort}`;
-    const data = await apiFetch(url);
-    const videos = data.videos?.map(mapYoutubeiVideoToVideo).filter((v:any): v is Video => v !== null) ?? [];
-    return { videos, nextPageToken: videos.length > 0 ? String(parseInt(pageToken) + 1) : undefined };
+// Channel lists follow the backend's continuation tokens (utils/paging); nextPageToken is undefined at the end of the list.
+export async function getChannelVideos(channelId: string, pageToken = FIRST_PAGE, sort: 'latest' | 'popular' | 'oldest' = 'latest', options: ApiRequestOptions = {}): Promise<{ videos: Video[], nextPageToken?: string }> {
+    const load = async (signal = options.signal) => {
+        let url = `channel?id=${channelId}&${pageQuery(pageToken)}`;
+        if (sort !== 'latest') url += `&sort=${sort}`;
+        const data = await apiFetch(url, { ...options, signal });
+        const videos = mapList('channel', data.videos, mapYoutubeiVideoToVideo);
+        return { videos, nextPageToken: resolveNextPageToken(data, pageToken, videos.length) };
+    };
+    // The first page is always refetched but kept so ChannelPage can paint it instantly next time
+    if (isFirstPage(pageToken) && sort === 'latest') return fetchWithCache('channel', `channel-videos-${channelId}-1-latest`, load, { ttl: 0, signal: options.signal });
+    return load();
 }
 
-export async function getChannelShorts(channelId: string, sort: 'latest' | 'popular' = 'latest', pageToken = '1'): Promise<{ videos: Video[], nextPageToken?: string }> {
-    let url = `channel-shorts?id=${channelId}&sort=${sort}&page=${pageToken}`;
-    const data = await apiFetch(url);
-    const videos = (Array.isArray(data) ? data : (data.videos || [])).map(mapYoutubeiVideoToVideo).filter((v:any): v is Video => v !== null) ?? [];
-    return { videos, nextPageToken: videos.length > 0 ? String(parseInt(pageToken) + 1) : undefined };
+export async function getChannelShorts(channelId: string, sort: 'latest' | 'popular' = 'latest', pageToken = FIRST_PAGE, options: ApiRequestOptions = {}): Promise<{ videos: Video[], nextPageToken?: string }> {
+    const data = await apiFetch(`channel-shorts?id=${channelId}&sort=${sort}&${pageQuery(pageToken)}`, options);
+    const videos = mapList('channel-shorts', Array.isArray(data) ? data : data.videos, mapYoutubeiVideoToVideo);
+    return { videos, nextPageToken: resolveNextPageToken(data, pageToken, videos.length) };
 }
 
-export async function getChannelLive(channelId: string): Promise<{ videos: Video[] }> {
-    const data = await apiFetch(`channel-live?id=${channelId}`);
-    return { videos: (Array.isArray(data.videos) ? data.videos : []).map(mapYoutubeiVideoToVideo).filter((v:any): v is Video => v !== null) ?? [] };
+export async function getChannelLive(channelId: string, options: ApiRequestOptions = {}): Promise<{ videos: Video[] }> {
+    const data = await apiFetch(`channel-live?id=${channelId}`, options);
+    return { videos: mapList('channel-live', data.videos, mapYoutubeiVideoToVideo) };
 }
 
-export async function getChannelCommunity(channelId: string): Promise<{ posts: CommunityPost[] }> {
-    const data = await apiFetch(`channel-community?id=${channelId}`);
+export async function getChannelCommunity(channelId: string, options: ApiRequestOptions = {}): Promise<{ posts: CommunityPost[] }> {
+    const data = await apiFetch(`channel-community?id=${channelId}`, options);
     return { posts: (data.posts || []).map((post: any) => ({ id: post.id, text: post.text, publishedTime: post.publishedTime, likeCount: formatJapaneseNumber(post.likeCount), author: { name: post.author?.name || 'Unknown', avatar: post.author?.avatar || '' }, attachment: post.attachment })) };
 }
 
-export async function getChannelPlaylists(channelId: string): Promise<{ playlists: ApiPlaylist[] }> {
-    const data = await apiFetch(`channel-playlists?id=${channelId}`);
-    return { playlists: (data.playlists || []).map((p:any) => ({ id: p.id, title: p.title, thumbnailUrl: p.thumbnails?.[0]?.url, videoCount: 0, author: p.author?.name, authorId: p.author?.id })) };
+const mapChannelPlaylist = (p: any): ApiPlaylist => ({
+    id: p.id, title: p.title?.text ?? p.title, thumbnailUrl: p.thumbnails?.[0]?.url ?? p.thumbnail?.[0]?.url,
+    videoCount: parseInt(String(p.video_count?.text ?? p.video_count ?? p.videoCount ?? '0').replace(/[^0-9]/g, '') || '0'),
+    author: p.author?.name, authorId: p.author?.id
+});
+
+export async function getChannelPlaylists(channelId: string, pageToken = FIRST_PAGE, options: ApiRequestOptions = {}): Promise<{ playlists: ApiPlaylist[], nextPageToken?: string }> {
+    const data = await apiFetch(`channel-playlists?id=${channelId}&${pageQuery(pageToken)}`, options);
+    const playlists = (Array.isArray(data.playlists) ? data.playlists : []).map(mapChannelPlaylist).filter((p: ApiPlaylist) => !!p.id);
+    return { playlists, nextPageToken: resolveNextPageToken(data, pageToken, playlists.length) };
 }
 
-export async function getPlaylistDetails(playlistId: string): Promise<PlaylistDetails> {
-    const data = await apiFetch(`playlist?id=${playlistId}`);
-    return { title: data.info?.title, author: data.info?.author?.name, authorId: data.info?.author?.id, description: data.info?.description, videos: (data.videos || []).map(mapYoutubeiVideoToVideo).filter((v:any): v is Video => v !== null) };
+export async function getPlaylistDetails(playlistId: string, options: ApiRequestOptions = {}): Promise<PlaylistDetails> {
+    const data = await apiFetch(`playlist?id=${playlistId}`, options);
+    return { title: data.info?.title, author: data.info?.author?.name, authorId: data.info?.author?.id, description: data.info?.description, videos: mapList('playlist', data.videos, mapYoutubeiVideoToVideo) };
 }
 
-export async function getChannelHome(channelId: string): Promise<ChannelHomeData> {
-    const response = await smartFetch(`${SIAWASE_API_BASE}/channel/${channelId}`);
-    return await response.json();
+export async function getChannelHome(channelId: string, options: ApiRequestOptions = {}): Promise<ChannelHomeData> {
+    let lastError: any = new Error('No channel home API available');
+    const bases = USE_MOCK_BACKEND ? [MOCK_API_BASE] : [...getBackendBases('channelHome'), SIAWASE_API_BASE];
+    for (const base of bases) {
+        try {
+            const response = await smartFetch(`${base}/api/channel/${channelId}`, { signal: options.signal });
+            if (!response.ok) throw new Error(`Status ${response.status}`);
+            return await response.json();
+        } catch (err) {
+            if (isAbortError(err)) throw err;
+            lastError = err;
+        }
+    }
+    throw lastError;
 }
 
 export const mapHomeVideoToVideo = (homeVideo: HomeVideo, channelData?: Partial<ChannelDetails>): Video => ({
@@ -0,0 +1,79 @@
+import { PITCH_SHIFTER_PROCESSOR, PITCH_SHIFTER_SOURCE } from './pitchShifterWorklet';
+
+// --- Transpose (Pitch Shift) ---
+// Routes a media element through the pitch shifter worklet so the key can change
+// without changing tempo; speed stays on playbackRate (with preservesPitch), so the
+// two are independent. An element can be connected to Web Audio only once, so the
+// chain is created on first use and kept for the element's lifetime; transpose 0
+// just passes the audio through.
+// Only same-origin media (MSE blob URLs from hls.js or the adaptive engine) can be
+// routed: a cross-origin progressive file would play silent through Web Audio.
+
+export const MIN_TRANSPOSE = -12;
+export const MAX_TRANSPOSE = 12;
+
+interface PitchChain {
+    node: AudioWorkletNode;
+    context: AudioContext;
+}
+
+let context: AudioContext | null = null;
+let moduleReady: Promise<void> | null = null;
+const chains = new WeakMap<HTMLMediaElement, Promise<PitchChain>>();
+
+export const isTransposeSupported = () =>
+    typeof window !== 'undefined' && typeof AudioContext !== 'undefined' && typeof AudioWorkletNode !== 'undefined';
+
+const getContext = (): AudioContext => {
+    if (!context) {
+        const audioContext = new AudioContext();
+        // Without a prior user gesture the context starts suspended and routed media would be silent
+        const resume = () => {
+            audioContext.resume().then(() => {
+                document.removeEventListener('pointerdown', resume);
+                document.removeEventListener('keydown', resume);
+            }).catch(() => {});
+        };
+        document.addEventListener('pointerdown', resume);
+        document.addEventListener('keydown', resume);
+        context = audioContext;
+    }
+    return context;
+};
+
+const loadModule = (audioContext: AudioContext): Promise<void> => {
+    if (!moduleReady) {
+        const url = URL.createObjectURL(new Blob([PITCH_SHIFTER_SOURCE], { type: 'application/javascript' }));
+        moduleReady = audioContext.audioWorklet.addModule(url).finally(() => URL.revokeObjectURL(url));
+        moduleReady.catch(() => { moduleReady = null; });
+    }
+    return moduleReady;
+};
+
+const getChain = (media: HTMLMediaElement): Promise<PitchChain> => {
+    let chain = chains.get(media);
+    if (!chain) {
+        chain = (async () => {
+            const audioContext = getContext();
+            await loadModule(audioContext);
+            const node = new AudioWorkletNode(audioContext, PITCH_SHIFTER_PROCESSOR, { outputChannelCount: [2] });
+            audioContext.createMediaElementSource(media).connect(node).connect(audioContext.destination);
+            return { node, context: audioContext };
+        })();
+        chain.catch(() => chains.delete(media));
+        chains.set(media, chain);
+    }
+    return chain;
+};
+
+export const semitonesToRatio = (semitones: number) => Math.pow(2, semitones / 12);
+
+// Applies a transpose in semitones; 0 on an element that was never shifted leaves it untouched.
+export const setTranspose = async (media: HTMLMediaElement, semitones: number): Promise<void> => {
+    if (!isTransposeSupported()) throw new Error('Web Audio is not available');
+    if (semitones === 0 && !chains.has(media)) return;
+    const { node, context: audioContext } = await getChain(media);
+    const clamped = Math.min(Math.max(semitones, MIN_TRANSPOSE), MAX_TRANSPOSE);
+    node.parameters.get('pitchRatio')!.setValueAtTime(semitonesToRatio(clamped), audioContext.currentTime);
+    if (audioContext.state === 'suspended') audioContext.resume().catch(() => {});
+};
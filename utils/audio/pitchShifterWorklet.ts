@@ -0,0 +1,79 @@
+// Source of the pitch shifter AudioWorklet. Worklets must be loaded as a separate
+// module; it is kept inline and loaded from a Blob URL so the fixed-name bundle
+// (see vite.config.ts) needs no extra asset.
+//
+// Algorithm: a delay-line (granular) shifter. Two read heads sweep through a short
+// window of recent input at `pitchRatio` times the write speed, half a window apart,
+// and are crossfaded with complementary sin² weights so each restart is inaudible.
+// Tempo is untouched because the output consumes input at the normal rate.
+
+export const PITCH_SHIFTER_PROCESSOR = 'pitch-shifter';
+
+export const PITCH_SHIFTER_SOURCE = `
+const WINDOW = 2048;
+const BUFFER = 8192;
+
+class PitchShifterProcessor extends AudioWorkletProcessor {
+    static get parameterDescriptors() {
+        return [{ name: 'pitchRatio', defaultValue: 1, minValue: 0.25, maxValue: 4, automationRate: 'k-rate' }];
+    }
+
+    constructor() {
+        super();
+        this.buffers = [];
+        this.writeIndex = 0;
+        this.phase = 0;
+    }
+
+    read(buffer, delay) {
+        const position = this.writeIndex - delay;
+        const base = Math.floor(position);
+        const frac = position - base;
+        const a = buffer[(base + BUFFER) % BUFFER];
+        const b = buffer[(base + 1 + BUFFER) % BUFFER];
+        return a + (b - a) * frac;
+    }
+
+    process(inputs, outputs, parameters) {
+        const input = inputs[0];
+        const output = outputs[0];
+        if (!input || input.length === 0) return true;
+
+        const ratio = parameters.pitchRatio[0];
+        while (this.buffers.length < input.length) this.buffers.push(new Float32Array(BUFFER));
+
+        const frames = input[0].length;
+        const step = (1 - ratio) / WINDOW;
+        const startIndex = this.writeIndex;
+        const startPhase = this.phase;
+
+        for (let ch = 0; ch < output.length; ch++) {
+            const source = input[Math.min(ch, input.length - 1)];
+            const target = output[ch];
+            const buffer = this.buffers[Math.min(ch, input.length - 1)];
+            this.writeIndex = startIndex;
+            this.phase = startPhase;
+
+            for (let i = 0; i < frames; i++) {
+                if (ch < input.length) buffer[this.writeIndex] = source[i];
+
+                if (ratio === 1) {
+                    target[i] = source[i];
+                } else {
+                    const phaseB = (this.phase + 0.5) % 1;
+                    const gainA = Math.sin(Math.PI * this.phase) ** 2;
+                    const gainB = Math.sin(Math.PI * phaseB) ** 2;
+                    // +1 keeps the newest read head one sample behind the write position
+                    target[i] = this.read(buffer, this.phase * WINDOW + 1) * gainA + this.read(buffer, phaseB * WINDOW + 1) * gainB;
+                }
+
+                this.writeIndex = (this.writeIndex + 1) % BUFFER;
+                this.phase = ((this.phase + step) % 1 + 1) % 1;
+            }
+        }
+        return true;
+    }
+}
+
+registerProcessor('${PITCH_SHIFTER_PROCESSOR}', PitchShifterProcessor);
+`;
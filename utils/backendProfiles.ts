@@ -0,0 +1,67 @@
+// --- Backend Profiles ---
+// User-configured base URLs that are tried ahead of the built-in servers.
+// PreferenceContext owns the editable state; this module keeps the active copy
+// so non-React code (utils/api.ts, AuthContext) can read it synchronously.
+
+import type { BackendDialect } from './adapters/types';
+
+export type BackendKind = 'video' | 'channelHome' | 'auth';
+
+export interface BackendProfile {
+    id: string;
+    kind: BackendKind;
+    baseUrl: string;
+    enabled: boolean;
+    verifiedAt?: string;
+    dialect?: BackendDialect;   // Video backends only; profiles saved before adapters existed are youtubei
+}
+
+export const BACKEND_PROFILES_KEY = 'backendProfiles';
+
+export const BACKEND_KIND_LABELS: Record<BackendKind, string> = {
+    video: '動画API',
+    channelHome: 'チャンネルホームAPI',
+    auth: 'ログイン・同期API',
+};
+
+type Listener = () => void;
+
+const readStoredProfiles = (): BackendProfile[] => {
+    try {
+        const stored = JSON.parse(localStorage.getItem(BACKEND_PROFILES_KEY) || '[]');
+        return Array.isArray(stored) ? stored.filter(p => p && typeof p.baseUrl === 'string') : [];
+    } catch (e) {
+        return [];
+    }
+};
+
+let activeProfiles: BackendProfile[] = typeof localStorage !== 'undefined' ? readStoredProfiles() : [];
+const listeners = new Set<Listener>();
+
+export const normalizeBaseUrl = (raw: string): string => {
+    let url = raw.trim();
+    if (!url) return '';
+    if (!/^https?:\/\//.test(url)) url = 'https://' + url;
+    // Users often paste the /api (or Invidious /api/v1) root; the adapters append it themselves.
+    return url.replace(/\/+$/, '').replace(/\/api(\/v1)?$/, '');
+};
+
+export const getBackendProfiles = (): BackendProfile[] => activeProfiles;
+
+export const setBackendProfiles = (profiles: BackendProfile[]) => {
+    activeProfiles = profiles;
+    listeners.forEach(listener => listener());
+};
+
+// Enabled base URLs of one kind, in the user's order.
+export const getBackendBases = (kind: BackendKind): string[] =>
+    activeProfiles.filter(p => p.kind === kind && p.enabled).map(p => p.baseUrl);
+
+// Enabled video backends with the API format each one speaks.
+export const getVideoBackends = (): { baseUrl: string; dialect: BackendDialect }[] =>
+    activeProfiles.filter(p => p.kind === 'video' && p.enabled).map(p => ({ baseUrl: p.baseUrl, dialect: p.dialect || 'youtubei' }));
+
+export const subscribeBackendProfiles = (listener: Listener) => {
+    listeners.add(listener);
+    return () => { listeners.delete(listener); };
+};
@@ -0,0 +1,243 @@
+// --- API Response Cache (IndexedDB) ---
+// API responses live in their own IndexedDB database so that cache pressure can
+// never touch user data (history, subscriptions, playlists) in localStorage.
+// Entries belong to a namespace with its own freshness TTL and a longer stale
+// window; the store as a whole is kept under a byte budget by evicting the
+// least recently used entries. Falls back to an in-memory map when IndexedDB
+// is unavailable (private browsing, some embedded webviews).
+
+export type CacheNamespace = 'video' | 'stream' | 'feed' | 'channel' | 'config';
+
+export interface CacheNamespaceConfig {
+    ttl: number;        // Fresh for this long
+    maxStale: number;   // May still be served (and revalidated in the background) until this age
+    hardExpiry?: boolean; // Never served past maxStale, not even offline or when the refetch fails
+}
+
+export interface CacheEntry<T = any> {
+    key: string;
+    namespace: CacheNamespace;
+    data: T;
+    storedAt: number;
+    lastAccess: number;
+    size: number;
+}
+
+const HOUR = 60 * 60 * 1000;
+const DAY = 24 * HOUR;
+
+export const CACHE_NAMESPACES: Record<CacheNamespace, CacheNamespaceConfig> = {
+    video: { ttl: 6 * HOUR, maxStale: 30 * DAY },
+    // Stream URLs are signed and expire, so a stale one is never useful
+    stream: { ttl: HOUR, maxStale: HOUR, hardExpiry: true },
+    feed: { ttl: 10 * 60 * 1000, maxStale: 7 * DAY },
+    channel: { ttl: 30 * 60 * 1000, maxStale: 7 * DAY },
+    config: { ttl: DAY, maxStale: 30 * DAY },
+};
+
+const DB_NAME = 'xeroxyt-cache';
+const DB_VERSION = 1;
+const STORE = 'entries';
+const MAX_TOTAL_BYTES = 40 * 1024 * 1024;
+// Evict down to this fraction of the budget so we don't evict on every write
+const EVICT_TARGET_RATIO = 0.8;
+const MAX_MEMORY_ENTRIES = 300;
+
+// Legacy localStorage keys written by the old cache, mapped to their namespace.
+// Only these prefixes are ever read or removed during migration.
+const LEGACY_PREFIXES: { prefix: RegExp; current: string | null; namespace: CacheNamespace }[] = [
+    { prefix: /^video-details-v\d+-/, current: 'video-details-v9-', namespace: 'video' },
+    // Signed stream URLs would have expired by now, so these are dropped, never carried over
+    { prefix: /^stream-data-v\d+-/, current: null, namespace: 'stream' },
+    { prefix: /^channel-videos-/, current: 'channel-videos-', namespace: 'channel' },
+    { prefix: /^home-feed-videos$/, current: 'home-feed-videos', namespace: 'feed' },
+    { prefix: /^player-config$/, current: 'player-config', namespace: 'config' },
+];
+
+let dbPromise: Promise<IDBDatabase | null> | null = null;
+const memoryStore = new Map<string, CacheEntry>();
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> => new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+});
+
+const transactionDone = (tx: IDBTransaction): Promise<void> => new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+});
+
+const openDb = (): Promise<IDBDatabase | null> => {
+    if (dbPromise) return dbPromise;
+    dbPromise = new Promise(resolve => {
+        if (typeof indexedDB === 'undefined') return resolve(null);
+        try {
+            const request = indexedDB.open(DB_NAME, DB_VERSION);
+            request.onupgradeneeded = () => {
+                const db = request.result;
+                if (!db.objectStoreNames.contains(STORE)) db.createObjectStore(STORE, { keyPath: 'key' });
+            };
+            request.onsuccess = () => resolve(request.result);
+            request.onerror = () => resolve(null);
+            request.onblocked = () => resolve(null);
+        } catch (e) {
+            resolve(null);
+        }
+    });
+    return dbPromise;
+};
+
+const estimateSize = (data: any): number => {
+    try {
+        return JSON.stringify(data)?.length ?? 0;
+    } catch (e) {
+        return 0;
+    }
+};
+
+const isQuotaError = (error: any) => error?.name === 'QuotaExceededError';
+
+export const isEntryFresh = (entry: CacheEntry, ttl = CACHE_NAMESPACES[entry.namespace].ttl) =>
+    Date.now() - entry.storedAt < ttl;
+
+export const isEntryUsable = (entry: CacheEntry) =>
+    Date.now() - entry.storedAt < Math.max(CACHE_NAMESPACES[entry.namespace].maxStale, CACHE_NAMESPACES[entry.namespace].ttl);
+
+export async function cacheGet<T = any>(key: string): Promise<CacheEntry<T> | null> {
+    const db = await openDb();
+    if (!db) {
+        const entry = memoryStore.get(key) || null;
+        if (entry) entry.lastAccess = Date.now();
+        return entry;
+    }
+    try {
+        const tx = db.transaction(STORE, 'readwrite');
+        const store = tx.objectStore(STORE);
+        const entry: CacheEntry<T> | undefined = await requestToPromise(store.get(key));
+        if (!entry) return null;
+        entry.lastAccess = Date.now();
+        store.put(entry);
+        return entry;
+    } catch (e) {
+        return null;
+    }
+}
+
+// Removes least recently used entries until the store fits the budget again.
+async function evict(db: IDBDatabase, bytesNeeded = 0): Promise<void> {
+    const tx = db.transaction(STORE, 'readwrite');
+    const store = tx.objectStore(STORE);
+    const entries: CacheEntry[] = await requestToPromise(store.getAll());
+    let total = entries.reduce((sum, e) => sum + e.size, 0) + bytesNeeded;
+    if (total <= MAX_TOTAL_BYTES && bytesNeeded === 0) return;
+    const target = MAX_TOTAL_BYTES * EVICT_TARGET_RATIO;
+    entries.sort((a, b) => a.lastAccess - b.lastAccess);
+    for (const entry of entries) {
+        if (total <= target) break;
+        store.delete(entry.key);
+        total -= entry.size;
+    }
+    await transactionDone(tx);
+}
+
+let writesSinceEviction = 0;
+
+export async function cacheSet<T>(namespace: CacheNamespace, key: string, data: T, storedAt = Date.now()): Promise<void> {
+    if (data === undefined) return;
+    const entry: CacheEntry<T> = { key, namespace, data, storedAt, lastAccess: Date.now(), size: estimateSize(data) };
+    const db = await openDb();
+    if (!db) {
+        memoryStore.delete(key);
+        memoryStore.set(key, entry);
+        // Map iteration order is insertion order, so the first key is the oldest write
+        if (memoryStore.size > MAX_MEMORY_ENTRIES) memoryStore.delete(memoryStore.keys().next().value!);
+        return;
+    }
+    const write = async () => {
+        const tx = db.transaction(STORE, 'readwrite');
+        tx.objectStore(STORE).put(entry);
+        await transactionDone(tx);
+    };
+    try {
+        await write();
+        // Checking the total on every write would mean reading the whole store each time
+        if (++writesSinceEviction >= 25) {
+            writesSinceEviction = 0;
+            await evict(db);
+        }
+    } catch (error) {
+        if (!isQuotaError(error)) return;
+        try {
+            await evict(db, entry.size);
+            await write();
+        } catch (e) { /* Give up on caching this entry; the response is still returned */ }
+    }
+}
+
+export async function cacheDelete(key: string): Promise<void> {
+    memoryStore.delete(key);
+    const db = await openDb();
+    if (!db) return;
+    try {
+        const tx = db.transaction(STORE, 'readwrite');
+        tx.objectStore(STORE).delete(key);
+        await transactionDone(tx);
+    } catch (e) { /* ignore */ }
+}
+
+export async function clearCache(namespace?: CacheNamespace): Promise<void> {
+    for (const [key, entry] of memoryStore) {
+        if (!namespace || entry.namespace === namespace) memoryStore.delete(key);
+    }
+    const db = await openDb();
+    if (!db) return;
+    const tx = db.transaction(STORE, 'readwrite');
+    const store = tx.objectStore(STORE);
+    if (!namespace) {
+        store.clear();
+    } else {
+        const entries: CacheEntry[] = await requestToPromise(store.getAll());
+        entries.filter(e => e.namespace === namespace).forEach(e => store.delete(e.key));
+    }
+    await transactionDone(tx);
+}
+
+export async function getCacheStats(): Promise<{ namespace: CacheNamespace; count: number; bytes: number }[]> {
+    const db = await openDb();
+    const entries: CacheEntry[] = db
+        ? await requestToPromise(db.transaction(STORE, 'readonly').objectStore(STORE).getAll())
+        : Array.from(memoryStore.values());
+    return (Object.keys(CACHE_NAMESPACES) as CacheNamespace[]).map(namespace => {
+        const inNamespace = entries.filter(e => e.namespace === namespace);
+        return { namespace, count: inNamespace.length, bytes: inNamespace.reduce((sum, e) => sum + e.size, 0) };
+    });
+}
+
+// One-time move of the old localStorage cache into IndexedDB. Entries from the
+// current key versions are carried over, outdated versions are dropped, and
+// every other localStorage key is left untouched.
+export async function migrateLegacyCache(): Promise<void> {
+    if (typeof localStorage === 'undefined') return;
+    const legacyKeys: string[] = [];
+    for (let i = 0; i < localStorage.length; i++) {
+        const key = localStorage.key(i);
+        if (key && LEGACY_PREFIXES.some(l => l.prefix.test(key))) legacyKeys.push(key);
+    }
+    if (legacyKeys.length === 0) return;
+
+    for (const key of legacyKeys) {
+        const legacy = LEGACY_PREFIXES.find(l => l.prefix.test(key))!;
+        try {
+            if (legacy.current && key.startsWith(legacy.current)) {
+                const item = JSON.parse(localStorage.getItem(key) || 'null');
+                if (item && item.data !== undefined && (await cacheGet(key)) === null) {
+                    // The original write time is unknown; store it as just expired so it is
+                    // served once and refreshed in the background.
+                    await cacheSet(legacy.namespace, key, item.data, Date.now() - CACHE_NAMESPACES[legacy.namespace].ttl);
+                }
+            }
+        } catch (e) { /* Unreadable entry, just drop it */ }
+        localStorage.removeItem(key);
+    }
+}
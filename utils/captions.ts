@@ -0,0 +1,147 @@
+import type { CaptionTrack } from '../types';
+
+// --- Captions ---
+// Caption files come as WebVTT (Invidious, Piped), SRV3 (YouTube's timedtext XML)
+// or TTML. All of them are parsed into plain cues, which feed the transcript panel
+// and are written back out as WebVTT for a <track> element: a blob URL is
+// same-origin, so the track loads wherever the original file came from.
+
+export interface CaptionCue {
+    start: number;      // Seconds
+    end: number;
+    text: string;
+}
+
+// What the players render as a <track>
+export interface CaptionSource {
+    src: string;
+    label: string;
+    language: string;
+}
+
+const ENTITIES: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: ' ', '#39': "'" };
+
+const decodeEntities = (text: string) => text.replace(/&(#?\w+);/g, (match, name) => ENTITIES[name] ?? match);
+
+const VTT_TIMESTAMP = /(?:(\d+):)?(\d{2}):(\d{2})[.,](\d{3})/;
+
+const parseVttTime = (value: string): number => {
+    const match = value.match(VTT_TIMESTAMP);
+    if (!match) return NaN;
+    return parseInt(match[1] || '0') * 3600 + parseInt(match[2]) * 60 + parseInt(match[3]) + parseInt(match[4]) / 1000;
+};
+
+// TTML clock times ('00:01:02.500') or offsets ('62.5s', '62500ms')
+const parseTtmlTime = (value: string | null): number => {
+    if (!value) return NaN;
+    const offset = value.match(/^([\d.]+)(h|m|s|ms)$/);
+    if (offset) return parseFloat(offset[1]) * { h: 3600, m: 60, s: 1, ms: 0.001 }[offset[2] as 'h' | 'm' | 's' | 'ms'];
+    const [h = '0', m = '0', s = '0'] = value.split(':');
+    return parseInt(h) * 3600 + parseInt(m) * 60 + parseFloat(s);
+};
+
+// Auto-generated tracks "roll": each cue repeats the previous cue's last line above the new one
+const mergeRollingCues = (cues: CaptionCue[]): CaptionCue[] => {
+    const merged: CaptionCue[] = [];
+    let previousLast = '';
+    for (const cue of cues) {
+        const lines = cue.text.split('\n').map(line => line.trim()).filter(Boolean);
+        const fresh = lines[0] === previousLast ? lines.slice(1) : lines;
+        if (lines.length > 0) previousLast = lines[lines.length - 1];
+        if (fresh.length === 0) continue;
+        merged.push({ ...cue, text: fresh.join('\n') });
+    }
+    return merged;
+};
+
+export const parseWebVtt = (text: string): CaptionCue[] => {
+    const cues: CaptionCue[] = [];
+    for (const block of text.replace(/\r\n?/g, '\n').split(/\n{2,}/)) {
+        const lines = block.split('\n');
+        const timingIndex = lines.findIndex(line => line.includes('-->'));
+        if (timingIndex === -1) continue;
+        const [startText, endText] = lines[timingIndex].split('-->');
+        const start = parseVttTime(startText);
+        const end = parseVttTime(endText.trim().split(/\s+/)[0]);
+        const body = decodeEntities(lines.slice(timingIndex + 1).join('\n').replace(/<[^>]+>/g, '')).trim();
+        if (!isFinite(start) || !isFinite(end) || !body) continue;
+        cues.push({ start, end, text: body });
+    }
+    return mergeRollingCues(cues);
+};
+
+// Text of a <p>, keeping <br> as line breaks
+const textOf = (element: Element): string => Array.from(element.childNodes)
+    .map(node => node.nodeName.toLowerCase() === 'br' ? '\n' : node.nodeType === Node.ELEMENT_NODE ? textOf(node as Element) : node.textContent || '')
+    .join('');
+
+// SRV3 (<p t="ms" d="ms">) and TTML (<p begin="..." end="...">) are both XML with one <p> per cue
+export const parseTimedTextXml = (xml: string): CaptionCue[] => {
+    const doc = new DOMParser().parseFromString(xml, 'text/xml');
+    if (doc.getElementsByTagName('parsererror').length > 0) return [];
+    const cues: CaptionCue[] = [];
+    for (const p of Array.from(doc.getElementsByTagName('p'))) {
+        const text = textOf(p).trim();
+        if (!text) continue;
+        let start: number;
+        let end: number;
+        if (p.hasAttribute('t')) {
+            start = parseInt(p.getAttribute('t')!) / 1000;
+            end = start + parseInt(p.getAttribute('d') || '0') / 1000;
+        } else {
+            start = parseTtmlTime(p.getAttribute('begin'));
+            const dur = parseTtmlTime(p.getAttribute('dur'));
+            end = p.hasAttribute('end') ? parseTtmlTime(p.getAttribute('end')) : start + (isFinite(dur) ? dur : 0);
+        }
+        if (!isFinite(start) || !isFinite(end)) continue;
+        cues.push({ start, end, text });
+    }
+    return mergeRollingCues(cues.sort((a, b) => a.start - b.start));
+};
+
+// The declared format is only a hint; mirrors sometimes answer with another one
+export const parseCaptions = (text: string, format: CaptionTrack['format']): CaptionCue[] => {
+    const head = text.trimStart();
+    if (head.startsWith('WEBVTT')) return parseWebVtt(text);
+    if (head.startsWith('<')) return parseTimedTextXml(text);
+    return format === 'vtt' ? parseWebVtt(text) : parseTimedTextXml(text);
+};
+
+const formatVttTime = (seconds: number) => {
+    const ms = Math.round(seconds * 1000);
+    const pad = (n: number, width = 2) => String(n).padStart(width, '0');
+    return `${pad(Math.floor(ms / 3600000))}:${pad(Math.floor(ms / 60000) % 60)}:${pad(Math.floor(ms / 1000) % 60)}.${pad(ms % 1000, 3)}`;
+};
+
+export const cuesToWebVtt = (cues: CaptionCue[]): string =>
+    'WEBVTT\n\n' + cues
+        .map(cue => `${formatVttTime(cue.start)} --> ${formatVttTime(Math.max(cue.end, cue.start + 0.001))}\n${cue.text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/-->/g, '→')}`)
+        .join('\n\n') + '\n';
+
+// The cue being spoken, or the last one before a gap, so the transcript keeps a line highlighted
+export const activeCueIndex = (cues: CaptionCue[], time: number): number => {
+    let low = 0;
+    let high = cues.length - 1;
+    let found = -1;
+    while (low <= high) {
+        const mid = (low + high) >> 1;
+        if (cues[mid].start <= time) {
+            found = mid;
+            low = mid + 1;
+        } else {
+            high = mid - 1;
+        }
+    }
+    return found;
+};
+
+// Hand-made captions in the UI language first, then auto-generated ones, then anything
+export const pickDefaultCaptionTrack = (tracks: CaptionTrack[], language = navigator.language): CaptionTrack | null => {
+    const base = language.split('-')[0].toLowerCase();
+    const inLanguage = (t: CaptionTrack) => t.languageCode.toLowerCase().split('-')[0] === base;
+    return tracks.find(t => inLanguage(t) && !t.isAutoGenerated)
+        || tracks.find(inLanguage)
+        || tracks.find(t => !t.isAutoGenerated)
+        || tracks[0]
+        || null;
+};
@@ -0,0 +1,99 @@
+import { parseDuration } from './format';
+
+// --- Description Timestamps ---
+// Uploaders list sections as lines like "12:34 サビ" or "1:02:03 - Outro". Each line
+// with a timestamp becomes an entry; the text around the timestamp is its label.
+
+export interface DescriptionTimestamp {
+    seconds: number;
+    label: string;
+}
+
+const TIMESTAMP_PATTERN = /(?:^|[^\d:])((?:\d{1,2}:)?\d{1,2}:\d{2})(?![\d:])/;
+const SEPARATORS = /^[\s\-–—:|・.)\]]+|[\s\-–—:|・(\[]+$/g;
+
+const toPlainText = (description: string) =>
+    description.replace(/<br\s*\/?>/gi, '\n').replace(/<[^>]+>/g, '').replace(/&amp;/g, '&').replace(/&nbsp;/g, ' ');
+
+export const extractTimestamps = (description: string): DescriptionTimestamp[] => {
+    if (!description) return [];
+    const entries: DescriptionTimestamp[] = [];
+    const seen = new Set<number>();
+    for (const line of toPlainText(description).split('\n')) {
+        const match = line.match(TIMESTAMP_PATTERN);
+        if (!match) continue;
+        const seconds = parseDuration('', match[1]);
+        if (seen.has(seconds)) continue;
+        seen.add(seconds);
+        const label = line.replace(match[1], ' ').replace(SEPARATORS, '').trim();
+        entries.push({ seconds, label });
+    }
+    return entries.sort((a, b) => a.seconds - b.seconds);
+};
+
+// The section starting at `index` runs until the next timestamp, or to the end of the video.
+export const sectionRange = (timestamps: DescriptionTimestamp[], index: number, duration: number): { a: number; b: number } | null => {
+    const start = timestamps[index]?.seconds;
+    if (start === undefined) return null;
+    const end = timestamps[index + 1]?.seconds ?? (duration > 0 ? Math.floor(duration) : null);
+    return end !== null && end > start ? { a: start, b: end } : null;
+};
+
+// --- Chapters ---
+// YouTube only treats description timestamps as chapters when the list starts at
+// 0:00 and has at least three entries; the same rule keeps a stray "3:00" in prose
+// from cutting the video into sections.
+
+export interface Chapter {
+    title: string;
+    start: number;   // Seconds
+    end: number;     // Start of the next chapter, or the duration (Infinity while unknown)
+}
+
+const MIN_CHAPTERS = 3;
+
+export const parseChapters = (description: string, duration = 0): Chapter[] => {
+    const timestamps = extractTimestamps(description).filter(t => !(duration > 0 && t.seconds >= duration));
+    if (timestamps.length < MIN_CHAPTERS || timestamps[0].seconds !== 0) return [];
+    return timestamps.map((timestamp, index) => ({
+        title: timestamp.label || `チャプター ${index + 1}`,
+        start: timestamp.seconds,
+        end: timestamps[index + 1]?.seconds ?? (duration > 0 ? duration : Infinity),
+    }));
+};
+
+export const chapterIndexAt = (chapters: Chapter[], time: number): number => {
+    for (let i = chapters.length - 1; i >= 0; i--) {
+        if (time >= chapters[i].start) return i;
+    }
+    return -1;
+};
+
+// --- Description Seek Links ---
+// Wraps timestamps in the description HTML with links carrying `data-seek`; the page
+// handles clicks on them by delegation. Tags are left alone so existing links keep
+// their URLs. Plain-text descriptions go through plainTextToHtml first, so nothing
+// in them is ever parsed as markup.
+
+export const SEEK_ATTRIBUTE = 'data-seek';
+
+const HTML_ESCAPES: Record<string, string> = { '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' };
+
+export const plainTextToHtml = (text: string): string =>
+    text.replace(/[&<>"']/g, char => HTML_ESCAPES[char]).replace(/\r?\n/g, '<br>');
+
+const INLINE_TIMESTAMP = /(^|[^\d:])((?:\d{1,2}:)?\d{1,2}:\d{2})(?![\d:])/g;
+
+export const linkifyTimestamps = (html: string): string => {
+    let insideLink = false;
+    return html.split(/(<[^>]+>)/).map(part => {
+        if (part.startsWith('<')) {
+            if (/^<a[\s>]/i.test(part)) insideLink = true;
+            else if (/^<\/a>/i.test(part)) insideLink = false;
+            return part;
+        }
+        if (insideLink) return part;
+        return part.replace(INLINE_TIMESTAMP, (_, prefix: string, timestamp: string) =>
+            `${prefix}<a href="#" ${SEEK_ATTRIBUTE}="${parseDuration('', timestamp)}" class="text-yt-blue hover:underline">${timestamp}</a>`);
+    }).join('');
+};
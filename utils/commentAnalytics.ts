@@ -0,0 +1,125 @@
+import type { Comment } from '../types';
+import { extractKeywords } from './xrai';
+import { tokenizeText } from './richText';
+
+// --- Comment Analytics ---
+// A statistical overview of the comments loaded for a video, computed on the
+// device without a model: keywords come from the same tokenizer as recommendations
+// (utils/xrai), sentiment from a small word list, language from the script used.
+// Everything counts comments, not occurrences, so one long comment cannot dominate.
+
+export type SentimentBucket = 'positive' | 'neutral' | 'negative';
+export type CommentLanguage = 'ja' | 'en' | 'ko' | 'zh' | 'other';
+
+export interface CommentAnalytics {
+    total: number;
+    keywords: { word: string; count: number }[];
+    timestamps: { seconds: number; label: string; count: number }[];
+    sentiment: Record<SentimentBucket, number>;
+    languages: { language: CommentLanguage; count: number }[];
+    // Identical (after normalization) comments posted several times
+    duplicates: { text: string; count: number; authors: number; hasLink: boolean }[];
+}
+
+export const LANGUAGE_LABELS: Record<CommentLanguage, string> = {
+    ja: '日本語',
+    en: '英語など',
+    ko: '韓国語',
+    zh: '中国語',
+    other: 'その他',
+};
+
+const MAX_KEYWORDS = 15;
+const MAX_TIMESTAMPS = 5;
+const MAX_DUPLICATES = 5;
+// Two people writing "かわいい" is a coincidence; a cluster needs this many copies,
+// or two copies carrying a link
+const MIN_DUPLICATES = 3;
+
+// Laughter ("www", "草") says nothing about the topic
+const NOISE_KEYWORD = /^(w+|ｗ+|草+|笑+)$/;
+
+const POSITIVE = /好き|最高|神|素晴らし|すばらし|すごい|凄い|感動|かわい|可愛|面白|おもしろ|楽し|ありがと|嬉し|うれし|良い|良かった|よかった|天才|綺麗|きれい|かっこい|格好いい|尊い|癒|草|笑|ｗｗ|ww|love|great|amazing|awesome|best|beautiful|nice|cool|thank|👍|❤|♥|😂|🤣|😍|🥰|✨/i;
+const NEGATIVE = /嫌い|最悪|つまら|ひどい|酷い|残念|不快|うざ|きもい|キモ|クソ|糞|ゴミ|低評価|下手|がっかり|悲し|ムカつ|むかつ|hate|worst|terrible|awful|boring|bad|dislike|👎|😡|🤮/i;
+// "面白くない", "好きじゃない": a negated positive word counts as negative
+const NEGATED_POSITIVE = /(好き|面白|おもしろ|楽し|良|かわい|可愛)(く|じゃ|では)ない|not (good|great|funny)/i;
+
+export const classifySentiment = (text: string): SentimentBucket => {
+    if (NEGATED_POSITIVE.test(text)) return 'negative';
+    const positive = POSITIVE.test(text);
+    const negative = NEGATIVE.test(text);
+    if (positive === negative) return 'neutral';
+    return positive ? 'positive' : 'negative';
+};
+
+// By script: kana means Japanese even when most of the text is kanji
+export const detectLanguage = (text: string): CommentLanguage => {
+    if (/[぀-ヿｦ-ﾟ]/.test(text)) return 'ja';
+    if (/[가-힯ᄀ-ᇿ]/.test(text)) return 'ko';
+    const han = text.match(/[一-鿿㐀-䶿]/g)?.length ?? 0;
+    if (han >= 4) return 'zh';
+    if (han > 0) return 'ja';
+    if (/[a-z]/i.test(text)) return 'en';
+    return 'other';
+};
+
+// Width, case and repeated characters ("すごいいいい") do not make a comment different
+const normalizeForDuplicates = (text: string) =>
+    text.normalize('NFKC').toLowerCase().replace(/[\s\p{P}\p{S}]+/gu, '').replace(/(.)\1{2,}/gu, '$1$1');
+
+const topEntries = <T>(map: Map<T, number>, limit: number, min = 1) =>
+    Array.from(map.entries()).filter(([, count]) => count >= min).sort((a, b) => b[1] - a[1]).slice(0, limit);
+
+export const analyzeComments = (comments: Comment[]): CommentAnalytics => {
+    const keywordCounts = new Map<string, number>();
+    const timestampCounts = new Map<number, number>();
+    const timestampLabels = new Map<number, string>();
+    const sentiment: Record<SentimentBucket, number> = { positive: 0, neutral: 0, negative: 0 };
+    const languageCounts = new Map<CommentLanguage, number>();
+    const duplicateGroups = new Map<string, { text: string; count: number; authors: Set<string>; hasLink: boolean }>();
+
+    for (const comment of comments) {
+        const text = comment.text || '';
+        const segments = tokenizeText(text);
+
+        for (const word of extractKeywords(text)) {
+            if (NOISE_KEYWORD.test(word)) continue;
+            keywordCounts.set(word, (keywordCounts.get(word) || 0) + 1);
+        }
+
+        // A comment citing the same moment twice counts once
+        const cited = new Set<number>();
+        for (const segment of segments) {
+            if (segment.type !== 'timestamp' || cited.has(segment.seconds)) continue;
+            cited.add(segment.seconds);
+            timestampCounts.set(segment.seconds, (timestampCounts.get(segment.seconds) || 0) + 1);
+            if (!timestampLabels.has(segment.seconds)) timestampLabels.set(segment.seconds, segment.text);
+        }
+
+        sentiment[classifySentiment(text)]++;
+        const language = detectLanguage(text);
+        languageCounts.set(language, (languageCounts.get(language) || 0) + 1);
+
+        const key = normalizeForDuplicates(text);
+        if (key) {
+            const group = duplicateGroups.get(key) || { text, count: 0, authors: new Set<string>(), hasLink: false };
+            group.count++;
+            group.authors.add(comment.author.id || comment.author.name);
+            group.hasLink ||= segments.some(segment => segment.type === 'url');
+            duplicateGroups.set(key, group);
+        }
+    }
+
+    return {
+        total: comments.length,
+        keywords: topEntries(keywordCounts, MAX_KEYWORDS, 2).map(([word, count]) => ({ word, count })),
+        timestamps: topEntries(timestampCounts, MAX_TIMESTAMPS).map(([seconds, count]) => ({ seconds, label: timestampLabels.get(seconds) || '', count })),
+        sentiment,
+        languages: topEntries(languageCounts, Infinity).map(([language, count]) => ({ language, count })),
+        duplicates: Array.from(duplicateGroups.values())
+            .filter(group => group.count >= MIN_DUPLICATES || (group.hasLink && group.count >= 2))
+            .sort((a, b) => b.count - a.count)
+            .slice(0, MAX_DUPLICATES)
+            .map(group => ({ text: group.text, count: group.count, authors: group.authors.size, hasLink: group.hasLink })),
+    };
+};
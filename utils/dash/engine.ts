@@ -0,0 +1,329 @@
+import type { DashManifest, Representation } from './manifest';
+import { parseSidx, type Segment } from './sidx';
+
+// --- Adaptive (MSE) Playback Engine ---
+// Plays a DashManifest through Media Source Extensions with one SourceBuffer for
+// video and one for audio, so both tracks share the media element's clock and
+// cannot drift apart. Segments are fetched with Range requests a bounded time
+// ahead of the playhead; the video representation follows the measured bandwidth
+// unless the user picks a resolution.
+
+export type QualitySelection = string | 'auto';
+
+export interface DashPlayerState {
+    qualities: { id: string; label: string }[];   // Highest first
+    selected: QualitySelection;
+    activeId: string | null;                      // Representation currently being buffered
+    bandwidthKbps: number | null;
+}
+
+export interface DashPlayer {
+    getState(): DashPlayerState;
+    subscribe(listener: () => void): () => void;
+    setQuality(selection: QualitySelection): void;
+    destroy(): void;
+}
+
+interface DashPlayerOptions {
+    onError?: (error: Error) => void;   // Fatal: the caller should fall back to another player
+}
+
+interface LoadedIndex {
+    init: ArrayBuffer;
+    segments: Segment[];
+}
+
+interface Track {
+    kind: 'video' | 'audio';
+    buffer: SourceBuffer;
+    rep: Representation | null;       // Representation whose init segment was appended last
+    nextTime: number | null;          // Start time of the next segment to append; null = resume at the buffered end
+    busy: boolean;
+    ended: boolean;
+    controller: AbortController | null;
+    generation: number;               // Bumped on seek/flush so in-flight work is discarded
+}
+
+const BUFFER_AHEAD_S = 30;
+const BACK_BUFFER_S = 60;
+const TICK_MS = 500;
+const BANDWIDTH_SAFETY = 0.8;
+const BANDWIDTH_SMOOTHING = 0.3;
+const MIN_SAMPLE_BYTES = 16 * 1024;
+const UPSWITCH_MIN_BUFFER_S = 8;
+const INITIAL_MAX_HEIGHT = 480;
+const SEGMENT_RETRIES = 3;
+
+const isAbort = (error: unknown) => error instanceof DOMException && error.name === 'AbortError';
+
+const fetchRange = async (url: string, start: number, end: number, signal?: AbortSignal): Promise<ArrayBuffer> => {
+    const response = await fetch(url, { headers: { Range: `bytes=${start}-${end}` }, signal });
+    if (!response.ok) throw new Error(`Segment request failed: ${response.status}`);
+    return response.arrayBuffer();
+};
+
+// Runs one SourceBuffer operation and waits for it to finish.
+const updateBuffer = (buffer: SourceBuffer, operation: () => void) => new Promise<void>((resolve, reject) => {
+    const done = () => { cleanup(); resolve(); };
+    const fail = () => { cleanup(); reject(new Error('SourceBuffer update failed')); };
+    const cleanup = () => {
+        buffer.removeEventListener('updateend', done);
+        buffer.removeEventListener('error', fail);
+    };
+    buffer.addEventListener('updateend', done);
+    buffer.addEventListener('error', fail);
+    try {
+        operation();
+    } catch (error) {
+        cleanup();
+        reject(error);
+    }
+});
+
+// End of the buffered range that contains `time`, or null when `time` is not buffered.
+const bufferedEndAt = (buffer: SourceBuffer, time: number): number | null => {
+    const ranges = buffer.buffered;
+    for (let i = 0; i < ranges.length; i++) {
+        if (time >= ranges.start(i) - 0.1 && time <= ranges.end(i)) return ranges.end(i);
+    }
+    return null;
+};
+
+export const createDashPlayer = (video: HTMLVideoElement, manifest: DashManifest, options: DashPlayerOptions = {}): DashPlayer => {
+    const mediaSource = new MediaSource();
+    const objectUrl = URL.createObjectURL(mediaSource);
+    const indexes = new Map<string, Promise<LoadedIndex>>();
+    const listeners = new Set<() => void>();
+    const tracks: Track[] = [];
+
+    let selected: QualitySelection = 'auto';
+    let bandwidthBps: number | null = null;
+    let timer: ReturnType<typeof setInterval> | null = null;
+    let destroyed = false;
+    let state: DashPlayerState = {
+        qualities: [...manifest.video].reverse().map(rep => ({ id: rep.id, label: rep.label })),
+        selected, activeId: null, bandwidthKbps: null,
+    };
+
+    const emit = () => {
+        const videoTrack = tracks.find(t => t.kind === 'video');
+        state = {
+            ...state, selected,
+            activeId: videoTrack?.rep?.id ?? null,
+            bandwidthKbps: bandwidthBps === null ? null : Math.round(bandwidthBps / 1000),
+        };
+        listeners.forEach(listener => listener());
+    };
+
+    const fail = (error: Error) => {
+        if (destroyed) return;
+        console.error('Adaptive playback failed:', error);
+        destroy();
+        options.onError?.(error);
+    };
+
+    const recordSample = (bytes: number, ms: number) => {
+        if (bytes < MIN_SAMPLE_BYTES || ms <= 0) return;
+        const sample = (bytes * 8) / (ms / 1000);
+        bandwidthBps = bandwidthBps === null ? sample : bandwidthBps * (1 - BANDWIDTH_SMOOTHING) + sample * BANDWIDTH_SMOOTHING;
+    };
+
+    // Init segment and sidx are usually adjacent, so both come from one request.
+    const loadIndex = (rep: Representation): Promise<LoadedIndex> => {
+        let pending = indexes.get(rep.id);
+        if (!pending) {
+            pending = (async () => {
+                const start = Math.min(rep.initRange.start, rep.indexRange.start);
+                const end = Math.max(rep.initRange.end, rep.indexRange.end);
+                const data = await fetchRange(rep.url, start, end);
+                return {
+                    init: data.slice(rep.initRange.start - start, rep.initRange.end - start + 1),
+                    segments: parseSidx(data, start, rep.indexRange.start),
+                };
+            })();
+            pending.catch(() => indexes.delete(rep.id));
+            indexes.set(rep.id, pending);
+        }
+        return pending;
+    };
+
+    const chooseVideo = (bufferAhead: number, current: Representation | null): Representation => {
+        const reps = manifest.video;
+        if (selected !== 'auto') return reps.find(rep => rep.id === selected) || reps[reps.length - 1];
+        if (bandwidthBps === null) {
+            return [...reps].reverse().find(rep => rep.height <= INITIAL_MAX_HEIGHT) || reps[0];
+        }
+        const budget = bandwidthBps * BANDWIDTH_SAFETY - manifest.audio.bitrate;
+        const target = [...reps].reverse().find(rep => rep.bitrate <= budget) || reps[0];
+        // Step up only with enough buffer to absorb a wrong guess; step down at once
+        if (current && target.bitrate > current.bitrate && bufferAhead < UPSWITCH_MIN_BUFFER_S) return current;
+        return target;
+    };
+
+    const appendWithQuota = async (track: Track, data: ArrayBuffer) => {
+        try {
+            await updateBuffer(track.buffer, () => track.buffer.appendBuffer(data));
+        } catch (error) {
+            if (!(error instanceof DOMException && error.name === 'QuotaExceededError')) throw error;
+            // Buffer is full: drop everything well behind the playhead and try once more
+            const until = video.currentTime - 10;
+            if (until <= 0) throw error;
+            await updateBuffer(track.buffer, () => track.buffer.remove(0, until));
+            await updateBuffer(track.buffer, () => track.buffer.appendBuffer(data));
+        }
+    };
+
+    const pruneBackBuffer = async (track: Track) => {
+        const ranges = track.buffer.buffered;
+        const until = video.currentTime - BACK_BUFFER_S;
+        if (ranges.length > 0 && until > ranges.start(0) + 1) {
+            await updateBuffer(track.buffer, () => track.buffer.remove(ranges.start(0), until));
+        }
+    };
+
+    const fetchSegment = async (rep: Representation, segment: Segment, signal: AbortSignal): Promise<ArrayBuffer> => {
+        for (let attempt = 0; ; attempt++) {
+            const startedAt = performance.now();
+            try {
+                const data = await fetchRange(rep.url, segment.start, segment.end, signal);
+                recordSample(data.byteLength, performance.now() - startedAt);
+                return data;
+            } catch (error) {
+                if (isAbort(error) || attempt + 1 >= SEGMENT_RETRIES) throw error;
+                await new Promise(resolve => setTimeout(resolve, 1000 * (attempt + 1)));
+            }
+        }
+    };
+
+    const maybeEndStream = () => {
+        if (mediaSource.readyState === 'open' && tracks.every(t => t.ended && !t.buffer.updating)) {
+            try { mediaSource.endOfStream(); } catch { /* Already ended or a buffer is busy; retried next tick */ }
+        }
+    };
+
+    const fillTrack = async (track: Track) => {
+        const now = video.currentTime;
+        const bufferedEnd = bufferedEndAt(track.buffer, now);
+        const bufferAhead = bufferedEnd === null ? 0 : bufferedEnd - now;
+        if (track.ended || bufferAhead >= BUFFER_AHEAD_S) return;
+
+        const generation = track.generation;
+        const controller = new AbortController();
+        track.controller = controller;
+
+        const rep = track.kind === 'video' ? chooseVideo(bufferAhead, track.rep) : manifest.audio;
+        const index = await loadIndex(rep);
+        if (generation !== track.generation) return;
+        if (track.rep?.id !== rep.id) {
+            await updateBuffer(track.buffer, () => track.buffer.appendBuffer(index.init));
+            track.rep = rep;
+            emit();
+        }
+
+        const from = track.nextTime ?? bufferedEnd ?? now;
+        const segment = index.segments.find(s => s.time + s.duration > from + 0.05);
+        if (!segment) {
+            track.ended = true;
+            maybeEndStream();
+            return;
+        }
+
+        const data = await fetchSegment(rep, segment, controller.signal);
+        if (generation !== track.generation) return;
+        await pruneBackBuffer(track);
+        await appendWithQuota(track, data);
+        track.nextTime = segment.time + segment.duration;
+    };
+
+    const tick = () => {
+        // An 'ended' source reopens on the next append, e.g. after seeking back
+        if (destroyed || mediaSource.readyState === 'closed') return;
+        for (const track of tracks) {
+            if (track.busy) continue;
+            track.busy = true;
+            fillTrack(track)
+                .catch(error => { if (!isAbort(error)) fail(error instanceof Error ? error : new Error(String(error))); })
+                .finally(() => { track.busy = false; track.controller = null; });
+        }
+    };
+
+    // Drops pending work so the next tick starts from the playhead (or the end of what is already buffered there).
+    const resetTrack = (track: Track) => {
+        track.generation++;
+        track.controller?.abort();
+        track.nextTime = null;
+        track.ended = false;
+    };
+
+    const handleSeeking = () => {
+        tracks.forEach(resetTrack);
+        tick();
+    };
+
+    const handleSourceOpen = () => {
+        URL.revokeObjectURL(objectUrl);
+        if (destroyed) return;
+        try {
+            if (manifest.durationSeconds) mediaSource.duration = manifest.durationSeconds;
+            tracks.push(
+                { kind: 'video', buffer: mediaSource.addSourceBuffer(manifest.video[0].mimeType), rep: null, nextTime: null, busy: false, ended: false, controller: null, generation: 0 },
+                { kind: 'audio', buffer: mediaSource.addSourceBuffer(manifest.audio.mimeType), rep: null, nextTime: null, busy: false, ended: false, controller: null, generation: 0 },
+            );
+        } catch (error) {
+            fail(error instanceof Error ? error : new Error(String(error)));
+            return;
+        }
+        timer = setInterval(tick, TICK_MS);
+        tick();
+    };
+
+    const setQuality = (selection: QualitySelection) => {
+        if (selection === selected) return;
+        selected = selection;
+        const videoTrack = tracks.find(t => t.kind === 'video');
+        // A manual pick replaces what is buffered ahead so the change shows within a second
+        if (videoTrack && selection !== 'auto' && !destroyed) {
+            resetTrack(videoTrack);
+            const from = video.currentTime + 1;
+            const end = mediaSource.duration;
+            const flush = async () => {
+                while (videoTrack.busy) await new Promise(resolve => setTimeout(resolve, 50));
+                videoTrack.busy = true;
+                try {
+                    if (isFinite(end) && end > from) await updateBuffer(videoTrack.buffer, () => videoTrack.buffer.remove(from, end));
+                } finally {
+                    videoTrack.busy = false;
+                }
+                tick();
+            };
+            flush().catch(error => fail(error instanceof Error ? error : new Error(String(error))));
+        }
+        emit();
+    };
+
+    const destroy = () => {
+        if (destroyed) return;
+        destroyed = true;
+        if (timer) clearInterval(timer);
+        tracks.forEach(track => track.controller?.abort());
+        video.removeEventListener('seeking', handleSeeking);
+        mediaSource.removeEventListener('sourceopen', handleSourceOpen);
+        video.removeAttribute('src');
+        video.load();
+        listeners.clear();
+    };
+
+    mediaSource.addEventListener('sourceopen', handleSourceOpen);
+    video.addEventListener('seeking', handleSeeking);
+    video.src = objectUrl;
+
+    return {
+        getState: () => state,
+        subscribe(listener) {
+            listeners.add(listener);
+            return () => listeners.delete(listener);
+        },
+        setQuality,
+        destroy,
+    };
+};
@@ -0,0 +1,90 @@
+import type { ByteRange, StreamData, StreamFormat } from '../../types';
+
+// --- Adaptive Manifest ---
+// Turns the video-only and audio-only formats of a StreamData into the track
+// list the MSE engine plays. Only fragmented MP4 with a sidx index is used: every
+// backend returns the byte ranges for it, and one codec family per track means a
+// quality switch never needs SourceBuffer.changeType().
+
+export interface Representation {
+    id: string;
+    kind: 'video' | 'audio';
+    mimeType: string;          // With codecs, as passed to addSourceBuffer()
+    url: string;
+    bitrate: number;
+    label: string;
+    height: number;
+    initRange: ByteRange;
+    indexRange: ByteRange;
+}
+
+export interface DashManifest {
+    durationSeconds: number | null;
+    video: Representation[];   // Ascending by bitrate
+    audio: Representation;
+}
+
+// Tried in order; the first family whose best resolution matches the overall best wins.
+const VIDEO_CODEC_PREFERENCE = ['avc1', 'vp09', 'av01'];
+
+export const isMseSupported = (): boolean =>
+    typeof window !== 'undefined' && 'MediaSource' in window && typeof MediaSource.isTypeSupported === 'function';
+
+const codecFamily = (mimeType: string) => {
+    const match = mimeType.match(/codecs="?([a-z0-9]+)/i);
+    return match ? match[1].toLowerCase() : '';
+};
+
+const isPlayable = (f: StreamFormat): f is StreamFormat & { mimeType: string; initRange: ByteRange; indexRange: ByteRange } =>
+    !!f.mimeType && f.mimeType.includes('/mp4') && !!f.initRange && !!f.indexRange && MediaSource.isTypeSupported(f.mimeType);
+
+const toRepresentation = (f: StreamFormat & { mimeType: string; initRange: ByteRange; indexRange: ByteRange }, kind: 'video' | 'audio', index: number): Representation => ({
+    id: `${kind}-${index}`,
+    kind,
+    mimeType: f.mimeType,
+    url: f.url,
+    bitrate: f.bitrate || 0,
+    label: kind === 'video' ? `${f.height || 0}p${f.fps && f.fps > 30 ? f.fps : ''}` : f.quality,
+    height: f.height || 0,
+    initRange: f.initRange,
+    indexRange: f.indexRange,
+});
+
+const pickVideoFamily = (formats: StreamFormat[]): StreamFormat[] => {
+    const maxHeight = Math.max(...formats.map(f => f.height || 0));
+    const byFamily = (family: string) => formats.filter(f => codecFamily(f.mimeType!) === family);
+    for (const family of VIDEO_CODEC_PREFERENCE) {
+        const group = byFamily(family);
+        if (group.some(f => (f.height || 0) === maxHeight)) return group;
+    }
+    return byFamily(codecFamily(formats.find(f => (f.height || 0) === maxHeight)!.mimeType!));
+};
+
+// Returns null when the formats cannot be played adaptively; the caller falls back to HLS or a progressive file.
+export const buildManifest = (streamData: StreamData): DashManifest | null => {
+    if (!isMseSupported() || !streamData.adaptiveFormats?.length) return null;
+    const playable = streamData.adaptiveFormats.filter(isPlayable);
+
+    const audio = playable
+        .filter(f => f.isAudioOnly && codecFamily(f.mimeType) === 'mp4a')
+        .sort((a, b) => (b.bitrate || 0) - (a.bitrate || 0))[0];
+    const videoFormats = playable.filter(f => f.isVideoOnly && f.height);
+    if (!audio || videoFormats.length === 0) return null;
+
+    // One representation per resolution/frame rate, keeping the higher bitrate
+    const unique = new Map<string, typeof videoFormats[number]>();
+    for (const f of pickVideoFamily(videoFormats) as typeof videoFormats) {
+        const key = `${f.height}-${f.fps || 0}`;
+        const existing = unique.get(key);
+        if (!existing || (existing.bitrate || 0) < (f.bitrate || 0)) unique.set(key, f);
+    }
+    const video = [...unique.values()]
+        .sort((a, b) => (a.bitrate || 0) - (b.bitrate || 0))
+        .map((f, i) => toRepresentation(f, 'video', i));
+
+    return {
+        durationSeconds: streamData.durationSeconds || null,
+        video,
+        audio: toRepresentation(audio, 'audio', 0),
+    };
+};
@@ -0,0 +1,59 @@
+// --- Segment Index (sidx) ---
+// A fragmented MP4 lists its media segments in a 'sidx' box; the backends give
+// its byte range as indexRange. Each reference becomes a segment that can be
+// fetched with a single Range request.
+
+export interface Segment {
+    start: number;      // Absolute byte offsets in the file, inclusive
+    end: number;
+    time: number;       // Seconds
+    duration: number;
+}
+
+// `data` holds the file bytes from `dataOffset`; the sidx box starts at `boxOffset`.
+export const parseSidx = (data: ArrayBuffer, dataOffset: number, boxOffset: number): Segment[] => {
+    const view = new DataView(data, boxOffset - dataOffset);
+    let size = view.getUint32(0);
+    const type = String.fromCharCode(view.getUint8(4), view.getUint8(5), view.getUint8(6), view.getUint8(7));
+    if (type !== 'sidx') throw new Error(`Expected sidx box, found '${type}'`);
+
+    let pos = 8;
+    if (size === 1) {
+        size = Number(view.getBigUint64(pos));
+        pos += 8;
+    }
+    const version = view.getUint8(pos);
+    pos += 4 + 4;                       // version + flags, reference_ID
+    const timescale = view.getUint32(pos);
+    pos += 4;
+
+    let earliest: number;
+    let firstOffset: number;
+    if (version === 0) {
+        earliest = view.getUint32(pos);
+        firstOffset = view.getUint32(pos + 4);
+        pos += 8;
+    } else {
+        earliest = Number(view.getBigUint64(pos));
+        firstOffset = Number(view.getBigUint64(pos + 8));
+        pos += 16;
+    }
+    pos += 2;                           // reserved
+    const count = view.getUint16(pos);
+    pos += 2;
+
+    const segments: Segment[] = [];
+    let offset = boxOffset + size + firstOffset;
+    let time = earliest;
+    for (let i = 0; i < count; i++) {
+        const reference = view.getUint32(pos);
+        const duration = view.getUint32(pos + 4);
+        pos += 12;
+        if (reference & 0x80000000) throw new Error('Hierarchical sidx is not supported');
+        const referencedSize = reference & 0x7fffffff;
+        segments.push({ start: offset, end: offset + referencedSize - 1, time: time / timescale, duration: duration / timescale });
+        offset += referencedSize;
+        time += duration;
+    }
+    return segments;
+};
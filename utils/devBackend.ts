@@ -0,0 +1,37 @@
+// --- Development Backend ---
+// In `npm run dev` builds the API client can be pointed at the local mock server
+// (mock/server.js) instead of the live mirrors:
+//   replay: every API request is answered from the fixtures in mock/fixtures
+//   record: the mock server forwards requests to the live API and saves the responses as fixtures
+// The mode is read from localStorage ('devBackendMode') or VITE_API_MODE, and is
+// ignored entirely in production builds.
+
+/// <reference types="vite/client" />
+
+export type DevBackendMode = 'off' | 'replay' | 'record';
+
+export const DEV_BACKEND_MODE_KEY = 'devBackendMode';
+
+export const MOCK_API_BASE: string = import.meta.env.VITE_MOCK_API_URL || 'http://localhost:8787';
+
+const isDevMode = (value: unknown): value is DevBackendMode => value === 'replay' || value === 'record';
+
+const readMode = (): DevBackendMode => {
+    if (!import.meta.env.DEV) return 'off';
+    try {
+        const stored = localStorage.getItem(DEV_BACKEND_MODE_KEY);
+        if (isDevMode(stored)) return stored;
+    } catch (e) { /* localStorage unavailable */ }
+    return isDevMode(import.meta.env.VITE_API_MODE) ? import.meta.env.VITE_API_MODE : 'off';
+};
+
+// Fixed for the lifetime of the page; switching modes reloads so no request mixes live and mock servers.
+export const DEV_BACKEND_MODE: DevBackendMode = readMode();
+
+export const isDevBackendAvailable = (): boolean => !!import.meta.env.DEV;
+
+export const setDevBackendMode = (mode: DevBackendMode) => {
+    if (mode === 'off') localStorage.removeItem(DEV_BACKEND_MODE_KEY);
+    else localStorage.setItem(DEV_BACKEND_MODE_KEY, mode);
+    window.location.reload();
+};
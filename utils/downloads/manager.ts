@@ -0,0 +1,274 @@
+import type { StreamData, StreamFormat, Video } from '../../types';
+import { getRawStreamData } from '../api';
+import { appendFileData, deleteFileData, deleteJobRecord, getStoredSize, loadJobRecords, readFileData, saveJobRecord } from './storage';
+
+// --- Download Manager ---
+// Fetches single-file formats (video with audio, or audio only) in ranged requests
+// so that progress is the real byte count, a paused job resumes from the bytes it
+// already stored, and googlevideo doesn't throttle one huge request. At most
+// MAX_PARALLEL jobs download at once; the rest wait in order. Jobs survive a reload:
+// anything that was running comes back paused with its stored bytes intact.
+// Signed URLs expire after a few hours, so a job that gets 403/410 on resume looks
+// its format up again once before failing.
+
+export type DownloadKind = 'video' | 'audio';
+export type DownloadStatus = 'queued' | 'downloading' | 'paused' | 'completed' | 'error';
+
+export interface DownloadJob {
+    id: string;
+    videoId: string;
+    title: string;
+    channelName: string;
+    thumbnailUrl: string;
+    kind: DownloadKind;
+    quality: string;
+    mimeType: string;
+    url: string;
+    totalBytes: number | null;
+    receivedBytes: number;
+    status: DownloadStatus;
+    error?: string;
+    createdAt: number;
+    completedAt?: number;
+}
+
+export type DownloadVideoInfo = Pick<Video, 'id' | 'title' | 'channelName' | 'thumbnailUrl'>;
+
+const MAX_PARALLEL = 2;
+const REQUEST_BYTES = 8 * 1024 * 1024;
+// Received data is written out in pieces of this size
+const FLUSH_BYTES = 2 * 1024 * 1024;
+const PROGRESS_NOTIFY_MS = 250;
+
+let jobs: DownloadJob[] = [];
+const listeners = new Set<(jobs: DownloadJob[]) => void>();
+const controllers = new Map<string, AbortController>();
+// One run per job: a paused run may still be writing its last bytes when the job is
+// resumed, so the next run only starts once the previous one has settled
+const runs = new Map<string, Promise<void>>();
+let loadPromise: Promise<void> | null = null;
+let notifyTimer: ReturnType<typeof setTimeout> | null = null;
+
+const notify = () => {
+    if (notifyTimer) {
+        clearTimeout(notifyTimer);
+        notifyTimer = null;
+    }
+    listeners.forEach(listener => listener(jobs));
+};
+
+const notifyProgress = () => {
+    if (!notifyTimer) notifyTimer = setTimeout(notify, PROGRESS_NOTIFY_MS);
+};
+
+const findJob = (id: string) => jobs.find(job => job.id === id);
+
+const updateJob = (id: string, patch: Partial<DownloadJob>, persist = true) => {
+    let updated: DownloadJob | undefined;
+    jobs = jobs.map(job => job.id === id ? (updated = { ...job, ...patch }) : job);
+    if (!updated) return;
+    if (persist) {
+        saveJobRecord(updated).catch(error => console.error("Failed to save download job", error));
+        notify();
+    } else {
+        notifyProgress();
+    }
+};
+
+const ensureLoaded = (): Promise<void> => {
+    if (!loadPromise) {
+        loadPromise = (async () => {
+            try {
+                const records = await loadJobRecords();
+                const restored = await Promise.all(records.map(async record => {
+                    if (record.status === 'completed' || record.status === 'error') return record;
+                    const restoredJob: DownloadJob = { ...record, status: 'paused', receivedBytes: await getStoredSize(record.id).catch(() => 0) };
+                    return restoredJob;
+                }));
+                jobs = restored.sort((a, b) => b.createdAt - a.createdAt);
+                notify();
+            } catch (error) {
+                console.error("Failed to load downloads", error);
+            }
+        })();
+    }
+    return loadPromise;
+};
+
+const pickFormat = (data: StreamData, kind: DownloadKind, quality: string): StreamFormat | null => {
+    if (kind === 'audio') return data.audioOnlyFormat;
+    return data.combinedFormats.find(format => format.quality === quality && !format.isVideoOnly) || null;
+};
+
+// A partial response carries the file size in Content-Range; a full one in Content-Length
+const parseTotal = (response: Response): number | null => {
+    const total = response.status === 206
+        ? response.headers.get('Content-Range')?.match(/\/(\d+)$/)?.[1]
+        : response.headers.get('Content-Length');
+    return total ? parseInt(total, 10) : null;
+};
+
+const fetchRange = async (job: DownloadJob, start: number, signal: AbortSignal, retried = false): Promise<Response> => {
+    const end = start + REQUEST_BYTES - 1;
+    const response = await fetch(job.url, { headers: { Range: `bytes=${start}-${end}` }, signal });
+    if ((response.status === 403 || response.status === 410) && !retried) {
+        const format = pickFormat(await getRawStreamData(job.videoId, { signal }), job.kind, job.quality);
+        if (!format?.url || format.url === job.url) throw new Error('ダウンロードURLの有効期限が切れました');
+        updateJob(job.id, { url: format.url });
+        return fetchRange({ ...job, url: format.url }, start, signal, true);
+    }
+    if (!response.ok) throw new Error(`HTTP ${response.status}`);
+    return response;
+};
+
+const download = async (id: string) => {
+    const controller = new AbortController();
+    controllers.set(id, controller);
+    updateJob(id, { status: 'downloading', error: undefined });
+
+    let received = await getStoredSize(id).catch(() => 0);
+    let total = findJob(id)?.totalBytes ?? null;
+    let pending: Uint8Array[] = [];
+    let pendingBytes = 0;
+
+    const flush = async () => {
+        if (pendingBytes === 0) return;
+        const data = new Blob(pending);
+        pending = [];
+        pendingBytes = 0;
+        await appendFileData(id, data);
+    };
+
+    try {
+        while (total === null || received < total) {
+            const job = findJob(id);
+            if (!job) return;
+            const response = await fetchRange(job, received, controller.signal);
+            if (response.status === 200 && received > 0) {
+                // The server ignored the range and sent the whole file: start over, without
+                // the unwritten tail of the previous range
+                pending = [];
+                pendingBytes = 0;
+                await deleteFileData(id);
+                received = 0;
+            }
+            total = parseTotal(response) ?? total;
+            updateJob(id, { totalBytes: total }, false);
+
+            const reader = response.body!.getReader();
+            let chunkBytes = 0;
+            while (true) {
+                const { done, value } = await reader.read();
+                if (done) break;
+                pending.push(value);
+                pendingBytes += value.byteLength;
+                chunkBytes += value.byteLength;
+                received += value.byteLength;
+                updateJob(id, { receivedBytes: received }, false);
+                if (pendingBytes >= FLUSH_BYTES) await flush();
+            }
+            // A full response or an empty range means there is nothing more to fetch
+            if (response.status === 200 || chunkBytes === 0) break;
+        }
+        await flush();
+        updateJob(id, { status: 'completed', totalBytes: received, receivedBytes: received, completedAt: Date.now() });
+    } catch (error: unknown) {
+        if (!findJob(id)) return;
+        // Keep what arrived so a resume continues from there
+        await flush().catch(() => {});
+        const stored = await getStoredSize(id).catch(() => 0);
+        if (error instanceof DOMException && error.name === 'AbortError') {
+            updateJob(id, { receivedBytes: stored });
+        } else {
+            console.error("Download failed", error);
+            updateJob(id, { status: 'error', receivedBytes: stored, error: (error instanceof Error && error.message) || 'ダウンロードに失敗しました' });
+        }
+    } finally {
+        if (controllers.get(id) === controller) controllers.delete(id);
+        // Removed while a piece was being written: drop whatever landed after the removal
+        if (!findJob(id)) deleteFileData(id).catch(() => {});
+    }
+};
+
+const run = (id: string) => {
+    runs.set(id, download(id).finally(() => {
+        runs.delete(id);
+        pump();
+    }));
+};
+
+const pump = () => {
+    // Runs still winding down after a pause count too, so they cannot overlap a new run
+    let running = runs.size;
+    // Oldest first: jobs are kept newest first for display
+    for (const job of [...jobs].reverse()) {
+        if (running >= MAX_PARALLEL) return;
+        if (job.status !== 'queued' || runs.has(job.id)) continue;
+        running++;
+        run(job.id);
+    }
+};
+
+export const getDownloads = () => jobs;
+
+export const subscribeDownloads = (listener: (jobs: DownloadJob[]) => void) => {
+    listeners.add(listener);
+    ensureLoaded();
+    return () => { listeners.delete(listener); };
+};
+
+export const downloadId = (videoId: string, kind: DownloadKind, quality: string) => `${videoId}-${kind}-${quality}`;
+
+export const startDownload = async (video: DownloadVideoInfo, format: StreamFormat, kind: DownloadKind): Promise<DownloadJob> => {
+    await ensureLoaded();
+    const quality = format.quality || (kind === 'audio' ? 'audio' : 'video');
+    const id = downloadId(video.id, kind, quality);
+    const existing = findJob(id);
+    if (existing) {
+        if (existing.status === 'paused' || existing.status === 'error') resumeDownload(id, format.url);
+        return findJob(id)!;
+    }
+    const job: DownloadJob = {
+        id, videoId: video.id, title: video.title, channelName: video.channelName, thumbnailUrl: video.thumbnailUrl,
+        kind, quality,
+        mimeType: format.mimeType?.split(';')[0] || (kind === 'audio' ? 'audio/mp4' : 'video/mp4'),
+        url: format.url, totalBytes: format.contentLength ?? null, receivedBytes: 0,
+        status: 'queued', createdAt: Date.now(),
+    };
+    jobs = [job, ...jobs];
+    // Ask the browser not to evict downloads under storage pressure
+    navigator.storage?.persist?.().catch(() => {});
+    saveJobRecord(job).catch(error => console.error("Failed to save download job", error));
+    notify();
+    pump();
+    return job;
+};
+
+export const pauseDownload = (id: string) => {
+    const job = findJob(id);
+    if (!job || (job.status !== 'downloading' && job.status !== 'queued')) return;
+    updateJob(id, { status: 'paused' });
+    controllers.get(id)?.abort();
+};
+
+export const resumeDownload = (id: string, url?: string) => {
+    const job = findJob(id);
+    if (!job || (job.status !== 'paused' && job.status !== 'error')) return;
+    updateJob(id, { status: 'queued', error: undefined, ...(url ? { url } : {}) });
+    pump();
+};
+
+export const removeDownload = async (id: string) => {
+    controllers.get(id)?.abort();
+    jobs = jobs.filter(job => job.id !== id);
+    notify();
+    await Promise.all([deleteJobRecord(id), deleteFileData(id)]).catch(error => console.error("Failed to remove download", error));
+    pump();
+};
+
+export const getDownloadFile = async (id: string): Promise<Blob | null> => {
+    await ensureLoaded();
+    const job = findJob(id);
+    if (!job || job.status !== 'completed') return null;
+    return readFileData(id, job.mimeType);
+};
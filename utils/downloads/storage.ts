@@ -0,0 +1,163 @@
+// --- Offline Storage ---
+// Downloaded media is written piece by piece as it arrives, so a paused or
+// interrupted download keeps what it already has. File data goes to the Origin
+// Private File System where it can be appended in place; otherwise the pieces are
+// kept in IndexedDB and joined into one Blob on read (browsers back such Blobs with
+// disk, not memory). Job records always live in IndexedDB next to the pieces.
+
+import type { DownloadJob } from './manager';
+
+const DB_NAME = 'xeroxyt-downloads';
+const DB_VERSION = 1;
+const JOBS_STORE = 'jobs';
+const PIECES_STORE = 'pieces';
+const OPFS_DIRECTORY = 'downloads';
+
+interface StoredPiece {
+    id: string;
+    seq: number;
+    data: Blob;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+let directoryPromise: Promise<FileSystemDirectoryHandle | null> | null = null;
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> => new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+});
+
+const transactionDone = (tx: IDBTransaction): Promise<void> => new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+});
+
+const openDb = (): Promise<IDBDatabase> => {
+    if (dbPromise) return dbPromise;
+    dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+        if (typeof indexedDB === 'undefined') return reject(new Error('IndexedDB is not available'));
+        const request = indexedDB.open(DB_NAME, DB_VERSION);
+        request.onupgradeneeded = () => {
+            const db = request.result;
+            if (!db.objectStoreNames.contains(JOBS_STORE)) db.createObjectStore(JOBS_STORE, { keyPath: 'id' });
+            if (!db.objectStoreNames.contains(PIECES_STORE)) db.createObjectStore(PIECES_STORE, { keyPath: ['id', 'seq'] });
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+    dbPromise.catch(() => { dbPromise = null; });
+    return dbPromise;
+};
+
+// OPFS needs createWritable on the main thread (Safari only offers sync handles in workers)
+const getDirectory = (): Promise<FileSystemDirectoryHandle | null> => {
+    if (!directoryPromise) {
+        directoryPromise = (async () => {
+            if (typeof navigator === 'undefined' || !navigator.storage?.getDirectory) return null;
+            if (typeof FileSystemFileHandle === 'undefined' || !('createWritable' in FileSystemFileHandle.prototype)) return null;
+            try {
+                const root = await navigator.storage.getDirectory();
+                return await root.getDirectoryHandle(OPFS_DIRECTORY, { create: true });
+            } catch (e) {
+                return null;
+            }
+        })();
+    }
+    return directoryPromise;
+};
+
+const isNotFound = (error: any) => error?.name === 'NotFoundError';
+
+const piecesRange = (id: string) => IDBKeyRange.bound([id, 0], [id, Infinity]);
+
+// --- Job records ---
+
+export const loadJobRecords = async (): Promise<DownloadJob[]> => {
+    const db = await openDb();
+    return requestToPromise<DownloadJob[]>(db.transaction(JOBS_STORE).objectStore(JOBS_STORE).getAll());
+};
+
+export const saveJobRecord = async (job: DownloadJob): Promise<void> => {
+    const db = await openDb();
+    const tx = db.transaction(JOBS_STORE, 'readwrite');
+    tx.objectStore(JOBS_STORE).put(job);
+    await transactionDone(tx);
+};
+
+export const deleteJobRecord = async (id: string): Promise<void> => {
+    const db = await openDb();
+    const tx = db.transaction(JOBS_STORE, 'readwrite');
+    tx.objectStore(JOBS_STORE).delete(id);
+    await transactionDone(tx);
+};
+
+// --- File data ---
+
+export const getStoredSize = async (id: string): Promise<number> => {
+    const directory = await getDirectory();
+    if (directory) {
+        try {
+            return (await (await directory.getFileHandle(id)).getFile()).size;
+        } catch (error) {
+            if (isNotFound(error)) return 0;
+            throw error;
+        }
+    }
+    const db = await openDb();
+    const pieces = await requestToPromise<StoredPiece[]>(db.transaction(PIECES_STORE).objectStore(PIECES_STORE).getAll(piecesRange(id)));
+    return pieces.reduce((sum, piece) => sum + piece.data.size, 0);
+};
+
+export const appendFileData = async (id: string, data: Blob): Promise<void> => {
+    const directory = await getDirectory();
+    if (directory) {
+        const handle = await directory.getFileHandle(id, { create: true });
+        const position = (await handle.getFile()).size;
+        const writable = await handle.createWritable({ keepExistingData: true });
+        try {
+            await writable.write({ type: 'write', position, data });
+        } finally {
+            await writable.close();
+        }
+        return;
+    }
+    const db = await openDb();
+    const tx = db.transaction(PIECES_STORE, 'readwrite');
+    const store = tx.objectStore(PIECES_STORE);
+    const lastKey = await requestToPromise(store.openKeyCursor(piecesRange(id), 'prev')).then(cursor => cursor?.key as [string, number] | undefined);
+    store.put({ id, seq: lastKey ? lastKey[1] + 1 : 0, data } satisfies StoredPiece);
+    await transactionDone(tx);
+};
+
+export const readFileData = async (id: string, type: string): Promise<Blob | null> => {
+    const directory = await getDirectory();
+    if (directory) {
+        try {
+            const file = await (await directory.getFileHandle(id)).getFile();
+            return file.type ? file : file.slice(0, file.size, type);
+        } catch (error) {
+            if (isNotFound(error)) return null;
+            throw error;
+        }
+    }
+    const db = await openDb();
+    const pieces = await requestToPromise<StoredPiece[]>(db.transaction(PIECES_STORE).objectStore(PIECES_STORE).getAll(piecesRange(id)));
+    return pieces.length > 0 ? new Blob(pieces.map(piece => piece.data), { type }) : null;
+};
+
+export const deleteFileData = async (id: string): Promise<void> => {
+    const directory = await getDirectory();
+    if (directory) {
+        try {
+            await directory.removeEntry(id);
+        } catch (error) {
+            if (!isNotFound(error)) throw error;
+        }
+        return;
+    }
+    const db = await openDb();
+    const tx = db.transaction(PIECES_STORE, 'readwrite');
+    tx.objectStore(PIECES_STORE).delete(piecesRange(id));
+    await transactionDone(tx);
+};
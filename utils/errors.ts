@@ -0,0 +1,133 @@
+// --- API Error Taxonomy ---
+// Every failure that leaves utils/api.ts is one of the classes below. The class
+// decides how the mirror loop reacts (retry elsewhere, back off, or give up at
+// once) and lets pages show a message the user can act on.
+// A deleted, private or age-restricted video is the same on every mirror, so those
+// errors end the request immediately, as the error the caller sees, instead of
+// walking through the whole pool.
+
+export type ApiErrorKind = 'notFound' | 'rateLimited' | 'upstream' | 'parse' | 'network' | 'ageRestricted' | 'private';
+
+export interface RetryPolicy {
+    tryOtherMirrors: boolean;      // Move on to the next mirror after this error
+    countsAgainstMirror: boolean;  // Report to the mirror pool as a mirror failure
+    maxRounds: number;             // Passes over the whole mirror list before giving up
+    baseDelayMs: number;           // Backoff before the next pass, doubled each time
+}
+
+const FINAL: RetryPolicy = { tryOtherMirrors: false, countsAgainstMirror: false, maxRounds: 1, baseDelayMs: 0 };
+
+export const RETRY_POLICIES: Record<ApiErrorKind, RetryPolicy> = {
+    notFound: FINAL,
+    private: FINAL,
+    ageRestricted: FINAL,
+    rateLimited: { tryOtherMirrors: true, countsAgainstMirror: true, maxRounds: 2, baseDelayMs: 5000 },
+    upstream: { tryOtherMirrors: true, countsAgainstMirror: true, maxRounds: 2, baseDelayMs: 1500 },
+    network: { tryOtherMirrors: true, countsAgainstMirror: true, maxRounds: 2, baseDelayMs: 1000 },
+    // A changed payload will not fix itself on retry, but another mirror may run an older or newer server
+    parse: { tryOtherMirrors: true, countsAgainstMirror: true, maxRounds: 1, baseDelayMs: 0 },
+};
+
+const MAX_BACKOFF_MS = 30 * 1000;
+
+export class ApiError extends Error {
+    readonly kind: ApiErrorKind;
+    readonly status?: number;
+
+    constructor(kind: ApiErrorKind, message: string, status?: number) {
+        super(message);
+        this.name = 'ApiError';
+        this.kind = kind;
+        this.status = status;
+    }
+
+    get policy(): RetryPolicy {
+        return RETRY_POLICIES[this.kind];
+    }
+}
+
+export class NotFoundError extends ApiError {
+    constructor(message = '見つかりませんでした。', status?: number) { super('notFound', message, status); this.name = 'NotFoundError'; }
+}
+
+export class PrivateContentError extends ApiError {
+    constructor(message = '非公開のコンテンツです。', status?: number) { super('private', message, status); this.name = 'PrivateContentError'; }
+}
+
+export class AgeRestrictedError extends ApiError {
+    constructor(message = '年齢制限のあるコンテンツです。', status?: number) { super('ageRestricted', message, status); this.name = 'AgeRestrictedError'; }
+}
+
+export class RateLimitedError extends ApiError {
+    readonly retryAfterMs: number | null;
+    constructor(message = 'リクエストが多すぎます。', retryAfterMs: number | null = null, status = 429) {
+        super('rateLimited', message, status);
+        this.name = 'RateLimitedError';
+        this.retryAfterMs = retryAfterMs;
+    }
+}
+
+export class UpstreamError extends ApiError {
+    constructor(message = 'サーバーでエラーが発生しました。', status?: number) { super('upstream', message, status); this.name = 'UpstreamError'; }
+}
+
+export class ParseError extends ApiError {
+    constructor(message = '応答を解析できませんでした。') { super('parse', message); this.name = 'ParseError'; }
+}
+
+export class NetworkError extends ApiError {
+    constructor(message = 'ネットワークに接続できません。') { super('network', message); this.name = 'NetworkError'; }
+}
+
+export const isApiError = (error: unknown): error is ApiError => error instanceof ApiError;
+
+// Backends report these as free text (often with a 500), so the message is checked before the status.
+const PRIVATE_PATTERN = /private|非公開/i;
+const AGE_PATTERN = /age[- ]?restrict|confirm your age|inappropriate for some users|年齢/i;
+// Kept specific: a bare 'unavailable' would also match '503 Service Unavailable'.
+const NOT_FOUND_PATTERN = /not found|video (is )?unavailable|does not exist|no longer available|has been removed|terminated|見つかりません|削除されました/i;
+
+export const classifyMessage = (message: string, status?: number): ApiError | null => {
+    if (PRIVATE_PATTERN.test(message)) return new PrivateContentError(message, status);
+    if (AGE_PATTERN.test(message)) return new AgeRestrictedError(message, status);
+    if (NOT_FOUND_PATTERN.test(message)) return new NotFoundError(message, status);
+    return null;
+};
+
+const parseRetryAfter = (header: string | null | undefined): number | null => {
+    if (!header) return null;
+    const seconds = Number(header);
+    if (!isNaN(seconds)) return seconds * 1000;
+    const date = Date.parse(header);
+    return isNaN(date) ? null : Math.max(0, date - Date.now());
+};
+
+// Turns a non-2xx response into the matching error class.
+export const classifyResponse = (status: number, message: string | undefined, retryAfter?: string | null): ApiError => {
+    const text = message || `Status ${status}`;
+    if (status === 429) return new RateLimitedError(text, parseRetryAfter(retryAfter), status);
+    const byMessage = message ? classifyMessage(message, status) : null;
+    if (byMessage) return byMessage;
+    if (status === 404 || status === 410) return new NotFoundError(text, status);
+    return new UpstreamError(text, status);
+};
+
+// youtubei.js reports unplayable videos through playability_status instead of an HTTP error.
+export const classifyPlayability = (status: string | undefined, reason: string | undefined): ApiError | null => {
+    if (!status || status === 'OK' || status === 'LIVE_STREAM_OFFLINE') return null;
+    const message = reason || status;
+    if (status === 'AGE_CHECK_REQUIRED' || status === 'AGE_VERIFICATION_REQUIRED') return new AgeRestrictedError(message);
+    return classifyMessage(message) || (status === 'ERROR' ? new NotFoundError(message) : null);
+};
+
+// Anything thrown by an adapter that is not already classified.
+export const toApiError = (error: unknown): ApiError => {
+    if (isApiError(error)) return error;
+    const message = error instanceof Error ? error.message : String(error);
+    return classifyMessage(message) || new ParseError(message);
+};
+
+export const backoffDelay = (error: ApiError, round: number): number => {
+    if (error instanceof RateLimitedError && error.retryAfterMs !== null) return Math.min(error.retryAfterMs, MAX_BACKOFF_MS);
+    return Math.min(error.policy.baseDelayMs * Math.pow(2, round), MAX_BACKOFF_MS);
+};
@@ -0,0 +1,73 @@
+// --- Formatting helpers shared by the API client and the backend adapters ---
+import dayjs from 'dayjs';
+import 'dayjs/locale/ja';
+import relativeTime from 'dayjs/plugin/relativeTime';
+
+dayjs.extend(relativeTime);
+dayjs.locale('ja');
+
+export const formatJapaneseNumber = (raw: number | string): string => {
+  if (!raw && raw !== 0) return '0';
+  const str = String(raw).trim();
+  
+  if (str.match(/[万億]/)) return str.replace(/[^0-9.万億]/g, '').replace(/\.0$/, '');
+  
+  const cleanStr = str.replace(/[^0-9.]/g, '');
+  if (!cleanStr) return str;
+  const num = parseFloat(cleanStr);
+  if (isNaN(num)) return str;
+
+  if (num >= 100000000) {
+    return `${(num / 100000000).toFixed(1).replace(/\.0$/, '')}億`;
+  }
+  if (num >= 10000) {
+    return `${(num / 10000).toFixed(1).replace(/\.0$/, '')}万`;
+  }
+  return num.toLocaleString();
+};
+
+export const formatJapaneseDate = (dateText: string): string => {
+  if (!dateText || !dateText.includes('ago')) return dateText;
+  const match = dateText.match(/(\d+)\s+(year|month|week|day|hour|minute|second)s?/);
+  if (match) {
+    const num = parseInt(match[1], 10);
+    const unit = match[2] as 'year'|'month'|'day'|'hour'|'minute'|'second';
+    return dayjs().subtract(num, unit).fromNow();
+  }
+  return dateText;
+};
+
+export const formatBytes = (bytes: number): string => {
+  if (bytes < 1024) return `${bytes}B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)}KB`;
+  if (bytes < 1024 * 1024 * 1024) return `${(bytes / 1024 / 1024).toFixed(1)}MB`;
+  return `${(bytes / 1024 / 1024 / 1024).toFixed(2)}GB`;
+};
+
+export const formatDuration = (totalSeconds: number): string => {
+  if (isNaN(totalSeconds) || totalSeconds < 0) return "0:00";
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+  if (hours > 0) return `${hours}:${String(minutes).padStart(2, '0')}:${String(seconds).padStart(2, '0')}`;
+  return `${minutes}:${String(seconds).padStart(2, '0')}`;
+};
+
+export const parseDuration = (iso: string, text: string): number => {
+    if (iso) {
+        const matches = iso.match(/PT(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?/);
+        if (matches) {
+            const h = parseInt(matches[1] || '0', 10);
+            const m = parseInt(matches[2] || '0', 10);
+            const s = parseInt(matches[3] || '0', 10);
+            return h * 3600 + m * 60 + s;
+        }
+    }
+    if (text) {
+         const parts = text.split(':').map(p => parseInt(p, 10));
+         if (parts.length === 3) return parts[0] * 3600 + parts[1] * 60 + parts[2];
+         if (parts.length === 2) return parts[0] * 60 + parts[1];
+         if (parts.length === 1) return parts[0];
+    }
+    return 0;
+}
@@ -0,0 +1,113 @@
+import type { LiveChatMessage, LiveChatResponse, LiveChatRun } from '../types';
+import { defineShape, field, optionalField } from './schema';
+
+// --- Live Chat ---
+// /api/live-chat passes through YouTube's live chat continuation (`liveChatContinuation`):
+// a list of actions, each wrapping one renderer per message kind, plus the token and
+// timeout for the next request. Replays wrap the same actions in `replayChatItemAction`
+// with the message's offset in the video.
+
+export const LIVE_CHAT_RESPONSE_SHAPE = defineShape('LiveChatContinuation', {
+    chat: field('object', 'continuationContents.liveChatContinuation', 'liveChatContinuation'),
+    actions: optionalField('array', 'continuationContents.liveChatContinuation.actions', 'liveChatContinuation.actions'),
+    continuations: optionalField('array', 'continuationContents.liveChatContinuation.continuations', 'liveChatContinuation.continuations'),
+});
+
+// Chat colors are ARGB integers
+const argbToCss = (value: unknown): string | undefined => {
+    if (typeof value !== 'number') return undefined;
+    const alpha = ((value >>> 24) & 0xff) / 255;
+    return `rgba(${(value >>> 16) & 0xff}, ${(value >>> 8) & 0xff}, ${value & 0xff}, ${alpha.toFixed(2)})`;
+};
+
+const textOf = (text: any): string => text?.simpleText ?? (Array.isArray(text?.runs) ? text.runs.map((r: any) => r.text ?? r.emoji?.shortcuts?.[0] ?? '').join('') : '');
+
+const bestThumbnail = (thumbnails: any): string => {
+    const list = Array.isArray(thumbnails?.thumbnails) ? thumbnails.thumbnails : [];
+    return list[list.length - 1]?.url || '';
+};
+
+// Standard emoji are plain characters; only custom (channel) emoji need their image
+const toRuns = (message: any): LiveChatRun[] => {
+    if (!Array.isArray(message?.runs)) return message?.simpleText ? [{ text: message.simpleText }] : [];
+    return message.runs.map((run: any): LiveChatRun => {
+        if (!run.emoji) return { text: run.text ?? '' };
+        const label = run.emoji.shortcuts?.[0] || run.emoji.emojiId || '';
+        return run.emoji.isCustomEmoji ? { emoji: label, imageUrl: bestThumbnail(run.emoji.image) } : { emoji: run.emoji.emojiId || label };
+    });
+};
+
+const toAuthor = (renderer: any): LiveChatMessage['author'] => {
+    const author: LiveChatMessage['author'] = {
+        id: renderer.authorExternalChannelId || '',
+        name: textOf(renderer.authorName),
+        thumbnailUrl: bestThumbnail(renderer.authorPhoto),
+    };
+    for (const badge of renderer.authorBadges || []) {
+        const info = badge.liveChatAuthorBadgeRenderer;
+        if (!info) continue;
+        if (info.customThumbnail) author.memberBadgeUrl = bestThumbnail(info.customThumbnail);
+        else if (info.icon?.iconType === 'OWNER') author.isOwner = true;
+        else if (info.icon?.iconType === 'MODERATOR') author.isModerator = true;
+        else if (info.icon?.iconType === 'VERIFIED') author.isVerified = true;
+    }
+    return author;
+};
+
+const toMessage = (item: any, offsetMs?: number): LiveChatMessage | null => {
+    const [type, renderer] = Object.entries(item || {})[0] || [];
+    if (!renderer) return null;
+    const r: any = renderer;
+    const base = { id: r.id || '', author: toAuthor(r), timestampMs: Math.floor(Number(r.timestampUsec || 0) / 1000), offsetMs };
+    switch (type) {
+        case 'liveChatTextMessageRenderer':
+            return { ...base, kind: 'text', runs: toRuns(r.message) };
+        case 'liveChatPaidMessageRenderer':
+            return {
+                ...base, kind: 'superchat', runs: toRuns(r.message), amount: textOf(r.purchaseAmountText),
+                headerColor: argbToCss(r.headerBackgroundColor), bodyColor: argbToCss(r.bodyBackgroundColor),
+            };
+        case 'liveChatPaidStickerRenderer':
+            return {
+                ...base, kind: 'supersticker', runs: [], amount: textOf(r.purchaseAmountText),
+                headerColor: argbToCss(r.backgroundColor), bodyColor: argbToCss(r.backgroundColor), stickerUrl: bestThumbnail(r.sticker),
+            };
+        case 'liveChatMembershipItemRenderer':
+            return { ...base, kind: 'membership', runs: toRuns(r.message), headerText: textOf(r.headerPrimaryText) || textOf(r.headerSubtext) };
+        case 'liveChatSponsorshipsGiftPurchaseAnnouncementRenderer': {
+            const header = r.header?.liveChatSponsorshipsHeaderRenderer || {};
+            return { ...base, author: toAuthor(header), kind: 'membership', runs: [], headerText: textOf(header.primaryText) };
+        }
+        default:
+            // Placeholders, tickers, banners and system notices are not shown
+            return null;
+    }
+};
+
+const continuationOf = (chat: any): { continuation?: string; pollIntervalMs?: number } => {
+    for (const entry of chat?.continuations || []) {
+        const data = entry.invalidationContinuationData || entry.timedContinuationData
+            || entry.reloadContinuationData || entry.liveChatReplayContinuationData || entry.playerSeekContinuationData;
+        if (data?.continuation) return { continuation: data.continuation, pollIntervalMs: data.timeoutMs };
+    }
+    return {};
+};
+
+export const parseLiveChat = (data: any): LiveChatResponse => {
+    const chat = data?.continuationContents?.liveChatContinuation ?? data?.liveChatContinuation ?? data;
+    const messages: LiveChatMessage[] = [];
+    for (const action of chat?.actions || []) {
+        const replay = action.replayChatItemAction;
+        const inner = replay ? replay.actions || [] : [action];
+        const offsetMs = replay ? Number(replay.videoOffsetTimeMsec) : undefined;
+        for (const a of inner) {
+            const message = toMessage(a.addChatItemAction?.item, offsetMs);
+            if (message) messages.push(message);
+        }
+    }
+    return { messages, ...continuationOf(chat) };
+};
+
+// Text used for keyword filtering, with emoji as their shortcuts
+export const liveChatText = (message: LiveChatMessage): string =>
+    message.runs.map(run => 'text' in run ? run.text : run.emoji).join('');
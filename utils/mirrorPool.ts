@@ -0,0 +1,163 @@
+// --- API Mirror Pool ---
+// Tracks the health of every API mirror (latency, error rate, last failure) and
+// ranks them so requests go to the mirror most likely to answer quickly.
+// Mirrors that keep failing are put on a cooldown (circuit breaker) instead of
+// being retried on every call, and background probes bring them back once they
+// respond again (e.g. after a Render cold start).
+
+// preferred: user-configured, tried first in the user's order
+// primary: built-in mirrors of the main backend
+// fallback: built-in servers of other backend families, used when every primary mirror fails
+export type MirrorTier = 'preferred' | 'primary' | 'fallback';
+
+export interface MirrorHealth {
+    url: string;
+    latencyMs: number | null;      // Smoothed (EWMA) response time
+    errorRate: number;             // 0..1 over the recent window
+    successCount: number;
+    failureCount: number;
+    consecutiveFailures: number;
+    lastSuccessAt: number | null;
+    lastFailureAt: number | null;
+    lastError: string | null;
+    cooldownUntil: number;         // Circuit is open until this timestamp
+    lastProbeAt: number | null;
+    tier: MirrorTier;
+}
+
+type Listener = () => void;
+
+const RECENT_WINDOW = 20;
+const LATENCY_SMOOTHING = 0.3;
+const UNKNOWN_LATENCY_MS = 1500;
+const FAILURES_BEFORE_COOLDOWN = 3;
+const BASE_COOLDOWN_MS = 30 * 1000;
+const MAX_COOLDOWN_MS = 10 * 60 * 1000;
+const PROBE_INTERVAL_MS = 2 * 60 * 1000;
+const PROBE_TIMEOUT_MS = 10 * 1000;
+
+interface MirrorState extends MirrorHealth {
+    recent: boolean[];
+}
+
+let mirrors: MirrorState[] = [];
+let snapshot: MirrorHealth[] = [];
+const listeners = new Set<Listener>();
+
+let probeFn: ((baseUrl: string, signal: AbortSignal) => Promise<void>) | null = null;
+let probeTimer: ReturnType<typeof setInterval> | null = null;
+
+const createState = (url: string): MirrorState => ({
+    url, latencyMs: null, errorRate: 0, successCount: 0, failureCount: 0, consecutiveFailures: 0,
+    lastSuccessAt: null, lastFailureAt: null, lastError: null, cooldownUntil: 0, lastProbeAt: null,
+    tier: 'primary', recent: []
+});
+
+const emit = () => {
+    snapshot = mirrors.map(({ recent, ...health }) => ({ ...health }));
+    listeners.forEach(listener => listener());
+};
+
+const findState = (url: string) => mirrors.find(m => m.url === url);
+
+const pushRecent = (state: MirrorState, ok: boolean) => {
+    state.recent.push(ok);
+    if (state.recent.length > RECENT_WINDOW) state.recent.shift();
+    state.errorRate = state.recent.filter(r => !r).length / state.recent.length;
+};
+
+const isCoolingDown = (state: MirrorState, now: number) => state.cooldownUntil > now;
+
+// Lower is better. Unknown mirrors get a neutral latency so they are still tried.
+const scoreOf = (state: MirrorState) => (state.latencyMs ?? UNKNOWN_LATENCY_MS) * (1 + state.errorRate * 4);
+
+export const registerMirrors = (urls: string[], preferredUrls: string[] = [], fallbackUrls: string[] = []) => {
+    const unique = Array.from(new Set([...preferredUrls, ...urls, ...fallbackUrls].filter(Boolean)));
+    mirrors = unique.map(url => {
+        const state = findState(url) || createState(url);
+        state.tier = preferredUrls.includes(url) ? 'preferred' : urls.includes(url) ? 'primary' : 'fallback';
+        return state;
+    });
+    emit();
+};
+
+export const rankMirrors = (): string[] => {
+    const now = Date.now();
+    const available = mirrors.filter(m => !isCoolingDown(m, now));
+    // Preferred mirrors keep the user's order; built-in ones are ordered by health within their tier.
+    const preferred = available.filter(m => m.tier === 'preferred');
+    const primary = available.filter(m => m.tier === 'primary').sort((a, b) => scoreOf(a) - scoreOf(b));
+    const fallback = available.filter(m => m.tier === 'fallback').sort((a, b) => scoreOf(a) - scoreOf(b));
+    // Half-open: if every mirror is cooling down, try the one that recovers first rather than failing outright.
+    const cooling = mirrors.filter(m => isCoolingDown(m, now)).sort((a, b) => a.cooldownUntil - b.cooldownUntil);
+    return [...preferred, ...primary, ...fallback, ...cooling].map(m => m.url);
+};
+
+export const getBestMirror = (): string => rankMirrors()[0] || '';
+
+export const reportMirrorSuccess = (url: string, latencyMs: number) => {
+    const state = findState(url);
+    if (!state) return;
+    state.latencyMs = state.latencyMs === null ? latencyMs : state.latencyMs * (1 - LATENCY_SMOOTHING) + latencyMs * LATENCY_SMOOTHING;
+    state.successCount++;
+    state.consecutiveFailures = 0;
+    state.cooldownUntil = 0;
+    state.lastSuccessAt = Date.now();
+    pushRecent(state, true);
+    emit();
+};
+
+export const reportMirrorFailure = (url: string, error: unknown) => {
+    const state = findState(url);
+    if (!state) return;
+    const now = Date.now();
+    state.failureCount++;
+    state.consecutiveFailures++;
+    state.lastFailureAt = now;
+    state.lastError = error instanceof Error ? error.message : String(error);
+    pushRecent(state, false);
+    if (state.consecutiveFailures >= FAILURES_BEFORE_COOLDOWN) {
+        const exponent = state.consecutiveFailures - FAILURES_BEFORE_COOLDOWN;
+        state.cooldownUntil = now + Math.min(BASE_COOLDOWN_MS * Math.pow(2, exponent), MAX_COOLDOWN_MS);
+    }
+    emit();
+};
+
+export const probeMirror = async (url: string): Promise<void> => {
+    const state = findState(url);
+    if (!state || !probeFn) return;
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), PROBE_TIMEOUT_MS);
+    const started = performance.now();
+    state.lastProbeAt = Date.now();
+    try {
+        await probeFn(url, controller.signal);
+        reportMirrorSuccess(url, performance.now() - started);
+    } catch (e) {
+        reportMirrorFailure(url, controller.signal.aborted ? new Error('Probe timed out') : e);
+    } finally {
+        clearTimeout(timer);
+    }
+};
+
+export const probeAllMirrors = async (): Promise<void> => {
+    await Promise.allSettled(mirrors.map(m => probeMirror(m.url)));
+};
+
+export const startHealthProbes = (probe: (baseUrl: string, signal: AbortSignal) => Promise<void>) => {
+    probeFn = probe;
+    if (probeTimer || typeof window === 'undefined') return;
+    probeTimer = setInterval(() => {
+        if (document.visibilityState === 'hidden' || !navigator.onLine) return;
+        probeAllMirrors();
+    }, PROBE_INTERVAL_MS);
+    // Initial probe warms up cold mirrors without blocking the first real request.
+    setTimeout(() => probeAllMirrors(), 3000);
+};
+
+export const getMirrorHealth = (): MirrorHealth[] => snapshot;
+
+export const subscribeMirrorHealth = (listener: Listener) => {
+    listeners.add(listener);
+    return () => { listeners.delete(listener); };
+};
@@ -0,0 +1,34 @@
+// --- List Paging ---
+// Channel lists are paged with the continuation token the backend returns. A page
+// number is only derived when the backend explicitly reports more results without
+// sending a token; an empty page, a repeated token or a missing signal ends the list.
+
+const PAGE_NUMBER = /^\d+$/;
+
+export const FIRST_PAGE = '1';
+
+export const isFirstPage = (pageToken: string | undefined) => !pageToken || pageToken === FIRST_PAGE;
+
+// Query parameter for a page token: page numbers and continuation tokens go to different parameters.
+export const pageQuery = (pageToken: string): string =>
+    PAGE_NUMBER.test(pageToken) ? `page=${pageToken}` : `continuation=${encodeURIComponent(pageToken)}`;
+
+export const resolveNextPageToken = (data: any, pageToken: string, itemCount: number): string | undefined => {
+    if (itemCount === 0 || !data || Array.isArray(data)) return undefined;
+    const continuation = data.continuation ?? data.nextPageToken;
+    if (typeof continuation === 'string' && continuation && continuation !== pageToken) return continuation;
+    const hasMore = data.has_continuation ?? data.hasMore;
+    if (hasMore === true && PAGE_NUMBER.test(pageToken)) return String(parseInt(pageToken) + 1);
+    return undefined;
+};
+
+// Appends a page while dropping items already shown; `added` is 0 when the backend repeated itself.
+export const appendUnique = <T extends { id: string }>(existing: T[], page: T[]): { items: T[]; added: number } => {
+    const seen = new Set(existing.map(item => item.id));
+    const fresh = page.filter(item => {
+        if (seen.has(item.id)) return false;
+        seen.add(item.id);
+        return true;
+    });
+    return { items: fresh.length > 0 ? [...existing, ...fresh] : existing, added: fresh.length };
+};
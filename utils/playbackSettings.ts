@@ -0,0 +1,67 @@
+// --- Per-Video Playback Settings ---
+// Speed, transpose and the A-B loop are remembered per video so practising a piece
+// picks up where it was left. Only non-default settings are stored, and the least
+// recently used entries are dropped beyond the limit.
+
+export interface LoopRange {
+    a: number;   // Seconds
+    b: number;
+}
+
+export interface VideoPlaybackSettings {
+    speed: number;
+    transpose: number;
+    loop: LoopRange | null;
+}
+
+interface StoredSettings extends VideoPlaybackSettings {
+    updatedAt: number;
+}
+
+const STORAGE_KEY = 'videoPlaybackSettings';
+const MAX_ENTRIES = 300;
+
+export const DEFAULT_PLAYBACK_SETTINGS: VideoPlaybackSettings = { speed: 1, transpose: 0, loop: null };
+
+const readAll = (): Record<string, StoredSettings> => {
+    try {
+        return JSON.parse(localStorage.getItem(STORAGE_KEY) || '{}');
+    } catch {
+        return {};
+    }
+};
+
+const isDefault = (settings: VideoPlaybackSettings) =>
+    settings.speed === DEFAULT_PLAYBACK_SETTINGS.speed && settings.transpose === DEFAULT_PLAYBACK_SETTINGS.transpose && !settings.loop;
+
+export const isValidLoop = (loop: LoopRange | null | undefined): loop is LoopRange =>
+    !!loop && isFinite(loop.a) && isFinite(loop.b) && loop.a >= 0 && loop.b > loop.a;
+
+export const loadVideoSettings = (videoId: string): VideoPlaybackSettings => {
+    const stored = readAll()[videoId];
+    if (!stored) return DEFAULT_PLAYBACK_SETTINGS;
+    return {
+        speed: typeof stored.speed === 'number' ? stored.speed : DEFAULT_PLAYBACK_SETTINGS.speed,
+        transpose: typeof stored.transpose === 'number' ? stored.transpose : DEFAULT_PLAYBACK_SETTINGS.transpose,
+        loop: isValidLoop(stored.loop) ? stored.loop : null,
+    };
+};
+
+export const saveVideoSettings = (videoId: string, settings: VideoPlaybackSettings) => {
+    const all = readAll();
+    if (isDefault(settings)) {
+        if (!all[videoId]) return;
+        delete all[videoId];
+    } else {
+        all[videoId] = { ...settings, updatedAt: Date.now() };
+        const ids = Object.keys(all);
+        if (ids.length > MAX_ENTRIES) {
+            ids.sort((a, b) => all[b].updatedAt - all[a].updatedAt).slice(MAX_ENTRIES).forEach(id => delete all[id]);
+        }
+    }
+    try {
+        localStorage.setItem(STORAGE_KEY, JSON.stringify(all));
+    } catch (error) {
+        console.error("Failed to save playback settings", error);
+    }
+};
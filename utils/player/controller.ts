@@ -0,0 +1,74 @@
+// --- Player Controller ---
+// One interface over every way a video can be played: the YouTube embed (driven
+// through postMessage) and a <video> element fed by HLS, the adaptive engine or a
+// progressive file. Pages talk only to a PlayerController, so speed, resume,
+// queue advance and keyboard shortcuts behave the same in every player mode.
+
+// 'audio' is the audio-only mode, an <audio> element playing the audio-only format directly
+export type PlayerKind = 'iframe' | 'hls' | 'adaptive' | 'progressive' | 'audio';
+
+export type PlayerEventType = 'ready' | 'play' | 'pause' | 'ended' | 'timeupdate' | 'ratechange' | 'volumechange';
+
+export interface PlayerController {
+    readonly kind: PlayerKind;
+    play(): void;
+    pause(): void;
+    seek(seconds: number): void;
+    getCurrentTime(): number;
+    getDuration(): number;
+    isPaused(): boolean;
+    setPlaybackRate(rate: number): void;
+    getPlaybackRate(): number;
+    setVolume(volume: number): void;    // 0..1
+    getVolume(): number;
+    setMuted(muted: boolean): void;
+    isMuted(): boolean;
+    // Key change in semitones at constant tempo; only players whose audio can go through Web Audio
+    readonly supportsTranspose: boolean;
+    setTranspose(semitones: number): void;
+    // Shows the first caption track, or hides the one that is showing
+    toggleCaptions(): void;
+    // The <iframe> or media element, for fullscreen
+    readonly element: HTMLElement;
+    on(type: PlayerEventType, listener: () => void): () => void;
+    destroy(): void;
+}
+
+export const createPlayerEmitter = () => {
+    const listeners = new Map<PlayerEventType, Set<() => void>>();
+    return {
+        on(type: PlayerEventType, listener: () => void) {
+            if (!listeners.has(type)) listeners.set(type, new Set());
+            listeners.get(type)!.add(listener);
+            return () => { listeners.get(type)?.delete(listener); };
+        },
+        emit(type: PlayerEventType) {
+            listeners.get(type)?.forEach(listener => listener());
+        },
+        clear() {
+            listeners.clear();
+        },
+    };
+};
+
+export const togglePlay = (controller: PlayerController) => controller.isPaused() ? controller.play() : controller.pause();
+
+// Fullscreen covers the player's container (marked with data-player-root) when there is
+// one, so overlays drawn over the video stay visible
+export const toggleFullscreen = (controller: PlayerController) => {
+    if (document.fullscreenElement) {
+        document.exitFullscreen().catch(() => {});
+        return;
+    }
+    const target = controller.element.closest<HTMLElement>('[data-player-root]') || controller.element;
+    target.requestFullscreen?.().catch(e => console.warn("Fullscreen unavailable:", e));
+};
+
+// Accepts YouTube's `t` parameter: '90', '90s' or '1h2m3s'.
+export const parseStartTime = (value: string | null): number | null => {
+    if (!value) return null;
+    if (/^\d+(\.\d+)?$/.test(value)) return parseFloat(value);
+    const match = value.match(/^(?:(\d+)h)?(?:(\d+)m)?(?:(\d+)s)?$/);
+    if (!match || !match[0]) return null;
+    return (parseInt(match[1] || '0') * 3600) + (parseInt(match[2] || '0') * 60) + parseInt(match[3] || '0');
+};
@@ -0,0 +1,134 @@
+import { createPlayerEmitter, type PlayerController } from './controller';
+
+// Drives the YouTube embed through the IFrame API's postMessage protocol without
+// loading the iframe_api script: the page announces itself with 'listening', the
+// embed answers with infoDelivery updates, and commands are posted back.
+
+const EMBED_ORIGINS = ['https://www.youtube.com', 'https://www.youtubeeducation.com'];
+const HANDSHAKE_INTERVAL_MS = 250;
+const HANDSHAKE_TIMEOUT_MS = 15 * 1000;
+// The embed rejects rates outside this range
+const MIN_RATE = 0.25;
+const MAX_RATE = 2;
+
+// YT.PlayerState
+const ENDED = 0;
+const PLAYING = 1;
+const BUFFERING = 3;
+
+export const isEmbedOrigin = (origin: string) => EMBED_ORIGINS.includes(origin);
+
+export const createIframeController = (iframe: HTMLIFrameElement): PlayerController => {
+    const emitter = createPlayerEmitter();
+    let ready = false;
+    let playerState = -1;
+    let currentTime = 0;
+    let currentTimeAt = 0;
+    let duration = 0;
+    let playbackRate = 1;
+    let volume = 1;
+    let muted = false;
+    // The embed doesn't report caption state, so it is tracked from our own toggles
+    let captionsOn = false;
+    let handshake: ReturnType<typeof setInterval> | null = null;
+
+    const post = (message: object) => iframe.contentWindow?.postMessage(JSON.stringify({ ...message, id: 1, channel: 'widget' }), '*');
+    const command = (func: string, args: unknown[] = []) => post({ event: 'command', func, args });
+
+    // Updates arrive a few times a second, so the time is extrapolated in between
+    const estimateTime = () => playerState === PLAYING
+        ? Math.min(currentTime + ((performance.now() - currentTimeAt) / 1000) * playbackRate, duration || Infinity)
+        : currentTime;
+
+    const stopHandshake = () => {
+        if (handshake) clearInterval(handshake);
+        handshake = null;
+    };
+
+    const applyState = (state: number) => {
+        if (state === playerState) return;
+        const wasPlaying = playerState === PLAYING || playerState === BUFFERING;
+        playerState = state;
+        if (state === PLAYING) emitter.emit('play');
+        else if (state === ENDED) emitter.emit('ended');
+        else if (wasPlaying && state !== BUFFERING) emitter.emit('pause');
+    };
+
+    const handleMessage = (event: MessageEvent) => {
+        if (event.source !== iframe.contentWindow || !isEmbedOrigin(event.origin)) return;
+        let data: any;
+        try { data = typeof event.data === 'string' ? JSON.parse(event.data) : event.data; } catch { return; }
+        if (!data || typeof data !== 'object') return;
+
+        if (!ready && (data.event === 'onReady' || data.event === 'initialDelivery' || data.event === 'infoDelivery')) {
+            ready = true;
+            stopHandshake();
+            emitter.emit('ready');
+        }
+        if (data.event === 'onStateChange' && typeof data.info === 'number') applyState(data.info);
+        if (data.event !== 'infoDelivery' && data.event !== 'initialDelivery') return;
+
+        const info = data.info || {};
+        if (typeof info.duration === 'number') duration = info.duration;
+        if (typeof info.currentTime === 'number') {
+            currentTime = info.currentTime;
+            currentTimeAt = performance.now();
+            emitter.emit('timeupdate');
+        }
+        if (typeof info.playbackRate === 'number' && info.playbackRate !== playbackRate) {
+            playbackRate = info.playbackRate;
+            emitter.emit('ratechange');
+        }
+        if ((typeof info.volume === 'number' && info.volume / 100 !== volume) || (typeof info.muted === 'boolean' && info.muted !== muted)) {
+            if (typeof info.volume === 'number') volume = info.volume / 100;
+            if (typeof info.muted === 'boolean') muted = info.muted;
+            emitter.emit('volumechange');
+        }
+        if (typeof info.playerState === 'number') applyState(info.playerState);
+    };
+
+    // The embed only starts sending updates after it has seen 'listening', which may be lost while it loads
+    const startedAt = performance.now();
+    handshake = setInterval(() => {
+        if (performance.now() - startedAt > HANDSHAKE_TIMEOUT_MS) stopHandshake();
+        else post({ event: 'listening' });
+    }, HANDSHAKE_INTERVAL_MS);
+
+    const handleLoad = () => post({ event: 'listening' });
+    window.addEventListener('message', handleMessage);
+    iframe.addEventListener('load', handleLoad);
+
+    return {
+        kind: 'iframe',
+        play: () => command('playVideo'),
+        pause: () => command('pauseVideo'),
+        seek(seconds) {
+            currentTime = Math.max(0, seconds);
+            currentTimeAt = performance.now();
+            command('seekTo', [currentTime, true]);
+        },
+        getCurrentTime: estimateTime,
+        getDuration: () => duration,
+        isPaused: () => playerState !== PLAYING && playerState !== BUFFERING,
+        setPlaybackRate: rate => command('setPlaybackRate', [Math.min(Math.max(rate, MIN_RATE), MAX_RATE)]),
+        getPlaybackRate: () => playbackRate,
+        setVolume: value => command('setVolume', [Math.round(Math.min(Math.max(value, 0), 1) * 100)]),
+        getVolume: () => volume,
+        setMuted: value => command(value ? 'mute' : 'unMute'),
+        isMuted: () => muted,
+        supportsTranspose: false,
+        setTranspose: () => {},
+        toggleCaptions() {
+            captionsOn = !captionsOn;
+            command(captionsOn ? 'loadModule' : 'unloadModule', ['captions']);
+        },
+        element: iframe,
+        on: emitter.on,
+        destroy() {
+            stopHandshake();
+            window.removeEventListener('message', handleMessage);
+            iframe.removeEventListener('load', handleLoad);
+            emitter.clear();
+        },
+    };
+};
@@ -0,0 +1,78 @@
+import { createPlayerEmitter, type PlayerController, type PlayerEventType, type PlayerKind } from './controller';
+import { isTransposeSupported, setTranspose } from '../audio/pitchShifter';
+
+// HLS, adaptive and progressive playback all end in a <video> element (and the
+// audio-only mode in an <audio> one), so one adapter covers them; `kind` only
+// records which pipeline feeds it.
+
+const FORWARDED_EVENTS: [keyof HTMLMediaElementEventMap, PlayerEventType][] = [
+    ['loadedmetadata', 'ready'],
+    ['play', 'play'],
+    ['pause', 'pause'],
+    ['ended', 'ended'],
+    ['timeupdate', 'timeupdate'],
+    ['ratechange', 'ratechange'],
+    ['volumechange', 'volumechange'],
+];
+
+// Web Audio hears an element only when its media is same-origin or CORS-enabled;
+// anything else plays silent. MSE pipelines (hls.js, the adaptive engine) play from a
+// blob: URL, but native HLS and the progressive fallbacks point the element straight
+// at googlevideo or a mirror, so this is decided from the source actually loaded.
+const canRouteThroughWebAudio = (media: HTMLMediaElement): boolean => {
+    const src = media.currentSrc || media.src;
+    if (!src) return false;
+    if (src.startsWith('blob:') || media.crossOrigin !== null) return true;
+    try {
+        return new URL(src, window.location.href).origin === window.location.origin;
+    } catch {
+        return false;
+    }
+};
+
+export const createMediaElementController = (video: HTMLMediaElement, kind: Exclude<PlayerKind, 'iframe'>): PlayerController => {
+    const emitter = createPlayerEmitter();
+    const handlers = FORWARDED_EVENTS.map(([source, target]) => {
+        const handler = () => emitter.emit(target);
+        video.addEventListener(source, handler);
+        return [source, handler] as const;
+    });
+    // Metadata may already be loaded when the controller is attached late
+    if (video.readyState >= HTMLMediaElement.HAVE_METADATA) queueMicrotask(() => emitter.emit('ready'));
+
+    return {
+        kind,
+        play: () => { video.play().catch(e => console.warn("Autoplay prevented:", e)); },
+        pause: () => video.pause(),
+        seek: seconds => { video.currentTime = Math.max(0, seconds); },
+        getCurrentTime: () => video.currentTime,
+        getDuration: () => (isFinite(video.duration) ? video.duration : 0),
+        isPaused: () => video.paused,
+        setPlaybackRate: rate => { video.playbackRate = rate; },
+        getPlaybackRate: () => video.playbackRate,
+        setVolume: volume => { video.volume = Math.min(Math.max(volume, 0), 1); },
+        getVolume: () => video.volume,
+        setMuted: muted => { video.muted = muted; },
+        isMuted: () => video.muted,
+        // The source can change after the controller is created (fallbacks), so this is read live
+        get supportsTranspose() {
+            return isTransposeSupported() && canRouteThroughWebAudio(video);
+        },
+        setTranspose(semitones) {
+            if (!canRouteThroughWebAudio(video)) return;
+            setTranspose(video, semitones).catch(e => console.warn("Transpose unavailable:", e));
+        },
+        toggleCaptions() {
+            const tracks = Array.from(video.textTracks).filter(track => track.kind === 'subtitles' || track.kind === 'captions');
+            const showing = tracks.filter(track => track.mode === 'showing');
+            if (showing.length > 0) showing.forEach(track => { track.mode = 'disabled'; });
+            else if (tracks[0]) tracks[0].mode = 'showing';
+        },
+        element: video,
+        on: emitter.on,
+        destroy() {
+            handlers.forEach(([source, handler]) => video.removeEventListener(source, handler));
+            emitter.clear();
+        },
+    };
+};
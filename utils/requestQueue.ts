@@ -0,0 +1,128 @@
+// --- Request Queue ---
+// Shares one promise between identical in-flight requests and limits how many
+// requests run at once. Queued work is started by priority: on-screen work
+// ('high') goes before normal page loads, and background work ('low', e.g.
+// notification polling) only ever gets a couple of slots so it cannot starve
+// the page the user is looking at.
+// Callers can pass an AbortSignal. A shared request is only cancelled once every
+// caller waiting on it has aborted; until then the others keep receiving it.
+
+export type RequestPriority = 'high' | 'normal' | 'low';
+
+const MAX_CONCURRENT = 6;
+const MAX_LOW_CONCURRENT = 2;
+const PRIORITY_ORDER: RequestPriority[] = ['high', 'normal', 'low'];
+
+interface QueuedTask {
+    priority: RequestPriority;
+    run: () => void;
+}
+
+const queues: Record<RequestPriority, QueuedTask[]> = { high: [], normal: [], low: [] };
+interface InFlightEntry<T = any> {
+    promise: Promise<T>;
+    task: QueuedTask | null;   // Set while still waiting in the queue
+    controller: AbortController;
+    subscribers: number;
+}
+
+export interface ScheduleOptions {
+    priority?: RequestPriority;
+    signal?: AbortSignal;
+}
+
+const inFlight = new Map<string, InFlightEntry>();
+let running = 0;
+let runningLow = 0;
+
+const pump = () => {
+    while (running < MAX_CONCURRENT) {
+        const priority = PRIORITY_ORDER.find(p => queues[p].length > 0 && (p !== 'low' || runningLow < MAX_LOW_CONCURRENT));
+        if (!priority) return;
+        queues[priority].shift()!.run();
+    }
+};
+
+const rank = (priority: RequestPriority) => PRIORITY_ORDER.indexOf(priority);
+
+// Moves a still-queued task up when a more urgent caller joins it.
+const promote = (task: QueuedTask, priority: RequestPriority) => {
+    if (rank(priority) >= rank(task.priority)) return;
+    const queue = queues[task.priority];
+    const index = queue.indexOf(task);
+    if (index === -1) return;
+    queue.splice(index, 1);
+    task.priority = priority;
+    queues[priority].push(task);
+    pump();
+};
+
+export const createAbortError = () => new DOMException('The request was aborted', 'AbortError');
+
+export const isAbortError = (error: any): boolean => error?.name === 'AbortError';
+
+const createEntry = <T>(key: string, fn: (signal: AbortSignal) => Promise<T>, priority: RequestPriority): InFlightEntry<T> => {
+    let resolve!: (value: T) => void;
+    let reject!: (reason: unknown) => void;
+    const promise = new Promise<T>((res, rej) => { resolve = res; reject = rej; });
+    const entry: InFlightEntry<T> = { promise, task: null, controller: new AbortController(), subscribers: 0 };
+    const task: QueuedTask = {
+        priority,
+        run: () => {
+            entry.task = null;
+            const isLow = task.priority === 'low';
+            running++;
+            if (isLow) runningLow++;
+            fn(entry.controller.signal).then(resolve, reject).finally(() => {
+                running--;
+                if (isLow) runningLow--;
+                if (inFlight.get(key) === entry) inFlight.delete(key);
+                pump();
+            });
+        },
+    };
+    entry.task = task;
+    queues[priority].push(task);
+
+    entry.controller.signal.addEventListener('abort', () => {
+        // Later callers must start a fresh request instead of joining the cancelled one
+        if (inFlight.get(key) === entry) inFlight.delete(key);
+        if (entry.task) {
+            const queue = queues[entry.task.priority];
+            queue.splice(queue.indexOf(entry.task), 1);
+            entry.task = null;
+            reject(createAbortError());
+        }
+    });
+    // Callers observe the promise through subscribe(); this keeps an unobserved abort from being reported as unhandled
+    entry.promise.catch(() => {});
+    return entry;
+};
+
+const subscribe = <T>(entry: InFlightEntry<T>, signal?: AbortSignal): Promise<T> => {
+    entry.subscribers++;
+    if (!signal) return entry.promise;
+    return new Promise<T>((resolve, reject) => {
+        const onAbort = () => {
+            reject(createAbortError());
+            if (--entry.subscribers === 0) entry.controller.abort();
+        };
+        signal.addEventListener('abort', onAbort, { once: true });
+        entry.promise.then(resolve, reject).finally(() => signal.removeEventListener('abort', onAbort));
+    });
+};
+
+export function scheduleRequest<T>(key: string, fn: (signal: AbortSignal) => Promise<T>, { priority = 'normal', signal }: ScheduleOptions = {}): Promise<T> {
+    if (signal?.aborted) return Promise.reject(createAbortError());
+
+    const existing = inFlight.get(key) as InFlightEntry<T> | undefined;
+    if (existing) {
+        if (existing.task) promote(existing.task, priority);
+        return subscribe(existing, signal);
+    }
+
+    const entry = createEntry(key, fn, priority);
+    inFlight.set(key, entry);
+    pump();
+    return subscribe(entry, signal);
+}
@@ -0,0 +1,45 @@
+import { parseDuration } from './format';
+
+// --- Rich Text ---
+// Comments arrive as plain text. This splits it into the parts the UI turns into
+// links: timestamps (seek within the video), URLs and #hashtags (search).
+
+export type TextSegment =
+    | { type: 'text'; text: string }
+    | { type: 'timestamp'; text: string; seconds: number }
+    | { type: 'url'; text: string; href: string }
+    | { type: 'hashtag'; text: string; tag: string };
+
+// One alternation so the earliest match wins; hashtags need a boundary so "C#" and URL fragments stay text
+const TOKEN_PATTERN = /(https?:\/\/[^\s<>"]+|www\.[^\s<>"]+)|(?<![\d:])((?:\d{1,2}:)?\d{1,2}:\d{2})(?![\d:])|(?<![\p{L}\p{N}_&/])#([\p{L}\p{N}_]+)/gu;
+
+// Closing punctuation at the end of a URL usually belongs to the sentence
+const TRAILING_PUNCTUATION = /[.,!?;:)\]」』）。、]+$/u;
+
+export const tokenizeText = (text: string): TextSegment[] => {
+    const segments: TextSegment[] = [];
+    let last = 0;
+    const pushText = (value: string) => {
+        if (!value) return;
+        const previous = segments[segments.length - 1];
+        if (previous?.type === 'text') previous.text += value;
+        else segments.push({ type: 'text', text: value });
+    };
+    for (const match of text.matchAll(TOKEN_PATTERN)) {
+        const index = match.index ?? 0;
+        pushText(text.slice(last, index));
+        const [whole, url, timestamp, tag] = match;
+        if (url) {
+            const trimmed = url.replace(TRAILING_PUNCTUATION, '');
+            segments.push({ type: 'url', text: trimmed, href: trimmed.startsWith('www.') ? `https://${trimmed}` : trimmed });
+            pushText(url.slice(trimmed.length));
+        } else if (timestamp) {
+            segments.push({ type: 'timestamp', text: timestamp, seconds: parseDuration('', timestamp) });
+        } else {
+            segments.push({ type: 'hashtag', text: whole, tag });
+        }
+        last = index + whole.length;
+    }
+    pushText(text.slice(last));
+    return segments;
+};
@@ -0,0 +1,170 @@
+// --- Response Schema Validation ---
+// Backend payloads are youtubei.js objects whose structure changes upstream
+// without notice. Mappers declare the shape they rely on, validate the raw
+// payload against it and return their result together with warnings for every
+// field that was missing or had an unexpected type. Warnings are aggregated per
+// endpoint so structural drift shows up in the parser health view instead of
+// silently turning into '無題' / '不明' placeholders.
+
+export type FieldKind = 'string' | 'number' | 'boolean' | 'array' | 'object' | 'present';
+
+export interface FieldSpec {
+    paths: string[];      // Alternatives; the first one that resolves wins
+    kind: FieldKind;
+    optional?: boolean;   // Optional fields only warn on a wrong type, never when missing
+}
+
+export interface Shape {
+    name: string;
+    fields: Record<string, FieldSpec>;
+}
+
+export interface SchemaWarning {
+    shape: string;
+    field: string;
+    paths: string[];
+    problem: 'missing' | 'type';
+    actual?: string;
+}
+
+export interface Mapped<T> {
+    value: T;
+    warnings: SchemaWarning[];
+}
+
+export interface DriftRecord {
+    endpoint: string;
+    shape: string;
+    field: string;
+    paths: string[];
+    problem: 'missing' | 'type';
+    actual?: string;
+    count: number;
+    firstSeenAt: number;
+    lastSeenAt: number;
+    sampleId?: string;
+}
+
+export interface EndpointHealth {
+    endpoint: string;
+    checked: number;
+    withWarnings: number;
+    lastCheckedAt: number;
+}
+
+export interface ParserHealth {
+    endpoints: EndpointHealth[];
+    drift: DriftRecord[];
+}
+
+type Listener = () => void;
+
+const MAX_DRIFT_RECORDS = 100;
+
+export const field = (kind: FieldKind, ...paths: string[]): FieldSpec => ({ kind, paths });
+export const optionalField = (kind: FieldKind, ...paths: string[]): FieldSpec => ({ kind, paths, optional: true });
+export const defineShape = (name: string, fields: Record<string, FieldSpec>): Shape => ({ name, fields });
+
+// Resolves 'a.b[0].c' (or 'a.b.0.c') against an object.
+export const getPath = (obj: any, path: string): any => {
+    let current = obj;
+    for (const part of path.replace(/\[(\d+)\]/g, '.$1').split('.')) {
+        if (current === null || current === undefined) return undefined;
+        current = current[part];
+    }
+    return current;
+};
+
+const kindOf = (value: any): string => {
+    if (Array.isArray(value)) return 'array';
+    if (value === null) return 'null';
+    return typeof value;
+};
+
+const matchesKind = (value: any, kind: FieldKind) => kind === 'present' || kindOf(value) === kind;
+
+export const validateShape = (shape: Shape, payload: any): SchemaWarning[] => {
+    const warnings: SchemaWarning[] = [];
+    for (const [name, spec] of Object.entries(shape.fields)) {
+        const found = spec.paths.map(path => getPath(payload, path)).find(value => value !== undefined && value !== null);
+        if (found === undefined) {
+            if (!spec.optional) warnings.push({ shape: shape.name, field: name, paths: spec.paths, problem: 'missing' });
+        } else if (!matchesKind(found, spec.kind)) {
+            warnings.push({ shape: shape.name, field: name, paths: spec.paths, problem: 'type', actual: kindOf(found) });
+        }
+    }
+    return warnings;
+};
+
+// --- Drift registry ---
+const endpoints = new Map<string, EndpointHealth>();
+const drift = new Map<string, DriftRecord>();
+const listeners = new Set<Listener>();
+let snapshot: ParserHealth = { endpoints: [], drift: [] };
+let emitScheduled = false;
+
+// List endpoints validate dozens of items at once; notify once per batch.
+const scheduleEmit = () => {
+    if (emitScheduled) return;
+    emitScheduled = true;
+    queueMicrotask(() => {
+        emitScheduled = false;
+        snapshot = {
+            endpoints: Array.from(endpoints.values()).map(e => ({ ...e })),
+            drift: Array.from(drift.values()).sort((a, b) => b.lastSeenAt - a.lastSeenAt).map(d => ({ ...d })),
+        };
+        listeners.forEach(listener => listener());
+    });
+};
+
+export const recordValidation = (endpoint: string, warnings: SchemaWarning[], sampleId?: string) => {
+    const now = Date.now();
+    const health = endpoints.get(endpoint) || { endpoint, checked: 0, withWarnings: 0, lastCheckedAt: now };
+    health.checked++;
+    health.lastCheckedAt = now;
+    if (warnings.length > 0) health.withWarnings++;
+    endpoints.set(endpoint, health);
+
+    for (const warning of warnings) {
+        const key = `${endpoint}|${warning.shape}|${warning.field}|${warning.problem}`;
+        const existing = drift.get(key);
+        if (existing) {
+            existing.count++;
+            existing.lastSeenAt = now;
+            existing.actual = warning.actual;
+            if (sampleId) existing.sampleId = sampleId;
+        } else {
+            drift.set(key, { endpoint, ...warning, count: 1, firstSeenAt: now, lastSeenAt: now, sampleId });
+            if (drift.size > MAX_DRIFT_RECORDS) {
+                const oldest = Array.from(drift.entries()).sort((a, b) => a[1].lastSeenAt - b[1].lastSeenAt)[0];
+                drift.delete(oldest[0]);
+            }
+        }
+    }
+    scheduleEmit();
+};
+
+// Records the warnings of a mapped result and hands back its value.
+export const unwrap = <T>(endpoint: string, result: Mapped<T>, sampleId?: string): T => {
+    recordValidation(endpoint, result.warnings, sampleId);
+    return result.value;
+};
+
+// Maps a raw list with one of the mappers, records drift under the endpoint and keeps the items that could be mapped.
+export const mapList = <T>(endpoint: string, items: any, mapper: (item: any) => Mapped<T | null>): T[] =>
+    (Array.isArray(items) ? items : [])
+        .map(item => unwrap(endpoint, mapper(item), item?.id || item?.content_id || item?.videoId))
+        .filter((v): v is T => v !== null);
+
+export const getParserHealth = (): ParserHealth => snapshot;
+
+export const subscribeParserHealth = (listener: Listener) => {
+    listeners.add(listener);
+    return () => { listeners.delete(listener); };
+};
+
+export const clearParserHealth = () => {
+    endpoints.clear();
+    drift.clear();
+    scheduleEmit();
+};
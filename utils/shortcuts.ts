@@ -0,0 +1,162 @@
+// --- Keyboard Shortcuts ---
+// One window keydown listener for the whole app. Components register handlers for
+// named actions (useShortcuts) and this module maps keys to actions through the
+// user's bindings, so pages never compare e.key themselves and every key can be
+// rebound. When several mounted components handle the same action, the most
+// recently registered one wins; a key bound to several actions goes to the first
+// one that has a handler (ArrowUp is volume on the watch page, previous in Shorts).
+// PreferenceContext owns the editable bindings; this module keeps the active copy.
+
+export type ShortcutAction =
+    | 'togglePlay' | 'seekBack' | 'seekForward' | 'seekBackShort' | 'seekForwardShort'
+    | 'volumeUp' | 'volumeDown' | 'toggleMute' | 'speedUp' | 'speedDown' | 'seekPercent'
+    | 'toggleFullscreen' | 'toggleTheater' | 'toggleCaptions' | 'nextVideo'
+    | 'shortsPrevious' | 'shortsNext'
+    | 'focusSearch' | 'showHelp';
+
+export type ShortcutGroup = 'player' | 'shorts' | 'general';
+
+export interface ShortcutDefinition {
+    action: ShortcutAction;
+    label: string;
+    group: ShortcutGroup;
+    defaultKeys: string[];
+    fixed?: boolean;        // Shown in the cheat-sheet but not rebindable
+}
+
+// Overrides only; actions missing here use their default keys
+export type ShortcutBindings = Partial<Record<ShortcutAction, string[]>>;
+
+// A handler returns false when it can't act right now, so the key falls through
+export type ShortcutHandler = (event: KeyboardEvent) => void | boolean;
+
+export const SHORTCUT_BINDINGS_KEY = 'shortcutBindings';
+
+export const SHORTCUT_GROUP_LABELS: Record<ShortcutGroup, string> = {
+    player: '再生',
+    shorts: 'ショート',
+    general: '全般',
+};
+
+export const SHORTCUT_DEFINITIONS: ShortcutDefinition[] = [
+    { action: 'togglePlay', label: '再生 / 一時停止', group: 'player', defaultKeys: ['k', 'Space'] },
+    { action: 'seekBack', label: '10秒戻る', group: 'player', defaultKeys: ['j'] },
+    { action: 'seekForward', label: '10秒進む', group: 'player', defaultKeys: ['l'] },
+    { action: 'seekBackShort', label: '5秒戻る', group: 'player', defaultKeys: ['ArrowLeft'] },
+    { action: 'seekForwardShort', label: '5秒進む', group: 'player', defaultKeys: ['ArrowRight'] },
+    { action: 'volumeUp', label: '音量を上げる', group: 'player', defaultKeys: ['ArrowUp'] },
+    { action: 'volumeDown', label: '音量を下げる', group: 'player', defaultKeys: ['ArrowDown'] },
+    { action: 'toggleMute', label: 'ミュート', group: 'player', defaultKeys: ['m'] },
+    { action: 'speedUp', label: '再生速度を上げる', group: 'player', defaultKeys: ['>'] },
+    { action: 'speedDown', label: '再生速度を下げる', group: 'player', defaultKeys: ['<'] },
+    { action: 'seekPercent', label: '動画の 0%〜90% に移動', group: 'player', defaultKeys: ['0-9'], fixed: true },
+    { action: 'toggleFullscreen', label: '全画面表示', group: 'player', defaultKeys: ['f'] },
+    { action: 'toggleTheater', label: 'シアターモード', group: 'player', defaultKeys: ['t'] },
+    { action: 'toggleCaptions', label: '字幕のオン / オフ', group: 'player', defaultKeys: ['c'] },
+    { action: 'nextVideo', label: '次の動画', group: 'player', defaultKeys: ['Shift+n'] },
+    { action: 'shortsPrevious', label: '前のショート', group: 'shorts', defaultKeys: ['ArrowUp'] },
+    { action: 'shortsNext', label: '次のショート', group: 'shorts', defaultKeys: ['ArrowDown'] },
+    { action: 'focusSearch', label: '検索ボックスに移動', group: 'general', defaultKeys: ['/'] },
+    { action: 'showHelp', label: 'ショートカット一覧', group: 'general', defaultKeys: ['?'] },
+];
+
+const MODIFIER_KEYS = ['Shift', 'Control', 'Alt', 'Meta', 'AltGraph', 'CapsLock'];
+// A focused <video> already handles these itself
+const NATIVE_MEDIA_KEYS = ['Space', 'ArrowLeft', 'ArrowRight', 'ArrowUp', 'ArrowDown'];
+
+const readStoredBindings = (): ShortcutBindings => {
+    try {
+        const stored = JSON.parse(localStorage.getItem(SHORTCUT_BINDINGS_KEY) || '{}');
+        return stored && typeof stored === 'object' && !Array.isArray(stored) ? stored : {};
+    } catch (e) {
+        return {};
+    }
+};
+
+let activeBindings: ShortcutBindings = typeof localStorage !== 'undefined' ? readStoredBindings() : {};
+const handlers = new Map<ShortcutAction, ShortcutHandler[]>();
+
+export const getShortcutBindings = (): ShortcutBindings => activeBindings;
+
+export const setShortcutBindings = (bindings: ShortcutBindings) => {
+    activeBindings = bindings;
+};
+
+export const getShortcutKeys = (action: ShortcutAction, bindings: ShortcutBindings = activeBindings): string[] => {
+    const definition = SHORTCUT_DEFINITIONS.find(d => d.action === action);
+    if (!definition) return [];
+    return (!definition.fixed && bindings[action]) || definition.defaultKeys;
+};
+
+// Combos are stored as 'Ctrl+Alt+Meta+Shift+key'. Shift is only spelled out for letters
+// and named keys, since for symbols it is already part of the character ('?', '>').
+export const comboFromEvent = (event: KeyboardEvent): string | null => {
+    if (MODIFIER_KEYS.includes(event.key)) return null;
+    let key = event.key === ' ' ? 'Space' : event.key;
+    if (key.length === 1) key = key.toLowerCase();
+    const parts: string[] = [];
+    if (event.ctrlKey) parts.push('Ctrl');
+    if (event.altKey) parts.push('Alt');
+    if (event.metaKey) parts.push('Meta');
+    if (event.shiftKey && (/^[a-z]$/.test(key) || key.length > 1)) parts.push('Shift');
+    return [...parts, key].join('+');
+};
+
+const KEY_LABELS: Record<string, string> = {
+    Space: 'Space', ArrowLeft: '←', ArrowRight: '→', ArrowUp: '↑', ArrowDown: '↓', Escape: 'Esc',
+};
+
+export const formatCombo = (combo: string): string => combo
+    .split('+')
+    .map((part, index, parts) => index < parts.length - 1 ? part : KEY_LABELS[part] || (part.length === 1 ? part.toUpperCase() : part))
+    .join(' + ');
+
+export const isTypingTarget = (target: EventTarget | null) => {
+    if (!(target instanceof HTMLElement)) return false;
+    return target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName);
+};
+
+const matchingActions = (combo: string): ShortcutAction[] => {
+    if (/^[0-9]$/.test(combo)) return ['seekPercent'];
+    return SHORTCUT_DEFINITIONS
+        .filter(d => !d.fixed && getShortcutKeys(d.action).includes(combo))
+        .map(d => d.action);
+};
+
+const handleKeyDown = (event: KeyboardEvent) => {
+    if (event.defaultPrevented || isTypingTarget(event.target)) return;
+    const combo = comboFromEvent(event);
+    if (!combo) return;
+    if (event.target instanceof HTMLMediaElement && NATIVE_MEDIA_KEYS.includes(combo)) return;
+
+    for (const action of matchingActions(combo)) {
+        const stack = handlers.get(action);
+        const handler = stack?.[stack.length - 1];
+        if (handler && handler(event) !== false) {
+            event.preventDefault();
+            return;
+        }
+    }
+};
+
+export const registerShortcut = (action: ShortcutAction, handler: ShortcutHandler): (() => void) => {
+    if (handlers.size === 0) window.addEventListener('keydown', handleKeyDown);
+    const stack = handlers.get(action) || [];
+    handlers.set(action, [...stack, handler]);
+    return () => {
+        const remaining = (handlers.get(action) || []).filter(h => h !== handler);
+        if (remaining.length > 0) handlers.set(action, remaining);
+        else handlers.delete(action);
+        if (handlers.size === 0) window.removeEventListener('keydown', handleKeyDown);
+    };
+};
+
+// A combo already used by another action of a group that can be active at the same time
+export const findShortcutConflict = (action: ShortcutAction, combo: string, bindings: ShortcutBindings): ShortcutDefinition | null => {
+    const group = SHORTCUT_DEFINITIONS.find(d => d.action === action)?.group;
+    return SHORTCUT_DEFINITIONS.find(d =>
+        d.action !== action &&
+        (d.group === group || d.group === 'general' || group === 'general') &&
+        getShortcutKeys(d.action, bindings).includes(combo)
+    ) || null;
+};